@@ -3,21 +3,34 @@ import { ReplayVoting } from './components/ReplayVoting';
 import { PlayersModal } from './components/PlayersModal';
 import { useSimpleLocalGame } from './hooks/useSimpleLocalGame';
 import { useMultiplayerGame } from './hooks/useMultiplayerGame';
-import { Board, MobileNavbar, PlayerTurnInfo, RulesModal, MobilePlayerInventory, ModeSelection, OnlineMenu, LocalGameConfig } from './components';
+import { useRoomChat } from './hooks/useRoomChat';
+import { useSocket } from './hooks/useSocket';
+import { Board, MobileNavbar, PlayerTurnInfo, RulesModal, MobilePlayerInventory, ModeSelection, OnlineMenu, LocalGameConfig, MoveHistory, ReplayViewer, UpdateRequired, ChatPanel, ProposalPrompt } from './components';
+import { notationFromEvents } from '@mortpion/shared';
+import type { NotationGame } from '@mortpion/shared';
 
 function App() {
-  const [gameMode, setGameMode] = useState<'menu' | 'mode-selection' | 'local-config' | 'local' | 'online-menu' | 'online-game'>('menu');
-  const [playerCount] = useState<2 | 3 | 4>(2);
-  const [showRules, setShowRules] = useState(false);
-  const [showPlayers, setShowPlayers] = useState(false);
-  const [playerName, setPlayerName] = useState('');
-  
   // Local game hook
   const localGame = useSimpleLocalGame();
 
   // Multiplayer game hook
   const multiGame = useMultiplayerGame();
 
+  // Discussion du salon, une fois la place (ou le siège de spectateur) confirmée par le serveur
+  const chat = useRoomChat(multiGame.roomId, multiGame.room !== null && !multiGame.isRejoining);
+
+  // Version du client refusée par le serveur
+  const { upgradeRequired } = useSocket();
+
+  // Après un rechargement, revenir directement à la partie en ligne en cours
+  const [gameMode, setGameMode] = useState<'menu' | 'mode-selection' | 'local-config' | 'local' | 'online-menu' | 'online-game'>(
+    multiGame.roomId ? 'online-game' : 'menu'
+  );
+  const [showRules, setShowRules] = useState(false);
+  const [showPlayers, setShowPlayers] = useState(false);
+  const [playerName, setPlayerName] = useState('');
+  const [replayGame, setReplayGame] = useState<NotationGame | string | null>(null); // partie revue dans le lecteur
+
   // Determine current game context
   const isLocalMode = gameMode === 'local';
   
@@ -31,7 +44,7 @@ function App() {
       return {
         type: 'draw' as const,
         winner: undefined,
-        condition: 'Match nul'
+        condition: multiGame.gameState.endReason === 'agreement' ? 'agreement' : 'Match nul'
       };
     }
     
@@ -40,7 +53,10 @@ function App() {
       return {
         type: 'victory' as const,
         winner: winner?.nickname || 'Joueur inconnu',
-        condition: 'Victoire'
+        condition: multiGame.gameState.endReason === 'forfeit' || multiGame.gameState.endReason === 'timeout'
+          ? multiGame.gameState.endReason
+          : multiGame.gameState.winningPattern?.condition,
+        winningCells: multiGame.gameState.winningPattern?.cells
       };
     }
     
@@ -60,9 +76,10 @@ function App() {
   const handleBackToMenu = () => {
     if (gameMode === 'local') {
       localGame.resetGame();
-    } else if (gameMode === 'online-game' && multiGame.roomId) {
+    } else if (gameMode === 'online-game') {
       multiGame.leaveRoom();
     }
+    setReplayGame(null);
     setGameMode('menu');
   };
 
@@ -71,6 +88,11 @@ function App() {
     setGameMode('online-game');
   };
 
+  const handleSpectateRoom = (roomId: string, accessCode?: string) => {
+    multiGame.spectateRoom(roomId, accessCode);
+    setGameMode('online-game');
+  };
+
   const handleCellClick = (position: { row: number; col: number }) => {
     if (selectedPiece && isGameActive) {
       if (isLocalMode) {
@@ -97,6 +119,11 @@ function App() {
     }
   };
 
+  // Client obsolète : seul un rechargement permet de rejouer en ligne (le jeu local reste disponible)
+  if (upgradeRequired && (gameMode === 'online-menu' || gameMode === 'online-game')) {
+    return <UpdateRequired />;
+  }
+
   // Menu principal - Mobile-only design (même sur desktop)
   if (gameMode === 'menu') {
     return (
@@ -177,12 +204,23 @@ function App() {
       <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex justify-center">
         <div className="w-full max-w-sm bg-gradient-to-br from-blue-50 to-indigo-100 flex flex-col justify-center p-4">
           <LocalGameConfig
-            onStartGame={(playerCount) => {
-              localGame.startLocalGame(playerCount);
+            onStartGame={(playerCount, rules, seats) => {
+              localGame.startLocalGame(playerCount, rules, seats);
               setGameMode('local');
             }}
+            onImportGame={(notation) => {
+              const error = localGame.importLocalGame(notation);
+              if (!error) setGameMode('local');
+              return error;
+            }}
+            onWatchReplay={setReplayGame}
             onBack={() => setGameMode('mode-selection')}
           />
+          <ReplayViewer
+            isOpen={replayGame !== null}
+            game={replayGame}
+            onClose={() => setReplayGame(null)}
+          />
         </div>
       </div>
     );
@@ -195,6 +233,7 @@ function App() {
         <div className="w-full max-w-sm bg-gradient-to-br from-blue-50 to-indigo-100 flex flex-col min-h-screen">
           <OnlineMenu
             onJoinGame={handleJoinRoom}
+            onSpectateGame={handleSpectateRoom}
             onBack={() => setGameMode('mode-selection')}
             playerName={playerName}
             setPlayerName={setPlayerName}
@@ -220,8 +259,51 @@ function App() {
           onRulesClick={() => setShowRules(true)}
           onPlayersClick={() => setShowPlayers(true)}
           showPlayersButton={gameMode === 'online-game'}
+          onChatClick={gameMode === 'online-game' ? (chat.isOpen ? chat.closeChat : chat.openChat) : undefined}
+          unreadCount={chat.unreadCount}
+          onLeaveGameClick={gameMode === 'online-game' && multiGame.canForfeit ? handleBackToMenu : undefined}
+          leaveGameWarning={multiGame.opponentsLeft === 1
+            ? 'Votre adversaire gagnera par forfait.'
+            : 'Vous serez éliminé : vos pièces posées restent sur le plateau et la partie continue sans vous.'}
+          onOfferDrawClick={gameMode === 'online-game' && multiGame.canProposeDraw ? multiGame.offerDraw : undefined}
+          onTakebackClick={gameMode === 'online-game' && multiGame.canRequestTakeback ? multiGame.requestTakeback : undefined}
+          onPauseClick={gameMode === 'online-game' && multiGame.canRequestPause ? multiGame.requestPause : undefined}
+          onResumeClick={gameMode === 'online-game' && multiGame.canResume ? multiGame.resumeGame : undefined}
         />
 
+        {/* Bandeau de reconnexion - multijoueur uniquement */}
+        {gameMode === 'online-game' && multiGame.isRejoining && (
+          <div className="mx-4 mt-2 py-2 px-3 rounded-lg bg-amber-100 text-amber-800 text-sm text-center animate-pulse">
+            🔄 Reconnexion à la partie…
+          </div>
+        )}
+        {gameMode === 'online-game' && multiGame.isSpectator && !multiGame.rejoinError && (
+          <div className="mx-4 mt-2 py-2 px-3 rounded-lg bg-gray-100 text-gray-700 text-sm text-center">
+            👁️ Vous regardez cette partie
+          </div>
+        )}
+        {gameMode === 'online-game' && multiGame.rejoinError && (
+          <div className="mx-4 mt-2 py-2 px-3 rounded-lg bg-red-100 text-red-700 text-sm flex items-center justify-between gap-2">
+            <span>{multiGame.rejoinError}</span>
+            <button
+              onClick={handleBackToMenu}
+              className="py-1 px-2 rounded-lg bg-white text-red-700 font-medium hover:bg-red-50 transition-colors"
+            >
+              Menu
+            </button>
+          </div>
+        )}
+
+        {/* Nulle proposée ou reprise demandée - multijoueur uniquement */}
+        {gameMode === 'online-game' && (
+          <ProposalPrompt
+            proposal={multiGame.proposal}
+            players={multiGame.gameState?.players || []}
+            myPlayerId={multiGame.myPlayerId}
+            onRespond={multiGame.respondToProposal}
+          />
+        )}
+
         {/* Player Turn Info - Mobile-only design */}
         {(gameMode === 'local' || gameMode === 'online-game') && (
           <PlayerTurnInfo 
@@ -229,9 +311,21 @@ function App() {
             currentPlayerColor={isLocalMode ? currentPlayer?.color : multiGame.activePlayer?.color}
             gameStatus={gameStatus}
             gameResult={gameResult}
-            isMyTurn={isLocalMode ? true : multiGame.isMyTurn}
+            isMyTurn={isLocalMode ? !localGame.isBotTurn : multiGame.isMyTurn}
             isLocalMode={isLocalMode}
+            isBotThinking={isLocalMode ? localGame.isBotThinking : gameStatus === 'playing' && !!multiGame.activePlayer?.isBot}
             timeLeft={gameMode === 'online-game' ? multiGame.gameState?.turnTimeLeft : undefined}
+            lowTime={gameMode === 'online-game' && multiGame.lowTime}
+            playerClocks={gameMode === 'online-game'
+              ? multiGame.gameState?.players
+                  .filter(p => p.id in multiGame.clocks)
+                  .map(p => ({ id: p.id, nickname: p.nickname, color: p.color, timeLeft: multiGame.clocks[p.id] }))
+              : undefined}
+            pause={gameMode === 'online-game' && multiGame.pause ? {
+              reason: multiGame.pause.reason,
+              playerName: multiGame.gameState?.players.find(p => p.id === multiGame.pause!.playerId)?.nickname ?? 'un joueur'
+            } : null}
+            resumeIn={gameMode === 'online-game' ? multiGame.resumeIn : null}
           />
         )}
 
@@ -241,20 +335,44 @@ function App() {
       <div className="flex-1 flex flex-col items-center justify-center px-4 py-2 gap-4">
         {/* Restart Button - Visible only when game is finished */}
         {gameStatus === 'finished' && isLocalMode && (
-          <button
-            onClick={() => localGame.startLocalGame(playerCount)}
-            className="px-6 py-2 bg-blue-500 hover:bg-blue-600 text-white rounded-lg font-medium transition-colors text-lg shadow-lg flex items-center gap-2"
-          >
-            <span>🔄</span>
-            <span>Recommencer</span>
-          </button>
+          <div className="flex gap-2">
+            <button
+              onClick={() => localGame.startLocalGame(localGame.players.length as 2 | 3 | 4, localGame.rules, localGame.seats)}
+              className="px-6 py-2 bg-blue-500 hover:bg-blue-600 text-white rounded-lg font-medium transition-colors text-lg shadow-lg flex items-center gap-2"
+            >
+              <span>🔄</span>
+              <span>Recommencer</span>
+            </button>
+            <button
+              onClick={() => setReplayGame(localGame.exportLocalGame())}
+              title="Revoir la partie"
+              className="px-4 py-2 bg-white hover:bg-gray-50 text-gray-700 rounded-lg font-medium transition-colors text-lg shadow-lg"
+            >
+              🎬
+            </button>
+          </div>
         )}
         
         <Board
           board={board}
           onCellClick={handleCellClick}
           selectedPiece={selectedPiece}
+          winningCells={gameResult?.type === 'victory' ? gameResult.winningCells : undefined}
+          disabled={isLocalMode && localGame.isBotTurn}
         />
+
+        {/* Move history with undo/redo - local mode only */}
+        {isLocalMode && (
+          <MoveHistory
+            moves={localGame.moveHistory}
+            boardSize={board.length}
+            canUndo={localGame.canUndo}
+            canRedo={localGame.canRedo}
+            onUndo={localGame.undo}
+            onRedo={localGame.redo}
+            getNotation={localGame.exportLocalGame}
+          />
+        )}
       </div>
 
       {/* Mobile Player Inventory - Sticky bottom */}
@@ -263,7 +381,7 @@ function App() {
           inventory={currentPlayer.inventory}
           color={currentPlayer.color}
           playerName={currentPlayer.nickname}
-          isCurrentPlayer={isLocalMode || multiGame.isMyTurn}
+          isCurrentPlayer={isLocalMode ? !localGame.isBotTurn : multiGame.isMyTurn}
           onPieceSelect={(size) => handlePieceSelect(size, currentPlayer.color)}
           selectedPiece={selectedPiece}
         />
@@ -276,7 +394,7 @@ function App() {
         />
 
         {/* Replay Voting Modal */}
-        {!isLocalMode && (multiGame.replayDeadline || multiGame.showReturnToLobby) && (
+        {!isLocalMode && !multiGame.isSpectator && (multiGame.replayDeadline || multiGame.showReturnToLobby) && (
           <ReplayVoting
             replayDeadline={multiGame.replayDeadline}
             replayVotes={multiGame.replayVotes}
@@ -287,16 +405,49 @@ function App() {
             showReturnToLobby={multiGame.showReturnToLobby}
             winnerId={multiGame.gameState?.winnerId}
             isDraw={multiGame.gameState?.isDraw}
+            onWatchReplay={() => setReplayGame(notationFromEvents(multiGame.gameEvents ?? []))}
           />
         )}
 
+        {/* Replay Viewer */}
+        <ReplayViewer
+          isOpen={replayGame !== null}
+          game={replayGame}
+          onClose={() => setReplayGame(null)}
+        />
+
         {/* Players Modal */}
         {gameMode === 'online-game' && (
           <PlayersModal
             isOpen={showPlayers}
             onClose={() => setShowPlayers(false)}
-            players={multiGame.gameState?.players || []}
-            currentPlayerId={multiGame.gameState?.currentPlayerId}
+            players={gameStatus === 'waiting' ? multiGame.room?.players || [] : multiGame.gameState?.players || []}
+            currentPlayerId={multiGame.gameState?.currentPlayerId ?? undefined}
+            strikesLeft={gameStatus === 'playing' ? multiGame.strikesLeft : undefined}
+            emptySeats={gameStatus === 'waiting' && multiGame.room ? multiGame.room.capacity - multiGame.room.players.length : 0}
+            spectatorCount={multiGame.spectatorCount}
+            onAddBot={multiGame.isHost ? multiGame.addBot : undefined}
+            hostId={multiGame.room?.hostId}
+            mutedPlayerIds={chat.mutedPlayerIds}
+            onToggleMute={multiGame.isHost ? chat.setPlayerMuted : undefined}
+            onKickPlayer={multiGame.isHost && gameStatus === 'waiting' ? multiGame.kickPlayer : undefined}
+            onTransferHost={multiGame.isHost ? multiGame.transferHost : undefined}
+            onStartGame={multiGame.isHost && multiGame.canStartEarly ? multiGame.startGame : undefined}
+          />
+        )}
+
+        {/* Discussion du salon */}
+        {gameMode === 'online-game' && (
+          <ChatPanel
+            isOpen={chat.isOpen}
+            onClose={chat.closeChat}
+            messages={chat.messages}
+            myPlayerId={multiGame.myPlayerId}
+            canPost={!multiGame.isSpectator}
+            isMuted={chat.isMuted}
+            error={chat.error}
+            onSend={chat.sendMessage}
+            onClearError={chat.clearError}
           />
         )}
         </div>
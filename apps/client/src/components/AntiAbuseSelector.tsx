@@ -0,0 +1,63 @@
+import type { AntiAbusePolicy } from '@mortpion/shared';
+
+interface AntiAbuseSelectorProps {
+  value: AntiAbusePolicy;
+  onChange: (policy: AntiAbusePolicy) => void;
+}
+
+const CONSECUTIVE_SKIPS = [1, 2, 3, 5];
+const TOTAL_SKIPS = [3, 5, 10];
+
+// Anti-abus : un joueur qui laisse passer trop de tours est éliminé
+export function AntiAbuseSelector({ value, onChange }: AntiAbuseSelectorProps) {
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2">
+        Anti-abus
+      </label>
+      <div className="grid grid-cols-2 gap-2">
+        <select
+          value={value.enabled ? value.maxConsecutiveSkips : 0}
+          onChange={(e) => {
+            const skips = Number(e.target.value);
+            onChange(skips === 0 ? { ...value, enabled: false } : { ...value, enabled: true, maxConsecutiveSkips: skips });
+          }}
+          className="py-2 px-1 border border-gray-300 rounded-lg text-sm"
+        >
+          <option value={0}>Désactivé</option>
+          {CONSECUTIVE_SKIPS.map((skips) => (
+            <option key={skips} value={skips}>
+              {skips} tour{skips > 1 ? 's' : ''} passé{skips > 1 ? 's' : ''} de suite
+            </option>
+          ))}
+        </select>
+        <select
+          value={value.maxTotalSkips ?? 0}
+          onChange={(e) => onChange({ ...value, maxTotalSkips: Number(e.target.value) || null })}
+          disabled={!value.enabled}
+          className="py-2 px-1 border border-gray-300 rounded-lg text-sm disabled:opacity-50"
+        >
+          <option value={0}>Sans limite sur la partie</option>
+          {TOTAL_SKIPS.map((skips) => (
+            <option key={skips} value={skips}>
+              {skips} tours passés au total
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="flex items-center gap-2 mt-2">
+        <input
+          type="checkbox"
+          id="countDisconnections"
+          checked={value.countDisconnections}
+          onChange={(e) => onChange({ ...value, countDisconnections: e.target.checked })}
+          disabled={!value.enabled}
+          className="rounded"
+        />
+        <label htmlFor="countDisconnections" className="text-sm text-gray-700">
+          Compter les tours passés pendant une déconnexion
+        </label>
+      </div>
+    </div>
+  );
+}
@@ -10,29 +10,43 @@ interface BoardProps {
   board: BoardState;
   onCellClick?: (position: Position) => void;
   selectedPiece?: { size: 'P' | 'M' | 'G'; color: string } | null;
+  winningCells?: number[];
+  disabled?: boolean; // plateau verrouillé (ex. l'ordinateur réfléchit)
 }
 
+// Classes Tailwind statiques par taille de plateau (les classes dynamiques ne sont pas générées)
+const gridClasses: Record<number, string> = {
+  3: 'grid-cols-3 w-72 h-72',
+  4: 'grid-cols-4 w-80 h-80',
+  5: 'grid-cols-5 w-80 h-80 sm:w-96 sm:h-96'
+};
+
 export const Board: React.FC<BoardProps> = ({ 
   board, 
   onCellClick, 
-  selectedPiece 
+  selectedPiece,
+  winningCells = [],
+  disabled = false
 }) => {
+  const size = board.length;
+
   const handleCellClick = (row: number, col: number) => {
-    if (onCellClick) {
+    if (onCellClick && !disabled) {
       onCellClick({ row, col });
     }
   };
 
   return (
     <div className="bg-white p-6 rounded-xl shadow-lg">
-      <div className="grid grid-cols-3 gap-2 w-72 h-72 mx-auto">
-        {Array.from({ length: 3 }, (_, row) =>
-          Array.from({ length: 3 }, (_, col) => (
+      <div className={`grid ${gridClasses[size] ?? gridClasses[3]} ${size > 3 ? 'gap-1' : 'gap-2'} mx-auto ${disabled ? 'pointer-events-none opacity-80' : ''}`}>
+        {Array.from({ length: size }, (_, row) =>
+          Array.from({ length: size }, (_, col) => (
             <Cell
               key={`${row}-${col}`}
               pieces={board[row][col]}
               onClick={() => handleCellClick(row, col)}
-              isHighlighted={selectedPiece !== null}
+              isHighlighted={selectedPiece !== null && !disabled}
+              isWinning={winningCells.includes(row * size + col)}
               position={{ row, col }}
             />
           ))
@@ -0,0 +1,59 @@
+import { BOARD_SIZES } from '@mortpion/shared';
+
+interface BoardSizeSelectorProps {
+  boardSize: number;
+  lineLength: number;
+  onChange: (boardSize: number, lineLength: number) => void;
+}
+
+export function BoardSizeSelector({ boardSize, lineLength, onChange }: BoardSizeSelectorProps) {
+  // L'alignement ne peut pas dépasser la taille du plateau
+  const lineLengths = BOARD_SIZES.filter(length => length <= boardSize);
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Taille du plateau
+        </label>
+        <div className="grid grid-cols-3 gap-2">
+          {BOARD_SIZES.map((size) => (
+            <button
+              key={size}
+              type="button"
+              onClick={() => onChange(size, Math.min(lineLength, size))}
+              className={`py-2 px-2 rounded-lg font-medium transition-colors text-sm ${
+                boardSize === size
+                  ? 'bg-blue-500 text-white'
+                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {size}×{size}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Pièces à aligner
+        </label>
+        <div className="grid grid-cols-3 gap-2">
+          {lineLengths.map((length) => (
+            <button
+              key={length}
+              type="button"
+              onClick={() => onChange(boardSize, length)}
+              className={`py-2 px-2 rounded-lg font-medium transition-colors text-sm ${
+                lineLength === length
+                  ? 'bg-blue-500 text-white'
+                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {length}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
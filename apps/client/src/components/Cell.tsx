@@ -10,6 +10,7 @@ interface CellProps {
   pieces: PieceStack;
   onClick: () => void;
   isHighlighted?: boolean;
+  isWinning?: boolean;
   position: Position;
 }
 
@@ -17,6 +18,7 @@ export const Cell: React.FC<CellProps> = ({
   pieces, 
   onClick, 
   isHighlighted = false,
+  isWinning = false,
   position 
 }) => {
   return (
@@ -25,7 +27,7 @@ export const Cell: React.FC<CellProps> = ({
       className={`
         relative w-full h-full border-2 border-gray-300 rounded-lg
         cursor-pointer transition-all duration-200 hover:border-gray-400
-        ${isHighlighted ? 'bg-blue-50 border-blue-300' : 'bg-gray-50'}
+        ${isWinning ? 'bg-green-100 border-green-500 ring-2 ring-green-400' : isHighlighted ? 'bg-blue-50 border-blue-300' : 'bg-gray-50'}
         ${pieces.P || pieces.M || pieces.G ? '' : 'hover:bg-gray-100'}
       `}
       title={`Position ${position.row + 1},${position.col + 1}`}
@@ -0,0 +1,121 @@
+import { useEffect, useRef, useState } from 'react';
+import { CHAT_MAX_LENGTH } from '@mortpion/shared';
+import type { ChatMessage } from '@mortpion/shared';
+
+interface ChatPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  messages: ChatMessage[];
+  myPlayerId: string | null;
+  canPost: boolean; // les spectateurs lisent sans écrire
+  isMuted: boolean;
+  error: string | null;
+  onSend: (text: string) => void;
+  onClearError: () => void;
+}
+
+const formatTime = (sentAt: number) =>
+  new Date(sentAt).toLocaleTimeString('fr-FR', { hour: '2-digit', minute: '2-digit' });
+
+// Discussion du salon, repliable en bas de l'écran (sous la barre de navigation mobile)
+export function ChatPanel({ isOpen, onClose, messages, myPlayerId, canPost, isMuted, error, onSend, onClearError }: ChatPanelProps) {
+  const [draft, setDraft] = useState('');
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Garder le dernier message visible
+  useEffect(() => {
+    if (isOpen && listRef.current) {
+      listRef.current.scrollTop = listRef.current.scrollHeight;
+    }
+  }, [isOpen, messages.length]);
+
+  if (!isOpen) return null;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.trim()) return;
+    onSend(draft);
+    setDraft('');
+  };
+
+  return (
+    <div className="fixed inset-x-0 bottom-0 z-40 flex justify-center pointer-events-none">
+      <div className="w-full max-w-sm bg-white rounded-t-xl shadow-2xl border-t flex flex-col max-h-[60vh] pointer-events-auto">
+        {/* En-tête : un appui replie le panneau */}
+        <button
+          onClick={onClose}
+          className="flex items-center justify-between px-4 py-3 border-b min-h-[44px]"
+        >
+          <span className="font-semibold text-gray-800">💬 Discussion</span>
+          <span className="text-gray-500">▾</span>
+        </button>
+
+        {/* Messages */}
+        <div ref={listRef} className="flex-1 overflow-y-auto px-4 py-2 space-y-2">
+          {messages.length === 0 && (
+            <div className="text-sm text-gray-500 text-center py-4">Aucun message pour l'instant</div>
+          )}
+          {messages.map((message) => {
+            const isMine = message.playerId === myPlayerId;
+            return (
+              <div key={message.id} className={`flex flex-col ${isMine ? 'items-end' : 'items-start'}`}>
+                <div className="text-xs text-gray-500">
+                  {isMine ? 'Vous' : message.nickname} · {formatTime(message.sentAt)}
+                </div>
+                <div className={`px-3 py-2 rounded-lg text-sm break-words max-w-[85%] ${
+                  isMine ? 'bg-blue-500 text-white' : 'bg-gray-100 text-gray-800'
+                }`}>
+                  {message.text}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Erreur renvoyée par le serveur (limite de messages, sourdine...) */}
+        {error && (
+          <button
+            onClick={onClearError}
+            className="mx-4 mb-2 py-1 px-2 rounded-lg bg-red-100 text-red-700 text-xs text-left"
+          >
+            {error}
+          </button>
+        )}
+
+        {/* Saisie */}
+        {!canPost ? (
+          <div className="px-4 py-3 border-t text-sm text-gray-500 text-center">
+            👁️ Les spectateurs ne peuvent pas écrire
+          </div>
+        ) : isMuted ? (
+          <div className="px-4 py-3 border-t text-sm text-gray-500 text-center">
+            🔇 L'hôte vous a mis en sourdine
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="px-4 py-3 border-t flex gap-2 items-center">
+            <div className="flex-1 relative">
+              <input
+                type="text"
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                maxLength={CHAT_MAX_LENGTH}
+                placeholder="Votre message…"
+                className="w-full px-3 py-2 pr-12 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-400"
+              />
+              <span className="absolute right-2 top-1/2 -translate-y-1/2 text-xs text-gray-400">
+                {CHAT_MAX_LENGTH - draft.length}
+              </span>
+            </div>
+            <button
+              type="submit"
+              disabled={!draft.trim()}
+              className="px-4 py-2 bg-blue-500 hover:bg-blue-600 disabled:bg-gray-300 text-white rounded-lg font-medium text-sm transition-colors min-h-[40px]"
+            >
+              Envoyer
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import React from 'react';
 import { RoomStatus } from '@mortpion/shared';
+import type { PauseReason } from '@mortpion/shared';
 
 // Types pour l'interface
 type GameStatus = RoomStatus;
@@ -14,13 +15,21 @@ interface GameStatusProps {
   result?: GameResult;
   currentPlayerName?: string;
   currentPlayerColor?: string;
+  timeLeft?: number; // Secondes restantes pour le joueur au trait
+  lowTime?: boolean; // Alerte du serveur : le temps est presque écoulé
+  pause?: { reason: PauseReason; playerName: string } | null; // Partie en pause, pendules arrêtées
+  resumeIn?: number | null; // Secondes avant la reprise d'une partie en pause
 }
 
 export const GameStatus: React.FC<GameStatusProps> = ({
   status,
   result,
   currentPlayerName,
-  currentPlayerColor
+  currentPlayerColor,
+  timeLeft,
+  lowTime,
+  pause,
+  resumeIn
 }) => {
   const getStatusDisplay = () => {
     switch (status) {
@@ -32,10 +41,18 @@ export const GameStatus: React.FC<GameStatusProps> = ({
           icon: '⏳'
         };
       case 'playing':
+        if (pause) {
+          return {
+            text: resumeIn != null ? `Reprise dans ${resumeIn} s` : 'Partie en pause',
+            bgColor: 'bg-slate-100',
+            textColor: 'text-slate-800',
+            icon: '⏸️'
+          };
+        }
         return {
           text: `Tour de ${currentPlayerName || 'Joueur'}`,
-          bgColor: 'bg-blue-100',
-          textColor: 'text-blue-800',
+          bgColor: lowTime ? 'bg-red-100' : 'bg-blue-100',
+          textColor: lowTime ? 'text-red-800' : 'text-blue-800',
           icon: '🎮'
         };
       case 'finished':
@@ -83,8 +100,21 @@ export const GameStatus: React.FC<GameStatusProps> = ({
         {currentPlayerColor && status === 'playing' && (
           <div className={`w-4 h-4 rounded-full bg-${currentPlayerColor}-500 ml-2`}></div>
         )}
+        {timeLeft !== undefined && status === 'playing' && !pause && (
+          <span className={`font-mono ml-2 ${lowTime ? 'font-bold animate-pulse' : ''}`}>
+            {Math.floor(timeLeft / 60)}:{(timeLeft % 60).toString().padStart(2, '0')}
+          </span>
+        )}
       </div>
       
+      {pause && status === 'playing' && resumeIn == null && (
+        <div className="mt-2 text-sm opacity-80">
+          {pause.reason === 'disconnection'
+            ? `En attente du retour de ${pause.playerName}...`
+            : `Demandée par ${pause.playerName}`}
+        </div>
+      )}
+
       {result?.type === 'victory' && result.condition && (
         <div className="mt-2 text-sm opacity-80">
           Condition: {getVictoryConditionText(result.condition)}
@@ -96,12 +126,18 @@ export const GameStatus: React.FC<GameStatusProps> = ({
 
 const getVictoryConditionText = (condition: string): string => {
   switch (condition) {
+    case 'visible_line':
+      return 'Pièces visibles alignées';
     case 'same_size_line':
-      return '3 pièces de même taille alignées';
-    case 'different_size_line':
-      return '3 tailles différentes alignées';
+      return 'Pièces de même taille alignées';
+    case 'ordered_size_line':
+      return '3 tailles alignées dans l\'ordre (P-M-G)';
     case 'stack_complete':
       return 'Pile complète (P+M+G)';
+    case 'forfeit':
+      return 'Victoire par forfait';
+    case 'timeout':
+      return 'Victoire au temps';
     default:
       return condition;
   }
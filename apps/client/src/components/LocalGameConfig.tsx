@@ -1,12 +1,39 @@
 import { useState } from 'react';
+import { BotDifficulty, RuleSetConfig, RULE_SET_PRESETS } from '@mortpion/shared';
+import type { LocalSeat } from '../hooks/useSimpleLocalGame';
+import { RuleVariantSelector } from './RuleVariantSelector';
+import { BoardSizeSelector } from './BoardSizeSelector';
+
+const difficultyLabels: Record<BotDifficulty, string> = {
+  easy: 'Facile',
+  medium: 'Moyen',
+  hard: 'Difficile',
+};
+
+const seatColors = ['bg-red-500', 'bg-blue-500', 'bg-green-500', 'bg-yellow-500'];
 
 interface LocalGameConfigProps {
-  onStartGame: (playerCount: 2 | 3 | 4) => void;
+  onStartGame: (playerCount: 2 | 3 | 4, rules: RuleSetConfig, seats: LocalSeat[]) => void;
+  onImportGame: (notation: string) => string | null; // Renvoie une erreur si la notation est invalide
+  onWatchReplay: (notation: string) => void;
   onBack: () => void;
 }
 
-export function LocalGameConfig({ onStartGame, onBack }: LocalGameConfigProps) {
+export function LocalGameConfig({ onStartGame, onImportGame, onWatchReplay, onBack }: LocalGameConfigProps) {
   const [playerCount, setPlayerCount] = useState<2 | 3 | 4>(2);
+  const [ruleVariant, setRuleVariant] = useState<keyof typeof RULE_SET_PRESETS>('visible-only');
+  const [boardSize, setBoardSize] = useState({ boardSize: 3, lineLength: 3 });
+  const [seats, setSeats] = useState<LocalSeat[]>(
+    Array.from({ length: 4 }, () => ({ type: 'human', difficulty: 'medium' }))
+  );
+
+  const [showImport, setShowImport] = useState(false);
+  const [notation, setNotation] = useState('');
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const updateSeat = (index: number, seat: Partial<LocalSeat>) => {
+    setSeats(prev => prev.map((current, i) => (i === index ? { ...current, ...seat } : current)));
+  };
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex justify-center">
@@ -48,21 +75,117 @@ export function LocalGameConfig({ onStartGame, onBack }: LocalGameConfigProps) {
               </div>
             </div>
 
+            {/* Joueurs humains ou ordinateur */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-3">
+                Joueurs
+              </label>
+              <div className="space-y-2">
+                {seats.slice(0, playerCount).map((seat, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <span className={`w-3 h-3 rounded-full flex-shrink-0 ${seatColors[index]}`}></span>
+                    <div className="grid grid-cols-2 gap-1 flex-1">
+                      {(['human', 'bot'] as const).map((type) => (
+                        <button
+                          key={type}
+                          type="button"
+                          onClick={() => updateSeat(index, { type })}
+                          className={`py-2 px-2 rounded-lg font-medium transition-colors text-sm ${
+                            seat.type === type
+                              ? 'bg-green-500 text-white'
+                              : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                          }`}
+                        >
+                          {type === 'human' ? '👤 Humain' : '🤖 Ordinateur'}
+                        </button>
+                      ))}
+                    </div>
+                    {seat.type === 'bot' && (
+                      <select
+                        value={seat.difficulty}
+                        onChange={(e) => updateSeat(index, { difficulty: e.target.value as BotDifficulty })}
+                        className="py-2 px-1 border border-gray-300 rounded-lg text-sm"
+                      >
+                        {(Object.keys(difficultyLabels) as BotDifficulty[]).map((difficulty) => (
+                          <option key={difficulty} value={difficulty}>
+                            {difficultyLabels[difficulty]}
+                          </option>
+                        ))}
+                      </select>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Règles */}
+            <RuleVariantSelector value={ruleVariant} onChange={setRuleVariant} />
+
+            {/* Plateau */}
+            <BoardSizeSelector
+              boardSize={boardSize.boardSize}
+              lineLength={boardSize.lineLength}
+              onChange={(size, lineLength) => setBoardSize({ boardSize: size, lineLength })}
+            />
+
             {/* Description */}
             <div className="p-4 bg-green-50 rounded-lg">
               <p className="text-sm text-green-700">
-                <span className="font-medium">Mode local :</span> Tous les joueurs utilisent le même appareil et jouent chacun leur tour.
+                <span className="font-medium">Mode local :</span> Tous les joueurs utilisent le même appareil et jouent chacun leur tour. L'ordinateur joue automatiquement.
               </p>
             </div>
 
             {/* Bouton de démarrage */}
             <button
-              onClick={() => onStartGame(playerCount)}
+              onClick={() => onStartGame(playerCount, { ...RULE_SET_PRESETS[ruleVariant], ...boardSize }, seats.slice(0, playerCount))}
               className="w-full py-4 px-4 bg-green-500 hover:bg-green-600 text-white rounded-lg font-medium transition-colors text-lg min-h-[56px] flex items-center justify-center gap-2"
             >
               <span>🎮</span>
               <span>Commencer la partie</span>
             </button>
+
+            {/* Importer une partie en notation */}
+            <div>
+              <button
+                onClick={() => setShowImport(!showImport)}
+                className="w-full py-2 px-4 text-sm font-medium text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                📋 Importer une partie {showImport ? '▲' : '▼'}
+              </button>
+              {showImport && (
+                <div className="mt-2 space-y-2">
+                  <textarea
+                    value={notation}
+                    onChange={(e) => {
+                      setNotation(e.target.value);
+                      setImportError(null);
+                    }}
+                    placeholder={'[Variant "visible-only"]\n[Red "Alice"]\n[Blue "Bob"]\n\nR:G4 B:M0'}
+                    rows={6}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono text-xs focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                  />
+                  {importError && (
+                    <p className="text-sm text-red-600">{importError}</p>
+                  )}
+                  <div className="grid grid-cols-2 gap-2">
+                    <button
+                      onClick={() => onWatchReplay(notation)}
+                      disabled={!notation.trim()}
+                      className="py-3 px-4 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg font-medium transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                    >
+                      🎬 Revoir
+                    </button>
+                    <button
+                      onClick={() => setImportError(onImportGame(notation))}
+                      disabled={!notation.trim()}
+                      className="py-3 px-4 bg-gray-700 hover:bg-gray-800 text-white rounded-lg font-medium transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                    >
+                      Reprendre
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
           </div>
         </div>
       </div>
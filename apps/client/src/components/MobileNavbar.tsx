@@ -5,10 +5,19 @@ interface MobileNavbarProps {
   onRulesClick: () => void;
   onPlayersClick?: () => void;
   showPlayersButton?: boolean;
+  onChatClick?: () => void; // discussion du salon (multijoueur)
+  unreadCount?: number;
+  onLeaveGameClick?: () => void; // partie en ligne en cours
+  leaveGameWarning?: string;
+  onOfferDrawClick?: () => void; // nulle acceptée par tous les autres joueurs
+  onTakebackClick?: () => void; // reprise de son dernier coup, acceptée par tous les autres joueurs
+  onPauseClick?: () => void; // pause acceptée par tous les autres joueurs connectés
+  onResumeClick?: () => void; // reprise de la partie en pause, après un compte à rebours
 }
 
-export function MobileNavbar({ onBackClick, onRulesClick, onPlayersClick, showPlayersButton }: MobileNavbarProps) {
+export function MobileNavbar({ onBackClick, onRulesClick, onPlayersClick, showPlayersButton, onChatClick, unreadCount = 0, onLeaveGameClick, leaveGameWarning, onOfferDrawClick, onTakebackClick, onPauseClick, onResumeClick }: MobileNavbarProps) {
   const [showConfirmBack, setShowConfirmBack] = useState(false);
+  const [showConfirmLeave, setShowConfirmLeave] = useState(false);
   const [showMenu, setShowMenu] = useState(false);
 
   const handleBackClick = () => {
@@ -34,12 +43,27 @@ export function MobileNavbar({ onBackClick, onRulesClick, onPlayersClick, showPl
         
         <h1 className="text-xl font-bold text-gray-800">MortPion</h1>
         
-        <button
-          onClick={() => setShowMenu(!showMenu)}
-          className="p-2 text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-lg transition-colors min-h-[44px] min-w-[44px] flex items-center justify-center"
-        >
-          <span className="text-xl">⋮</span>
-        </button>
+        <div className="flex items-center">
+          {onChatClick && (
+            <button
+              onClick={onChatClick}
+              className="relative p-2 text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-lg transition-colors min-h-[44px] min-w-[44px] flex items-center justify-center"
+            >
+              <span className="text-xl">💬</span>
+              {unreadCount > 0 && (
+                <span className="absolute top-1 right-1 min-w-[18px] h-[18px] px-1 bg-red-500 text-white text-xs font-bold rounded-full flex items-center justify-center">
+                  {unreadCount > 9 ? '9+' : unreadCount}
+                </span>
+              )}
+            </button>
+          )}
+          <button
+            onClick={() => setShowMenu(!showMenu)}
+            className="p-2 text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-lg transition-colors min-h-[44px] min-w-[44px] flex items-center justify-center"
+          >
+            <span className="text-xl">⋮</span>
+          </button>
+        </div>
       </nav>
 
       {/* Menu dropdown */}
@@ -67,6 +91,66 @@ export function MobileNavbar({ onBackClick, onRulesClick, onPlayersClick, showPl
               <span>Voir les joueurs</span>
             </button>
           )}
+          {onTakebackClick && (
+            <button
+              onClick={() => {
+                setShowMenu(false);
+                onTakebackClick();
+              }}
+              className="w-full px-4 py-3 text-left hover:bg-gray-50 flex items-center gap-3 border-t"
+            >
+              <span>↩️</span>
+              <span>Reprendre mon coup</span>
+            </button>
+          )}
+          {onOfferDrawClick && (
+            <button
+              onClick={() => {
+                setShowMenu(false);
+                onOfferDrawClick();
+              }}
+              className="w-full px-4 py-3 text-left hover:bg-gray-50 flex items-center gap-3 border-t"
+            >
+              <span>🤝</span>
+              <span>Proposer la nulle</span>
+            </button>
+          )}
+          {onPauseClick && (
+            <button
+              onClick={() => {
+                setShowMenu(false);
+                onPauseClick();
+              }}
+              className="w-full px-4 py-3 text-left hover:bg-gray-50 flex items-center gap-3 border-t"
+            >
+              <span>⏸️</span>
+              <span>Demander une pause</span>
+            </button>
+          )}
+          {onResumeClick && (
+            <button
+              onClick={() => {
+                setShowMenu(false);
+                onResumeClick();
+              }}
+              className="w-full px-4 py-3 text-left hover:bg-gray-50 flex items-center gap-3 border-t"
+            >
+              <span>▶️</span>
+              <span>Reprendre la partie</span>
+            </button>
+          )}
+          {onLeaveGameClick && (
+            <button
+              onClick={() => {
+                setShowMenu(false);
+                setShowConfirmLeave(true);
+              }}
+              className="w-full px-4 py-3 text-left hover:bg-gray-50 flex items-center gap-3 border-t text-red-600"
+            >
+              <span>🏳️</span>
+              <span>Quitter la partie</span>
+            </button>
+          )}
         </div>
       )}
 
@@ -104,6 +188,35 @@ export function MobileNavbar({ onBackClick, onRulesClick, onPlayersClick, showPl
         </div>
       )}
 
+      {/* Modal de confirmation d'abandon (victoire par forfait à 2 joueurs, élimination au-delà) */}
+      {showConfirmLeave && onLeaveGameClick && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg p-6 max-w-sm w-full">
+            <h3 className="text-lg font-semibold mb-4">Quitter la partie</h3>
+            <p className="text-gray-600 mb-6">
+              {leaveGameWarning ?? 'Êtes-vous sûr de vouloir abandonner la partie ?'}
+            </p>
+            <div className="flex gap-3">
+              <button
+                onClick={() => setShowConfirmLeave(false)}
+                className="flex-1 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+              >
+                Annuler
+              </button>
+              <button
+                onClick={() => {
+                  setShowConfirmLeave(false);
+                  onLeaveGameClick();
+                }}
+                className="flex-1 px-4 py-2 bg-red-500 text-white rounded-lg hover:bg-red-600 transition-colors"
+              >
+                Quitter
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
     </>
   );
 }
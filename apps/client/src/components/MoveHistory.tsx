@@ -0,0 +1,103 @@
+import { useState } from 'react';
+import type { LocalMoveRecord } from '../hooks/useSimpleLocalGame';
+
+interface MoveHistoryProps {
+  moves: LocalMoveRecord[];
+  boardSize: number;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  getNotation?: () => string;
+}
+
+const colorDots = {
+  red: '🔴',
+  blue: '🔵',
+  green: '🟢',
+  yellow: '🟡',
+};
+
+export function MoveHistory({ moves, boardSize, canUndo, canRedo, onUndo, onRedo, getNotation }: MoveHistoryProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isCopied, setIsCopied] = useState(false);
+
+  // Copier la partie en notation dans le presse-papiers
+  const copyNotation = async () => {
+    if (!getNotation) return;
+    try {
+      await navigator.clipboard.writeText(getNotation());
+      setIsCopied(true);
+      setTimeout(() => setIsCopied(false), 2000);
+    } catch (error) {
+      console.error('Copie impossible:', error);
+    }
+  };
+
+  // Case affichée comme ligne,colonne (comme l'infobulle des cases)
+  const formatCell = (cellIndex: number) =>
+    `${Math.floor(cellIndex / boardSize) + 1},${(cellIndex % boardSize) + 1}`;
+
+  return (
+    <div className="w-full max-w-xs bg-white rounded-xl shadow-lg">
+      <div className="flex items-center gap-2 p-2">
+        <button
+          onClick={onUndo}
+          disabled={!canUndo}
+          className="flex-1 py-2 px-3 rounded-lg text-sm font-medium transition-colors bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          ↶ Annuler
+        </button>
+        <button
+          onClick={onRedo}
+          disabled={!canRedo}
+          className="flex-1 py-2 px-3 rounded-lg text-sm font-medium transition-colors bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          ↷ Rétablir
+        </button>
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="py-2 px-3 rounded-lg text-sm font-medium transition-colors bg-gray-100 text-gray-700 hover:bg-gray-200"
+        >
+          📜 {moves.length}
+        </button>
+      </div>
+
+      {/* Historique des coups */}
+      {isOpen && (
+        <div className="border-t max-h-48 overflow-y-auto">
+          {moves.length === 0 ? (
+            <div className="p-3 text-sm text-gray-500 text-center">Aucun coup joué</div>
+          ) : (
+            <ol className="divide-y">
+              {moves.map((move) => (
+                <li key={move.moveNumber} className="px-3 py-2 text-sm text-gray-700 flex items-start gap-2">
+                  <span className="font-mono text-gray-400 w-6 text-right">{move.moveNumber}.</span>
+                  <span>{colorDots[move.color]}</span>
+                  <span className="flex-1">
+                    <span className="font-medium">{move.playerName}</span>
+                    {move.isBot && ' 🤖'} : {move.size} en {formatCell(move.cellIndex)}
+                    {move.covered.length > 0 && (
+                      <span className="text-gray-500">
+                        {' '}({move.captured ? 'retire' : 'recouvre'}{' '}
+                        {move.covered.map(piece => `${piece.size}${colorDots[piece.color]}`).join(' ')})
+                      </span>
+                    )}
+                  </span>
+                </li>
+              ))}
+            </ol>
+          )}
+          {getNotation && (
+            <button
+              onClick={copyNotation}
+              className="w-full border-t py-2 px-3 text-sm font-medium text-gray-600 hover:bg-gray-50 transition-colors"
+            >
+              {isCopied ? '✓ Notation copiée' : '📋 Copier la notation'}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
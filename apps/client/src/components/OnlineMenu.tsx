@@ -1,32 +1,56 @@
 import { useState, useEffect } from 'react';
+import { DEFAULT_ANTI_ABUSE_POLICY, DEFAULT_RULE_VARIANT, DEFAULT_TIME_CONTROL, RULE_SET_PRESETS, RuleVariant } from '@mortpion/shared';
+import type { AntiAbusePolicy, ErrorPayload, ServerEventPayload, TimeControl } from '@mortpion/shared';
 import { useSocket } from '../hooks/useSocket';
+import { RuleVariantSelector } from './RuleVariantSelector';
+import { BoardSizeSelector } from './BoardSizeSelector';
+import { TimeControlSelector } from './TimeControlSelector';
+import { AntiAbuseSelector } from './AntiAbuseSelector';
 
 interface Room {
   id: string;
   name: string;
   playerCount: number;
   capacity: number;
+  spectatorCount?: number;
   isPrivate: boolean;
+  ruleVariant?: RuleVariant;
+  boardSize?: number;
+  lineLength?: number;
   status: string;
 }
 
+const ruleVariantLabels: Record<RuleVariant, string> = {
+  'visible-only': 'Visible',
+  'classic': 'Classique',
+  'no-replacement': 'Sans remplacement',
+  'custom': 'Personnalisé',
+};
+
 interface OnlineMenuProps {
   onBack: () => void;
   onJoinGame: (roomId: string) => void;
+  onSpectateGame: (roomId: string, accessCode?: string) => void;
   playerName: string;
   setPlayerName: (name: string) => void;
 }
 
-export function OnlineMenu({ onBack, onJoinGame, playerName, setPlayerName }: OnlineMenuProps) {
+export function OnlineMenu({ onBack, onJoinGame, onSpectateGame, playerName, setPlayerName }: OnlineMenuProps) {
   const { socket, isConnected, createRoom, joinRoom } = useSocket();
   const [rooms, setRooms] = useState<Room[]>([]);
   const [showCreateRoom, setShowCreateRoom] = useState(false);
   const [showJoinRoom, setShowJoinRoom] = useState(false);
   const [selectedRoom, setSelectedRoom] = useState<Room | null>(null);
+  const [isWatching, setIsWatching] = useState(false); // code demandé pour regarder plutôt que jouer
   const [accessCode, setAccessCode] = useState('');
   const [roomName, setRoomName] = useState('');
   const [isPrivate, setIsPrivate] = useState(false);
   const [capacity, setCapacity] = useState<2 | 3 | 4>(2);
+  const [ruleVariant, setRuleVariant] = useState<keyof typeof RULE_SET_PRESETS>(DEFAULT_RULE_VARIANT);
+  const [boardSize, setBoardSize] = useState({ boardSize: 3, lineLength: 3 });
+  const [timeControl, setTimeControl] = useState<TimeControl>(DEFAULT_TIME_CONTROL);
+  const [autoPause, setAutoPause] = useState(false);
+  const [antiAbuse, setAntiAbuse] = useState<AntiAbusePolicy>(DEFAULT_ANTI_ABUSE_POLICY);
   const [loading, setLoading] = useState(false);
   const [createdRoomCode, setCreatedRoomCode] = useState<string | null>(null);
   const [createdRoomId, setCreatedRoomId] = useState<string | null>(null);
@@ -55,7 +79,7 @@ export function OnlineMenu({ onBack, onJoinGame, playerName, setPlayerName }: On
   useEffect(() => {
     if (!socket) return;
 
-    const handleRoomCreated = (data: any) => {
+    const handleRoomCreated = (data: ServerEventPayload<'room-created'>) => {
       setLoading(false);
       setShowCreateRoom(false);
       
@@ -69,19 +93,19 @@ export function OnlineMenu({ onBack, onJoinGame, playerName, setPlayerName }: On
       }
     };
 
-    const handleRoomError = (data: any) => {
+    const handleRoomError = (data: ErrorPayload) => {
       setLoading(false);
       alert(`Erreur: ${data.message}`);
     };
 
-    const handleJoinSuccess = (data: any) => {
+    const handleJoinSuccess = (data: ServerEventPayload<'room-joined'>) => {
       console.log('Join success received:', data);
       setLoading(false);
       setShowJoinRoom(false);
       onJoinGame(data.roomId || selectedRoom?.id || '');
     };
 
-    const handleJoinError = (data: any) => {
+    const handleJoinError = (data: ErrorPayload) => {
       console.log('Join error received:', data);
       setLoading(false);
       alert(`Erreur: ${data.message}`);
@@ -106,7 +130,7 @@ export function OnlineMenu({ onBack, onJoinGame, playerName, setPlayerName }: On
       return;
     }
     setLoading(true);
-    createRoom(playerName, roomName || undefined, isPrivate, capacity);
+    createRoom(playerName, roomName || undefined, isPrivate, capacity, { ...RULE_SET_PRESETS[ruleVariant], ...boardSize }, timeControl, autoPause, antiAbuse);
   };
 
   const handleJoinRoom = (room: Room) => {
@@ -121,6 +145,7 @@ export function OnlineMenu({ onBack, onJoinGame, playerName, setPlayerName }: On
     if (room.isPrivate) {
       console.log('Room is private, showing access code modal');
       setSelectedRoom(room);
+      setIsWatching(false);
       setShowJoinRoom(true);
     } else {
       console.log('Room is public, joining directly');
@@ -129,8 +154,24 @@ export function OnlineMenu({ onBack, onJoinGame, playerName, setPlayerName }: On
     }
   };
 
+  // Regarder une partie en cours (pas besoin de pseudo : le spectateur ne prend pas de place)
+  const handleSpectateRoom = (room: Room) => {
+    if (room.isPrivate) {
+      setSelectedRoom(room);
+      setIsWatching(true);
+      setShowJoinRoom(true);
+    } else {
+      onSpectateGame(room.id);
+    }
+  };
+
   const handleJoinWithCode = () => {
     if (!selectedRoom) return;
+    if (isWatching) {
+      setShowJoinRoom(false);
+      onSpectateGame(selectedRoom.id, accessCode);
+      return;
+    }
     setLoading(true);
     joinRoom(selectedRoom.id, playerName, accessCode);
   };
@@ -280,15 +321,32 @@ export function OnlineMenu({ onBack, onJoinGame, playerName, setPlayerName }: On
                       </h4>
                       <p className="text-sm text-gray-600">
                         {room.playerCount}/{room.capacity} joueurs
+                        {room.ruleVariant && ` · ${ruleVariantLabels[room.ruleVariant]}`}
+                        {room.boardSize && ` · ${room.boardSize}×${room.boardSize}, ${room.lineLength} à aligner`}
                       </p>
+                      {room.status === 'playing' && (
+                        <p className="text-xs text-gray-500">
+                          🎮 En cours{!!room.spectatorCount && ` · 👁️ ${room.spectatorCount} spectateur${room.spectatorCount > 1 ? 's' : ''}`}
+                        </p>
+                      )}
                     </div>
-                    <button
-                      onClick={() => handleJoinRoom(room)}
-                      disabled={!playerName.trim() || loading}
-                      className="px-3 py-1 bg-blue-500 hover:bg-blue-600 disabled:bg-gray-300 text-white text-sm rounded-lg transition-colors"
-                    >
-                      Rejoindre
-                    </button>
+                    {room.status === 'playing' ? (
+                      <button
+                        onClick={() => handleSpectateRoom(room)}
+                        disabled={loading}
+                        className="px-3 py-1 bg-gray-100 hover:bg-gray-200 disabled:bg-gray-300 text-gray-700 text-sm rounded-lg transition-colors"
+                      >
+                        Regarder
+                      </button>
+                    ) : (
+                      <button
+                        onClick={() => handleJoinRoom(room)}
+                        disabled={!playerName.trim() || loading}
+                        className="px-3 py-1 bg-blue-500 hover:bg-blue-600 disabled:bg-gray-300 text-white text-sm rounded-lg transition-colors"
+                      >
+                        Rejoindre
+                      </button>
+                    )}
                   </div>
                 </div>
               ))}
@@ -338,6 +396,31 @@ export function OnlineMenu({ onBack, onJoinGame, playerName, setPlayerName }: On
                   </div>
                 </div>
 
+                <RuleVariantSelector value={ruleVariant} onChange={setRuleVariant} />
+
+                <BoardSizeSelector
+                  boardSize={boardSize.boardSize}
+                  lineLength={boardSize.lineLength}
+                  onChange={(size, lineLength) => setBoardSize({ boardSize: size, lineLength })}
+                />
+
+                <TimeControlSelector value={timeControl} onChange={setTimeControl} />
+
+                <div className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    id="autoPause"
+                    checked={autoPause}
+                    onChange={(e) => setAutoPause(e.target.checked)}
+                    className="rounded"
+                  />
+                  <label htmlFor="autoPause" className="text-sm text-gray-700">
+                    Pause si le joueur au trait se déconnecte
+                  </label>
+                </div>
+
+                <AntiAbuseSelector value={antiAbuse} onChange={setAntiAbuse} />
+
                 <div className="flex items-center gap-2">
                   <input
                     type="checkbox"
@@ -375,7 +458,7 @@ export function OnlineMenu({ onBack, onJoinGame, playerName, setPlayerName }: On
           <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
             <div className="bg-white rounded-lg w-full max-w-sm">
               <div className="p-4 border-b">
-                <h3 className="text-lg font-semibold">Rejoindre Salle Privée</h3>
+                <h3 className="text-lg font-semibold">{isWatching ? 'Regarder Salle Privée' : 'Rejoindre Salle Privée'}</h3>
                 <p className="text-sm text-gray-600">{selectedRoom.name}</p>
               </div>
               <div className="p-4">
@@ -407,7 +490,7 @@ export function OnlineMenu({ onBack, onJoinGame, playerName, setPlayerName }: On
                   disabled={!accessCode.trim() || loading}
                   className="flex-1 py-2 px-4 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:bg-gray-300 transition-colors"
                 >
-                  {loading ? 'Connexion...' : 'Rejoindre'}
+                  {loading ? 'Connexion...' : isWatching ? 'Regarder' : 'Rejoindre'}
                 </button>
               </div>
             </div>
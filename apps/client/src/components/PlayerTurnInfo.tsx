@@ -1,3 +1,6 @@
+import { LOW_TIME_WARNING_SECONDS } from '@mortpion/shared';
+import type { PauseReason } from '@mortpion/shared';
+
 interface PlayerTurnInfoProps {
   currentPlayerName?: string;
   currentPlayerColor?: 'red' | 'blue' | 'green' | 'yellow';
@@ -9,7 +12,12 @@ interface PlayerTurnInfoProps {
   } | null;
   isMyTurn?: boolean;
   isLocalMode?: boolean;
+  isBotThinking?: boolean;
   timeLeft?: number; // seconds remaining for timer
+  lowTime?: boolean; // warned by the server that time is running out
+  playerClocks?: Array<{ id: string; nickname: string; color: 'red' | 'blue' | 'green' | 'yellow'; timeLeft: number }>; // time banks
+  pause?: { reason: PauseReason; playerName: string } | null; // game paused, clocks stopped
+  resumeIn?: number | null; // seconds before a paused game resumes
 }
 
 const colorClasses = {
@@ -20,8 +28,8 @@ const colorClasses = {
 };
 
 // Timer color classes based on time remaining
-const getTimerColorClasses = (timeLeft: number) => {
-  if (timeLeft <= 10) return 'bg-red-100 text-red-800 border-red-200';
+const getTimerColorClasses = (timeLeft: number, lowTime?: boolean) => {
+  if (lowTime || timeLeft <= LOW_TIME_WARNING_SECONDS) return 'bg-red-100 text-red-800 border-red-200';
   if (timeLeft <= 30) return 'bg-orange-100 text-orange-800 border-orange-200';
   return 'bg-blue-100 text-blue-800 border-blue-200';
 };
@@ -33,6 +41,15 @@ const formatTime = (seconds: number) => {
   return `${minutes}:${secs.toString().padStart(2, '0')}`;
 };
 
+const victoryConditionLabels: Record<string, string> = {
+  visible_line: 'Pièces visibles alignées',
+  same_size_line: 'Pièces de même taille alignées',
+  ordered_size_line: '3 tailles alignées dans l\'ordre (P-M-G)',
+  stack_complete: 'Pile complète (P+M+G)',
+  forfeit: 'Victoire par forfait',
+  timeout: 'Victoire au temps',
+};
+
 const colorDots = {
   red: '🔴',
   blue: '🔵',
@@ -47,7 +64,12 @@ export function PlayerTurnInfo({
   gameResult,
   isMyTurn,
   isLocalMode,
-  timeLeft
+  isBotThinking,
+  timeLeft,
+  lowTime,
+  playerClocks,
+  pause,
+  resumeIn
 }: PlayerTurnInfoProps) {
   if (gameStatus === 'waiting') {
     return (
@@ -65,7 +87,9 @@ export function PlayerTurnInfo({
         <div className="px-4 py-3 bg-gray-100 border-b">
           <div className="text-center">
             <div className="text-lg font-semibold text-gray-700">🤝 Match nul</div>
-            <div className="text-sm text-gray-600">Aucun joueur n'a gagné</div>
+            <div className="text-sm text-gray-600">
+              {gameResult.condition === 'agreement' ? 'Nulle acceptée par tous les joueurs' : 'Aucun joueur n\'a gagné'}
+            </div>
           </div>
         </div>
       );
@@ -80,20 +104,41 @@ export function PlayerTurnInfo({
               <span>{gameResult.winner} a gagné !</span>
               <span>{colorDots[currentPlayerColor]}</span>
             </div>
-            <div className="text-sm opacity-80">Félicitations !</div>
+            <div className="text-sm opacity-80">
+              {gameResult.condition && victoryConditionLabels[gameResult.condition]
+                ? victoryConditionLabels[gameResult.condition]
+                : 'Félicitations !'}
+            </div>
           </div>
         </div>
       );
     }
   }
 
+  if (gameStatus === 'playing' && pause) {
+    return (
+      <div className="px-4 py-3 border-b bg-slate-100 text-slate-800 border-slate-200">
+        <div className="text-center">
+          <div className="text-lg font-semibold">⏸️ Partie en pause</div>
+          <div className="text-sm opacity-80">
+            {resumeIn != null
+              ? `Reprise dans ${resumeIn} s`
+              : pause.reason === 'disconnection'
+                ? `En attente du retour de ${pause.playerName}...`
+                : `Demandée par ${pause.playerName}`}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   if (gameStatus === 'playing' && currentPlayerName && currentPlayerColor) {
     // Check if it's the current user's turn or someone else's
     const isCurrentPlayerMyTurn = isMyTurn === true;
     
     // Use timer colors if timeLeft is provided, otherwise use player colors
     const backgroundColorClass = timeLeft !== undefined 
-      ? getTimerColorClasses(timeLeft)
+      ? getTimerColorClasses(timeLeft, lowTime)
       : colorClasses[currentPlayerColor];
     
     return (
@@ -114,7 +159,29 @@ export function PlayerTurnInfo({
               </span>
             )}
           </div>
-          {(isLocalMode || isCurrentPlayerMyTurn) && (
+          {lowTime && timeLeft !== undefined && timeLeft > 0 && (
+            <div className="text-sm font-semibold animate-pulse">
+              ⏰ Plus que {timeLeft} s !
+            </div>
+          )}
+          {playerClocks && playerClocks.length > 0 && (
+            <div className="flex flex-wrap items-center justify-center gap-3 mt-1 text-sm">
+              {playerClocks.map(clock => (
+                <span
+                  key={clock.id}
+                  title={clock.nickname}
+                  className={`font-mono ${clock.color === currentPlayerColor ? 'font-bold' : 'opacity-70'}`}
+                >
+                  {colorDots[clock.color]} {formatTime(clock.timeLeft)}
+                </span>
+              ))}
+            </div>
+          )}
+          {isBotThinking ? (
+            <div className="text-sm opacity-80 animate-pulse">
+              🤖 L'ordinateur réfléchit...
+            </div>
+          ) : (isLocalMode ? isMyTurn !== false : isCurrentPlayerMyTurn) && (
             <div className="text-sm opacity-80">
               À vous de jouer
             </div>
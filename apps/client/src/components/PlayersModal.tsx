@@ -1,4 +1,4 @@
-import { Color, Size } from '@mortpion/shared';
+import { BotDifficulty, Color, Size } from '@mortpion/shared';
 
 interface Player {
   id: string;
@@ -6,6 +6,9 @@ interface Player {
   color: Color;
   inventory: Record<Size, number>;
   connected: boolean;
+  isBot?: boolean;
+  botDifficulty?: BotDifficulty | null;
+  hasForfeited?: boolean;
 }
 
 interface PlayersModalProps {
@@ -13,6 +16,16 @@ interface PlayersModalProps {
   onClose: () => void;
   players: Player[];
   currentPlayerId?: string;
+  strikesLeft?: Record<string, number>; // Tours passés encore tolérés par l'anti-abus, partie en cours
+  emptySeats?: number;
+  spectatorCount?: number;
+  onAddBot?: (difficulty: BotDifficulty) => void; // host only, before the game starts
+  hostId?: string;
+  mutedPlayerIds?: string[];
+  onToggleMute?: (playerId: string, muted: boolean) => void; // host only
+  onKickPlayer?: (playerId: string) => void; // host only, before the game starts
+  onTransferHost?: (playerId: string) => void; // host only
+  onStartGame?: () => void; // host only, room not full yet
 }
 
 const colorClasses = {
@@ -35,13 +48,19 @@ const sizeEmojis = {
   G: '⭕', // Grand
 };
 
+const difficultyLabels: Record<BotDifficulty, string> = {
+  easy: 'Facile',
+  medium: 'Moyen',
+  hard: 'Difficile',
+};
+
 const sizeNames = {
   P: 'Petit',
   M: 'Moyen',
   G: 'Grand',
 };
 
-export function PlayersModal({ isOpen, onClose, players, currentPlayerId }: PlayersModalProps) {
+export function PlayersModal({ isOpen, onClose, players, currentPlayerId, strikesLeft = {}, emptySeats = 0, spectatorCount = 0, onAddBot, hostId, mutedPlayerIds = [], onToggleMute, onKickPlayer, onTransferHost, onStartGame }: PlayersModalProps) {
   if (!isOpen) return null;
 
   return (
@@ -77,17 +96,72 @@ export function PlayersModal({ isOpen, onClose, players, currentPlayerId }: Play
                   <span className="font-semibold text-gray-800">
                     {player.nickname}
                   </span>
+                  {player.isBot && (
+                    <span className="text-xs bg-gray-700 text-white px-2 py-1 rounded-full">
+                      🤖 {player.botDifficulty ? difficultyLabels[player.botDifficulty] : 'Bot'}
+                    </span>
+                  )}
                   {player.id === currentPlayerId && (
                     <span className="text-sm bg-blue-500 text-white px-2 py-1 rounded-full">
                       Tour actuel
                     </span>
                   )}
+                  {player.id === hostId && (
+                    <span className="text-sm" title="Hôte">👑</span>
+                  )}
+                  {player.hasForfeited && (
+                    <span className="text-xs bg-gray-200 text-gray-700 px-2 py-1 rounded-full">
+                      🏳️ Abandon
+                    </span>
+                  )}
+                  {mutedPlayerIds.includes(player.id) && (
+                    <span className="text-sm" title="En sourdine">🔇</span>
+                  )}
+                  {strikesLeft[player.id] !== undefined && (
+                    <span
+                      title="Tours passés encore tolérés avant l'élimination"
+                      className={`text-xs px-2 py-1 rounded-full ${strikesLeft[player.id] <= 1 ? 'bg-red-200 text-red-800' : 'bg-white bg-opacity-60 text-gray-700'}`}
+                    >
+                      ⚠️ {strikesLeft[player.id]}
+                    </span>
+                  )}
                 </div>
-                <div className="text-sm text-gray-600">
-                  {player.connected ? '🟢 Connecté' : '🔴 Déconnecté'}
+                <div className="flex items-center gap-2 text-sm text-gray-600">
+                  {player.isBot ? '🤖 Ordinateur' : player.connected ? '🟢 Connecté' : '🔴 Déconnecté'}
+                  {onToggleMute && !player.isBot && player.id !== hostId && (
+                    <button
+                      onClick={() => onToggleMute(player.id, !mutedPlayerIds.includes(player.id))}
+                      title={mutedPlayerIds.includes(player.id) ? 'Rendre la parole' : 'Mettre en sourdine'}
+                      className="px-2 py-1 rounded-lg bg-white bg-opacity-60 hover:bg-opacity-100 transition-colors"
+                    >
+                      {mutedPlayerIds.includes(player.id) ? '🔊' : '🔇'}
+                    </button>
+                  )}
                 </div>
               </div>
 
+              {/* Actions de l'hôte sur les autres places */}
+              {player.id !== hostId && (onKickPlayer || (onTransferHost && !player.isBot && player.connected)) && (
+                <div className="flex gap-2 mb-3">
+                  {onTransferHost && !player.isBot && player.connected && (
+                    <button
+                      onClick={() => onTransferHost(player.id)}
+                      className="flex-1 py-2 px-2 rounded-lg text-sm font-medium bg-white bg-opacity-60 text-gray-700 hover:bg-opacity-100 transition-colors"
+                    >
+                      👑 Nommer hôte
+                    </button>
+                  )}
+                  {onKickPlayer && (
+                    <button
+                      onClick={() => onKickPlayer(player.id)}
+                      className="flex-1 py-2 px-2 rounded-lg text-sm font-medium bg-white bg-opacity-60 text-red-600 hover:bg-opacity-100 transition-colors"
+                    >
+                      Expulser
+                    </button>
+                  )}
+                </div>
+              )}
+
               {/* Inventory */}
               <div className="space-y-2">
                 <div className="text-sm font-medium text-gray-700 mb-2">
@@ -119,6 +193,45 @@ export function PlayersModal({ isOpen, onClose, players, currentPlayerId }: Play
               </div>
             </div>
           ))}
+
+          {/* Empty seats: the host can add computer opponents */}
+          {emptySeats > 0 && (
+            <div className="p-4 rounded-lg border-2 border-dashed border-gray-300 text-center">
+              <div className="text-sm text-gray-600 mb-3">
+                {emptySeats} place{emptySeats > 1 ? 's' : ''} libre{emptySeats > 1 ? 's' : ''}
+              </div>
+              {onAddBot && (
+                <div className="grid grid-cols-3 gap-2">
+                  {(Object.keys(difficultyLabels) as BotDifficulty[]).map((difficulty) => (
+                    <button
+                      key={difficulty}
+                      onClick={() => onAddBot(difficulty)}
+                      className="py-2 px-2 rounded-lg text-sm font-medium bg-gray-100 text-gray-700 hover:bg-gray-200 transition-colors"
+                    >
+                      🤖 {difficultyLabels[difficulty]}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* L'hôte peut lancer la partie sans attendre que la salle soit pleine */}
+          {onStartGame && (
+            <button
+              onClick={onStartGame}
+              className="w-full py-3 px-4 bg-green-500 hover:bg-green-600 text-white rounded-lg font-medium transition-colors"
+            >
+              ▶️ Démarrer à {players.length} joueurs
+            </button>
+          )}
+
+          {/* Spectators: they watch without a seat */}
+          {spectatorCount > 0 && (
+            <div className="text-sm text-gray-600 text-center">
+              👁️ {spectatorCount} spectateur{spectatorCount > 1 ? 's' : ''}
+            </div>
+          )}
         </div>
 
         {/* Footer */}
@@ -0,0 +1,71 @@
+import { useEffect, useState } from 'react';
+import type { ProposalPayload } from '@mortpion/shared';
+
+interface ProposalPromptProps {
+  proposal: ProposalPayload | null;
+  players: Array<{ id: string; nickname: string }>;
+  myPlayerId: string | null;
+  onRespond: (accept: boolean) => void;
+}
+
+// Proposition de nulle, demande de reprise ou de pause en attente : tous les autres joueurs doivent accepter
+export function ProposalPrompt({ proposal, players, myPlayerId, onRespond }: ProposalPromptProps) {
+  const [timeLeft, setTimeLeft] = useState(0);
+
+  useEffect(() => {
+    if (!proposal) return;
+
+    const updateTimer = () => {
+      setTimeLeft(Math.max(0, Math.ceil((proposal.deadline - Date.now()) / 1000)));
+    };
+
+    updateTimer();
+    const interval = setInterval(updateTimer, 1000);
+
+    return () => clearInterval(interval);
+  }, [proposal]);
+
+  if (!proposal) return null;
+
+  const proposerName = players.find(p => p.id === proposal.proposerId)?.nickname ?? 'Un joueur';
+  const isProposer = proposal.proposerId === myPlayerId;
+  const mustAnswer = myPlayerId !== null && proposal.responderIds.includes(myPlayerId) && !(myPlayerId in proposal.responses);
+  const acceptedCount = Object.values(proposal.responses).filter(Boolean).length;
+
+  const titles = {
+    draw: `🤝 ${isProposer ? 'Vous proposez' : `${proposerName} propose`} la nulle`,
+    takeback: `↩️ ${isProposer ? 'Vous demandez' : `${proposerName} demande`} à reprendre ${isProposer ? 'votre' : 'son'} dernier coup`,
+    pause: `⏸️ ${isProposer ? 'Vous demandez' : `${proposerName} demande`} une pause`,
+  };
+  const title = titles[proposal.kind];
+
+  return (
+    <div className="mx-4 mt-2 p-3 rounded-lg bg-indigo-50 border border-indigo-200 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-medium text-indigo-900">{title}</span>
+        <span className="text-indigo-600 tabular-nums">{timeLeft}s</span>
+      </div>
+
+      {mustAnswer ? (
+        <div className="flex gap-2 mt-2">
+          <button
+            onClick={() => onRespond(false)}
+            className="flex-1 py-2 px-3 rounded-lg bg-white text-gray-700 font-medium hover:bg-gray-100 transition-colors"
+          >
+            Refuser
+          </button>
+          <button
+            onClick={() => onRespond(true)}
+            className="flex-1 py-2 px-3 rounded-lg bg-indigo-500 text-white font-medium hover:bg-indigo-600 transition-colors"
+          >
+            Accepter
+          </button>
+        </div>
+      ) : (
+        <div className="mt-1 text-indigo-700">
+          En attente des réponses ({acceptedCount}/{proposal.responderIds.length})
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,209 @@
+import { useEffect, useMemo, useState } from 'react';
+import { getBoardSize, getRuleSet, parseNotation, replayNotation } from '@mortpion/shared';
+import type { Board as BoardType, Cell as CellType, NotationGame, NotationPosition } from '@mortpion/shared';
+import { Board } from './Board';
+
+interface ReplayViewerProps {
+  isOpen: boolean;
+  game: NotationGame | string | null; // partie enregistrée ou notation importée
+  onClose: () => void;
+}
+
+// Vitesses de lecture (multiplicateur de la durée de base d'un coup)
+const SPEEDS = [0.5, 1, 2, 4];
+const BASE_STEP_MS = 1000;
+
+const colorDots = {
+  red: '🔴',
+  blue: '🔵',
+  green: '🟢',
+  yellow: '🟡',
+};
+
+// Convertir le plateau 1D en 2D pour Board
+const toBoard2D = (board: BoardType): CellType[][] => {
+  const size = getBoardSize(board);
+  return Array.from({ length: size }, (_, row) => board.slice(row * size, (row + 1) * size));
+};
+
+// Lire la partie : liste des positions, ou message d'erreur
+const loadReplay = (game: NotationGame | string): { game: NotationGame; positions: NotationPosition[] } | { error: string } => {
+  try {
+    const parsed = typeof game === 'string' ? parseNotation(game) : game;
+    return { game: parsed, positions: replayNotation(parsed) };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : 'Notation invalide' };
+  }
+};
+
+export function ReplayViewer({ isOpen, game, onClose }: ReplayViewerProps) {
+  const [step, setStep] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  const replay = useMemo(() => (game ? loadReplay(game) : null), [game]);
+  const positions = replay && 'positions' in replay ? replay.positions : [];
+  const lastStep = Math.max(0, positions.length - 1);
+
+  // Revenir au début à chaque nouvelle partie
+  useEffect(() => {
+    setStep(0);
+    setIsPlaying(false);
+  }, [game]);
+
+  // Lecture automatique
+  useEffect(() => {
+    if (!isPlaying) return;
+    if (step >= lastStep) {
+      setIsPlaying(false);
+      return;
+    }
+
+    const timeout = setTimeout(() => setStep(current => current + 1), BASE_STEP_MS / speed);
+    return () => clearTimeout(timeout);
+  }, [isPlaying, step, lastStep, speed]);
+
+  if (!isOpen || !replay) return null;
+
+  const position = positions[step];
+  const move = position?.move;
+  const replayGame = 'game' in replay ? replay.game : null;
+  const player = move && replayGame?.players.find(p => p.color === move.color);
+
+  // Surligner l'alignement gagnant s'il apparaît à cette position
+  const winningPattern = replayGame && move?.type === 'placement'
+    ? getRuleSet(replayGame.rules).findWinningPattern(position.board, move.color)
+    : null;
+
+  const goTo = (target: number) => {
+    setIsPlaying(false);
+    setStep(Math.min(lastStep, Math.max(0, target)));
+  };
+
+  const formatCell = (cellIndex: number) => {
+    const size = replayGame?.rules.boardSize ?? 3;
+    return `${Math.floor(cellIndex / size) + 1},${(cellIndex % size) + 1}`;
+  };
+
+  const resultLabel = () => {
+    if (!replayGame?.result) return 'Partie non terminée';
+    if (replayGame.result === 'draw') return 'Match nul';
+    const winner = replayGame.players.find(p => p.color === replayGame.result);
+    return `Victoire de ${winner?.name ?? replayGame.result} ${colorDots[replayGame.result]}`;
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg max-w-md w-full max-h-[95vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex justify-between items-center p-4 border-b">
+          <h2 className="text-xl font-bold text-gray-800">🎬 Revoir la partie</h2>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            ✕
+          </button>
+        </div>
+
+        {'error' in replay ? (
+          <div className="p-6 text-center text-sm text-red-600">{replay.error}</div>
+        ) : (
+          <div className="p-4 space-y-4">
+            {/* Coup affiché */}
+            <div className="text-center text-sm text-gray-700 min-h-[20px]">
+              {!move && 'Position de départ'}
+              {move && player && (
+                <span>
+                  {colorDots[move.color]} <span className="font-medium">{player.name}</span>
+                  {move.type === 'skip' ? ' passe son tour' : ` : ${move.size} en ${formatCell(move.cellIndex)}`}
+                </span>
+              )}
+            </div>
+
+            <div className="flex justify-center">
+              <Board
+                board={toBoard2D(position.board)}
+                winningCells={winningPattern?.cells}
+              />
+            </div>
+
+            {/* Progression */}
+            <div className="space-y-1">
+              <input
+                type="range"
+                min={0}
+                max={lastStep}
+                value={step}
+                onChange={(e) => goTo(Number(e.target.value))}
+                className="w-full"
+              />
+              <div className="flex justify-between text-xs text-gray-500">
+                <span>Coup {step} / {lastStep}</span>
+                <span>{resultLabel()}</span>
+              </div>
+            </div>
+
+            {/* Contrôles */}
+            <div className="flex items-center justify-center gap-2">
+              <button
+                onClick={() => goTo(0)}
+                disabled={step === 0}
+                className="py-2 px-3 rounded-lg bg-gray-100 text-gray-700 hover:bg-gray-200 transition-colors disabled:opacity-40"
+              >
+                ⏮
+              </button>
+              <button
+                onClick={() => goTo(step - 1)}
+                disabled={step === 0}
+                className="py-2 px-3 rounded-lg bg-gray-100 text-gray-700 hover:bg-gray-200 transition-colors disabled:opacity-40"
+              >
+                ◀
+              </button>
+              <button
+                onClick={() => {
+                  if (step >= lastStep) setStep(0);
+                  setIsPlaying(!isPlaying);
+                }}
+                disabled={lastStep === 0}
+                className="py-2 px-4 rounded-lg bg-blue-500 text-white hover:bg-blue-600 transition-colors disabled:opacity-40"
+              >
+                {isPlaying ? '⏸ Pause' : '▶ Lecture'}
+              </button>
+              <button
+                onClick={() => goTo(step + 1)}
+                disabled={step >= lastStep}
+                className="py-2 px-3 rounded-lg bg-gray-100 text-gray-700 hover:bg-gray-200 transition-colors disabled:opacity-40"
+              >
+                ▶
+              </button>
+              <button
+                onClick={() => goTo(lastStep)}
+                disabled={step >= lastStep}
+                className="py-2 px-3 rounded-lg bg-gray-100 text-gray-700 hover:bg-gray-200 transition-colors disabled:opacity-40"
+              >
+                ⏭
+              </button>
+            </div>
+
+            {/* Vitesse */}
+            <div className="flex items-center justify-center gap-1 text-sm">
+              <span className="text-gray-500 mr-1">Vitesse</span>
+              {SPEEDS.map((value) => (
+                <button
+                  key={value}
+                  onClick={() => setSpeed(value)}
+                  className={`py-1 px-2 rounded-lg font-medium transition-colors ${
+                    speed === value ? 'bg-blue-500 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+                >
+                  ×{value}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
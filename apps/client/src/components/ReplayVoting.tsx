@@ -10,6 +10,7 @@ interface ReplayVotingProps {
   showReturnToLobby: boolean;
   winnerId?: string | null;
   isDraw?: boolean;
+  onWatchReplay?: () => void;
 }
 
 export function ReplayVoting({
@@ -21,7 +22,8 @@ export function ReplayVoting({
   onReturnToLobby,
   showReturnToLobby,
   winnerId,
-  isDraw
+  isDraw,
+  onWatchReplay
 }: ReplayVotingProps) {
   const [timeLeft, setTimeLeft] = useState(0);
   const [hasVoted, setHasVoted] = useState(false);
@@ -92,6 +94,14 @@ export function ReplayVoting({
               <p className="text-sm text-green-600">Félicitations pour cette victoire !</p>
             </div>
           ) : null}
+          {onWatchReplay && (
+            <button
+              onClick={onWatchReplay}
+              className="text-sm font-medium text-blue-600 hover:text-blue-800 transition-colors"
+            >
+              🎬 Revoir la partie
+            </button>
+          )}
         </div>
 
         {/* Header */}
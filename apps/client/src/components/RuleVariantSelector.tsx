@@ -0,0 +1,45 @@
+import { RuleVariant } from '@mortpion/shared';
+
+type PresetVariant = Exclude<RuleVariant, 'custom'>;
+
+interface RuleVariantSelectorProps {
+  value: PresetVariant;
+  onChange: (variant: PresetVariant) => void;
+}
+
+const variants: Array<{ value: PresetVariant; label: string; description: string }> = [
+  { value: 'visible-only', label: 'Visible', description: 'Les grandes pièces remplacent les petites, seules les pièces visibles comptent' },
+  { value: 'classic', label: 'Classique', description: 'Imbrication libre, alignements de même taille, ordonnés ou pile complète' },
+  { value: 'no-replacement', label: 'Sans remplacement', description: 'Les pièces recouvertes restent dans la case, seules les pièces visibles comptent' },
+];
+
+export function RuleVariantSelector({ value, onChange }: RuleVariantSelectorProps) {
+  const selected = variants.find(variant => variant.value === value);
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2">
+        Règles
+      </label>
+      <div className="grid grid-cols-3 gap-2">
+        {variants.map((variant) => (
+          <button
+            key={variant.value}
+            type="button"
+            onClick={() => onChange(variant.value)}
+            className={`py-2 px-2 rounded-lg font-medium transition-colors text-sm ${
+              value === variant.value
+                ? 'bg-blue-500 text-white'
+                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            {variant.label}
+          </button>
+        ))}
+      </div>
+      {selected && (
+        <p className="text-xs text-gray-500 mt-2">{selected.description}</p>
+      )}
+    </div>
+  );
+}
@@ -1,15 +1,16 @@
 import { useState, useEffect } from 'react';
+import type { GameStateSnapshot, ServerEventPayload } from '@mortpion/shared';
 import { useSocket } from '../hooks/useSocket';
 
 export function SocketTest() {
-  const { socket, isConnected, ping, createRoom, joinRoom } = useSocket();
+  const { socket, isConnected, playerId, ping, createRoom, joinRoom } = useSocket();
   const [playerName, setPlayerName] = useState('TestPlayer');
   const [joinRoomId, setJoinRoomId] = useState('');
-  const [roomCreated, setRoomCreated] = useState<any>(null);
-  const [roomJoined, setRoomJoined] = useState<any>(null);
-  const [playerJoined, setPlayerJoined] = useState<any>(null);
-  const [gameState, setGameState] = useState<any>(null);
-  const [gameStarted, setGameStarted] = useState<any>(null);
+  const [roomCreated, setRoomCreated] = useState<ServerEventPayload<'room-created'> | null>(null);
+  const [roomJoined, setRoomJoined] = useState<ServerEventPayload<'room-joined'> | null>(null);
+  const [playerJoined, setPlayerJoined] = useState<ServerEventPayload<'player-joined'> | null>(null);
+  const [gameState, setGameState] = useState<GameStateSnapshot | null>(null);
+  const [gameStarted, setGameStarted] = useState<ServerEventPayload<'game-started'> | null>(null);
 
   useEffect(() => {
     if (!socket) return;
@@ -194,7 +195,7 @@ export function SocketTest() {
           </div>
           
           {/* Simple Move Test */}
-          {gameState.status === 'playing' && gameState.currentPlayerId === socket?.id && (
+          {gameState.status === 'playing' && gameState.currentPlayerId === playerId && (
             <div className="mt-3 pt-3 border-t border-gray-300">
               <h4 className="font-medium text-gray-800 mb-2">🎲 Test de Coup</h4>
               <div className="flex gap-2">
@@ -0,0 +1,52 @@
+import type { TimeControl } from '@mortpion/shared';
+
+interface TimeControlSelectorProps {
+  value: TimeControl;
+  onChange: (timeControl: TimeControl) => void;
+}
+
+const TIME_CONTROLS: Array<{ label: string; description: string; timeControl: TimeControl }> = [
+  {
+    label: 'Par coup',
+    description: '1 min par coup',
+    timeControl: { type: 'per_move', moveSeconds: 60 },
+  },
+  {
+    label: 'Banque',
+    description: '5 min pour la partie',
+    timeControl: { type: 'bank', bankSeconds: 300 },
+  },
+  {
+    label: 'Incrément',
+    description: '3 min + 2 s par coup',
+    timeControl: { type: 'bank_increment', bankSeconds: 180, incrementSeconds: 2 },
+  },
+];
+
+// Cadence de la partie : temps limité par coup, ou banque de temps façon pendule d'échecs
+export function TimeControlSelector({ value, onChange }: TimeControlSelectorProps) {
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2">
+        Cadence
+      </label>
+      <div className="grid grid-cols-3 gap-2">
+        {TIME_CONTROLS.map(({ label, description, timeControl }) => (
+          <button
+            key={timeControl.type}
+            type="button"
+            onClick={() => onChange(timeControl)}
+            className={`py-2 px-2 rounded-lg font-medium transition-colors text-sm ${
+              value.type === timeControl.type
+                ? 'bg-blue-500 text-white'
+                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            <div>{label}</div>
+            <div className="text-xs opacity-80">{description}</div>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
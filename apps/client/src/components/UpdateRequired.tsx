@@ -0,0 +1,23 @@
+// Écran affiché quand le serveur refuse cette version du client (ancienne version en cache)
+export function UpdateRequired() {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex justify-center">
+      <div className="w-full max-w-sm bg-gradient-to-br from-blue-50 to-indigo-100 flex flex-col justify-center p-4">
+        <div className="bg-white rounded-xl shadow-lg w-full p-6 text-center space-y-4">
+          <div className="text-4xl">🔄</div>
+          <h2 className="text-xl font-bold text-gray-800">Nouvelle version disponible</h2>
+          <p className="text-sm text-gray-600">
+            MortPion a été mis à jour. Rechargez la page pour continuer à jouer en ligne :
+            votre partie en cours sera retrouvée automatiquement.
+          </p>
+          <button
+            onClick={() => window.location.reload()}
+            className="w-full py-4 px-4 bg-blue-500 hover:bg-blue-600 text-white rounded-lg font-medium transition-colors text-lg min-h-[56px]"
+          >
+            Recharger la page
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
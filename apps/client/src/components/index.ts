@@ -10,3 +10,12 @@ export { MobilePlayerInventory } from './MobilePlayerInventory';
 export { ModeSelection } from './ModeSelection';
 export { OnlineMenu } from './OnlineMenu';
 export { LocalGameConfig } from './LocalGameConfig';
+export { RuleVariantSelector } from './RuleVariantSelector';
+export { BoardSizeSelector } from './BoardSizeSelector';
+export { TimeControlSelector } from './TimeControlSelector';
+export { AntiAbuseSelector } from './AntiAbuseSelector';
+export { MoveHistory } from './MoveHistory';
+export { ReplayViewer } from './ReplayViewer';
+export { UpdateRequired } from './UpdateRequired';
+export { ChatPanel } from './ChatPanel';
+export { ProposalPrompt } from './ProposalPrompt';
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { RULE_SET_PRESETS, createEmptyBoard } from '@mortpion/shared';
+import type { PlayerClass } from '@mortpion/shared';
+import { applyLocalMove, redoLocalMove, skipLocalTurn, undoLocalMove } from '../useSimpleLocalGame';
+import type { LocalGameState } from '../useSimpleLocalGame';
+
+describe('useSimpleLocalGame history', () => {
+  // A human against a bot that has nothing left to play
+  const createState = (): LocalGameState => {
+    const players: PlayerClass[] = [
+      { id: 'human', nickname: 'Alice', color: 'red', inventory: { P: 3, M: 3, G: 3 }, connected: true, skipsInARow: 0, isEliminated: false, isHost: true },
+      { id: 'bot', nickname: 'Bot', color: 'blue', inventory: { P: 0, M: 0, G: 0 }, connected: true, skipsInARow: 0, isEliminated: false, isHost: false }
+    ];
+
+    return {
+      board: createEmptyBoard(),
+      rules: RULE_SET_PRESETS['no-replacement'],
+      players,
+      seats: [{ type: 'human', difficulty: 'medium' }, { type: 'bot', difficulty: 'medium' }],
+      currentPlayerIndex: 0,
+      status: 'playing',
+      result: null,
+      selectedPiece: null,
+      error: null,
+      history: [],
+      redoStack: []
+    };
+  };
+
+  it('should undo and redo across a skipped bot turn', () => {
+    let state = applyLocalMove(createState(), 0, 'G');
+    state = skipLocalTurn(state);
+    state = applyLocalMove(state, 4, 'G');
+    const played = state;
+
+    state = undoLocalMove(undoLocalMove(state));
+    expect(state.board).toEqual(createEmptyBoard());
+    expect(state.currentPlayerIndex).toBe(0);
+
+    state = redoLocalMove(state);
+    expect(state.currentPlayerIndex).toBe(0); // The bot's skip is replayed with the move before it
+
+    state = redoLocalMove(state);
+    expect(state.board).toEqual(played.board);
+    expect(state.players).toEqual(played.players);
+    expect(state.board[4].G).toBe('red');
+    expect(state.history.map(entry => [entry.playerIndex, entry.move?.cellIndex ?? null])).toEqual([[0, 0], [1, null], [0, 4]]);
+  });
+
+  it('should keep skipped turns out of the numbered moves', () => {
+    let state = applyLocalMove(createState(), 0, 'G');
+    state = skipLocalTurn(state);
+    state = applyLocalMove(state, 4, 'G');
+
+    expect(state.history[2].move?.moveNumber).toBe(2);
+  });
+});
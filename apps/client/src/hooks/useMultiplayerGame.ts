@@ -1,42 +1,38 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useSocket } from './useSocket';
-import type { Cell, Color, Size } from '@mortpion/shared';
-
-interface GameState {
-  board: Cell[];
-  players: Array<{
-    id: string;
-    nickname: string;
-    color: Color;
-    inventory: { P: number; M: number; G: number };
-    connected: boolean;
-    isHost: boolean;
-  }>;
-  currentPlayerId: string;
-  status: 'waiting' | 'playing' | 'finished';
-  winnerId?: string;
-  isDraw?: boolean;
-  turnTimeLeft?: number;
-}
+import { socketService } from '../services/socketService';
+import { getBoardSize, getStrikesLeft } from '@mortpion/shared';
+import type { BotDifficulty, Cell, Color, GameEvent, GameStateSnapshot, ProposalKind, ProposalPayload, ProposalResult, RoomSeats, ServerEventPayload, Size } from '@mortpion/shared';
 
 interface MultiplayerGameState {
   roomId: string | null;
-  gameState: GameState | null;
+  gameState: GameStateSnapshot | null;
+  gameEvents: GameEvent[] | null; // Event log of the finished game (replay and notation)
+  room: RoomSeats | null;
   selectedPiece: { size: Size; color: Color } | null;
   error: string | null;
   isConnected: boolean;
-  currentPlayer: GameState['players'][0] | null;
+  currentPlayer: GameStateSnapshot['players'][0] | null;
   myPlayerId: string | null;
   replayDeadline: number | null;
   replayVotes: Record<string, boolean>;
   showReturnToLobby: boolean;
+  isRejoining: boolean; // Seat being taken back after a reload or a network drop
+  rejoinError: string | null;
+  isSpectator: boolean; // Watching the game without a seat
+  spectateCode: string | null; // Access code of the watched private room, to watch again after a network drop
+  proposal: ProposalPayload | null; // Pending draw offer or takeback request
+  lowTime: boolean; // The player to move is running out of time
+  resumeAt: number | null; // End of the countdown before a paused game resumes
 }
 
 export const useMultiplayerGame = () => {
-  const { socket, isConnected, makeMove, getGameState } = useSocket();
-  const [state, setState] = useState<MultiplayerGameState>({
-    roomId: null,
+  const { socket, isConnected, playerId, makeMove, rejoinRoom, spectateRoom: emitSpectateRoom, stopSpectating, getGameState } = useSocket();
+  const [state, setState] = useState<MultiplayerGameState>(() => ({
+    roomId: socketService.getRememberedRoom(),
     gameState: null,
+    gameEvents: null,
+    room: null,
     selectedPiece: null,
     error: null,
     isConnected: false,
@@ -45,31 +41,55 @@ export const useMultiplayerGame = () => {
     replayDeadline: null,
     replayVotes: {},
     showReturnToLobby: false,
-  });
-
-  // Update connection status
+    isRejoining: socketService.getRememberedRoom() !== null,
+    rejoinError: null,
+    isSpectator: false,
+    spectateCode: null,
+    proposal: null,
+    lowTime: false,
+    resumeAt: null,
+  }));
+  const [resumeIn, setResumeIn] = useState<number | null>(null);
+
+  // Update connection status (a lost connection during a game means rejoining it)
   useEffect(() => {
-    setState(prev => ({ ...prev, isConnected }));
+    setState(prev => ({
+      ...prev,
+      isConnected,
+      isRejoining: prev.isRejoining || (!isConnected && prev.roomId !== null)
+    }));
   }, [isConnected]);
 
-  // Set player ID when socket connects
+  // Take the seat back once connected again (spectators simply watch again)
+  useEffect(() => {
+    if (isConnected && state.isRejoining && state.roomId) {
+      if (state.isSpectator) {
+        emitSpectateRoom(state.roomId, state.spectateCode ?? undefined);
+      } else {
+        rejoinRoom(state.roomId);
+      }
+    }
+  }, [isConnected, state.isRejoining, state.roomId, state.isSpectator]);
+
+  // Set player ID when the server opens the session
   useEffect(() => {
-    setState(prev => ({ ...prev, myPlayerId: socket?.id || null }));
-  }, [socket?.id]);
+    setState(prev => ({ ...prev, myPlayerId: playerId }));
+  }, [playerId]);
 
   // Socket event listeners
   useEffect(() => {
     if (!socket) return;
 
-    const handleGameStarted = (data: { gameState: GameState }) => {
+    const handleGameStarted = (data: ServerEventPayload<'game-started'>) => {
       setState(prev => ({
         ...prev,
         gameState: data.gameState,
+        gameEvents: null,
         error: null
       }));
     };
 
-    const handleGameUpdated = (data: { gameState: GameState }) => {
+    const handleGameUpdated = (data: ServerEventPayload<'game-updated'>) => {
       setState(prev => ({
         ...prev,
         gameState: data.gameState,
@@ -78,16 +98,22 @@ export const useMultiplayerGame = () => {
       }));
     };
 
-    const handleGameEnded = (data: { gameState: GameState }) => {
+    const handleGameEnded = (data: ServerEventPayload<'game-ended'>) => {
       setState(prev => ({
         ...prev,
         gameState: data.gameState,
+        gameEvents: data.events,
         selectedPiece: null,
         error: null
       }));
     };
 
-    const handleMoveError = (data: { message: string }) => {
+    // Event log asked for once the game is over (see the effect below)
+    const handleGameEvents = (data: ServerEventPayload<'game-events'>) => {
+      setState(prev => prev.roomId === data.roomId && data.status === 'finished' ? { ...prev, gameEvents: data.events } : prev);
+    };
+
+    const handleMoveError = (data: ServerEventPayload<'move-error'>) => {
       setState(prev => ({
         ...prev,
         error: data.message,
@@ -95,10 +121,11 @@ export const useMultiplayerGame = () => {
       }));
     };
 
-    const handleGameState = (data: { gameState: GameState }) => {
+    const handleGameState = (data: ServerEventPayload<'game-state'>) => {
       setState(prev => ({
         ...prev,
         gameState: data.gameState,
+        room: data.room ?? prev.room,
         error: null
       }));
     };
@@ -110,14 +137,202 @@ export const useMultiplayerGame = () => {
       }
     };
 
-    const handlePlayerDisconnected = (data: { playerId: string; playerName: string }) => {
+    const handlePlayerDisconnected = (data: ServerEventPayload<'player-disconnected'>) => {
       setState(prev => ({
         ...prev,
         error: `${data.playerName} s'est déconnecté`
       }));
     };
 
-    const handleTurnSkipped = (data: { skippedPlayerId: string; reason: string; gameState: GameState }) => {
+    const handlePlayerReconnected = (data: ServerEventPayload<'player-reconnected'>) => {
+      setState(prev => ({
+        ...prev,
+        gameState: data.gameState,
+        error: `${data.playerName} est de retour`
+      }));
+    };
+
+    const handleRoomRejoined = (data: ServerEventPayload<'room-rejoined'>) => {
+      socketService.rememberRoom(data.roomId);
+      setState(prev => ({
+        ...prev,
+        roomId: data.roomId,
+        gameState: data.gameState,
+        room: data.room,
+        selectedPiece: null,
+        isRejoining: false,
+        rejoinError: null,
+        error: null
+      }));
+    };
+
+    const handleRejoinError = () => {
+      socketService.rememberRoom(null);
+      setState(prev => ({
+        ...prev,
+        roomId: null,
+        gameState: null,
+        gameEvents: null,
+        room: null,
+        selectedPiece: null,
+        isRejoining: false,
+        rejoinError: 'La partie n\'est plus disponible'
+      }));
+    };
+
+    const handleSpectating = (data: ServerEventPayload<'spectating'>) => {
+      setState(prev => ({
+        ...prev,
+        roomId: data.roomId,
+        gameState: data.gameState,
+        room: data.room,
+        selectedPiece: null,
+        isRejoining: false,
+        rejoinError: null,
+        error: null
+      }));
+    };
+
+    const handleSpectateError = () => {
+      setState(prev => prev.isSpectator ? {
+        ...prev,
+        gameState: null,
+        gameEvents: null,
+        room: null,
+        isRejoining: false,
+        rejoinError: 'Impossible de regarder cette partie'
+      } : prev);
+    };
+
+    const handleSpectatorsUpdated = (data: ServerEventPayload<'spectators-updated'>) => {
+      setState(prev => ({
+        ...prev,
+        room: prev.room ? { ...prev.room, spectatorCount: data.spectatorCount } : prev.room
+      }));
+    };
+
+    const handlePlayerKicked = (data: ServerEventPayload<'player-kicked'>) => {
+      if (data.playerId === playerId) {
+        socketService.rememberRoom(null);
+        setState(prev => ({
+          ...prev,
+          roomId: null,
+          gameState: null,
+          gameEvents: null,
+          room: null,
+          selectedPiece: null,
+          isRejoining: false,
+          rejoinError: 'Vous avez été expulsé de la salle'
+        }));
+        return;
+      }
+
+      setState(prev => ({
+        ...prev,
+        room: data.room,
+        error: `${data.playerName} a été expulsé`
+      }));
+    };
+
+    const handlePlayerLeft = (data: ServerEventPayload<'player-left'>) => {
+      setState(prev => ({
+        ...prev,
+        room: data.room,
+        error: `${data.playerName} a quitté la salle`
+      }));
+    };
+
+    const handlePlayerForfeited = (data: ServerEventPayload<'player-forfeited'>) => {
+      setState(prev => ({
+        ...prev,
+        gameState: data.gameState,
+        error: `${data.playerName} a abandonné la partie`
+      }));
+    };
+
+    const handleHostTransferred = (data: ServerEventPayload<'host-transferred'>) => {
+      setState(prev => ({
+        ...prev,
+        room: prev.room ? {
+          ...prev.room,
+          hostId: data.newHostId,
+          players: prev.room.players.map(p => ({ ...p, isHost: p.id === data.newHostId }))
+        } : prev.room,
+        error: data.newHostId === playerId ? 'Vous êtes maintenant l\'hôte' : `${data.newHostName} est maintenant l'hôte`
+      }));
+    };
+
+    const handleRoomError = (data: ServerEventPayload<'room-error'>) => {
+      setState(prev => ({ ...prev, error: data.message }));
+    };
+
+    const handleProposalUpdated = (data: ServerEventPayload<'proposal-updated'>) => {
+      setState(prev => ({ ...prev, proposal: data }));
+    };
+
+    const handleProposalResolved = (data: ServerEventPayload<'proposal-resolved'>) => {
+      setState(prev => {
+        const decliner = data.playerId === playerId ? 'Vous avez' : `${prev.gameState?.players.find(p => p.id === data.playerId)?.nickname ?? 'Un joueur'} a`;
+        const subjects: Record<ProposalKind, string> = { draw: 'la nulle', takeback: 'la reprise du coup', pause: 'la pause' };
+        const subject = subjects[data.kind];
+        const messages: Record<ProposalResult, string | null> = {
+          accepted: data.kind === 'takeback' ? 'Le dernier coup a été repris' : null, // La nulle et la pause ont leurs propres événements
+          declined: `${decliner} refusé ${subject}`,
+          expired: `Sans réponse, ${subject} est abandonnée`,
+          cancelled: null,
+        };
+        return { ...prev, proposal: null, error: messages[data.result] ?? prev.error };
+      });
+    };
+
+    const handleMoveTakenBack = (data: ServerEventPayload<'move-taken-back'>) => {
+      setState(prev => ({
+        ...prev,
+        gameState: data.gameState,
+        selectedPiece: null
+      }));
+    };
+
+    const handleProposalError = (data: ServerEventPayload<'proposal-error'>) => {
+      setState(prev => ({ ...prev, error: data.message }));
+    };
+
+    const handleGamePaused = (data: ServerEventPayload<'game-paused'>) => {
+      const player = data.gameState.players.find(p => p.id === data.playerId);
+      setState(prev => ({
+        ...prev,
+        gameState: data.gameState,
+        selectedPiece: null,
+        lowTime: false,
+        resumeAt: null,
+        error: data.reason === 'disconnection'
+          ? `${player?.nickname ?? 'Un joueur'} s'est déconnecté : partie en pause`
+          : 'Partie en pause'
+      }));
+    };
+
+    const handleGameResuming = (data: ServerEventPayload<'game-resuming'>) => {
+      setState(prev => ({ ...prev, resumeAt: data.resumeAt }));
+    };
+
+    const handleGameResumed = (data: ServerEventPayload<'game-resumed'>) => {
+      setState(prev => ({ ...prev, gameState: data.gameState, resumeAt: null }));
+    };
+
+    const handlePauseError = (data: ServerEventPayload<'pause-error'>) => {
+      setState(prev => ({ ...prev, error: data.message }));
+    };
+
+    const handlePlayerReplacedByBot = (data: ServerEventPayload<'player-replaced-by-bot'>) => {
+      const player = data.gameState.players.find(p => p.id === data.playerId);
+      setState(prev => ({
+        ...prev,
+        gameState: data.gameState,
+        error: `${player?.nickname ?? 'Un joueur'} est remplacé par l'ordinateur`
+      }));
+    };
+
+    const handleTurnSkipped = (data: ServerEventPayload<'turn-skipped'>) => {
       setState(prev => ({
         ...prev,
         gameState: data.gameState,
@@ -126,7 +341,17 @@ export const useMultiplayerGame = () => {
       }));
     };
 
-    const handleReplayVotingStarted = (data: { replayDeadline: number; replayVotes: Record<string, boolean> }) => {
+    const handlePlayerEliminated = (data: ServerEventPayload<'player-eliminated'>) => {
+      setState(prev => ({
+        ...prev,
+        gameState: data.gameState,
+        error: data.reason === 'out_of_time'
+          ? `${data.playerName} est éliminé (temps écoulé)`
+          : `${data.playerName} est éliminé (trop de tours passés)`
+      }));
+    };
+
+    const handleReplayVotingStarted = (data: ServerEventPayload<'replay-voting-started'>) => {
       setState(prev => ({
         ...prev,
         replayDeadline: data.replayDeadline,
@@ -134,7 +359,7 @@ export const useMultiplayerGame = () => {
       }));
     };
 
-    const handleReplayVoteUpdated = (data: { replayVotes: Record<string, boolean>; replayDeadline: number }) => {
+    const handleReplayVoteUpdated = (data: ServerEventPayload<'replay-vote-updated'>) => {
       setState(prev => ({
         ...prev,
         replayVotes: data.replayVotes,
@@ -142,10 +367,11 @@ export const useMultiplayerGame = () => {
       }));
     };
 
-    const handleGameRestarted = (data: { gameState: GameState }) => {
+    const handleGameRestarted = (data: ServerEventPayload<'game-restarted'>) => {
       setState(prev => ({
         ...prev,
         gameState: data.gameState,
+        gameEvents: null,
         replayDeadline: null,
         replayVotes: {},
         selectedPiece: null,
@@ -163,14 +389,26 @@ export const useMultiplayerGame = () => {
       }));
     };
 
-    const handleTimerUpdate = (data: { turnTimeLeft: number; currentPlayerId: string }) => {
+    const handleTimerUpdate = (data: ServerEventPayload<'timer-update'>) => {
       setState(prev => ({
         ...prev,
         gameState: prev.gameState ? {
           ...prev.gameState,
           turnTimeLeft: data.turnTimeLeft,
           currentPlayerId: data.currentPlayerId
-        } : null
+        } : null,
+        lowTime: data.lowTime
+      }));
+    };
+
+    const handleRoomExpired = () => {
+      socketService.rememberRoom(null);
+      setState(prev => ({
+        ...prev,
+        replayDeadline: null,
+        replayVotes: {},
+        showReturnToLobby: true,
+        error: 'La salle a expiré'
       }));
     };
 
@@ -186,35 +424,117 @@ export const useMultiplayerGame = () => {
     socket.on('game-started', handleGameStarted);
     socket.on('game-updated', handleGameUpdated);
     socket.on('game-ended', handleGameEnded);
+    socket.on('game-events', handleGameEvents);
     socket.on('move-error', handleMoveError);
     socket.on('game-state', handleGameState);
     socket.on('player-joined', handlePlayerJoined);
     socket.on('player-disconnected', handlePlayerDisconnected);
+    socket.on('player-reconnected', handlePlayerReconnected);
+    socket.on('room-rejoined', handleRoomRejoined);
+    socket.on('rejoin-error', handleRejoinError);
+    socket.on('player-replaced-by-bot', handlePlayerReplacedByBot);
     socket.on('turn-skipped', handleTurnSkipped);
+    socket.on('player-eliminated', handlePlayerEliminated);
     socket.on('replay-voting-started', handleReplayVotingStarted);
     socket.on('replay-vote-updated', handleReplayVoteUpdated);
     socket.on('game-restarted', handleGameRestarted);
     socket.on('replay-rejected', handleReplayRejected);
     socket.on('replay-timeout', handleReplayTimeout);
     socket.on('timer-update', handleTimerUpdate);
+    socket.on('room-expired', handleRoomExpired);
+    socket.on('spectating', handleSpectating);
+    socket.on('spectate-error', handleSpectateError);
+    socket.on('spectators-updated', handleSpectatorsUpdated);
+    socket.on('player-left', handlePlayerLeft);
+    socket.on('player-forfeited', handlePlayerForfeited);
+    socket.on('player-kicked', handlePlayerKicked);
+    socket.on('host-transferred', handleHostTransferred);
+    socket.on('room-error', handleRoomError);
+    socket.on('proposal-updated', handleProposalUpdated);
+    socket.on('proposal-resolved', handleProposalResolved);
+    socket.on('move-taken-back', handleMoveTakenBack);
+    socket.on('proposal-error', handleProposalError);
+    socket.on('game-paused', handleGamePaused);
+    socket.on('game-resuming', handleGameResuming);
+    socket.on('game-resumed', handleGameResumed);
+    socket.on('pause-error', handlePauseError);
 
     return () => {
       socket.off('game-started', handleGameStarted);
       socket.off('game-updated', handleGameUpdated);
       socket.off('game-ended', handleGameEnded);
+      socket.off('game-events', handleGameEvents);
       socket.off('move-error', handleMoveError);
       socket.off('game-state', handleGameState);
       socket.off('player-joined', handlePlayerJoined);
       socket.off('player-disconnected', handlePlayerDisconnected);
+      socket.off('player-reconnected', handlePlayerReconnected);
+      socket.off('room-rejoined', handleRoomRejoined);
+      socket.off('rejoin-error', handleRejoinError);
+      socket.off('player-replaced-by-bot', handlePlayerReplacedByBot);
       socket.off('turn-skipped', handleTurnSkipped);
+      socket.off('player-eliminated', handlePlayerEliminated);
       socket.off('replay-voting-started', handleReplayVotingStarted);
       socket.off('replay-vote-updated', handleReplayVoteUpdated);
       socket.off('game-restarted', handleGameRestarted);
       socket.off('replay-rejected', handleReplayRejected);
       socket.off('replay-timeout', handleReplayTimeout);
       socket.off('timer-update', handleTimerUpdate);
+      socket.off('room-expired', handleRoomExpired);
+      socket.off('spectating', handleSpectating);
+      socket.off('spectate-error', handleSpectateError);
+      socket.off('spectators-updated', handleSpectatorsUpdated);
+      socket.off('player-left', handlePlayerLeft);
+      socket.off('player-forfeited', handlePlayerForfeited);
+      socket.off('player-kicked', handlePlayerKicked);
+      socket.off('host-transferred', handleHostTransferred);
+      socket.off('room-error', handleRoomError);
+      socket.off('proposal-updated', handleProposalUpdated);
+      socket.off('proposal-resolved', handleProposalResolved);
+      socket.off('move-taken-back', handleMoveTakenBack);
+      socket.off('proposal-error', handleProposalError);
+      socket.off('game-paused', handleGamePaused);
+      socket.off('game-resuming', handleGameResuming);
+      socket.off('game-resumed', handleGameResumed);
+      socket.off('pause-error', handlePauseError);
     };
-  }, [socket, state.roomId, getGameState]);
+  }, [socket, state.roomId, playerId, getGameState]);
+
+  // The snapshots leave the event log out: fetch it when joining a game already over
+  useEffect(() => {
+    if (!socket || !state.roomId || state.gameState?.status !== 'finished' || state.gameEvents) return;
+
+    socket.emit('get-game-events', { roomId: state.roomId });
+  }, [socket, state.roomId, state.gameState?.status, state.gameEvents]);
+
+  // Count the turn down locally, resynchronized by every state the server sends
+  useEffect(() => {
+    if (state.gameState?.status !== 'playing' || state.gameState.pause) return;
+
+    const interval = setInterval(() => {
+      setState(prev => prev.gameState?.turnTimeLeft ? {
+        ...prev,
+        gameState: { ...prev.gameState, turnTimeLeft: prev.gameState.turnTimeLeft - 1 }
+      } : prev);
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [state.gameState?.status, state.gameState?.currentPlayerId, state.gameState?.pause]);
+
+  // Count down the seconds before a paused game resumes
+  useEffect(() => {
+    const { resumeAt } = state;
+    if (resumeAt === null) {
+      setResumeIn(null);
+      return;
+    }
+
+    const updateCountdown = () => setResumeIn(Math.max(0, Math.ceil((resumeAt - Date.now()) / 1000)));
+    updateCountdown();
+    const interval = setInterval(updateCountdown, 250);
+
+    return () => clearInterval(interval);
+  }, [state.resumeAt]);
 
   // Convert 1D board to 2D for display
   const getBoardAs2D = useCallback((): Cell[][] => {
@@ -225,11 +545,12 @@ export const useMultiplayerGame = () => {
       );
     }
 
+    const size = getBoardSize(state.gameState.board);
     const board2D: Cell[][] = [];
-    for (let row = 0; row < 3; row++) {
+    for (let row = 0; row < size; row++) {
       board2D[row] = [];
-      for (let col = 0; col < 3; col++) {
-        board2D[row][col] = state.gameState.board[row * 3 + col];
+      for (let col = 0; col < size; col++) {
+        board2D[row][col] = state.gameState.board[row * size + col];
       }
     }
     return board2D;
@@ -249,11 +570,18 @@ export const useMultiplayerGame = () => {
 
   // Join a room
   const joinRoom = useCallback((roomId: string) => {
+    socketService.rememberRoom(roomId);
     setState(prev => ({
       ...prev,
       roomId,
       gameState: null,
+      gameEvents: null,
+      room: null,
       selectedPiece: null,
+      isRejoining: false,
+      rejoinError: null,
+      isSpectator: false,
+      spectateCode: null,
       error: null
     }));
     
@@ -261,17 +589,52 @@ export const useMultiplayerGame = () => {
     getGameState(roomId);
   }, [getGameState]);
 
-  // Leave room
+  // Watch a game in progress (not remembered: a reload goes back to the menu)
+  const spectateRoom = useCallback((roomId: string, accessCode?: string) => {
+    socketService.rememberRoom(null);
+    setState(prev => ({
+      ...prev,
+      roomId,
+      gameState: null,
+      gameEvents: null,
+      room: null,
+      selectedPiece: null,
+      isRejoining: false,
+      rejoinError: null,
+      isSpectator: true,
+      spectateCode: accessCode ?? null,
+      error: null
+    }));
+
+    emitSpectateRoom(roomId, accessCode);
+  }, [emitSpectateRoom]);
+
+  // Leave room (a seated player gives their seat up: a game in progress is forfeited)
   const leaveRoom = useCallback(() => {
+    if (state.isSpectator && state.roomId) {
+      stopSpectating(state.roomId);
+    } else if (socket && state.roomId) {
+      socket.emit('leave-room', { roomId: state.roomId });
+    }
+    socketService.rememberRoom(null);
     setState(prev => ({
       ...prev,
       roomId: null,
       gameState: null,
+      gameEvents: null,
+      room: null,
       selectedPiece: null,
       error: null,
-      currentPlayer: null
+      isRejoining: false,
+      rejoinError: null,
+      isSpectator: false,
+      spectateCode: null,
+      currentPlayer: null,
+      proposal: null,
+      lowTime: false,
+      resumeAt: null
     }));
-  }, []);
+  }, [socket, state.isSpectator, state.roomId, stopSpectating]);
 
   // Select a piece
   const selectPiece = useCallback((size: Size, color: Color) => {
@@ -310,14 +673,14 @@ export const useMultiplayerGame = () => {
       return;
     }
 
-    if (state.gameState?.currentPlayerId !== state.myPlayerId) {
+    if (!state.gameState || state.gameState.currentPlayerId !== state.myPlayerId) {
       setState(prev => ({ ...prev, error: 'Ce n\'est pas votre tour' }));
       return;
     }
 
-    const cellIndex = position.row * 3 + position.col;
+    const cellIndex = position.row * getBoardSize(state.gameState.board) + position.col;
     makeMove(state.roomId, cellIndex, state.selectedPiece.size);
-  }, [state.selectedPiece, state.roomId, state.gameState?.currentPlayerId, state.myPlayerId, makeMove]);
+  }, [state.selectedPiece, state.roomId, state.gameState, state.myPlayerId, makeMove]);
 
   // Clear error
   const clearError = useCallback(() => {
@@ -334,26 +697,114 @@ export const useMultiplayerGame = () => {
     });
   }, [socket, state.roomId]);
 
+  // Fill an empty seat with a computer opponent (host only)
+  const addBot = useCallback((difficulty: BotDifficulty) => {
+    if (!socket || !state.roomId) return;
+
+    socket.emit('add-bot', {
+      roomId: state.roomId,
+      difficulty
+    });
+  }, [socket, state.roomId]);
+
+  // Remove a player or a bot before the game starts (host only)
+  const kickPlayer = useCallback((targetId: string) => {
+    if (!socket || !state.roomId) return;
+
+    socket.emit('kick-player', {
+      roomId: state.roomId,
+      playerId: targetId
+    });
+  }, [socket, state.roomId]);
+
+  // Hand the host role over to another player (host only)
+  const transferHost = useCallback((targetId: string) => {
+    if (!socket || !state.roomId) return;
+
+    socket.emit('transfer-host', {
+      roomId: state.roomId,
+      playerId: targetId
+    });
+  }, [socket, state.roomId]);
+
+  // Start without waiting for the room to fill up (host only)
+  const startGame = useCallback(() => {
+    if (!socket || !state.roomId) return;
+
+    socket.emit('start-game', { roomId: state.roomId });
+  }, [socket, state.roomId]);
+
   // Return to lobby
   const returnToLobby = useCallback(() => {
+    if (state.isSpectator && state.roomId) {
+      stopSpectating(state.roomId);
+    }
+    socketService.rememberRoom(null);
     setState(prev => ({
       ...prev,
       roomId: null,
       gameState: null,
+      gameEvents: null,
+      room: null,
       selectedPiece: null,
       error: null,
       currentPlayer: null,
       replayDeadline: null,
       replayVotes: {},
-      showReturnToLobby: false
+      showReturnToLobby: false,
+      isSpectator: false,
+      spectateCode: null,
+      proposal: null,
+      lowTime: false,
+      resumeAt: null
     }));
-  }, []);
+  }, [state.isSpectator, state.roomId, stopSpectating]);
+
+  // Offer a draw to the other players
+  const offerDraw = useCallback(() => {
+    if (!socket || !state.roomId) return;
+
+    socket.emit('offer-draw', { roomId: state.roomId });
+  }, [socket, state.roomId]);
+
+  // Ask the other players to take back one's last placement
+  const requestTakeback = useCallback(() => {
+    if (!socket || !state.roomId) return;
+
+    socket.emit('request-takeback', { roomId: state.roomId });
+  }, [socket, state.roomId]);
+
+  // Accept or decline the pending proposal
+  const respondToProposal = useCallback((accept: boolean) => {
+    if (!socket || !state.roomId || !state.proposal) return;
+
+    const events = { draw: 'respond-draw', takeback: 'respond-takeback', pause: 'respond-pause' } as const;
+    socket.emit(events[state.proposal.kind], {
+      roomId: state.roomId,
+      accept
+    });
+  }, [socket, state.roomId, state.proposal]);
+
+  // Ask the other connected players to pause the game
+  const requestPause = useCallback(() => {
+    if (!socket || !state.roomId) return;
+
+    socket.emit('request-pause', { roomId: state.roomId });
+  }, [socket, state.roomId]);
+
+  // Start the countdown before the paused game resumes
+  const resumeGame = useCallback(() => {
+    if (!socket || !state.roomId) return;
+
+    socket.emit('resume-game', { roomId: state.roomId });
+  }, [socket, state.roomId]);
 
   return {
     // State
     roomId: state.roomId,
     board: getBoardAs2D(),
     gameState: state.gameState,
+    gameEvents: state.gameEvents,
     selectedPiece: state.selectedPiece,
     error: state.error,
     isConnected: state.isConnected,
@@ -363,16 +814,63 @@ export const useMultiplayerGame = () => {
     replayDeadline: state.replayDeadline,
     replayVotes: state.replayVotes,
     showReturnToLobby: state.showReturnToLobby,
+    room: state.room,
+    isRejoining: state.isRejoining,
+    rejoinError: state.rejoinError,
+    isSpectator: state.isSpectator,
+    spectatorCount: state.room?.spectatorCount ?? 0,
+    isHost: state.room?.hostId === state.myPlayerId && state.myPlayerId !== null,
+    canStartEarly: state.gameState?.status === 'waiting' && !!state.room
+      && state.room.players.length >= 2 && state.room.players.length < state.room.capacity,
+    // Quitter en cours de partie vaut abandon (RULES.md §8.4)
+    canForfeit: !state.isSpectator && state.gameState?.status === 'playing' && getCurrentPlayer()?.isEliminated === false,
+    opponentsLeft: state.gameState?.players.filter(p => !p.isEliminated && p.id !== state.myPlayerId).length ?? 0,
+    proposal: state.proposal,
+    canProposeDraw: !state.isSpectator && state.gameState?.status === 'playing' && getCurrentPlayer()?.isEliminated === false && !state.proposal,
+    canRequestTakeback: !state.isSpectator && state.gameState?.status === 'playing' && !state.proposal
+      && state.myPlayerId !== null && state.gameState.takebackPlayerId === state.myPlayerId,
+    lowTime: state.lowTime && state.gameState?.status === 'playing',
+    pause: state.gameState?.status === 'playing' ? state.gameState.pause : null,
+    resumeIn,
+    canRequestPause: !state.isSpectator && state.gameState?.status === 'playing' && !state.gameState.pause
+      && getCurrentPlayer()?.isEliminated === false && !state.proposal,
+    // A pause for a dropped player resumes by itself once they are back (or a bot took their seat)
+    canResume: !state.isSpectator && state.gameState?.status === 'playing' && state.gameState.pause?.reason === 'request'
+      && state.resumeAt === null && getCurrentPlayer()?.isEliminated === false,
+    // Time left on each player's clock, counted down for the player to move
+    clocks: state.gameState?.timeControl.type === 'per_move' ? {} : Object.fromEntries(
+      state.gameState?.players.filter(p => !p.isEliminated).map(p => [
+        p.id,
+        p.id === state.gameState!.currentPlayerId ? state.gameState!.turnTimeLeft : state.gameState!.clocks[p.id] ?? 0
+      ]) ?? []
+    ),
+    // Skips each player can still afford before the anti-abuse policy eliminates them (empty when it is off)
+    strikesLeft: Object.fromEntries(
+      state.gameState?.players.filter(p => !p.isEliminated).flatMap(p => {
+        const strikes = getStrikesLeft(state.gameState!.antiAbuse, p);
+        return strikes === null ? [] : [[p.id, strikes]];
+      }) ?? []
+    ) as Record<string, number>,
     
     // Actions
     joinRoom,
+    spectateRoom,
     leaveRoom,
     selectPiece,
     deselectPiece,
     placePiece,
     clearError,
     castReplayVote,
+    addBot,
+    kickPlayer,
+    transferHost,
+    startGame,
     returnToLobby,
+    offerDraw,
+    requestTakeback,
+    respondToProposal,
+    requestPause,
+    resumeGame,
     
     // Derived state
     isMyTurn: state.gameState?.currentPlayerId === state.myPlayerId && state.myPlayerId !== null,
@@ -0,0 +1,134 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useSocket } from './useSocket';
+import type { ChatMessage, ServerEventPayload } from '@mortpion/shared';
+
+// Messages kept on screen, like the history kept by the server
+const MAX_MESSAGES = 100;
+
+interface RoomChatState {
+  messages: ChatMessage[];
+  mutedPlayerIds: string[];
+  unreadCount: number;
+  isOpen: boolean;
+  error: string | null;
+}
+
+const initialState: RoomChatState = {
+  messages: [],
+  mutedPlayerIds: [],
+  unreadCount: 0,
+  isOpen: false,
+  error: null,
+};
+
+// Chat of the room being played or watched; `isInRoom` once the server has seated (or let in) this client
+export const useRoomChat = (roomId: string | null, isInRoom: boolean) => {
+  const { socket, isConnected, playerId } = useSocket();
+  const [state, setState] = useState<RoomChatState>(initialState);
+
+  // A new room starts a new conversation
+  useEffect(() => {
+    setState(initialState);
+  }, [roomId]);
+
+  // Load the history on entering the room, and again after a reconnection
+  useEffect(() => {
+    if (socket && isConnected && roomId && isInRoom) {
+      socket.emit('get-chat-history', { roomId });
+    }
+  }, [socket, isConnected, roomId, isInRoom]);
+
+  // Socket event listeners
+  useEffect(() => {
+    if (!socket || !roomId) return;
+
+    const handleChatHistory = (data: ServerEventPayload<'chat-history'>) => {
+      if (data.roomId !== roomId) return;
+      setState(prev => ({
+        ...prev,
+        messages: data.messages,
+        mutedPlayerIds: data.mutedPlayerIds,
+        error: null
+      }));
+    };
+
+    const handleChatMessage = (data: ServerEventPayload<'chat-message'>) => {
+      if (data.roomId !== roomId) return;
+      setState(prev => ({
+        ...prev,
+        messages: [...prev.messages, data.message].slice(-MAX_MESSAGES),
+        unreadCount: prev.isOpen || data.message.playerId === playerId ? prev.unreadCount : prev.unreadCount + 1,
+        error: data.message.playerId === playerId ? null : prev.error
+      }));
+    };
+
+    const handlePlayerMuted = (data: ServerEventPayload<'player-muted'>) => {
+      if (data.roomId !== roomId) return;
+      setState(prev => ({
+        ...prev,
+        mutedPlayerIds: data.muted
+          ? [...prev.mutedPlayerIds.filter(id => id !== data.playerId), data.playerId]
+          : prev.mutedPlayerIds.filter(id => id !== data.playerId)
+      }));
+    };
+
+    const handleChatError = (data: ServerEventPayload<'chat-error'>) => {
+      setState(prev => ({ ...prev, error: data.message }));
+    };
+
+    socket.on('chat-history', handleChatHistory);
+    socket.on('chat-message', handleChatMessage);
+    socket.on('player-muted', handlePlayerMuted);
+    socket.on('chat-error', handleChatError);
+
+    return () => {
+      socket.off('chat-history', handleChatHistory);
+      socket.off('chat-message', handleChatMessage);
+      socket.off('player-muted', handlePlayerMuted);
+      socket.off('chat-error', handleChatError);
+    };
+  }, [socket, roomId, playerId]);
+
+  // Post a message (players only, the server checks mute and rate limit)
+  const sendMessage = useCallback((text: string) => {
+    if (!socket || !roomId || !text.trim()) return;
+
+    socket.emit('send-chat-message', { roomId, text: text.trim() });
+  }, [socket, roomId]);
+
+  // Silence a player or give them their voice back (host only)
+  const setPlayerMuted = useCallback((targetId: string, muted: boolean) => {
+    if (!socket || !roomId) return;
+
+    socket.emit('mute-player', { roomId, playerId: targetId, muted });
+  }, [socket, roomId]);
+
+  const openChat = useCallback(() => {
+    setState(prev => ({ ...prev, isOpen: true, unreadCount: 0 }));
+  }, []);
+
+  const closeChat = useCallback(() => {
+    setState(prev => ({ ...prev, isOpen: false }));
+  }, []);
+
+  const clearError = useCallback(() => {
+    setState(prev => ({ ...prev, error: null }));
+  }, []);
+
+  return {
+    // State
+    messages: state.messages,
+    mutedPlayerIds: state.mutedPlayerIds,
+    unreadCount: state.unreadCount,
+    isOpen: state.isOpen,
+    error: state.error,
+    isMuted: playerId !== null && state.mutedPlayerIds.includes(playerId),
+
+    // Actions
+    sendMessage,
+    setPlayerMuted,
+    openChat,
+    closeChat,
+    clearError
+  };
+};
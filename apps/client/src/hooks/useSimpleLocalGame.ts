@@ -1,4 +1,4 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { 
   PlayerClass,
   Color,
@@ -6,12 +6,17 @@ import {
   RoomStatus,
   Board, 
   Cell, 
+  RuleSetConfig,
+  BotDifficulty,
   createEmptyBoard,
-  isLegalMove,
-  applyMove,
-  hasLegalMoves,
-  checkWinConditions
+  getBoardSize,
+  getRuleSet,
+  parseNotation,
+  replayNotation,
+  serializeNotation,
+  RULE_SET_PRESETS
 } from '@mortpion/shared';
+import type { BotWorkerRequest, BotWorkerResponse } from '../workers/bot.worker';
 
 // Types simplifiés pour l'interface
 type Position = { row: number; col: number };
@@ -19,36 +24,241 @@ type GameResult = {
   type: 'victory' | 'draw';
   winner?: string;
   condition?: string;
+  winningCells?: number[];
 } | null;
 
-interface LocalGameState {
+// Place autour de la table : joueur humain ou ordinateur
+export interface LocalSeat {
+  type: 'human' | 'bot';
+  difficulty: BotDifficulty;
+}
+
+// Délai minimal avant que l'ordinateur joue, pour laisser voir le coup précédent
+const BOT_MOVE_DELAY_MS = 700;
+
+// Coup joué, tel qu'affiché dans l'historique
+export interface LocalMoveRecord {
+  moveNumber: number;
+  playerName: string;
+  color: Color;
+  isBot: boolean;
+  size: Size;
+  cellIndex: number;
+  covered: Array<{ size: Size; color: Color }>; // pièces déjà présentes dans la case
+  captured: boolean; // pièces retirées du plateau (règle de remplacement)
+}
+
+// État restauré par une annulation
+interface LocalSnapshot {
+  board: Board;
+  players: PlayerClass[];
+  currentPlayerIndex: number;
+  status: RoomStatus;
+  result: GameResult;
+}
+
+// Tour joué : un coup, ou un tour passé faute de coup possible
+interface LocalHistoryEntry {
+  playerIndex: number; // joueur qui avait le trait
+  isBot: boolean;
+  move: LocalMoveRecord | null; // null : tour passé
+  before: LocalSnapshot;
+}
+
+export interface LocalGameState {
   board: Board;
+  rules: RuleSetConfig;
   players: PlayerClass[];
+  seats: LocalSeat[];
   currentPlayerIndex: number;
   status: RoomStatus;
   result: GameResult;
   selectedPiece: { size: Size; color: Color } | null;
   error: string | null;
+  history: LocalHistoryEntry[];
+  redoStack: LocalHistoryEntry[];
 }
 
+// État d'avant un tour, pour pouvoir l'annuler
+const takeSnapshot = (state: LocalGameState): LocalSnapshot => ({
+  board: state.board,
+  players: state.players,
+  currentPlayerIndex: state.currentPlayerIndex,
+  status: state.status,
+  result: state.result
+});
+
+// Appliquer un coup (humain ou ordinateur) pour le joueur courant
+export const applyLocalMove = (state: LocalGameState, cellIndex: number, size: Size): LocalGameState => {
+  const ruleSet = getRuleSet(state.rules);
+  const currentPlayer = state.players[state.currentPlayerIndex];
+
+  try {
+    // Vérifier si le coup est légal
+    if (!ruleSet.isLegalMove(state.board, cellIndex, size)) {
+      return { ...state, error: 'Coup invalide - Vérifiez les règles d\'imbrication' };
+    }
+
+    // Noter les pièces recouvertes (ou retirées) avant d'appliquer le coup
+    const covered = (['P', 'M', 'G'] as const)
+      .filter(coveredSize => state.board[cellIndex][coveredSize] !== null)
+      .map(coveredSize => ({ size: coveredSize, color: state.board[cellIndex][coveredSize] as Color }));
+
+    // Appliquer le coup
+    const newBoard = ruleSet.applyMove(state.board, cellIndex, size, currentPlayer.color);
+    
+    // Mettre à jour l'inventaire du joueur
+    const newPlayers = [...state.players];
+    newPlayers[state.currentPlayerIndex] = {
+      ...currentPlayer,
+      inventory: {
+        ...currentPlayer.inventory,
+        [size]: currentPlayer.inventory[size] - 1
+      }
+    };
+
+    // Vérifier les conditions de victoire
+    const winningPattern = ruleSet.findWinningPattern(newBoard, currentPlayer.color);
+    const isDraw = !winningPattern && ruleSet.isDraw(newBoard, newPlayers);
+
+    let newStatus: RoomStatus = 'playing';
+    let newResult: GameResult = null;
+
+    if (winningPattern) {
+      newStatus = 'finished';
+      newResult = {
+        type: 'victory',
+        winner: currentPlayer.nickname,
+        condition: winningPattern.condition,
+        winningCells: winningPattern.cells
+      };
+    } else if (isDraw) {
+      newStatus = 'finished';
+      newResult = { type: 'draw' };
+    }
+
+    // Passer au joueur suivant si la partie continue
+    let nextPlayerIndex = state.currentPlayerIndex;
+    if (newStatus === 'playing') {
+      nextPlayerIndex = (state.currentPlayerIndex + 1) % state.players.length;
+    }
+
+    const isBot = state.seats[state.currentPlayerIndex]?.type === 'bot';
+    const entry: LocalHistoryEntry = {
+      playerIndex: state.currentPlayerIndex,
+      isBot,
+      move: {
+        moveNumber: state.history.filter(({ move }) => move).length + 1,
+        playerName: currentPlayer.nickname,
+        color: currentPlayer.color,
+        isBot,
+        size,
+        cellIndex,
+        covered,
+        captured: covered.length > 0 && covered.some(piece => newBoard[cellIndex][piece.size] !== piece.color)
+      },
+      before: takeSnapshot(state)
+    };
+
+    return {
+      ...state,
+      board: newBoard,
+      players: newPlayers,
+      currentPlayerIndex: nextPlayerIndex,
+      status: newStatus,
+      result: newResult,
+      selectedPiece: null,
+      error: null,
+      history: [...state.history, entry],
+      redoStack: []
+    };
+  } catch (error) {
+    return {
+      ...state,
+      error: error instanceof Error ? error.message : 'Erreur lors du placement'
+    };
+  }
+};
+
+// Annuler le dernier coup humain (et les tours de l'ordinateur joués depuis)
+export const undoLocalMove = (state: LocalGameState): LocalGameState => {
+  const history = [...state.history];
+  const redoStack = [...state.redoStack];
+  let entry: LocalHistoryEntry | undefined;
+
+  while ((entry = history.pop())) {
+    redoStack.push(entry);
+    if (!entry.isBot) break;
+  }
+
+  const undone = redoStack[redoStack.length - 1];
+  if (!undone || redoStack.length === state.redoStack.length) return state;
+
+  return {
+    ...state,
+    ...undone.before,
+    history,
+    redoStack,
+    selectedPiece: null,
+    error: null
+  };
+};
+
+// Rejouer le coup annulé (et les tours de l'ordinateur qui le suivaient), chacun par le joueur
+// qui l'avait joué
+export const redoLocalMove = (state: LocalGameState): LocalGameState => {
+  let next = state;
+  const redoStack = [...state.redoStack];
+
+  do {
+    const entry = redoStack.pop();
+    if (!entry) break;
+    const turn = { ...next, currentPlayerIndex: entry.playerIndex };
+    next = {
+      ...(entry.move ? applyLocalMove(turn, entry.move.cellIndex, entry.move.size) : skipLocalTurn(turn)),
+      redoStack: [...redoStack]
+    };
+  } while (redoStack.length > 0 && redoStack[redoStack.length - 1].isBot);
+
+  return next;
+};
+
+// Passer le tour d'un joueur qui n'a plus de coup possible
+export const skipLocalTurn = (state: LocalGameState): LocalGameState => ({
+  ...state,
+  currentPlayerIndex: (state.currentPlayerIndex + 1) % state.players.length,
+  history: [...state.history, {
+    playerIndex: state.currentPlayerIndex,
+    isBot: state.seats[state.currentPlayerIndex]?.type === 'bot',
+    move: null,
+    before: takeSnapshot(state)
+  }],
+  redoStack: []
+});
+
 export const useSimpleLocalGame = () => {
   const [state, setState] = useState<LocalGameState>({
     board: createEmptyBoard(),
+    rules: RULE_SET_PRESETS['visible-only'],
     players: [],
+    seats: [],
     currentPlayerIndex: 0,
     status: 'waiting',
     result: null,
     selectedPiece: null,
-    error: null
+    error: null,
+    history: [],
+    redoStack: []
   });
 
   // Convertir board 1D en 2D pour l'affichage
   const getBoardAs2D = (): Cell[][] => {
+    const size = getBoardSize(state.board);
     const board2D: Cell[][] = [];
-    for (let row = 0; row < 3; row++) {
+    for (let row = 0; row < size; row++) {
       board2D[row] = [];
-      for (let col = 0; col < 3; col++) {
-        board2D[row][col] = state.board[row * 3 + col];
+      for (let col = 0; col < size; col++) {
+        board2D[row][col] = state.board[row * size + col];
       }
     }
     return board2D;
@@ -56,17 +266,17 @@ export const useSimpleLocalGame = () => {
 
   // Convertir position 2D en index 1D
   const positionToIndex = (position: Position): number => {
-    return position.row * 3 + position.col;
+    return position.row * getBoardSize(state.board) + position.col;
   };
 
   // Créer des joueurs simples
-  const createPlayers = (count: 2 | 3 | 4): PlayerClass[] => {
+  const createPlayers = (count: 2 | 3 | 4, rules: RuleSetConfig, seats: LocalSeat[]): PlayerClass[] => {
     const colors: Color[] = ['red', 'blue', 'green', 'yellow'];
     return Array.from({ length: count }, (_, i) => ({
       id: `player-${i}`,
-      nickname: `Joueur ${i + 1}`,
+      nickname: seats[i]?.type === 'bot' ? `Ordinateur ${i + 1}` : `Joueur ${i + 1}`,
       color: colors[i],
-      inventory: { P: 3, M: 3, G: 3 },
+      inventory: { ...rules.inventory },
       connected: true,
       skipsInARow: 0,
       isEliminated: false,
@@ -75,17 +285,25 @@ export const useSimpleLocalGame = () => {
   };
 
   // Démarrer une nouvelle partie
-  const startLocalGame = useCallback((playerCount: 2 | 3 | 4 = 2) => {
+  const startLocalGame = useCallback((
+    playerCount: 2 | 3 | 4 = 2,
+    rules: RuleSetConfig = RULE_SET_PRESETS['visible-only'],
+    seats: LocalSeat[] = []
+  ) => {
     try {
-      const players = createPlayers(playerCount);
+      const players = createPlayers(playerCount, rules, seats);
       setState({
-        board: createEmptyBoard(),
+        board: createEmptyBoard(rules.boardSize),
+        rules,
         players,
+        seats: players.map((_, i) => seats[i] ?? { type: 'human', difficulty: 'medium' }),
         currentPlayerIndex: 0,
         status: 'playing',
         result: null,
         selectedPiece: null,
-        error: null
+        error: null,
+        history: [],
+        redoStack: []
       });
     } catch (error) {
       setState(prev => ({
@@ -95,9 +313,133 @@ export const useSimpleLocalGame = () => {
     }
   }, []);
 
+  // Importer une partie écrite en notation (tous les joueurs sont humains)
+  // Renvoie un message d'erreur si la notation est invalide
+  const importLocalGame = useCallback((text: string): string | null => {
+    try {
+      const game = parseNotation(text);
+      replayNotation(game); // Vérifie la légalité de chaque coup
+
+      const players: PlayerClass[] = game.players.map((player, i) => ({
+        id: `player-${i}`,
+        nickname: player.name,
+        color: player.color,
+        inventory: { ...game.rules.inventory },
+        connected: true,
+        skipsInARow: 0,
+        isEliminated: false,
+        isHost: i === 0
+      }));
+
+      let next: LocalGameState = {
+        board: createEmptyBoard(game.rules.boardSize),
+        rules: game.rules,
+        players,
+        seats: players.map(() => ({ type: 'human', difficulty: 'medium' })),
+        currentPlayerIndex: 0,
+        status: 'playing',
+        result: null,
+        selectedPiece: null,
+        error: null,
+        history: [],
+        redoStack: []
+      };
+
+      // Rejouer les coups pour retrouver l'historique (et pouvoir les annuler)
+      for (const [index, move] of game.moves.entries()) {
+        if (next.status !== 'playing') {
+          return `Coup ${index + 1} joué après la fin de la partie`;
+        }
+
+        const playerIndex = players.findIndex(player => player.color === move.color);
+        next = move.type === 'skip'
+          ? skipLocalTurn({ ...next, currentPlayerIndex: playerIndex })
+          : applyLocalMove({ ...next, currentPlayerIndex: playerIndex }, move.cellIndex, move.size);
+
+        if (next.error) {
+          return `Coup ${index + 1} : ${next.error}`;
+        }
+      }
+
+      setState(next);
+      return null;
+    } catch (error) {
+      return `Notation invalide : ${error instanceof Error ? error.message : 'format inconnu'}`;
+    }
+  }, []);
+
+  // Écrire la partie en notation (pour la partager ou la joindre à un rapport de bug)
+  const exportLocalGame = useCallback((): string => {
+    const winner = state.result?.type === 'victory'
+      ? state.players.find(player => player.nickname === state.result?.winner)
+      : undefined;
+
+    return serializeNotation({
+      players: state.players.map(player => ({ color: player.color, name: player.nickname })),
+      rules: state.rules,
+      result: state.result?.type === 'draw' ? 'draw' : winner?.color ?? null,
+      moves: state.history.map(({ move, playerIndex }) => move
+        ? { type: 'placement', color: move.color, cellIndex: move.cellIndex, size: move.size }
+        : { type: 'skip', color: state.players[playerIndex].color })
+    });
+  }, [state.players, state.rules, state.result, state.history]);
+
+  // Tour de l'ordinateur : le plateau et l'inventaire sont verrouillés
+  const isBotTurn = state.status === 'playing' && state.seats[state.currentPlayerIndex]?.type === 'bot';
+  const [isBotThinking, setIsBotThinking] = useState(false);
+  const workerRef = useRef<Worker | null>(null);
+  const botRequestRef = useRef(0);
+
+  // Faire jouer l'ordinateur dans un Web Worker
+  useEffect(() => {
+    if (!isBotTurn) return;
+
+    if (!workerRef.current) {
+      workerRef.current = new Worker(new URL('../workers/bot.worker.ts', import.meta.url), { type: 'module' });
+    }
+    const worker = workerRef.current;
+    const requestId = ++botRequestRef.current;
+    const startedAt = Date.now();
+    let moveTimeout: ReturnType<typeof setTimeout> | undefined;
+
+    const handleMessage = (event: MessageEvent<BotWorkerResponse>) => {
+      if (event.data.requestId !== requestId) return;
+      const { move } = event.data;
+
+      moveTimeout = setTimeout(() => {
+        setIsBotThinking(false);
+        setState(prev => move ? applyLocalMove(prev, move.cellIndex, move.size) : skipLocalTurn(prev));
+      }, Math.max(0, BOT_MOVE_DELAY_MS - (Date.now() - startedAt)));
+    };
+
+    const request: BotWorkerRequest = {
+      requestId,
+      board: state.board,
+      players: state.players,
+      currentPlayerIndex: state.currentPlayerIndex,
+      rules: state.rules,
+      difficulty: state.seats[state.currentPlayerIndex].difficulty
+    };
+
+    setIsBotThinking(true);
+    worker.addEventListener('message', handleMessage);
+    worker.postMessage(request);
+
+    return () => {
+      worker.removeEventListener('message', handleMessage);
+      clearTimeout(moveTimeout);
+      setIsBotThinking(false);
+    };
+  }, [isBotTurn, state.board, state.players, state.currentPlayerIndex, state.rules, state.seats]);
+
+  // Arrêter le worker en quittant le jeu
+  useEffect(() => {
+    return () => workerRef.current?.terminate();
+  }, []);
+
   // Sélectionner une pièce
   const selectPiece = useCallback((size: Size, color: Color) => {
-    if (state.status !== 'playing') return;
+    if (state.status !== 'playing' || isBotTurn) return;
     
     const currentPlayer = state.players[state.currentPlayerIndex];
     if (!currentPlayer || currentPlayer.color !== color) {
@@ -115,80 +457,21 @@ export const useSimpleLocalGame = () => {
       selectedPiece: { size, color },
       error: null
     }));
-  }, [state.status, state.players, state.currentPlayerIndex]);
+  }, [state.status, state.players, state.currentPlayerIndex, isBotTurn]);
 
   // Placer une pièce
   const placePiece = useCallback((position: Position) => {
+    if (isBotTurn) return;
+
     if (!state.selectedPiece || state.status !== 'playing') {
       setState(prev => ({ ...prev, error: 'Aucune pièce sélectionnée' }));
       return;
     }
 
     const cellIndex = positionToIndex(position);
-    const currentPlayer = state.players[state.currentPlayerIndex];
-
-    try {
-      // Vérifier si le coup est légal (avec couleur)
-      if (!isLegalMove(state.board, cellIndex, state.selectedPiece.size, state.selectedPiece.color)) {
-        setState(prev => ({ ...prev, error: 'Coup invalide - Vérifiez les règles d\'imbrication' }));
-        return;
-      }
-
-      // Appliquer le coup
-      const newBoard = applyMove(state.board, cellIndex, state.selectedPiece.size, state.selectedPiece.color);
-      
-      // Mettre à jour l'inventaire du joueur
-      const newPlayers = [...state.players];
-      newPlayers[state.currentPlayerIndex] = {
-        ...currentPlayer,
-        inventory: {
-          ...currentPlayer.inventory,
-          [state.selectedPiece.size]: currentPlayer.inventory[state.selectedPiece.size] - 1
-        }
-      };
-
-      // Vérifier les conditions de victoire
-      const hasWon = checkWinConditions(newBoard, state.selectedPiece.color);
-      const isDraw = !hasWon && checkDrawCondition(newBoard, newPlayers);
-
-      let newStatus: RoomStatus = 'playing';
-      let newResult: GameResult = null;
-
-      if (hasWon) {
-        newStatus = 'finished';
-        newResult = {
-          type: 'victory',
-          winner: currentPlayer.nickname,
-          condition: 'alignment'
-        };
-      } else if (isDraw) {
-        newStatus = 'finished';
-        newResult = { type: 'draw' };
-      }
-
-      // Passer au joueur suivant si la partie continue
-      let nextPlayerIndex = state.currentPlayerIndex;
-      if (newStatus === 'playing') {
-        nextPlayerIndex = (state.currentPlayerIndex + 1) % state.players.length;
-      }
-
-      setState(prev => ({
-        ...prev,
-        board: newBoard,
-        players: newPlayers,
-        currentPlayerIndex: nextPlayerIndex,
-        status: newStatus,
-        result: newResult,
-        selectedPiece: null,
-        error: null
-      }));
-    } catch (error) {
-      setState(prev => ({
-        ...prev,
-        error: error instanceof Error ? error.message : 'Erreur lors du placement'
-      }));
-    }
-  }, [state.board, state.selectedPiece, state.status, state.players, state.currentPlayerIndex]);
+    const { size } = state.selectedPiece;
+    setState(prev => applyLocalMove(prev, cellIndex, size));
+  }, [state.selectedPiece, state.status, state.board, isBotTurn]);
 
   // Vérification simplifiée des conditions de victoire
   /*
@@ -220,11 +503,14 @@ export const useSimpleLocalGame = () => {
   };
   */
 
-  // Vérification simplifiée du match nul
-  const checkDrawCondition = (board: Board, players: PlayerClass[]): boolean => {
-    // Match nul si aucun joueur n'a de coups légaux
-    return players.every(player => !hasLegalMoves(board, player));
-  };
+  // Annuler / rétablir
+  const undo = useCallback(() => {
+    setState(prev => undoLocalMove(prev));
+  }, []);
+
+  const redo = useCallback(() => {
+    setState(prev => redoLocalMove(prev));
+  }, []);
 
   // Désélectionner la pièce
   const deselectPiece = useCallback(() => {
@@ -235,34 +521,49 @@ export const useSimpleLocalGame = () => {
   const resetGame = useCallback(() => {
     setState({
       board: createEmptyBoard(),
+      rules: RULE_SET_PRESETS['visible-only'],
       players: [],
+      seats: [],
       currentPlayerIndex: 0,
       status: 'waiting',
       result: null,
       selectedPiece: null,
-      error: null
+      error: null,
+      history: [],
+      redoStack: []
     });
   }, []);
 
   return {
     // État
     board: getBoardAs2D(),
+    rules: state.rules,
+    seats: state.seats,
     players: state.players,
     currentPlayer: state.players[state.currentPlayerIndex] || null,
     selectedPiece: state.selectedPiece,
     error: state.error,
     gameStatus: state.status,
     gameResult: state.result,
+    moveHistory: state.history.flatMap(({ move }) => move ? [move] : []),
+    canUndo: state.history.some(entry => !entry.isBot),
+    canRedo: state.redoStack.length > 0,
     
     // Actions
     startLocalGame,
+    importLocalGame,
+    exportLocalGame,
     selectPiece,
     placePiece,
     deselectPiece,
     resetGame,
+    undo,
+    redo,
     
     // État dérivé
     isGameActive: state.status === 'playing',
+    isBotTurn,
+    isBotThinking,
     isGameFinished: state.status === 'finished'
   };
 };
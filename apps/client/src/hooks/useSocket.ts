@@ -1,27 +1,46 @@
 import { useEffect, useState } from 'react';
-import { Socket } from 'socket.io-client';
+import type { AntiAbusePolicy, RuleSetConfig, ServerToClientEvents, Size, TimeControl } from '@mortpion/shared';
 import { socketService } from '../services/socketService';
+import type { GameSocket } from '../services/socketService';
+
+type PongPayload = Parameters<ServerToClientEvents['pong']>[0];
 
 export function useSocket() {
-  const [socket, setSocket] = useState<Socket | null>(null);
+  const [socket, setSocket] = useState<GameSocket | null>(null);
   const [isConnected, setIsConnected] = useState(false);
-  const [lastPong, setLastPong] = useState<any>(null);
+  const [playerId, setPlayerId] = useState<string | null>(null);
+  const [upgradeRequired, setUpgradeRequired] = useState(false);
+  const [lastPong, setLastPong] = useState<PongPayload | null>(null);
 
   useEffect(() => {
     // Get singleton socket instance
     const socketInstance = socketService.getSocket();
     setSocket(socketInstance);
     setIsConnected(socketService.getIsConnected());
+    setPlayerId(socketService.getPlayerId());
+    setUpgradeRequired(socketService.getUpgradeRequired());
 
     // Listen for connection changes
     const handleConnectionChange = (connected: boolean) => {
       setIsConnected(connected);
     };
 
+    // Player id given by the server for this session
+    const handleSessionChange = (id: string) => {
+      setPlayerId(id);
+    };
+
+    // The server turned this client version away
+    const handleUpgradeRequired = () => {
+      setUpgradeRequired(true);
+    };
+
     socketService.on('connection-changed', handleConnectionChange);
+    socketService.on('session-changed', handleSessionChange);
+    socketService.on('upgrade-required', handleUpgradeRequired);
 
     // Test ping-pong
-    const handlePong = (data: any) => {
+    const handlePong = (data: PongPayload) => {
       console.log('Received pong:', data);
       setLastPong(data);
     };
@@ -33,6 +52,8 @@ export function useSocket() {
     // Cleanup on unmount
     return () => {
       socketService.off('connection-changed', handleConnectionChange);
+      socketService.off('session-changed', handleSessionChange);
+      socketService.off('upgrade-required', handleUpgradeRequired);
       if (socketInstance) {
         socketInstance.off('pong', handlePong);
       }
@@ -44,18 +65,30 @@ export function useSocket() {
     socketService.ping();
   };
 
-  const createRoom = (playerName: string, roomName?: string, isPrivate?: boolean, capacity?: number) => {
-    socketService.createRoom(playerName, roomName, isPrivate, capacity);
+  const createRoom = (playerName: string, roomName?: string, isPrivate?: boolean, capacity?: number, rules?: RuleSetConfig, timeControl?: TimeControl, autoPause?: boolean, antiAbuse?: AntiAbusePolicy) => {
+    socketService.createRoom(playerName, roomName, isPrivate, capacity, rules, timeControl, autoPause, antiAbuse);
   };
 
   const joinRoom = (roomId: string, playerName: string, accessCode?: string) => {
     socketService.joinRoom(roomId, playerName, accessCode);
   };
 
-  const makeMove = (roomId: string, cellIndex: number, size: 'P' | 'M' | 'G') => {
+  const makeMove = (roomId: string, cellIndex: number, size: Size) => {
     socketService.makeMove(roomId, cellIndex, size);
   };
 
+  const rejoinRoom = (roomId: string) => {
+    socketService.rejoinRoom(roomId);
+  };
+
+  const spectateRoom = (roomId: string, accessCode?: string) => {
+    socketService.spectateRoom(roomId, accessCode);
+  };
+
+  const stopSpectating = (roomId: string) => {
+    socketService.stopSpectating(roomId);
+  };
+
   const getGameState = (roomId: string) => {
     socketService.getGameState(roomId);
   };
@@ -71,6 +104,8 @@ export function useSocket() {
   return {
     socket,
     isConnected,
+    playerId,
+    upgradeRequired,
     lastPong,
     connect,
     disconnect,
@@ -78,6 +113,9 @@ export function useSocket() {
     createRoom,
     joinRoom,
     makeMove,
+    rejoinRoom,
+    spectateRoom,
+    stopSpectating,
     getGameState
   };
 }
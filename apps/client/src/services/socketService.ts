@@ -1,40 +1,88 @@
 import { io, Socket } from 'socket.io-client';
+import { PROTOCOL_VERSION } from '@mortpion/shared';
+import type { AntiAbusePolicy, ClientToServerEvents, HandshakeAuth, RuleSetConfig, ServerToClientEvents, Size, TimeControl } from '@mortpion/shared';
+
+// Socket typed with the event contract shared with the server
+export type GameSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+// Events of the service itself (not sent by the server)
+interface SocketServiceEvents {
+  'connection-changed': (connected: boolean) => void;
+  'session-changed': (playerId: string) => void;
+  'upgrade-required': () => void;
+}
 
 const SERVER_URL = import.meta.env.VITE_SERVER_URL;
 
+// Build of this client, reported to the server with the protocol version
+export const BUILD_HASH = import.meta.env.VITE_BUILD_HASH ?? 'dev';
+
+// Handshake sent at every (re)connection
+export function getHandshakeAuth(sessionToken?: string | null): HandshakeAuth {
+  return { sessionToken, protocolVersion: PROTOCOL_VERSION, buildHash: BUILD_HASH };
+}
+
+// Session token kept across reloads so the server gives back the same player id
+const SESSION_STORAGE_KEY = 'mortpion-session';
+
+// Room of the current online game, to take the seat back after a reload
+const ROOM_STORAGE_KEY = 'mortpion-room';
+
 class SocketService {
-  private socket: Socket | null = null;
+  private socket: GameSocket | null = null;
   private isConnected = false;
-  private listeners: Map<string, Set<Function>> = new Map();
+  private playerId: string | null = null;
+  private upgradeRequired = false;
+  private listeners: Map<keyof SocketServiceEvents, Set<(...args: any[]) => void>> = new Map();
 
   connect() {
     if (this.socket) {
       return this.socket;
     }
 
-    this.socket = io(SERVER_URL, {
+    const socket: GameSocket = io(SERVER_URL, {
       autoConnect: true,
+      // Read at every (re)connection, so the latest token is always sent
+      auth: (cb) => cb(getHandshakeAuth(this.getSessionToken())),
+    });
+
+    this.socket = socket;
+
+    // The server no longer speaks this client's protocol: it closes the connection
+    // (without reconnecting) and only a reload can fetch the current client
+    socket.on('handshake', (data) => {
+      if (data.status === 'upgrade-required') {
+        console.warn(`Protocol ${PROTOCOL_VERSION} no longer supported (server ${data.protocolVersion})`);
+        this.upgradeRequired = true;
+        this.emit('upgrade-required');
+      }
+    });
+
+    socket.on('session', (data) => {
+      this.playerId = data.playerId;
+      this.setSessionToken(data.sessionToken);
+      this.emit('session-changed', data.playerId);
     });
 
-    this.socket.on('connect', () => {
+    socket.on('connect', () => {
       console.log('Connected to server:', this.socket?.id);
       this.isConnected = true;
       this.emit('connection-changed', true);
     });
 
-    this.socket.on('disconnect', () => {
+    socket.on('disconnect', () => {
       console.log('Disconnected from server');
       this.isConnected = false;
       this.emit('connection-changed', false);
     });
 
-    this.socket.on('connect_error', (err) => {
+    socket.on('connect_error', (err) => {
       console.error('Connection error:', err);
       this.isConnected = false;
       this.emit('connection-changed', false);
     });
 
-    return this.socket;
+    return socket;
   }
 
   disconnect() {
@@ -57,24 +105,67 @@ class SocketService {
     return this.isConnected;
   }
 
+  // Whether this client is too old for the server and the page must be reloaded
+  getUpgradeRequired() {
+    return this.upgradeRequired;
+  }
+
+  // Stable player id given by the server (unlike socket.id, it survives reconnections)
+  getPlayerId() {
+    return this.playerId;
+  }
+
+  private getSessionToken(): string | null {
+    try {
+      return localStorage.getItem(SESSION_STORAGE_KEY);
+    } catch {
+      return null; // Storage unavailable (private browsing)
+    }
+  }
+
+  private setSessionToken(token: string) {
+    try {
+      localStorage.setItem(SESSION_STORAGE_KEY, token);
+    } catch {
+      // Storage unavailable: the session only lasts as long as the page
+    }
+  }
+
+  // Room to rejoin after a reload (null when not in an online game)
+  getRememberedRoom(): string | null {
+    try {
+      return localStorage.getItem(ROOM_STORAGE_KEY);
+    } catch {
+      return null;
+    }
+  }
+
+  rememberRoom(roomId: string | null) {
+    try {
+      if (roomId) {
+        localStorage.setItem(ROOM_STORAGE_KEY, roomId);
+      } else {
+        localStorage.removeItem(ROOM_STORAGE_KEY);
+      }
+    } catch {
+      // Storage unavailable: a reload leaves the game
+    }
+  }
+
   // Event listener management
-  on(event: string, callback: Function) {
+  on<E extends keyof SocketServiceEvents>(event: E, callback: SocketServiceEvents[E]) {
     if (!this.listeners.has(event)) {
       this.listeners.set(event, new Set());
     }
     this.listeners.get(event)!.add(callback);
   }
 
-  off(event: string, callback: Function) {
-    if (this.listeners.has(event)) {
-      this.listeners.get(event)!.delete(callback);
-    }
+  off<E extends keyof SocketServiceEvents>(event: E, callback: SocketServiceEvents[E]) {
+    this.listeners.get(event)?.delete(callback);
   }
 
-  private emit(event: string, ...args: any[]) {
-    if (this.listeners.has(event)) {
-      this.listeners.get(event)!.forEach(callback => callback(...args));
-    }
+  private emit<E extends keyof SocketServiceEvents>(event: E, ...args: Parameters<SocketServiceEvents[E]>) {
+    this.listeners.get(event)?.forEach(callback => callback(...args));
   }
 
   // Socket.io methods
@@ -85,20 +176,28 @@ class SocketService {
     }
   }
 
-  createRoom(playerName: string, roomName?: string, isPrivate?: boolean, capacity?: number) {
+  createRoom(playerName: string, roomName?: string, isPrivate?: boolean, capacity?: number, rules?: RuleSetConfig, timeControl?: TimeControl, autoPause?: boolean, antiAbuse?: AntiAbusePolicy) {
     const socket = this.getSocket();
     if (socket) {
       console.log('SocketService: Emitting create-room event', { 
         playerName, 
         roomName: roomName || `Salle de ${playerName}`,
         isPrivate: isPrivate || false,
-        capacity: capacity || 2
+        capacity: capacity || 2,
+        rules,
+        timeControl,
+        autoPause,
+        antiAbuse
       });
       socket.emit('create-room', { 
         playerName, 
         roomName: roomName || `Salle de ${playerName}`,
         isPrivate: isPrivate || false,
-        capacity: capacity || 2
+        capacity: capacity || 2,
+        rules,
+        timeControl,
+        autoPause,
+        antiAbuse
       });
     } else {
       console.error('SocketService: No socket available for create-room');
@@ -122,13 +221,35 @@ class SocketService {
     }
   }
 
-  makeMove(roomId: string, cellIndex: number, size: 'P' | 'M' | 'G') {
+  makeMove(roomId: string, cellIndex: number, size: Size) {
     const socket = this.getSocket();
     if (socket) {
       socket.emit('make-move', { roomId, cellIndex, size });
     }
   }
 
+  rejoinRoom(roomId: string) {
+    const socket = this.getSocket();
+    if (socket) {
+      socket.emit('rejoin-room', { roomId });
+    }
+  }
+
+  // Watch a game in progress without a seat
+  spectateRoom(roomId: string, accessCode?: string) {
+    const socket = this.getSocket();
+    if (socket) {
+      socket.emit('spectate-room', { roomId, accessCode });
+    }
+  }
+
+  stopSpectating(roomId: string) {
+    const socket = this.getSocket();
+    if (socket) {
+      socket.emit('stop-spectating', { roomId });
+    }
+  }
+
   getGameState(roomId: string) {
     const socket = this.getSocket();
     if (socket) {
@@ -1,9 +1,12 @@
 import { create } from 'zustand';
-import { io, Socket } from 'socket.io-client';
+import { io } from 'socket.io-client';
+import { getHandshakeAuth } from '../services/socketService';
+import type { GameSocket } from '../services/socketService';
 
 interface SocketState {
-  socket: Socket | null;
+  socket: GameSocket | null;
   isConnected: boolean;
+  upgradeRequired: boolean; // The server turned this client version away
   lastPong: number | null;
   connect: () => void;
   disconnect: () => void;
@@ -13,10 +16,17 @@ interface SocketState {
 export const useSocketStore = create<SocketState>((set, get) => ({
   socket: null,
   isConnected: false,
+  upgradeRequired: false,
   lastPong: null,
 
   connect: () => {
-    const socket = io(import.meta.env.VITE_SERVER_URL);
+    const socket: GameSocket = io(import.meta.env.VITE_SERVER_URL, { auth: getHandshakeAuth() });
+
+    socket.on('handshake', (data) => {
+      if (data.status === 'upgrade-required') {
+        set({ upgradeRequired: true });
+      }
+    });
     
     socket.on('connect', () => {
       console.log('Connected to server');
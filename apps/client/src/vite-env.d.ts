@@ -3,4 +3,5 @@
 // Augment env variables used by this app
 interface ImportMetaEnv {
   readonly VITE_SERVER_URL?: string;
+  readonly VITE_BUILD_HASH?: string; // e.g. the commit being deployed
 }
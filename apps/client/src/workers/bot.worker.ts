@@ -0,0 +1,24 @@
+import { chooseBotMove, getRuleSet } from '@mortpion/shared';
+import type { Board, BotDifficulty, BotMove, BotPlayer, RuleSetConfig } from '@mortpion/shared';
+
+// Recherche du coup de l'ordinateur hors du thread principal pour ne pas figer l'interface
+export interface BotWorkerRequest {
+  requestId: number;
+  board: Board;
+  players: BotPlayer[];
+  currentPlayerIndex: number;
+  rules: RuleSetConfig;
+  difficulty: BotDifficulty;
+}
+
+export interface BotWorkerResponse {
+  requestId: number;
+  move: BotMove | null;
+}
+
+self.onmessage = (event: MessageEvent<BotWorkerRequest>) => {
+  const { requestId, board, players, currentPlayerIndex, rules, difficulty } = event.data;
+  const move = chooseBotMove({ board, players, currentPlayerIndex, ruleSet: getRuleSet(rules) }, { difficulty });
+  const response: BotWorkerResponse = { requestId, move };
+  self.postMessage(response);
+};
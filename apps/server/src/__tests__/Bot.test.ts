@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { RULE_SET_PRESETS, chooseBotMove, createSeededRandom, getRuleSet } from '@mortpion/shared';
+import type { Board, BotPlayer, BotSettings, Color, RuleSet } from '@mortpion/shared';
+
+describe('Bot', () => {
+  const createPlayers = (ruleSet: RuleSet, colors: Color[]): BotPlayer[] =>
+    colors.map(color => ({ color, inventory: ruleSet.createInventory() }));
+
+  // Red to move, with G pieces that nobody can cover: red on cells 0 and the given one, blue on 3 and 4
+  const createPosition = (redCell: number) => {
+    const ruleSet = getRuleSet();
+    const board: Board = ruleSet.createBoard();
+    board[0] = { P: null, M: null, G: 'red' };
+    board[redCell] = { P: null, M: null, G: 'red' };
+    board[3] = { P: null, M: null, G: 'blue' };
+    board[4] = { P: null, M: null, G: 'blue' };
+    const players = createPlayers(ruleSet, ['red', 'blue']);
+    players.forEach(player => player.inventory.G = 1);
+    return { board, players, currentPlayerIndex: 0, ruleSet };
+  };
+
+  // Let bots play each other, checking every move they pick
+  const playGame = (ruleSet: RuleSet, colors: Color[], settings: BotSettings, maxMoves: number) => {
+    const random = createSeededRandom(7);
+    let board = ruleSet.createBoard();
+    const players = createPlayers(ruleSet, colors);
+    let currentPlayerIndex = 0;
+    let moves = 0;
+
+    while (moves < maxMoves && !ruleSet.isDraw(board, players)) {
+      const player = players[currentPlayerIndex];
+      const move = chooseBotMove({ board, players, currentPlayerIndex, ruleSet }, { difficulty: settings, random });
+
+      if (move) {
+        expect(player.inventory[move.size]).toBeGreaterThan(0);
+        expect(ruleSet.isLegalMove(board, move.cellIndex, move.size)).toBe(true);
+        board = ruleSet.applyMove(board, move.cellIndex, move.size, player.color);
+        player.inventory[move.size]--;
+        moves++;
+        if (ruleSet.findWinningPattern(board, player.color)) break;
+      } else {
+        expect(ruleSet.hasLegalMoves(board, player)).toBe(false);
+      }
+      currentPlayerIndex = (currentPlayerIndex + 1) % players.length;
+    }
+    return moves;
+  };
+
+  it('should take an immediate win', () => {
+    const move = chooseBotMove(createPosition(1), { difficulty: 'hard', random: createSeededRandom(1) });
+
+    expect(move).toEqual({ cellIndex: 2, size: 'G' });
+  });
+
+  it("should block the opponent's winning line", () => {
+    const move = chooseBotMove(createPosition(7), { difficulty: 'hard', random: createSeededRandom(1) });
+
+    expect(move).toEqual({ cellIndex: 5, size: 'G' });
+  });
+
+  it('should return null without a legal move', () => {
+    const ruleSet = getRuleSet();
+    const players = createPlayers(ruleSet, ['red', 'blue']);
+    players[0].inventory = { P: 0, M: 0, G: 0 };
+
+    expect(chooseBotMove({ board: ruleSet.createBoard(), players, currentPlayerIndex: 0, ruleSet })).toBeNull();
+  });
+
+  it('should play the same move from the same seed', () => {
+    const state = { ...createPosition(8), currentPlayerIndex: 1 };
+    const settings: BotSettings = { depth: 1, randomness: 1, timeBudgetMs: 100 };
+
+    expect(chooseBotMove(state, { difficulty: settings, random: createSeededRandom(42) }))
+      .toEqual(chooseBotMove(state, { difficulty: settings, random: createSeededRandom(42) }));
+  });
+
+  it('should stay within its time budget on a large board', () => {
+    const ruleSet = getRuleSet({ ...RULE_SET_PRESETS['no-replacement'], variant: 'custom', boardSize: 5, lineLength: 4 });
+    const state = {
+      board: ruleSet.createBoard(),
+      players: createPlayers(ruleSet, ['red', 'blue', 'green', 'yellow']),
+      currentPlayerIndex: 0,
+      ruleSet,
+    };
+
+    const start = Date.now();
+    const move = chooseBotMove(state, { difficulty: { depth: 8, randomness: 0, timeBudgetMs: 200 }, random: createSeededRandom(3) });
+
+    expect(move).not.toBeNull();
+    // The search checks its deadline between nodes, so it may overrun it a little
+    expect(Date.now() - start).toBeLessThan(1000);
+  });
+
+  it('should make legal moves in a 4-player game', () => {
+    const ruleSet = getRuleSet({ ...RULE_SET_PRESETS['no-replacement'], variant: 'custom', boardSize: 4, lineLength: 3 });
+
+    expect(playGame(ruleSet, ['red', 'blue', 'green', 'yellow'], { depth: 3, randomness: 0.2, timeBudgetMs: 50 }, 20)).toBeGreaterThan(0);
+  });
+
+  it('should make legal moves in a 3-player classic game', () => {
+    const ruleSet = getRuleSet('classic');
+
+    expect(playGame(ruleSet, ['red', 'blue', 'green'], { depth: 3, randomness: 0.2, timeBudgetMs: 50 }, 27)).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CLIENT_EVENT_ERRORS,
+  CLIENT_EVENT_SCHEMAS,
+  MIN_PROTOCOL_VERSION,
+  PROTOCOL_VERSION,
+  checkProtocolVersion,
+  parseClientPayload
+} from '@mortpion/shared';
+import type { GameStateSnapshot } from '@mortpion/shared';
+import { Game } from '../models/Game.js';
+import { Player } from '../models/Player.js';
+
+describe('Socket contract', () => {
+  describe('checkProtocolVersion', () => {
+    it('should accept every supported client version', () => {
+      expect(checkProtocolVersion(PROTOCOL_VERSION)).toBe('accepted');
+      expect(checkProtocolVersion(MIN_PROTOCOL_VERSION)).toBe('accepted');
+    });
+
+    it('should turn away clients older than the minimum version', () => {
+      expect(checkProtocolVersion(MIN_PROTOCOL_VERSION - 1)).toBe('upgrade-required');
+    });
+
+    it('should turn away clients that predate the handshake', () => {
+      expect(checkProtocolVersion(undefined)).toBe('upgrade-required');
+      expect(checkProtocolVersion('1')).toBe('upgrade-required');
+    });
+
+    it('should let in clients newer than the server', () => {
+      expect(checkProtocolVersion(PROTOCOL_VERSION + 1)).toBe('accepted');
+    });
+  });
+
+  describe('parseClientPayload', () => {
+    it('should apply the defaults of a valid payload', () => {
+      const result = parseClientPayload('create-room', { playerName: '  Alice ' });
+
+      expect(result).toEqual({
+        success: true,
+        data: { playerName: 'Alice', isPrivate: false, capacity: 2, autoPause: false }
+      });
+    });
+
+    it('should describe every issue of an invalid payload', () => {
+      const result = parseClientPayload('make-move', { roomId: 'ROOM01', cellIndex: 25, size: 'XL' });
+
+      expect(result.success).toBe(false);
+      if (result.success) return;
+      expect(result.error.message).toBe('Invalid payload');
+      expect(result.error.issues).toHaveLength(2);
+      expect(result.error.issues?.[0]).toMatch(/^cellIndex: /);
+      expect(result.error.issues?.[1]).toMatch(/^size: /);
+    });
+
+    it('should reject a missing payload', () => {
+      const result = parseClientPayload('get-game-state', undefined);
+
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject a blank room id', () => {
+      expect(parseClientPayload('rejoin-room', { roomId: '   ' }).success).toBe(false);
+    });
+
+    it('should not take the voter from the payload', () => {
+      const result = parseClientPayload('cast-replay-vote', { roomId: 'ROOM01', vote: true, playerId: 'bob' });
+
+      expect(result).toEqual({ success: true, data: { roomId: 'ROOM01', vote: true } });
+    });
+  });
+
+  it('should answer every validated event with an error event', () => {
+    expect(Object.keys(CLIENT_EVENT_ERRORS).sort()).toEqual(Object.keys(CLIENT_EVENT_SCHEMAS).sort());
+  });
+
+  it('should send game states in the snapshot shape', () => {
+    const game = new Game();
+    game.initialize([
+      new Player({ id: 'alice', nickname: 'Alice', color: 'red' }),
+      new Player({ id: 'bob', nickname: 'Bob', color: 'blue' }),
+    ]);
+
+    const state: GameStateSnapshot = game.getGameState();
+
+    expect(['alice', 'bob']).toContain(state.currentPlayerId);
+    expect(state.players.map(player => player.id)).toEqual(['alice', 'bob']);
+  });
+});
@@ -1,6 +1,8 @@
 import express from 'express';
 import { createServer } from 'http';
 import { Server } from 'socket.io';
+import { createAdapter } from '@socket.io/redis-adapter';
+import { createClient } from 'redis';
 import cors from 'cors';
 import pino from 'pino';
 import dotenv from 'dotenv';
@@ -9,6 +11,23 @@ import { fileURLToPath } from 'url';
 import { Room } from './models/Room.js';
 import { Player } from './models/Player.js';
 import { emailService } from './services/emailService.js';
+import { BotService } from './services/BotService.js';
+import { SessionService } from './services/SessionService.js';
+import { ConnectionManager, ReconnectionResult } from './services/ConnectionManager.js';
+import { LobbyService } from './services/LobbyService.js';
+import { TurnTimer } from './services/TurnTimer.js';
+import { ReplayManager } from './services/ReplayManager.js';
+import { ProposalService } from './services/ProposalService.js';
+import { PauseService } from './services/PauseService.js';
+import { RoomExpiration } from './services/RoomExpiration.js';
+import { ChatService, createWordFilter } from './services/ChatService.js';
+import { InMemoryRoomStorage, createRoomStorage } from './services/RoomStorage.js';
+import type { RoomStorage } from './services/RoomStorage.js';
+import { InMemoryRoomOwnership, createRoomOwnership } from './services/RoomOwnership.js';
+import type { RoomOwnership } from './services/RoomOwnership.js';
+import type { RoomListItem, RoomSearchOptions } from './services/LobbyService.js';
+import { CLIENT_EVENT_ERRORS, LOW_TIME_WARNING_SECONDS, MIN_PROTOCOL_VERSION, PROTOCOL_VERSION, checkProtocolVersion, parseClientPayload } from '@mortpion/shared';
+import type { ClientEventPayload, ClientToServerEvents, ProposalKind, ReplayVotingPayload, ServerToClientEvents } from '@mortpion/shared';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -26,7 +45,21 @@ const logger = pino({
 
 const app = express();
 const server = createServer(app);
-const io = new Server(server, {
+// Messages between server nodes (see dispatchRoomCommand)
+interface InterServerEvents {
+  'room-command': (command: RoomCommand) => void;
+  'player-disconnected': (client: RoomClient) => void;
+  'list-rooms': (options: RoomSearchOptions, callback: (list: ReturnType<LobbyService['listRooms']>) => void) => void;
+}
+
+interface SocketData {
+  playerId: string;
+  sessionToken: string;
+  protocolVersion: number | null;
+  buildHash: string | null;
+}
+
+const io = new Server<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>(server, {
   cors: {
     origin: [
       "http://localhost:5173",
@@ -44,22 +77,13 @@ const io = new Server(server, {
   allowEIO3: true // Compatibilité avec anciennes versions
 });
 
-// Mock Redis for validation (will be replaced with real Redis later)
-const mockRedis = {
-  isReady: true,
-  setEx: async (key: string, ttl: number, value: string) => {
-    logger.info(`Mock Redis: SET ${key} EX ${ttl} "${value}"`);
-    return 'OK';
-  },
-  get: async (key: string) => {
-    logger.info(`Mock Redis: GET ${key}`);
-    return null;
-  },
-  del: async (key: string) => {
-    logger.info(`Mock Redis: DEL ${key}`);
-    return 1;
-  }
-};
+// Rooms and games survive a restart (Redis when REDIS_URL is set, set up in startServer)
+let roomStorage: RoomStorage = new InMemoryRoomStorage();
+
+// With Redis, several server nodes share the rooms: each room is run by the node owning it
+let roomOwnership: RoomOwnership = new InMemoryRoomOwnership();
+let isClustered = false;
+const OWNERSHIP_SYNC_INTERVAL = 10 * 1000;
 
 // Middleware
 app.use(cors());
@@ -70,7 +94,11 @@ app.get('/health', (req, res) => {
   res.json({ 
     status: 'ok', 
     timestamp: new Date().toISOString(),
-    redis: mockRedis.isReady ? 'connected (mock)' : 'disconnected'
+    protocolVersion: PROTOCOL_VERSION,
+    storage: roomStorage.kind,
+    nodeId: roomOwnership.nodeId,
+    ownedRooms: lobbyService.getAllRooms().length,
+    redis: roomStorage.kind !== 'redis' ? 'not configured' : roomStorage.isReady() ? 'connected' : 'disconnected'
   });
 });
 
@@ -122,547 +150,1690 @@ app.post('/admin/email/test', async (req, res) => {
   }
 });
 
-// List available rooms endpoint
-app.get('/rooms', (req, res) => {
-  const availableRooms = Array.from(rooms.values())
-    .filter(room => room.players.length < room.capacity && room.game.status === 'waiting')
-    .map(room => ({
-      id: room.id,
-      name: room.name,
-      playerCount: room.players.length,
-      capacity: room.capacity,
-      isPrivate: room.isPrivate,
-      status: room.game.status
-    }));
+// List available rooms endpoint (optional ?q= name search)
+app.get('/rooms', async (req, res) => {
+  const { rooms: availableRooms, total } = await listClusterRooms({
+    query: typeof req.query.q === 'string' ? req.query.q : undefined,
+    filters: { status: ['waiting', 'playing'] } // Seats to take, or games to watch
+  });
   
   res.json({ 
     rooms: availableRooms,
-    total: availableRooms.length,
+    total,
     timestamp: new Date().toISOString()
   });
 });
 
+// Rooms of every node, each node listing the rooms it runs
+async function listClusterRooms(options: RoomSearchOptions): Promise<{ rooms: RoomListItem[]; total: number }> {
+  const lists = [lobbyService.listRooms(options)];
+
+  if (isClustered) {
+    try {
+      lists.push(...await io.serverSideEmitWithAck('list-rooms', options));
+    } catch (error) {
+      logger.warn('Some nodes did not list their rooms in time');
+    }
+  }
+
+  const rooms = lists
+    .flatMap(list => list.rooms)
+    .sort((a, b) => b.lastActivity - a.lastActivity)
+    .slice(0, options.limit || 20);
+  return { rooms, total: lists.reduce((sum, list) => sum + list.total, 0) };
+}
+
 // TODO: Import game logic when ready
 // import { Room } from './models/Room';
 // import { Player } from './models/Player';
 // import { Color } from '@mortpion/shared';
 
-// Global rooms storage (FIXED: moved outside connection handler)
-const rooms = new Map<string, Room>();
+// Rooms of the lobby: creation, lookup and search
+const lobbyService = new LobbyService();
+lobbyService.stopCleanup(); // Expiry goes through RoomExpiration, so clients are told
 
-// Room cleanup system - Remove inactive rooms every 5 minutes
-setInterval(() => {
-  const now = Date.now();
-  const ROOM_TTL = 60 * 60 * 1000; // 1 hour in milliseconds
-  const DISCONNECTION_GRACE_PERIOD = 2 * 60 * 1000; // 2 minutes grace period
-  
-  for (const [roomId, room] of rooms.entries()) {
-    const roomAge = now - room.createdAt;
-    const isEmpty = room.players.length === 0;
-    const isExpired = roomAge > ROOM_TTL;
-    
-    // Check for disconnection grace period
-    const hasDisconnectionGracePeriod = room.disconnectionTime && 
-      (now - room.disconnectionTime) < DISCONNECTION_GRACE_PERIOD;
-    
-    if (isEmpty && !hasDisconnectionGracePeriod) {
-      rooms.delete(roomId);
-      logger.info(`Room ${roomId} cleaned up (empty)`);
-    } else if (isExpired) {
-      rooms.delete(roomId);
-      logger.info(`Room ${roomId} cleaned up (expired)`);
-    } else if (room.disconnectionTime && (now - room.disconnectionTime) >= DISCONNECTION_GRACE_PERIOD) {
-      // Grace period expired, clean up disconnected room
-      rooms.delete(roomId);
-      logger.info(`Room ${roomId} cleaned up (disconnection grace period expired)`);
-    }
-  }
-}, 30 * 1000); // Run every 30 seconds for better responsiveness
-
-// Turn timer system - Check for timeouts and broadcast timer updates every second
-setInterval(() => {
-  for (const [roomId, room] of rooms.entries()) {
-    if (room.game.status === 'playing') {
-      // Check for timeout
-      if (room.game.isTurnTimedOut()) {
-        const currentPlayer = room.game.getCurrentPlayer();
-        if (currentPlayer) {
-          logger.info(`Turn timeout for player ${currentPlayer.nickname} in room ${roomId}`);
-          
-          // Check if player will be eliminated before skipping
-          const willBeEliminated = currentPlayer.skipsInARow >= 1; // Will be 2 after increment
-          
-          // Skip the turn
-          room.game.skipTurn();
-          
-          // Get updated game state after skip
-          const updatedGameState = room.game.getGameState();
-          
-          // Broadcast turn skipped and updated game state
-          io.to(roomId).emit('turn-skipped', {
-            skippedPlayerId: currentPlayer.id,
-            reason: 'timeout',
-            gameState: updatedGameState
-          });
-          
-          // Broadcast elimination if player was eliminated
-          if (willBeEliminated && currentPlayer.isEliminated) {
-            io.to(roomId).emit('player-eliminated', {
-              playerId: currentPlayer.id,
-              playerName: currentPlayer.nickname,
-              reason: 'consecutive_skips',
-              gameState: updatedGameState
-            });
-          }
-          
-          // Check if game ended due to skip
-          if (updatedGameState.status === 'finished') {
-            io.to(roomId).emit('game-ended', {
-              winnerId: room.game.winnerId,
-              isDraw: room.game.isDraw,
-              gameState: room.game.getGameState()
-            });
-            
-            // Start replay voting process
-            room.startReplayVoting();
-            io.to(roomId).emit('replay-voting-started', {
-              replayDeadline: room.replayDeadline,
-              replayVotes: Object.fromEntries(room.replayVotes)
-            });
-          }
-        }
-      } else {
-        // Broadcast timer update to keep clients synchronized
-        const gameState = room.game.getGameState();
-        io.to(roomId).emit('timer-update', {
-          turnTimeLeft: gameState.turnTimeLeft,
-          currentPlayerId: gameState.currentPlayerId
-        });
-      }
-    }
-    
-    // Check for replay voting timeout
-    if (room.replayDeadline && Date.now() > room.replayDeadline) {
-      const voteResult = room.checkReplayVotes();
-      
-      if (voteResult === 'accepted') {
-        // All voted yes - restart game
-        room.replay();
-        io.to(roomId).emit('game-restarted', {
-          gameState: room.game.getGameState()
-        });
-        logger.info(`Replay started in room ${roomId}`);
-      } else {
-        // Timeout or rejected - close voting and show lobby option
-        room.replayDeadline = null;
-        room.replayVotes.clear();
-        io.to(roomId).emit('replay-timeout', {
-          message: 'Vote de replay expiré ou rejeté'
-        });
-        logger.info(`Replay voting timeout in room ${roomId}`);
-      }
-    }
-  }
-}, 1000); // Check every second
+// Turn clocks, replay votes and room time-to-live, each reporting through events
+const turnTimer = new TurnTimer();
+const replayManager = new ReplayManager();
+const roomExpiration = new RoomExpiration({ checkIntervalMs: 30 * 1000 });
+roomExpiration.start();
 
-// Simple Socket.io connection handling for Phase 2 testing
-io.on('connection', (socket) => {
-  logger.info(`Client connected: ${socket.id}`);
+// A room left without connected players is kept this long for reconnections
+const DISCONNECTION_GRACE_PERIOD = 2 * 60 * 1000;
 
-  // Test ping-pong for validation
-  socket.on('ping', () => {
-    logger.info(`Ping received from ${socket.id}`);
-    socket.emit('pong', { message: 'Server is alive!', timestamp: Date.now() });
+// Draw offers, takeback and pause requests, answered by every other player still in the game
+const proposalService = new ProposalService();
+
+// Paused games, and the countdown before they resume
+const pauseService = new PauseService();
+
+// Computer opponents play through the same game path as humans
+const botService = new BotService();
+
+// Stable player ids, so a reconnecting socket keeps its seat
+const sessionService = new SessionService(
+  process.env.SESSION_SECRET ? { secret: process.env.SESSION_SECRET } : {}
+);
+
+// Room chat; CHAT_BANNED_WORDS (comma separated) are masked in messages
+const chatService = new ChatService({
+  filter: createWordFilter((process.env.CHAT_BANNED_WORDS ?? '').split(','))
+});
+
+// Seats of disconnected players, kept for a reconnection window
+const connectionManager = new ConnectionManager(lobbyService);
+
+// Start a room's game (full, or started early by the host) and notify everyone
+function startRoomGame(room: Room) {
+  room.startGame();
+  
+  // Send email notification for new game
+  emailService.sendGameStartNotification({
+    roomName: room.name,
+    playerCount: room.players.length,
+    players: room.players.map(p => p.nickname),
+    isPrivate: room.isPrivate,
+    timestamp: new Date()
+  }).catch(error => {
+    logger.error('Failed to send game start notification:', error);
+  });
+  
+  const gameState = room.game.getGameState();
+  io.to(room.id).emit('game-started', {
+    message: 'Game started!',
+    gameState: gameState
   });
+  logger.info(`Game started in room ${room.id}. Current player: ${gameState.currentPlayerId}`);
+  logger.info(`Players in room: ${room.players.map(p => `${p.nickname}(${p.id})`).join(', ')}`);
 
-  // Room management with real game logic
-  socket.on('create-room', (data) => {
-    try {
-      const { playerName, roomName, isPrivate, capacity } = data;
-      const roomId = Math.random().toString(36).substring(2, 8).toUpperCase();
-      
-      // Create new room with real Room class
-      const room = new Room({
-        id: roomId,
-        name: roomName || `Salle de ${playerName}`,
-        capacity: capacity || 2,
-        isPrivate: isPrivate || false,
-        code: isPrivate ? Math.random().toString(36).substring(2, 6).toUpperCase() : undefined,
-        hostId: socket.id
-      });
-      
-      // Create player and add to room
-      const player = new Player({
-        id: socket.id,
-        nickname: playerName || 'Player',
-        color: 'red' // Will be reassigned by Room.addPlayer
-      });
-      room.addPlayer(player);
-      
-      // Store room
-      rooms.set(roomId, room);
-      
-      // Join socket to room
-      socket.join(roomId);
-      
-      logger.info(`Room created: ${roomId} by ${playerName} (${room.players.length}/${room.capacity})`);
-      
-      // Send room created confirmation
-      socket.emit('room-created', {
-        roomId,
-        roomName: room.name,
-        playerName,
-        capacity: room.capacity,
-        isPrivate: room.isPrivate,
-        accessCode: room.code,
-        message: 'Room created successfully',
-        roomState: room.getStatus()
-      });
-      
-    } catch (error) {
-      logger.error('Error creating room:', error);
-      socket.emit('room-error', { message: 'Failed to create room' });
-    }
+  botService.scheduleMove(room);
+  startTurnTimer(room);
+  persistRoom(room);
+}
+
+// Restart the turn clock for whoever plays now
+function startTurnTimer(room: Room) {
+  turnTimer.stopTimer(room.id);
+  turnTimer.onGameStateChange(room);
+}
+
+// Save the state of a room after a change (writes are not awaited by the game flow)
+function persistRoom(room: Room) {
+  roomStorage.saveRoom(room).catch(error => {
+    logger.error(`Failed to save room ${room.id}:`, error);
   });
+}
 
-  socket.on('join-room', (data) => {
-    try {
-      const { roomId, playerName, accessCode } = data;
-      
-      if (!roomId || !playerName) {
-        socket.emit('join-error', { message: 'Room ID and player name are required' });
-        return;
-      }
-      
-      logger.info(`Join attempt: roomId=${roomId}, playerName=${playerName}, totalRooms=${rooms.size}`);
-      logger.info(`Available rooms: ${Array.from(rooms.keys()).join(', ')}`);
-      
-      const room = rooms.get(roomId);
-      if (!room) {
-        logger.error(`Room ${roomId} not found. Available rooms: ${Array.from(rooms.keys()).join(', ')}`);
-        socket.emit('join-error', { message: 'Room not found' });
-        return;
-      }
-      
-      // Check access code for private rooms
-      if (room.isPrivate && room.code !== accessCode) {
-        socket.emit('join-error', { message: 'Invalid access code' });
-        return;
-      }
-      
-      // Check for duplicate nicknames
-      const existingPlayerWithName = room.players.find(p => p.nickname === playerName);
-      if (existingPlayerWithName) {
-        socket.emit('join-error', { message: 'Ce nom est déjà utilisé dans cette room' });
-        return;
-      }
-      
-      // Check room capacity
-      if (room.players.length >= room.capacity) {
-        socket.emit('join-error', { message: 'Room is full' });
-        return;
-      }
-      
-      // Create player and add to room
-      const player = new Player({
-        id: socket.id,
-        nickname: playerName || 'Player',
-        color: 'red' // Will be reassigned by Room.addPlayer
-      });
-      room.addPlayer(player);
-      
-      // Join socket to room
-      socket.join(roomId);
-      
-      logger.info(`Player ${playerName} joined room ${roomId} (${room.players.length}/${room.capacity})`);
-      
-      // Notify all players in the room about new player
-      socket.to(roomId).emit('player-joined', {
-        playerId: socket.id,
-        playerName,
-        roomState: room.getStatus()
-      });
-      
-      // Confirm join to the joining player
-      socket.emit('room-joined', {
-        roomId,
-        roomName: room.name,
-        playerName,
-        message: 'Successfully joined room',
-        roomState: room.getStatus()
-      });
-      
-      // Auto-start game if room is full
-      if (room.players.length === room.capacity) {
-        room.startGame();
-        
-        // Send email notification for new game
-        emailService.sendGameStartNotification({
-          roomName: room.name,
-          playerCount: room.players.length,
-          players: room.players.map(p => p.nickname),
-          isPrivate: room.isPrivate,
-          timestamp: new Date()
-        }).catch(error => {
-          logger.error('Failed to send game start notification:', error);
-        });
-        
-        const gameState = room.game.getGameState();
-        io.to(roomId).emit('game-started', {
-          message: 'Game started!',
-          gameState: gameState
-        });
-        logger.info(`Game started in room ${roomId}. Current player: ${gameState.currentPlayerId}`);
-        logger.info(`Players in room: ${room.players.map(p => `${p.nickname}(${p.id})`).join(', ')}`);
-      }
-      
-    } catch (error) {
-      logger.error('Error joining room:', error);
-      socket.emit('join-error', { message: 'Failed to join room' });
-    }
+// Stop running a room on this node (its stored state is kept)
+function unloadRoom(roomId: string) {
+  lobbyService.removeRoom(roomId);
+  roomExpiration.removeRoom(roomId);
+  turnTimer.stopTimer(roomId);
+  replayManager.stopReplayVote(roomId);
+  proposalService.cancelProposal(roomId);
+  pauseService.cancelResume(roomId);
+  botService.cancelMove(roomId);
+  connectionManager.handleRoomClosed(roomId);
+}
+
+// Forget a room in every service that tracks it
+function closeRoom(roomId: string) {
+  Promise.all([roomStorage.deleteRoom(roomId), roomOwnership.release(roomId)]).catch(error => {
+    logger.error(`Failed to delete room ${roomId}:`, error);
   });
+  unloadRoom(roomId);
+}
 
-  // Game move handling
-  socket.on('make-move', (data) => {
-    try {
-      const { roomId, cellIndex, size } = data;
-      
-      if (!roomId || cellIndex === undefined || !size) {
-        socket.emit('move-error', { message: 'Missing move data' });
-        return;
-      }
-      
-      const room = rooms.get(roomId);
-      if (!room) {
-        socket.emit('move-error', { message: 'Room not found' });
-        return;
-      }
-      
-      if (!room.game || room.game.status !== 'playing') {
-        socket.emit('move-error', { message: 'Game is not active' });
-        return;
-      }
-      
-      // Apply the move
-      const success = room.game.applyMove(socket.id, cellIndex, size);
-      if (!success) {
-        socket.emit('move-error', { message: 'Invalid move' });
-        return;
-      }
-      
-      // Broadcast updated game state to all players in the room
-      const gameState = room.game.getGameState();
-      
-      io.to(roomId).emit('game-updated', {
-        gameState,
-        lastMove: {
-          playerId: socket.id,
-          cellIndex,
-          size
-        }
-      });
-      
-      // Check if game ended
-      const isGameFinished = (g: typeof room.game) => g?.status === 'finished';
-      if (isGameFinished(room.game)) {
-        io.to(roomId).emit('game-ended', {
-          winnerId: room.game.winnerId,
-          isDraw: room.game.isDraw,
-          gameState
-        });
-        
-        // Start replay voting process
-        room.startReplayVoting();
-        io.to(roomId).emit('replay-voting-started', {
-          replayDeadline: room.replayDeadline,
-          replayVotes: Object.fromEntries(room.replayVotes)
-        });
-        
-        logger.info(`Game ended in room ${roomId}. Winner: ${room.game.winnerId || 'Draw'}`);
-      }
-      
-      logger.info(`Move applied in room ${roomId}: Player ${socket.id} placed ${size} at cell ${cellIndex}`);
-      
-    } catch (error) {
-      logger.error('Error applying move:', error);
-      socket.emit('move-error', { message: 'Failed to apply move' });
-    }
+// This node runs the rooms it creates
+function claimRoom(room: Room) {
+  roomOwnership.claim(room.id).catch(error => {
+    logger.error(`Failed to claim room ${room.id}:`, error);
   });
+}
 
-  // Get current game state
-  socket.on('get-game-state', (data) => {
-    try {
-      const { roomId } = data;
-      
-      if (!roomId) {
-        socket.emit('game-state-error', { message: 'Room ID is required' });
-        return;
-      }
-      
-      const room = rooms.get(roomId);
-      if (!room) {
-        socket.emit('game-state-error', { message: 'Room not found' });
-        return;
-      }
-      
-      const gameState = room.game.getGameState();
-      
-      socket.emit('game-state', { gameState });
-      
-    } catch (error) {
-      logger.error('Error getting game state:', error);
-      socket.emit('game-state-error', { message: 'Failed to get game state' });
+// A player hosts one room at a time: hand over the one they walked away from
+function releaseHostedRoom(playerId: string) {
+  const room = lobbyService.getRoomByHost(playerId);
+  if (!room) return;
+
+  const newHost = room.getHumanPlayers().find(p => p.connected && p.id !== playerId);
+  if (newHost && lobbyService.transferHost(room.id, newHost.id)) {
+    io.to(room.id).emit('host-transferred', {
+      newHostId: newHost.id,
+      newHostName: newHost.nickname
+    });
+    persistRoom(room);
+  } else {
+    closeRoom(room.id);
+    logger.info(`Room ${room.id} closed (host left)`);
+  }
+}
+
+// Replay vote as sent to clients
+function getReplayVoting(roomId: string): ReplayVotingPayload {
+  const status = replayManager.getVoteStatus(roomId);
+  return {
+    replayDeadline: status ? Date.now() + status.remainingMs : null,
+    replayVotes: Object.fromEntries(
+      (status?.votes ?? []).flatMap(v => v.vote === null ? [] : [[v.playerId, v.vote]])
+    )
+  };
+}
+
+// Game state with the seats of the room, as sent to one client
+function getRoomSnapshot(room: Room) {
+  return {
+    gameState: room.game.getGameState(),
+    room: {
+      hostId: room.hostId,
+      capacity: room.capacity,
+      players: room.players.map(p => p.toJSON()),
+      spectatorCount: room.getSpectatorCount()
     }
+  };
+}
+
+// Tell the room how many people are watching
+function broadcastSpectatorCount(room: Room) {
+  io.to(room.id).emit('spectators-updated', {
+    roomId: room.id,
+    spectatorCount: room.getSpectatorCount()
   });
+}
 
-  // Replay vote handling
-  socket.on('cast-replay-vote', (data) => {
-    try {
-      const { roomId, vote } = data;
-      
-      if (!roomId || typeof vote !== 'boolean') {
-        socket.emit('replay-vote-error', { message: 'Invalid vote data' });
-        return;
-      }
-      
-      const room = rooms.get(roomId);
-      if (!room) {
-        socket.emit('replay-vote-error', { message: 'Room not found' });
-        return;
-      }
-      
-      const success = room.castReplayVote(socket.id, vote);
-      if (!success) {
-        socket.emit('replay-vote-error', { message: 'Vote failed or expired' });
-        return;
-      }
-      
-      // Broadcast updated vote status
-      io.to(roomId).emit('replay-vote-updated', {
-        replayVotes: Object.fromEntries(room.replayVotes),
-        replayDeadline: room.replayDeadline
-      });
-      
-      // Check if voting is complete
-      const voteResult = room.checkReplayVotes();
-      if (voteResult === 'accepted') {
-        room.replay();
-        io.to(roomId).emit('game-restarted', {
-          gameState: room.game.getGameState()
-        });
-        logger.info(`Replay started in room ${roomId}`);
-      } else if (voteResult === 'rejected') {
-        io.to(roomId).emit('replay-rejected');
-        logger.info(`Replay rejected in room ${roomId}`);
-      }
-      
-    } catch (error) {
-      logger.error('Error casting replay vote:', error);
-      socket.emit('replay-vote-error', { message: 'Failed to cast vote' });
+// A player's socket, possibly connected to another node than the room's
+interface RoomClient {
+  playerId: string;
+  socketId: string;
+}
+
+// Socket events acting on an existing room, run by the node owning the room
+const ROOM_COMMANDS = [
+  'join-room',
+  'add-bot',
+  'kick-player',
+  'transfer-host',
+  'start-game',
+  'leave-room',
+  'make-move',
+  'rejoin-room',
+  'spectate-room',
+  'stop-spectating',
+  'get-game-state',
+  'get-game-events',
+  'cast-replay-vote',
+  'offer-draw',
+  'respond-draw',
+  'request-takeback',
+  'respond-takeback',
+  'request-pause',
+  'respond-pause',
+  'resume-game',
+  'send-chat-message',
+  'get-chat-history',
+  'mute-player'
+] as const;
+
+type RoomCommandType = typeof ROOM_COMMANDS[number];
+
+// A validated room event, and the player who sent it
+type RoomCommand = {
+  [T in RoomCommandType]: {
+    type: T;
+    client: RoomClient;
+    data: ClientEventPayload<T>;
+    ownerId?: string; // Set when forwarded to another node
+  }
+}[RoomCommandType];
+
+// Track the room of a player's connection, so their seat is kept if they drop
+function trackRoom(client: RoomClient, roomId: string) {
+  if (!connectionManager.replaceSocket(client.playerId, client.socketId)) {
+    connectionManager.connect(client.playerId, client.socketId);
+  }
+  connectionManager.joinRoom(client.playerId, roomId);
+}
+
+// Give a returning player their seat back and tell the rest of the room
+function restoreSeat(client: RoomClient, roomId: string): ReconnectionResult {
+  const { playerId } = client;
+
+  // Still connected through another socket (e.g. a second tab): only resync
+  const isTracked = connectionManager.getConnection(playerId)?.roomId === roomId;
+  const result: ReconnectionResult = isTracked
+    ? { success: true, room: lobbyService.getRoom(roomId) }
+    : connectionManager.reconnect(playerId, client.socketId);
+
+  const room = result.room;
+  const player = room?.getPlayer(playerId);
+  if (!result.success || !room || !player) {
+    return { success: false, error: result.error ?? 'Room no longer exists' };
+  }
+
+  // The socket may live on another node: join it through the adapter
+  io.in(client.socketId).socketsJoin(room.id);
+  if (isTracked) {
+    connectionManager.replaceSocket(playerId, client.socketId);
+  } else {
+    roomExpiration.resetRoomTTL(room.id);
+    if (room.game.pause) {
+      roomExpiration.freezeRoomTTL(room.id); // Everyone may have left the paused game meanwhile
     }
+    botService.cancelReplacement(playerId);
+    turnTimer.onGameStateChange(room); // Their turn may have been waiting for them
+    if (room.game.pause?.reason === 'disconnection' && room.game.pause.playerId === playerId) {
+      pauseService.scheduleResume(room, playerId); // The game was paused for them
+    }
+
+    io.to(room.id).except(client.socketId).emit('player-reconnected', {
+      playerId,
+      playerName: player.nickname,
+      gameState: room.game.getGameState()
+    });
+    logger.info(`Player ${player.nickname} reconnected to room ${room.id}`);
+    persistRoom(room);
+  }
+
+  return result;
+}
+
+// Announce the end of a game and open the replay vote
+function broadcastGameEnd(room: Room) {
+  io.to(room.id).emit('game-ended', {
+    winnerId: room.game.winnerId,
+    isDraw: room.game.isDraw,
+    gameState: room.game.getGameState(),
+    events: room.game.getEvents()
   });
+  
+  turnTimer.stopTimer(room.id);
 
-  socket.on('disconnect', () => {
-    logger.info(`Client disconnected: ${socket.id}`);
-    
-    // Handle player disconnection from rooms
-    for (const [roomId, room] of rooms.entries()) {
-      const player = room.getPlayer(socket.id);
-      if (player) {
-        player.setConnected(false);
-        
-        // Notify other players about disconnection
-        socket.to(roomId).emit('player-disconnected', {
-          playerId: socket.id,
-          playerName: player.nickname,
-          gameState: room.game.getGameState()
-        });
-        
-        logger.info(`Player ${player.nickname} disconnected from room ${roomId}`);
-        
-        // Handle disconnection based on game state
-        if (room.game.status === 'waiting') {
-          // In lobby: clean up empty rooms or transfer host
-          if (room.players.every(p => !p.connected)) {
-            rooms.delete(roomId);
-            logger.info(`Empty room ${roomId} cleaned up`);
-          } else if (player.isHost) {
-            // Transfer host to first connected player
-            const newHost = room.players.find(p => p.connected && p.id !== socket.id);
-            if (newHost) {
-              room.transferHostTo(newHost.id);
-              socket.to(roomId).emit('host-transferred', {
-                newHostId: newHost.id,
-                newHostName: newHost.nickname
-              });
-              logger.info(`Host transferred from ${player.nickname} to ${newHost.nickname} in room ${roomId}`);
-            }
-          }
-        } else if (room.game.status === 'playing') {
-          // In-game: handle current player disconnection with grace period
-          if (room.game.currentPlayerId === socket.id) {
-            logger.info(`Current player ${player.nickname} disconnected, skipping turn in room ${roomId}`);
-            room.game.skipTurn();
-            
-            socket.to(roomId).emit('turn-skipped', {
-              skippedPlayerId: socket.id,
-              reason: 'disconnection',
-              gameState: room.game.getGameState()
-            });
-            
-            // Get updated game state and check if game ended due to skip
-            const updatedGameState = room.game.getGameState();
-            if (updatedGameState.status === 'finished') {
-              socket.to(roomId).emit('game-ended', {
-                winnerId: room.game.winnerId,
-                isDraw: room.game.isDraw,
-                gameState: room.game.getGameState()
-              });
-              
-              // Start replay voting process
-              room.startReplayVoting();
-              socket.to(roomId).emit('replay-voting-started', {
-                replayDeadline: room.replayDeadline,
-                replayVotes: Object.fromEntries(room.replayVotes)
-              });
-            }
-          }
-          
-          // Don't immediately delete room - give 2 minutes grace period for reconnection
-          const connectedPlayers = room.players.filter(p => p.connected);
-          if (connectedPlayers.length === 0) {
-            // Mark room for delayed cleanup instead of immediate deletion
-            room.disconnectionTime = Date.now();
-            logger.info(`All players disconnected from room ${roomId}, marked for cleanup in 2 minutes`);
-          }
-        }
+  // Start replay voting process (bots always agree to play again)
+  if (replayManager.startReplayVote(room)) {
+    room.players.filter(p => p.isBot).forEach(bot => replayManager.castVote(room.id, bot.id, true));
+  }
+}
+
+botService.onBotEvent((event) => {
+  const room = lobbyService.getRoom(event.roomId);
+  if (!room) return;
+
+  const gameState = room.game.getGameState();
+
+  if (event.type === 'move') {
+    io.to(room.id).emit('game-updated', {
+      gameState,
+      lastMove: {
+        playerId: event.playerId,
+        cellIndex: event.cellIndex!, // Always set on move events
+        size: event.size!
       }
+    });
+    logger.info(`Bot move in room ${room.id}: ${event.playerId} placed ${event.size} at cell ${event.cellIndex}`);
+  } else if (event.type === 'skipped') {
+    io.to(room.id).emit('turn-skipped', {
+      skippedPlayerId: event.playerId,
+      reason: 'bot',
+      gameState
+    });
+  } else {
+    io.to(room.id).emit('player-replaced-by-bot', {
+      playerId: event.playerId,
+      gameState
+    });
+    logger.info(`Player ${event.playerId} replaced by a bot in room ${room.id}`);
+  }
+
+  if (event.type === 'move') {
+    turnTimer.onPlayerMove(room, event.playerId);
+  }
+  if (event.type !== 'replaced') {
+    proposalService.cancelProposal(room.id); // The position changed
+  }
+
+  if (event.type === 'replaced') {
+    turnTimer.onGameStateChange(room); // The bot's clock, if the seat was waiting for its turn
+    if (room.game.pause?.reason === 'disconnection' && room.game.pause.playerId === event.playerId) {
+      pauseService.scheduleResume(room); // The bot plays their turn once the game resumes
     }
-  });
+  } else if (room.game.status === 'finished') {
+    broadcastGameEnd(room);
+    logger.info(`Game ended in room ${room.id}. Winner: ${room.game.winnerId || 'Draw'}`);
+  } else {
+    startTurnTimer(room);
+  }
+  persistRoom(room);
 });
 
-// Start server
-const PORT = process.env.PORT;
+// Turn timeouts skip the player through the game, like any other skip
+turnTimer.onTimerEvent((event) => {
+  const room = lobbyService.getRoom(event.roomId);
+  if (!room) return;
 
-async function startServer() {
-  try {
-    // Test mock Redis with TTL
-    await mockRedis.setEx('test:startup', 10, JSON.stringify({ 
-      message: 'Server started successfully', 
-      timestamp: Date.now() 
-    }));
-    logger.info('Mock Redis test key set with 10s TTL');
+  if (event.type === 'started' || event.type === 'warning') {
+    // Clients count down locally, resynchronized at each turn and when time runs low
+    const turnTimeLeft = Math.ceil((event.remainingMs ?? 0) / 1000);
+    io.to(room.id).emit('timer-update', {
+      turnTimeLeft,
+      currentPlayerId: event.playerId,
+      lowTime: event.type === 'warning' || turnTimeLeft <= LOW_TIME_WARNING_SECONDS
+    });
+  } else if (event.type === 'timeout') {
+    const player = room.game.players.find(p => p.id === event.playerId);
+    logger.info(`Turn timeout for player ${player?.nickname} in room ${room.id}`);
+    proposalService.cancelProposal(room.id);
+    broadcastSkip(room, event.playerId, 'timeout');
 
-    // Start HTTP server
-    server.listen(PORT, () => {
-      logger.info(`Server running on port ${PORT}`);
-      logger.info(`Health check: http://localhost:${PORT}/health`);
-      logger.info('✅ Validation ready: Server started with mock Redis');
+    if (room.getStatus() === 'finished') {
+      broadcastGameEnd(room);
+    } else {
+      botService.scheduleMove(room);
+    }
+    persistRoom(room);
+  } else if (event.type === 'absent') {
+    // Skipping (or pausing) only makes sense while someone else is still there to play
+    const someoneLeft = room.game.players.some(p => p.id !== event.playerId && !p.isEliminated && room.getPlayer(p.id)?.connected);
+    if (someoneLeft) {
+      handleAbsentTurn(room, event.playerId);
+      persistRoom(room);
+    }
+  }
+});
+
+// Replay votes: progress, then a new game or back to the lobby
+replayManager.onReplayVoteEvent((event) => {
+  const room = lobbyService.getRoom(event.roomId);
+  if (!room) return;
+
+  if (event.type === 'vote_started') {
+    io.to(room.id).emit('replay-voting-started', getReplayVoting(room.id));
+  } else if (event.type === 'vote_cast') {
+    io.to(room.id).emit('replay-vote-updated', getReplayVoting(room.id));
+  } else if (event.type === 'vote_completed' && event.result === 'approved') {
+    room.replay();
+    io.to(room.id).emit('game-restarted', {
+      gameState: room.game.getGameState()
     });
-  } catch (error) {
-    logger.error('Failed to start server:', error);
-    process.exit(1);
+    logger.info(`Replay started in room ${room.id}`);
+    botService.scheduleMove(room);
+    startTurnTimer(room);
+    persistRoom(room);
+  } else if (event.type === 'vote_completed') {
+    io.to(room.id).emit('replay-rejected');
+    logger.info(`Replay rejected in room ${room.id}`);
+  } else {
+    io.to(room.id).emit('replay-timeout', {
+      message: 'Vote de replay expiré ou rejeté'
+    });
+    logger.info(`Replay voting timeout in room ${room.id}`);
   }
-}
+});
+
+// Draw offers and takeback requests: answers, then the draw or the takeback once accepted
+proposalService.onProposalEvent((event) => {
+  const room = lobbyService.getRoom(event.roomId);
+  if (!room) return;
+
+  if (event.type !== 'proposal_resolved') {
+    const proposal = proposalService.getProposal(room.id);
+    if (proposal) {
+      io.to(room.id).emit('proposal-updated', proposal);
+    }
+    return;
+  }
+
+  io.to(room.id).emit('proposal-resolved', {
+    roomId: room.id,
+    kind: event.kind,
+    result: event.result!, // Always set on resolved events
+    playerId: event.playerId
+  });
+  if (event.result !== 'accepted') return;
+
+  if (event.kind === 'draw' && room.game.agreeDraw()) {
+    broadcastGameEnd(room);
+    logger.info(`Draw agreed in room ${room.id}`);
+  } else if (event.kind === 'takeback') {
+    const placement = room.game.getLastPlacement();
+    if (!placement || !room.game.takeBack(event.proposerId)) return;
+
+    io.to(room.id).emit('move-taken-back', {
+      playerId: placement.playerId,
+      cellIndex: placement.cellIndex,
+      size: placement.size,
+      gameState: room.game.getGameState()
+    });
+    logger.info(`Player ${event.proposerId} took back their move in room ${room.id}`);
+
+    // Their turn again: a bot about to play the next turn must not
+    botService.cancelMove(room.id);
+    botService.scheduleMove(room);
+    startTurnTimer(room);
+  } else if (event.kind === 'pause') {
+    pauseService.pause(room, 'request', event.proposerId);
+  }
+  persistRoom(room);
+});
+
+// Pauses: clocks, bots and the room's time-to-live stand still until the game resumes
+pauseService.onPauseEvent((event) => {
+  const room = lobbyService.getRoom(event.roomId);
+  if (!room) return;
+
+  if (event.type === 'paused') {
+    turnTimer.stopTimer(room.id);
+    botService.cancelMove(room.id);
+    proposalService.cancelProposal(room.id);
+    roomExpiration.freezeRoomTTL(room.id);
+
+    io.to(room.id).emit('game-paused', {
+      roomId: room.id,
+      reason: event.reason!, // Always set on paused events
+      playerId: event.playerId!,
+      gameState: room.game.getGameState()
+    });
+    logger.info(`Game paused in room ${room.id} (${event.reason}, player ${event.playerId})`);
+  } else if (event.type === 'resume_scheduled') {
+    io.to(room.id).emit('game-resuming', { roomId: room.id, resumeAt: event.resumeAt! });
+    return;
+  } else {
+    roomExpiration.unfreezeRoomTTL(room.id);
+
+    io.to(room.id).emit('game-resumed', {
+      roomId: room.id,
+      gameState: room.game.getGameState()
+    });
+    logger.info(`Game resumed in room ${room.id}`);
+
+    // The player to move may have dropped during the pause
+    const currentPlayer = room.game.currentPlayerId ? room.getPlayer(room.game.currentPlayerId) : null;
+    if (currentPlayer && !currentPlayer.connected && !currentPlayer.isBot) {
+      handleAbsentTurn(room, currentPlayer.id);
+    } else {
+      botService.scheduleMove(room);
+      startTurnTimer(room);
+    }
+  }
+  persistRoom(room);
+});
+
+// Rooms past their time-to-live are closed for everyone in them
+roomExpiration.onExpirationEvent((event) => {
+  if (event.type !== 'room_cleaned' || !event.roomId) return;
+
+  io.to(event.roomId).emit('room-expired', { roomId: event.roomId });
+  closeRoom(event.roomId);
+  logger.info(`Room ${event.roomId} cleaned up (expired)`);
+});
+
+// Take a seat in a room (or get it back)
+function handleJoinRoom(client: RoomClient, data: ClientEventPayload<'join-room'>) {
+  const { playerId } = client;
+  try {
+    const { roomId, playerName, accessCode } = data;
+    
+    const availableRoomIds = lobbyService.getAllRooms().map(r => r.id).join(', ');
+    logger.info(`Join attempt: roomId=${roomId}, playerName=${playerName}, totalRooms=${lobbyService.getAllRooms().length}`);
+    logger.info(`Available rooms: ${availableRoomIds}`);
+    
+    const room = lobbyService.getRoom(roomId);
+    if (!room) {
+      logger.error(`Room ${roomId} not found. Available rooms: ${availableRoomIds}`);
+      io.to(client.socketId).emit('join-error', { message: 'Room not found' });
+      return;
+    }
+    
+    // Check access code for private rooms
+    if (room.isPrivate && room.code !== accessCode) {
+      io.to(client.socketId).emit('join-error', { message: 'Invalid access code' });
+      return;
+    }
+    
+    // Same player coming back (e.g. after a page reload): give them their seat back
+    const seatedPlayer = room.getPlayer(playerId);
+    if (seatedPlayer) {
+      const result = restoreSeat(client, roomId);
+      if (!result.success) {
+        io.to(client.socketId).emit('join-error', { message: result.error ?? 'Failed to join room' });
+        return;
+      }
+      io.to(client.socketId).emit('room-joined', {
+        roomId,
+        roomName: room.name,
+        playerName: seatedPlayer.nickname,
+        message: 'Rejoined room',
+        roomState: room.getStatus()
+      });
+      return;
+    }
+    
+    // Check for duplicate nicknames
+    const existingPlayerWithName = room.players.find(p => p.nickname === playerName);
+    if (existingPlayerWithName) {
+      io.to(client.socketId).emit('join-error', { message: 'Ce nom est déjà utilisé dans cette room' });
+      return;
+    }
+    
+    // Create player and add to room (the lobby checks capacity and game status)
+    const player = new Player({
+      id: playerId,
+      nickname: playerName,
+      color: 'red' // Will be reassigned by Room.addPlayer
+    });
+    const joinResult = lobbyService.joinRoom(roomId, player, accessCode);
+    if (!joinResult.success) {
+      io.to(client.socketId).emit('join-error', { message: joinResult.error ?? 'Failed to join room' });
+      return;
+    }
+    
+    // Join socket to room
+    io.in(client.socketId).socketsJoin(roomId);
+    trackRoom(client, roomId);
+    
+    logger.info(`Player ${playerName} joined room ${roomId} (${room.players.length}/${room.capacity})`);
+    
+    // Notify all players in the room about new player
+    io.to(roomId).except(client.socketId).emit('player-joined', {
+      playerId: playerId,
+      playerName,
+      roomState: room.getStatus()
+    });
+    
+    // Confirm join to the joining player
+    io.to(client.socketId).emit('room-joined', {
+      roomId,
+      roomName: room.name,
+      playerName,
+      message: 'Successfully joined room',
+      roomState: room.getStatus()
+    });
+    
+    // Auto-start game if room is full
+    if (room.players.length === room.capacity) {
+      startRoomGame(room);
+    } else {
+      persistRoom(room);
+    }
+    
+  } catch (error) {
+    logger.error('Error joining room:', error);
+    io.to(client.socketId).emit('join-error', { message: 'Failed to join room' });
+  }
+}
+
+// Host fills an empty seat with a computer opponent
+function handleAddBot(client: RoomClient, data: ClientEventPayload<'add-bot'>) {
+  const { playerId } = client;
+  try {
+    const { roomId, difficulty } = data;
+    
+    const room = lobbyService.getRoom(roomId);
+    if (!room) {
+      io.to(client.socketId).emit('room-error', { message: 'Room not found' });
+      return;
+    }
+    
+    if (room.hostId !== playerId) {
+      io.to(client.socketId).emit('room-error', { message: 'Only the host can add bots' });
+      return;
+    }
+    
+    const bot = room.addBot(difficulty);
+    if (!bot) {
+      io.to(client.socketId).emit('room-error', { message: 'Cannot add a bot to this room' });
+      return;
+    }
+    
+    logger.info(`Bot ${bot.nickname} (${difficulty}) added to room ${roomId} (${room.players.length}/${room.capacity})`);
+    
+    io.to(roomId).emit('player-joined', {
+      playerId: bot.id,
+      playerName: bot.nickname,
+      isBot: true,
+      roomState: room.getStatus()
+    });
+    
+    // Auto-start game if room is full
+    if (room.players.length === room.capacity) {
+      startRoomGame(room);
+    } else {
+      persistRoom(room);
+    }
+    
+  } catch (error) {
+    logger.error('Error adding bot:', error);
+    io.to(client.socketId).emit('room-error', { message: 'Failed to add bot' });
+  }
+}
+
+// Host removes a player (or a bot) from the room before the game starts
+function handleKickPlayer(client: RoomClient, data: ClientEventPayload<'kick-player'>) {
+  try {
+    const { roomId, playerId } = data;
+    
+    const room = lobbyService.getRoom(roomId);
+    if (!room) {
+      io.to(client.socketId).emit('room-error', { message: 'Room not found' });
+      return;
+    }
+    
+    if (room.hostId !== client.playerId) {
+      io.to(client.socketId).emit('room-error', { message: 'Only the host can kick players' });
+      return;
+    }
+    
+    const result = lobbyService.kickPlayer(roomId, playerId);
+    if (!result.success || !result.player) {
+      io.to(client.socketId).emit('room-error', { message: result.error ?? 'Failed to kick player' });
+      return;
+    }
+    
+    // Tell the room (the kicked player included) before their socket leaves it
+    io.to(roomId).emit('player-kicked', {
+      roomId,
+      playerId,
+      playerName: result.player.nickname,
+      room: getRoomSnapshot(room).room
+    });
+    
+    const connection = connectionManager.getConnection(playerId);
+    if (connection?.roomId === roomId) {
+      io.in(connection.socketId).socketsLeave(roomId);
+      connectionManager.leaveRoom(playerId);
+    }
+    
+    logger.info(`Player ${result.player.nickname} kicked from room ${roomId} (${room.players.length}/${room.capacity})`);
+    persistRoom(room);
+    
+  } catch (error) {
+    logger.error('Error kicking player:', error);
+    io.to(client.socketId).emit('room-error', { message: 'Failed to kick player' });
+  }
+}
+
+// Host hands the host role over to another connected player
+function handleTransferHost(client: RoomClient, data: ClientEventPayload<'transfer-host'>) {
+  try {
+    const { roomId, playerId } = data;
+    
+    const room = lobbyService.getRoom(roomId);
+    if (!room) {
+      io.to(client.socketId).emit('room-error', { message: 'Room not found' });
+      return;
+    }
+    
+    if (room.hostId !== client.playerId) {
+      io.to(client.socketId).emit('room-error', { message: 'Only the host can transfer the host role' });
+      return;
+    }
+    
+    const newHost = room.getPlayer(playerId);
+    if (!newHost || newHost.id === room.hostId || newHost.isBot || !newHost.connected) {
+      io.to(client.socketId).emit('room-error', { message: 'Cannot transfer the host role to this player' });
+      return;
+    }
+    
+    lobbyService.transferHost(roomId, newHost.id);
+    io.to(roomId).emit('host-transferred', {
+      newHostId: newHost.id,
+      newHostName: newHost.nickname
+    });
+    
+    logger.info(`Host transferred to ${newHost.nickname} in room ${roomId}`);
+    persistRoom(room);
+    
+  } catch (error) {
+    logger.error('Error transferring host:', error);
+    io.to(client.socketId).emit('room-error', { message: 'Failed to transfer host' });
+  }
+}
+
+// Host starts the game without waiting for the room to fill up
+function handleStartGame(client: RoomClient, data: ClientEventPayload<'start-game'>) {
+  try {
+    const room = lobbyService.getRoom(data.roomId);
+    if (!room) {
+      io.to(client.socketId).emit('room-error', { message: 'Room not found' });
+      return;
+    }
+    
+    if (room.hostId !== client.playerId) {
+      io.to(client.socketId).emit('room-error', { message: 'Only the host can start the game' });
+      return;
+    }
+    
+    if (!room.canStartEarly()) {
+      io.to(client.socketId).emit('room-error', { message: 'The game cannot be started now' });
+      return;
+    }
+    
+    logger.info(`Host starts room ${room.id} early (${room.players.length}/${room.capacity})`);
+    startRoomGame(room);
+    
+  } catch (error) {
+    logger.error('Error starting game:', error);
+    io.to(client.socketId).emit('room-error', { message: 'Failed to start game' });
+  }
+}
+
+// A player leaves their room for good: a game in progress is forfeited (RULES.md §8.4)
+// and the seat is freed, handing the host role over if needed
+function handleLeaveRoom(client: RoomClient, data: ClientEventPayload<'leave-room'>) {
+  const { playerId } = client;
+  try {
+    const { roomId } = data;
+    
+    const room = lobbyService.getRoom(roomId);
+    const player = room?.getPlayer(playerId);
+    if (!room || !player) {
+      io.to(client.socketId).emit('room-error', { message: 'Player not in room' });
+      return;
+    }
+    
+    // The leaver no longer follows the room
+    io.in(client.socketId).socketsLeave(roomId);
+    connectionManager.leaveRoom(playerId);
+    botService.cancelReplacement(playerId);
+    replayManager.castVote(roomId, playerId, false); // Leaving during the replay vote counts as a no
+    
+    const wasCurrentPlayer = room.game.currentPlayerId === playerId;
+    const hasForfeited = room.game.forfeit(playerId);
+    
+    // Hand the host role to someone still here, or close the room if nobody is
+    releaseHostedRoom(playerId);
+    if (!lobbyService.getRoom(roomId)) {
+      return;
+    }
+    
+    const result = lobbyService.leaveRoom(roomId, playerId);
+    if (result.roomClosed) {
+      closeRoom(roomId);
+      return;
+    }
+    
+    logger.info(`Player ${player.nickname} left room ${roomId}${hasForfeited ? ' (forfeit)' : ''}`);
+    io.to(roomId).emit('player-left', {
+      roomId,
+      playerId,
+      playerName: player.nickname,
+      room: getRoomSnapshot(room).room
+    });
+    
+    if (hasForfeited) {
+      proposalService.cancelProposal(roomId);
+      io.to(roomId).emit('player-forfeited', {
+        playerId,
+        playerName: player.nickname,
+        gameState: room.game.getGameState()
+      });
+      
+      if (room.getStatus() === 'finished') {
+        broadcastGameEnd(room);
+        logger.info(`Game ended in room ${roomId} by forfeit. Winner: ${room.game.winnerId}`);
+      } else if (wasCurrentPlayer) {
+        botService.scheduleMove(room);
+        startTurnTimer(room);
+      }
+    }
+    persistRoom(room);
+    
+  } catch (error) {
+    logger.error('Error leaving room:', error);
+    io.to(client.socketId).emit('room-error', { message: 'Failed to leave room' });
+  }
+}
+
+// Game move handling
+function handleMakeMove(client: RoomClient, data: ClientEventPayload<'make-move'>) {
+  const { playerId } = client;
+  try {
+    const { roomId, cellIndex, size } = data;
+    
+    const room = lobbyService.getRoom(roomId);
+    if (!room) {
+      io.to(client.socketId).emit('move-error', { message: 'Room not found' });
+      return;
+    }
+    
+    if (!room.game || room.game.status !== 'playing') {
+      io.to(client.socketId).emit('move-error', { message: 'Game is not active' });
+      return;
+    }
+    
+    if (room.game.pause) {
+      io.to(client.socketId).emit('move-error', { message: 'The game is paused' });
+      return;
+    }
+    
+    // Apply the move
+    const success = room.game.applyMove(playerId, cellIndex, size);
+    if (!success) {
+      io.to(client.socketId).emit('move-error', { message: 'Invalid move' });
+      return;
+    }
+    
+    turnTimer.onPlayerMove(room, playerId);
+    proposalService.cancelProposal(roomId); // Proposals are about the position they were made in
+    
+    // Broadcast updated game state to all players in the room
+    const gameState = room.game.getGameState();
+    
+    io.to(roomId).emit('game-updated', {
+      gameState,
+      lastMove: {
+        playerId: playerId,
+        cellIndex,
+        size
+      }
+    });
+    
+    // Check if game ended
+    if (room.getStatus() === 'finished') {
+      broadcastGameEnd(room);
+      logger.info(`Game ended in room ${roomId}. Winner: ${room.game.winnerId || 'Draw'}`);
+    } else {
+      botService.scheduleMove(room);
+      startTurnTimer(room);
+    }
+    persistRoom(room);
+    
+    logger.info(`Move applied in room ${roomId}: Player ${playerId} placed ${size} at cell ${cellIndex}`);
+    
+  } catch (error) {
+    logger.error('Error applying move:', error);
+    io.to(client.socketId).emit('move-error', { message: 'Failed to apply move' });
+  }
+}
+
+// Take a seat back after a reconnection (page reload, network drop)
+function handleRejoinRoom(client: RoomClient, data: ClientEventPayload<'rejoin-room'>) {
+  try {
+    const { roomId } = data;
+    
+    const result = restoreSeat(client, roomId);
+    if (!result.success || !result.room) {
+      io.to(client.socketId).emit('rejoin-error', { message: result.error ?? 'Failed to rejoin room' });
+      return;
+    }
+    
+    // Replay the current state to the returning player
+    io.to(client.socketId).emit('room-rejoined', {
+      roomId: result.room.id,
+      roomName: result.room.name,
+      ...getRoomSnapshot(result.room)
+    });
+    
+    // A draw offer, takeback or pause request may still be waiting for their answer
+    const proposal = proposalService.getProposal(result.room.id);
+    if (proposal) {
+      io.to(client.socketId).emit('proposal-updated', proposal);
+    }
+
+    // The game may be about to resume
+    const resumeAt = pauseService.getResumeAt(result.room.id);
+    if (resumeAt !== null) {
+      io.to(client.socketId).emit('game-resuming', { roomId: result.room.id, resumeAt });
+    }
+    
+  } catch (error) {
+    logger.error('Error rejoining room:', error);
+    io.to(client.socketId).emit('rejoin-error', { message: 'Failed to rejoin room' });
+  }
+}
+
+// Watch a game in progress without taking a seat (broadcasts only, no moves or votes)
+function handleSpectateRoom(client: RoomClient, data: ClientEventPayload<'spectate-room'>) {
+  try {
+    const { roomId, accessCode } = data;
+    
+    const room = lobbyService.getRoom(roomId);
+    if (!room) {
+      io.to(client.socketId).emit('spectate-error', { message: 'Room not found' });
+      return;
+    }
+    
+    if (room.isPrivate && room.code !== accessCode) {
+      io.to(client.socketId).emit('spectate-error', { message: 'Invalid access code' });
+      return;
+    }
+    
+    if (room.getPlayer(client.playerId)) {
+      io.to(client.socketId).emit('spectate-error', { message: 'Already playing in this room' });
+      return;
+    }
+    
+    if (!room.addSpectator(client.socketId, client.playerId)) {
+      io.to(client.socketId).emit('spectate-error', { message: 'Only games in progress can be watched' });
+      return;
+    }
+    
+    io.in(client.socketId).socketsJoin(roomId);
+    io.to(client.socketId).emit('spectating', {
+      roomId,
+      roomName: room.name,
+      ...getRoomSnapshot(room)
+    });
+    broadcastSpectatorCount(room);
+    
+    logger.info(`Spectator ${client.playerId} watching room ${roomId} (${room.getSpectatorCount()} watching)`);
+    
+  } catch (error) {
+    logger.error('Error spectating room:', error);
+    io.to(client.socketId).emit('spectate-error', { message: 'Failed to watch room' });
+  }
+}
+
+// Stop watching a game
+function handleStopSpectating(client: RoomClient, data: ClientEventPayload<'stop-spectating'>) {
+  try {
+    const room = lobbyService.getRoom(data.roomId);
+    if (!room || !room.removeSpectator(client.socketId)) {
+      io.to(client.socketId).emit('spectate-error', { message: 'Not watching this room' });
+      return;
+    }
+    
+    io.in(client.socketId).socketsLeave(room.id);
+    broadcastSpectatorCount(room);
+    
+  } catch (error) {
+    logger.error('Error leaving spectators:', error);
+    io.to(client.socketId).emit('spectate-error', { message: 'Failed to stop watching' });
+  }
+}
+
+// Get current game state (players and spectators)
+function handleGetGameState(client: RoomClient, data: ClientEventPayload<'get-game-state'>) {
+  try {
+    const { roomId } = data;
+    
+    const room = lobbyService.getRoom(roomId);
+    if (!room || (!room.getPlayer(client.playerId) && !room.spectators.has(client.socketId))) {
+      io.to(client.socketId).emit('game-state-error', { message: 'Room not found' });
+      return;
+    }
+    
+    io.to(client.socketId).emit('game-state', getRoomSnapshot(room));
+    
+  } catch (error) {
+    logger.error('Error getting game state:', error);
+    io.to(client.socketId).emit('game-state-error', { message: 'Failed to get game state' });
+  }
+}
+
+// Get the game event log (players and spectators), or only the events missed since a sequence number
+// (catch-up after a reconnection, full log for a post-game replay)
+function handleGetGameEvents(client: RoomClient, data: ClientEventPayload<'get-game-events'>) {
+  try {
+    const { roomId, since } = data;
+    
+    const room = lobbyService.getRoom(roomId);
+    if (!room || (!room.getPlayer(client.playerId) && !room.spectators.has(client.socketId))) {
+      io.to(client.socketId).emit('game-events-error', { message: 'Room not found' });
+      return;
+    }
+    
+    const events = typeof since === 'number' ? room.game.getEventsSince(since) : room.game.getEvents();
+    
+    io.to(client.socketId).emit('game-events', {
+      roomId,
+      events,
+      status: room.game.status
+    });
+    
+  } catch (error) {
+    logger.error('Error getting game events:', error);
+    io.to(client.socketId).emit('game-events-error', { message: 'Failed to get game events' });
+  }
+}
+
+// Replay vote handling
+function handleCastReplayVote(client: RoomClient, data: ClientEventPayload<'cast-replay-vote'>) {
+  const { playerId } = client;
+  try {
+    const { roomId, vote } = data;
+    
+    const room = lobbyService.getRoom(roomId);
+    if (!room) {
+      io.to(client.socketId).emit('replay-vote-error', { message: 'Room not found' });
+      return;
+    }
+    
+    // Progress and outcome are broadcast from the replay vote events
+    const success = replayManager.castVote(room.id, playerId, vote);
+    if (!success) {
+      io.to(client.socketId).emit('replay-vote-error', { message: 'Vote failed or expired' });
+      return;
+    }
+    
+  } catch (error) {
+    logger.error('Error casting replay vote:', error);
+    io.to(client.socketId).emit('replay-vote-error', { message: 'Failed to cast vote' });
+  }
+}
+
+// Offer a draw, ask to take back one's last placement or to pause the game
+function makeProposal(client: RoomClient, roomId: string, kind: ProposalKind) {
+  const room = lobbyService.getRoom(roomId);
+  if (!room) {
+    io.to(client.socketId).emit('proposal-error', { message: 'Room not found' });
+    return;
+  }
+  
+  const result = proposalService.propose(room, kind, client.playerId);
+  if (!result.success) {
+    io.to(client.socketId).emit('proposal-error', { message: result.error ?? 'Failed to make proposal' });
+    return;
+  }
+  
+  logger.info(`Player ${client.playerId} proposed a ${kind} in room ${roomId}`);
+}
+
+// Accept or decline the pending draw offer, takeback or pause request
+function answerProposal(client: RoomClient, roomId: string, kind: ProposalKind, accept: boolean) {
+  const room = lobbyService.getRoom(roomId);
+  if (!room) {
+    io.to(client.socketId).emit('proposal-error', { message: 'Room not found' });
+    return;
+  }
+  
+  // Progress and outcome are broadcast from the proposal events
+  const result = proposalService.respond(roomId, kind, client.playerId, accept);
+  if (!result.success) {
+    io.to(client.socketId).emit('proposal-error', { message: result.error ?? 'Failed to answer proposal' });
+  }
+}
+
+function handleOfferDraw(client: RoomClient, data: ClientEventPayload<'offer-draw'>) {
+  try {
+    makeProposal(client, data.roomId, 'draw');
+  } catch (error) {
+    logger.error('Error offering draw:', error);
+    io.to(client.socketId).emit('proposal-error', { message: 'Failed to offer draw' });
+  }
+}
+
+function handleRespondDraw(client: RoomClient, data: ClientEventPayload<'respond-draw'>) {
+  try {
+    answerProposal(client, data.roomId, 'draw', data.accept);
+  } catch (error) {
+    logger.error('Error answering draw offer:', error);
+    io.to(client.socketId).emit('proposal-error', { message: 'Failed to answer draw offer' });
+  }
+}
+
+function handleRequestTakeback(client: RoomClient, data: ClientEventPayload<'request-takeback'>) {
+  try {
+    makeProposal(client, data.roomId, 'takeback');
+  } catch (error) {
+    logger.error('Error requesting takeback:', error);
+    io.to(client.socketId).emit('proposal-error', { message: 'Failed to request takeback' });
+  }
+}
+
+function handleRespondTakeback(client: RoomClient, data: ClientEventPayload<'respond-takeback'>) {
+  try {
+    answerProposal(client, data.roomId, 'takeback', data.accept);
+  } catch (error) {
+    logger.error('Error answering takeback request:', error);
+    io.to(client.socketId).emit('proposal-error', { message: 'Failed to answer takeback request' });
+  }
+}
+
+function handleRequestPause(client: RoomClient, data: ClientEventPayload<'request-pause'>) {
+  try {
+    makeProposal(client, data.roomId, 'pause');
+  } catch (error) {
+    logger.error('Error requesting pause:', error);
+    io.to(client.socketId).emit('proposal-error', { message: 'Failed to request pause' });
+  }
+}
+
+function handleRespondPause(client: RoomClient, data: ClientEventPayload<'respond-pause'>) {
+  try {
+    answerProposal(client, data.roomId, 'pause', data.accept);
+  } catch (error) {
+    logger.error('Error answering pause request:', error);
+    io.to(client.socketId).emit('proposal-error', { message: 'Failed to answer pause request' });
+  }
+}
+
+// Start the countdown before a paused game resumes
+function handleResumeGame(client: RoomClient, data: ClientEventPayload<'resume-game'>) {
+  try {
+    const { roomId } = data;
+
+    const room = lobbyService.getRoom(roomId);
+    if (!room) {
+      io.to(client.socketId).emit('pause-error', { message: 'Room not found' });
+      return;
+    }
+
+    const result = pauseService.requestResume(room, client.playerId);
+    if (!result.success) {
+      io.to(client.socketId).emit('pause-error', { message: result.error ?? 'Failed to resume game' });
+    }
+  } catch (error) {
+    logger.error('Error resuming game:', error);
+    io.to(client.socketId).emit('pause-error', { message: 'Failed to resume game' });
+  }
+}
+
+// Post a message in the room chat
+function handleSendChatMessage(client: RoomClient, data: ClientEventPayload<'send-chat-message'>) {
+  try {
+    const { roomId, text } = data;
+    
+    const room = lobbyService.getRoom(roomId);
+    if (!room) {
+      io.to(client.socketId).emit('chat-error', { message: 'Room not found' });
+      return;
+    }
+    
+    const result = chatService.postMessage(room, client.playerId, text);
+    if (!result.success || !result.message) {
+      io.to(client.socketId).emit('chat-error', { message: result.error ?? 'Failed to send message' });
+      return;
+    }
+    
+    io.to(roomId).emit('chat-message', { roomId, message: result.message });
+    persistRoom(room);
+    
+  } catch (error) {
+    logger.error('Error sending chat message:', error);
+    io.to(client.socketId).emit('chat-error', { message: 'Failed to send message' });
+  }
+}
+
+// Get the chat history of a room (players and spectators)
+function handleGetChatHistory(client: RoomClient, data: ClientEventPayload<'get-chat-history'>) {
+  try {
+    const room = lobbyService.getRoom(data.roomId);
+    if (!room || (!room.getPlayer(client.playerId) && !room.spectators.has(client.socketId))) {
+      io.to(client.socketId).emit('chat-error', { message: 'Room not found' });
+      return;
+    }
+    
+    io.to(client.socketId).emit('chat-history', {
+      roomId: room.id,
+      messages: room.chatMessages,
+      mutedPlayerIds: [...room.mutedPlayerIds]
+    });
+    
+  } catch (error) {
+    logger.error('Error getting chat history:', error);
+    io.to(client.socketId).emit('chat-error', { message: 'Failed to get chat history' });
+  }
+}
+
+// Host silences a player in the chat, or gives them their voice back
+function handleMutePlayer(client: RoomClient, data: ClientEventPayload<'mute-player'>) {
+  try {
+    const { roomId, playerId, muted } = data;
+    
+    const room = lobbyService.getRoom(roomId);
+    if (!room) {
+      io.to(client.socketId).emit('chat-error', { message: 'Room not found' });
+      return;
+    }
+    
+    if (room.hostId !== client.playerId) {
+      io.to(client.socketId).emit('chat-error', { message: 'Only the host can mute players' });
+      return;
+    }
+    
+    if (!room.setMuted(playerId, muted)) {
+      io.to(client.socketId).emit('chat-error', { message: 'Cannot mute this player' });
+      return;
+    }
+    
+    io.to(roomId).emit('player-muted', { roomId, playerId, muted });
+    persistRoom(room);
+    logger.info(`Player ${playerId} ${muted ? 'muted' : 'unmuted'} in room ${roomId}`);
+    
+  } catch (error) {
+    logger.error('Error muting player:', error);
+    io.to(client.socketId).emit('chat-error', { message: 'Failed to mute player' });
+  }
+}
+
+// Tell the room about a skipped turn, and the elimination the anti-abuse policy may have caused
+function broadcastSkip(room: Room, playerId: string, reason: 'timeout' | 'disconnection') {
+  const gameState = room.game.getGameState();
+  io.to(room.id).emit('turn-skipped', { skippedPlayerId: playerId, reason, gameState });
+
+  const player = room.game.players.find(p => p.id === playerId);
+  const eliminationReason = room.game.getEliminationReason(playerId);
+  if (player && eliminationReason) {
+    io.to(room.id).emit('player-eliminated', {
+      playerId,
+      playerName: player.nickname,
+      reason: eliminationReason,
+      gameState
+    });
+  }
+}
+
+// The player to move is gone: pause the game if the room asks for it, otherwise skip their turn
+function handleAbsentTurn(room: Room, playerId: string) {
+  if (room.autoPause) {
+    pauseService.pause(room, 'disconnection', playerId);
+    return;
+  }
+
+  room.game.skipTurn('disconnection');
+  proposalService.cancelProposal(room.id);
+  broadcastSkip(room, playerId, 'disconnection');
+
+  // Check if game ended due to skip
+  if (room.game.status === 'finished') {
+    broadcastGameEnd(room);
+  } else {
+    botService.scheduleMove(room);
+    startTurnTimer(room);
+  }
+}
+
+// A player's socket closed; only the node tracking that socket in a room acts on it
+function handlePlayerDisconnect(client: RoomClient) {
+  const { playerId } = client;
+
+  // A spectator leaving only changes the count
+  const watchedRoom = lobbyService.getRoomBySpectator(client.socketId);
+  if (watchedRoom?.removeSpectator(client.socketId)) {
+    broadcastSpectatorCount(watchedRoom);
+  }
+
+  if (connectionManager.getConnection(playerId)?.socketId !== client.socketId) {
+    return;
+  }
+  
+  // Keep the seat for a reconnection window
+  const { room } = connectionManager.disconnect(playerId, { reason: 'network' });
+  const player = room?.getPlayer(playerId);
+  if (!room || !player) {
+    return;
+  }
+  const roomId = room.id;
+  
+  // Notify other players about disconnection
+  io.to(roomId).except(client.socketId).emit('player-disconnected', {
+    playerId: playerId,
+    playerName: player.nickname,
+    gameState: room.game.getGameState()
+  });
+  
+  logger.info(`Player ${player.nickname} disconnected from room ${roomId}`);
+  
+  // Handle disconnection based on game state
+  if (room.game.status === 'waiting') {
+    // In lobby: clean up empty rooms or transfer host
+    if (room.getHumanPlayers().every(p => !p.connected)) {
+      closeRoom(roomId);
+      logger.info(`Empty room ${roomId} cleaned up`);
+    } else if (player.isHost) {
+      // Transfer host to first connected player
+      const newHost = room.getHumanPlayers().find(p => p.connected && p.id !== playerId);
+      if (newHost) {
+        lobbyService.transferHost(roomId, newHost.id);
+        io.to(roomId).except(client.socketId).emit('host-transferred', {
+          newHostId: newHost.id,
+          newHostName: newHost.nickname
+        });
+        logger.info(`Host transferred from ${player.nickname} to ${newHost.nickname} in room ${roomId}`);
+      }
+      persistRoom(room);
+    }
+  } else if (room.game.status === 'playing') {
+    // In-game: handle current player disconnection with grace period (a paused game waits)
+    if (room.game.currentPlayerId === playerId && !room.game.pause) {
+      logger.info(`Current player ${player.nickname} disconnected in room ${roomId}`);
+      handleAbsentTurn(room, playerId);
+    }
+    
+    // A bot takes the seat over if the player does not come back in time
+    botService.scheduleReplacement(room, playerId);
+    
+    // Don't immediately delete room - give 2 minutes grace period for reconnection
+    const connectedPlayers = room.getHumanPlayers().filter(p => p.connected);
+    if (connectedPlayers.length === 0) {
+      // Shorten the room's time-to-live instead of deleting it now
+      roomExpiration.setRoomTTL(roomId, DISCONNECTION_GRACE_PERIOD);
+      logger.info(`All players disconnected from room ${roomId}, marked for cleanup in 2 minutes`);
+    }
+    persistRoom(room);
+  }
+}
+
+// Room commands, whichever node received the socket event
+const roomCommandHandlers: { [T in RoomCommandType]: (client: RoomClient, data: ClientEventPayload<T>) => void } = {
+  'join-room': handleJoinRoom,
+  'add-bot': handleAddBot,
+  'kick-player': handleKickPlayer,
+  'transfer-host': handleTransferHost,
+  'start-game': handleStartGame,
+  'leave-room': handleLeaveRoom,
+  'make-move': handleMakeMove,
+  'rejoin-room': handleRejoinRoom,
+  'spectate-room': handleSpectateRoom,
+  'stop-spectating': handleStopSpectating,
+  'get-game-state': handleGetGameState,
+  'get-game-events': handleGetGameEvents,
+  'cast-replay-vote': handleCastReplayVote,
+  'offer-draw': handleOfferDraw,
+  'respond-draw': handleRespondDraw,
+  'request-takeback': handleRequestTakeback,
+  'respond-takeback': handleRespondTakeback,
+  'request-pause': handleRequestPause,
+  'respond-pause': handleRespondPause,
+  'resume-game': handleResumeGame,
+  'send-chat-message': handleSendChatMessage,
+  'get-chat-history': handleGetChatHistory,
+  'mute-player': handleMutePlayer
+};
+
+function runRoomCommand(command: RoomCommand) {
+  const handler = roomCommandHandlers[command.type] as (client: RoomClient, data: RoomCommand['data']) => void;
+  handler(command.client, command.data);
+}
+
+// Run a room command here if this node owns the room, otherwise hand it to the owner
+async function dispatchRoomCommand(command: RoomCommand) {
+  const { roomId } = command.data;
+  if (!isClustered || lobbyService.getRoom(roomId)) {
+    runRoomCommand(command);
+    return;
+  }
+
+  // Nobody runs the room (e.g. its node went down): take it over from storage
+  let ownerId = await roomOwnership.getOwner(roomId);
+  if (!ownerId && !(await adoptRoom(roomId))) {
+    ownerId = await roomOwnership.getOwner(roomId); // Another node was faster
+  }
+
+  if (ownerId && ownerId !== roomOwnership.nodeId) {
+    io.serverSideEmit('room-command', { ...command, ownerId });
+  } else {
+    runRoomCommand(command);
+  }
+}
+
+// Start running a stored room on this node; its players rejoin like after a network drop
+async function restoreRoom(room: Room) {
+  lobbyService.restoreRoom(room);
+  roomExpiration.addRoom(room);
+
+  room.getHumanPlayers().forEach(player => {
+    player.setConnected(false);
+    room.game.recordConnection(player.id, false);
+    connectionManager.restoreSeat(player, room.id);
+
+    if (room.getStatus() === 'playing') {
+      botService.scheduleReplacement(room, player.id);
+    }
+  });
+
+  if (room.getStatus() === 'playing') {
+    botService.scheduleMove(room);
+    startTurnTimer(room);
+  }
+
+  // Nobody is connected yet: keep the room only for the reconnection window
+  if (room.expiresAt > Date.now() + DISCONNECTION_GRACE_PERIOD) {
+    roomExpiration.setRoomTTL(room.id, DISCONNECTION_GRACE_PERIOD);
+  }
+  persistRoom(room);
+
+  // After a node failure, players and spectators may still be connected to other nodes
+  const sockets = await io.in(room.id).fetchSockets();
+  sockets.forEach(socket => {
+    if (room.getPlayer(socket.data.playerId)) {
+      restoreSeat({ playerId: socket.data.playerId, socketId: socket.id }, room.id);
+    } else {
+      room.addSpectator(socket.id, socket.data.playerId);
+    }
+  });
+}
+
+// Take an orphaned room over from storage (false if it is gone or another node owns it)
+async function adoptRoom(roomId: string): Promise<boolean> {
+  const room = await roomStorage.loadRoom(roomId);
+  if (!room || !(await roomOwnership.claim(roomId))) {
+    return false;
+  }
+
+  // Another command may have adopted it meanwhile
+  if (!lobbyService.getRoom(roomId)) {
+    await restoreRoom(room);
+    logger.info(`Room ${roomId} taken over by node ${roomOwnership.nodeId}`);
+  }
+  return true;
+}
+
+// Keep the lease of the rooms run here and take over the rooms of nodes that went away
+async function syncRoomOwnership() {
+  const lostRoomIds = await roomOwnership.renew(lobbyService.getAllRooms().map(room => room.id));
+  lostRoomIds.forEach(roomId => {
+    unloadRoom(roomId);
+    logger.warn(`Lost the ownership of room ${roomId}`);
+  });
+
+  for (const roomId of await roomStorage.listRoomIds()) {
+    if (!lobbyService.getRoom(roomId) && !(await roomOwnership.getOwner(roomId))) {
+      await adoptRoom(roomId);
+    }
+  }
+}
+
+// Messages between nodes: forwarded room commands, closed sockets and lobby listings
+io.on('room-command', (command: RoomCommand) => {
+  if (command.ownerId === roomOwnership.nodeId) {
+    runRoomCommand(command);
+  }
+});
+
+io.on('player-disconnected', (client: RoomClient) => {
+  handlePlayerDisconnect(client);
+});
+
+io.on('list-rooms', (options: RoomSearchOptions, callback: (list: ReturnType<LobbyService['listRooms']>) => void) => {
+  callback(lobbyService.listRooms(options));
+});
+
+// Identify the player from their session token (a new player id otherwise)
+io.use((socket, next) => {
+  const session = sessionService.resolveSession(socket.handshake.auth?.sessionToken);
+  socket.data.playerId = session.playerId;
+  socket.data.sessionToken = session.token;
+
+  const { protocolVersion, buildHash } = socket.handshake.auth ?? {};
+  socket.data.protocolVersion = typeof protocolVersion === 'number' ? protocolVersion : null;
+  socket.data.buildHash = typeof buildHash === 'string' ? buildHash.slice(0, 64) : null;
+  next();
+});
+
+// Simple Socket.io connection handling for Phase 2 testing
+io.on('connection', (socket) => {
+  const playerId: string = socket.data.playerId;
+
+  // A client speaking an older protocol is told to reload before it sends anything
+  const handshakeStatus = checkProtocolVersion(socket.data.protocolVersion);
+  socket.emit('handshake', {
+    status: handshakeStatus,
+    protocolVersion: PROTOCOL_VERSION,
+    minProtocolVersion: MIN_PROTOCOL_VERSION
+  });
+  if (handshakeStatus === 'upgrade-required') {
+    logger.info(`Client ${socket.id} turned away: protocol ${socket.data.protocolVersion ?? 'none'} (build ${socket.data.buildHash ?? 'unknown'})`);
+    socket.disconnect(true);
+    return;
+  }
+
+  logger.info(`Client connected: ${socket.id} (player ${playerId}, build ${socket.data.buildHash ?? 'unknown'})`);
+
+  // A newer socket of the same player (e.g. another tab) takes the seat over
+  const replacedSocketId = sessionService.bindSocket(playerId, socket.id);
+  if (replacedSocketId) {
+    connectionManager.replaceSocket(playerId, socket.id);
+    io.sockets.sockets.get(replacedSocketId)?.disconnect(true);
+  }
+
+  // The client keeps the refreshed token to resume this identity later
+  socket.emit('session', {
+    playerId,
+    sessionToken: socket.data.sessionToken
+  });
+
+  // Test ping-pong for validation
+  socket.on('ping', () => {
+    logger.info(`Ping received from ${socket.id}`);
+    socket.emit('pong', { message: 'Server is alive!', timestamp: Date.now() });
+  });
+
+  // Room management with real game logic
+  socket.on('create-room', (payload) => {
+    try {
+      const parsed = parseClientPayload('create-room', payload);
+      if (!parsed.success) {
+        socket.emit('room-error', parsed.error);
+        return;
+      }
+      const { playerName, roomName, isPrivate, capacity, rules, timeControl, autoPause, antiAbuse } = parsed.data;
+
+      releaseHostedRoom(playerId);
+      
+      // Create new room in the lobby
+      const room = lobbyService.createRoom({
+        name: roomName ?? `Salle de ${playerName}`,
+        capacity,
+        isPrivate,
+        code: isPrivate ? Math.random().toString(36).substring(2, 6).toUpperCase().padEnd(4, '0') : undefined,
+        hostId: playerId,
+        rules,
+        timeControl,
+        autoPause,
+        antiAbuse
+      });
+      const roomId = room.id;
+      
+      // Create player and add to room
+      const player = new Player({
+        id: playerId,
+        nickname: playerName,
+        color: 'red' // Will be reassigned by Room.addPlayer
+      });
+      room.addPlayer(player);
+      roomExpiration.addRoom(room);
+      persistRoom(room);
+      
+      // Join socket to room
+      socket.join(roomId);
+      trackRoom({ playerId, socketId: socket.id }, roomId);
+      claimRoom(room);
+      
+      logger.info(`Room created: ${roomId} by ${playerName} (${room.players.length}/${room.capacity})`);
+      
+      // Send room created confirmation
+      socket.emit('room-created', {
+        roomId,
+        roomName: room.name,
+        playerName,
+        capacity: room.capacity,
+        isPrivate: room.isPrivate,
+        accessCode: room.code,
+        rules: room.rules,
+        timeControl: room.timeControl,
+        antiAbuse: room.antiAbuse,
+        message: 'Room created successfully',
+        roomState: room.getStatus()
+      });
+      
+    } catch (error) {
+      logger.error('Error creating room:', error);
+      socket.emit('room-error', { message: error instanceof Error ? error.message : 'Failed to create room' });
+    }
+  });
+
+  // Events acting on an existing room run on the node that owns it (payloads checked first)
+  const client: RoomClient = { playerId, socketId: socket.id };
+  ROOM_COMMANDS.forEach(type => {
+    socket.on(type, (payload: unknown) => {
+      const parsed = parseClientPayload(type, payload);
+      if (!parsed.success) {
+        socket.emit(CLIENT_EVENT_ERRORS[type], parsed.error);
+        return;
+      }
+
+      dispatchRoomCommand({ type, client, data: parsed.data } as RoomCommand).catch(error => {
+        logger.error(`Error dispatching ${type}:`, error);
+      });
+    });
+  });
+
+  socket.on('disconnect', () => {
+    logger.info(`Client disconnected: ${socket.id} (player ${playerId})`);
+    
+    // The player is still connected through a newer socket
+    if (!sessionService.unbindSocket(socket.id)) {
+      return;
+    }
+    
+    // The room the socket was in may be run by another node
+    handlePlayerDisconnect(client);
+    if (isClustered) {
+      io.serverSideEmit('player-disconnected', client);
+    }
+  });
+});
+
+// Start server
+const PORT = process.env.PORT;
+
+async function startServer() {
+  try {
+    roomStorage = await createRoomStorage(process.env.REDIS_URL);
+    roomOwnership = await createRoomOwnership(process.env.REDIS_URL);
+    logger.info(`Room storage: ${roomStorage.kind} (node ${roomOwnership.nodeId})`);
+
+    if (process.env.REDIS_URL) {
+      // Broadcasts reach the sockets of every node
+      const pubClient = createClient({ url: process.env.REDIS_URL });
+      const subClient = pubClient.duplicate();
+      await Promise.all([pubClient.connect(), subClient.connect()]);
+      io.adapter(createAdapter(pubClient, subClient));
+      isClustered = true;
+
+      if (!process.env.SESSION_SECRET) {
+        logger.warn('SESSION_SECRET is not set: players cannot keep their seats across nodes or restarts');
+      }
+
+      // Rooms saved before a restart are picked up here, or once their old node's lease runs out
+      await syncRoomOwnership();
+      setInterval(() => {
+        syncRoomOwnership().catch(error => {
+          logger.error('Failed to sync room ownership:', error);
+        });
+      }, OWNERSHIP_SYNC_INTERVAL);
+    }
+
+    // Start HTTP server
+    server.listen(PORT, () => {
+      logger.info(`Server running on port ${PORT}`);
+      logger.info(`Health check: http://localhost:${PORT}/health`);
+    });
+  } catch (error) {
+    logger.error('Failed to start server:', error);
+    process.exit(1);
+  }
+}
+
+// Hand the rooms over to the other nodes right away instead of waiting for the leases to run out
+async function shutdown() {
+  await Promise.all(lobbyService.getAllRooms().map(room => roomOwnership.release(room.id)));
+  await Promise.all([roomOwnership.close(), roomStorage.close()]);
+  process.exit(0);
+}
+
+process.on('SIGINT', () => void shutdown());
+process.on('SIGTERM', () => void shutdown());
 
 startServer();
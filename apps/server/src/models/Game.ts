@@ -1,32 +1,68 @@
-import type { Board, Cell, Color, Size } from '@mortpion/shared';
-import { createEmptyBoard, isLegalMove, applyMove, checkWinConditions, isDraw, hasLegalMoves, getNextPlayer } from '@mortpion/shared';
+import type { AntiAbusePolicy, Board, BotDifficulty, Cell, Color, Size, WinningPattern, RuleSet, RuleSetConfig, GameEvent, GameEndReason, EliminationReason, PauseReason, SkipReason, TimeControl } from '@mortpion/shared';
+import { DEFAULT_ANTI_ABUSE_POLICY, DEFAULT_TIME_CONTROL, getNextPlayer, getRuleSet, getStrikesLeft } from '@mortpion/shared';
 import { Player } from './Player.js';
 
 export type GameStatus = 'waiting' | 'playing' | 'finished';
 
+// Event payload before the log assigns its sequence number and timestamp
+type GameEventData = {
+  [T in GameEvent['type']]: Omit<Extract<GameEvent, { type: T }>, 'seq' | 'timestamp'>;
+}[GameEvent['type']];
+
 export class Game {
   public board: Board;
   public players: Player[];
   public currentPlayerId: string | null;
   public status: GameStatus;
   public winnerId: string | null;
+  public winningPattern: WinningPattern | null;
+  public endReason: GameEndReason | null;
+  public readonly ruleSet: RuleSet;
+  public readonly timeControl: TimeControl;
+  public readonly antiAbuse: AntiAbusePolicy;
+  public clocks: Map<string, number>; // playerId -> time bank left (ms), bank time controls only
   public isDraw: boolean;
   public startedAt: number | null;
   public finishedAt: number | null;
   public turnStartTime: number | null;
-  public turnTimeLimit: number; // seconds
-
-  constructor() {
-    this.board = createEmptyBoard();
+  public pause: { reason: PauseReason; playerId: string; since: number } | null; // Set while turn clocks stand still
+  private events: GameEvent[];
+
+  constructor(rules?: RuleSetConfig, timeControl?: TimeControl, antiAbuse?: AntiAbusePolicy) {
+    this.ruleSet = getRuleSet(rules);
+    this.timeControl = timeControl ?? DEFAULT_TIME_CONTROL;
+    this.antiAbuse = antiAbuse ?? DEFAULT_ANTI_ABUSE_POLICY;
+    this.clocks = new Map();
+    this.board = this.ruleSet.createBoard();
     this.players = [];
     this.currentPlayerId = null;
     this.status = 'waiting';
     this.winnerId = null;
+    this.winningPattern = null;
+    this.endReason = null;
     this.isDraw = false;
     this.startedAt = null;
     this.finishedAt = null;
     this.turnStartTime = null;
-    this.turnTimeLimit = 60; // 1 minute per turn
+    this.pause = null;
+    this.events = [];
+  }
+
+  /**
+   * Rebuild a game by replaying its event log
+   */
+  static fromEvents(events: GameEvent[], rules?: RuleSetConfig, timeControl?: TimeControl, antiAbuse?: AntiAbusePolicy): Game {
+    const started = events.find(event => event.type === 'started');
+    const game = started?.type === 'started'
+      ? new Game(started.rules, started.timeControl ?? timeControl, started.antiAbuse ?? antiAbuse)
+      : new Game(rules, timeControl, antiAbuse);
+
+    events.forEach(event => {
+      game.events.push(event);
+      game.applyEvent(event);
+    });
+
+    return game;
   }
 
   /**
@@ -39,35 +75,28 @@ export class Game {
 
     // Assign colors automatically to ensure uniqueness
     const availableColors: Color[] = ['red', 'blue', 'green', 'yellow'];
-    
-    // Create new player instances with assigned colors and reset inventories
-    this.players = players.map((player, index) => {
-      if (index >= availableColors.length) {
-        throw new Error('Not enough colors available for all players');
-      }
-      
-      // Create a new player with the assigned color
-      return new Player({
+
+    // Select random first player (recorded, so replays start with the same player)
+    const randomIndex = Math.floor(Math.random() * players.length);
+
+    // A new game starts a new log
+    this.events = [];
+    this.record({
+      type: 'started',
+      players: players.map((player, index) => ({
         id: player.id,
         nickname: player.nickname,
         color: availableColors[index],
         connected: player.connected,
         isHost: player.isHost,
-      });
+        isBot: player.isBot,
+        botDifficulty: player.botDifficulty,
+      })),
+      firstPlayerId: players[randomIndex].id,
+      rules: this.ruleSet.config,
+      timeControl: this.timeControl,
+      antiAbuse: this.antiAbuse,
     });
-
-    this.board = createEmptyBoard();
-    
-    // Select random first player
-    const randomIndex = Math.floor(Math.random() * this.players.length);
-    this.currentPlayerId = this.players[randomIndex].id;
-    
-    this.status = 'playing';
-    this.startedAt = Date.now();
-    this.winnerId = null;
-    this.isDraw = false;
-    this.finishedAt = null;
-    this.startTurn();
   }
 
   /**
@@ -82,8 +111,8 @@ export class Game {
    * Check if a move is valid
    */
   isValidMove(playerId: string, cellIndex: number, size: Size): boolean {
-    // Game must be in playing state
-    if (this.status !== 'playing') return false;
+    // Game must be in playing state, and not paused
+    if (this.status !== 'playing' || this.pause) return false;
 
     // Must be player's turn
     if (this.currentPlayerId !== playerId) return false;
@@ -96,7 +125,7 @@ export class Game {
     if (!player.hasPiece(size)) return false;
 
     // Move must be legal on the board
-    return isLegalMove(this.board, cellIndex, size);
+    return this.ruleSet.isLegalMove(this.board, cellIndex, size);
   }
 
   /**
@@ -110,25 +139,18 @@ export class Game {
     const player = this.players.find(p => p.id === playerId)!;
     
     // Apply the move
-    this.board[cellIndex][size] = player.color;
-    player.usePiece(size);
-    
-    // Reset skip counter for successful move
-    player.resetSkips();
+    this.record({ type: 'placement', playerId, cellIndex, size });
 
     // Check for victory
-    if (checkWinConditions(this.board, player.color)) {
-      this.status = 'finished';
-      this.winnerId = player.id;
-      this.finishedAt = Date.now();
+    const winningPattern = this.ruleSet.findWinningPattern(this.board, player.color);
+    if (winningPattern) {
+      this.record({ type: 'finished', winnerId: player.id, isDraw: false, winningPattern, reason: 'line' });
       return true;
     }
 
     // Check for draw
-    if (isDraw(this.board, this.players)) {
-      this.status = 'finished';
-      this.isDraw = true;
-      this.finishedAt = Date.now();
+    if (this.ruleSet.isDraw(this.board, this.players)) {
+      this.record({ type: 'finished', winnerId: null, isDraw: true, winningPattern: null, reason: 'draw' });
       return true;
     }
 
@@ -144,61 +166,210 @@ export class Game {
     const activePlayers = this.getActivePlayers();
     if (activePlayers.length === 0) {
       // No active players left
-      this.status = 'finished';
-      this.finishedAt = Date.now();
+      this.record({ type: 'finished', winnerId: null, isDraw: false, winningPattern: null });
       return;
     }
 
     // Check if any active player has legal moves
-    const playersWithMoves = activePlayers.filter(player => hasLegalMoves(this.board, player));
+    const playersWithMoves = activePlayers.filter(player => this.ruleSet.hasLegalMoves(this.board, player));
     if (playersWithMoves.length === 0) {
       // No player has legal moves - game is a draw
-      this.isDraw = true;
-      this.status = 'finished';
-      this.finishedAt = Date.now();
+      this.record({ type: 'finished', winnerId: null, isDraw: true, winningPattern: null, reason: 'draw' });
       return;
     }
 
     const nextPlayer = getNextPlayer(this.players, this.currentPlayerId!);
     if (!nextPlayer) {
       // Fallback - should not happen with active players check above
-      this.status = 'finished';
-      this.finishedAt = Date.now();
+      this.record({ type: 'finished', winnerId: null, isDraw: false, winningPattern: null });
       return;
     }
 
-    this.currentPlayerId = nextPlayer.id;
+    // Also starts the timer for the new current player
+    this.record({ type: 'turn', playerId: nextPlayer.id });
 
     // Check if current player has legal moves
-    if (!hasLegalMoves(this.board, nextPlayer)) {
-      nextPlayer.skipsInARow++;
+    if (!this.ruleSet.hasLegalMoves(this.board, nextPlayer)) {
+      this.record({ type: 'skip', playerId: nextPlayer.id, reason: 'no_moves' });
       
       // Auto-skip and move to next player (safe now with draw detection above)
       this.moveToNextPlayer();
-      return; // Important: return here to avoid starting timer for skipped player
     }
-    
-    // Start timer for the new current player
-    this.startTurn();
+  }
+
+  /**
+   * Record a skip, and the elimination it may cause: out of time with a bank time control,
+   * or out of strikes under the anti-abuse policy of the room
+   */
+  private recordSkip(player: Player, reason: SkipReason): void {
+    this.record({ type: 'skip', playerId: player.id, reason });
+
+    let eliminationReason: EliminationReason | null = null;
+    if (reason === 'timeout' && this.clocks.get(player.id) === 0) {
+      eliminationReason = 'out_of_time';
+    } else if (this.countsAsStrike(reason) && getStrikesLeft(this.antiAbuse, player) === 0) {
+      eliminationReason = player.skipsInARow >= this.antiAbuse.maxConsecutiveSkips ? 'consecutive_skips' : 'total_skips';
+    }
+    if (!eliminationReason) return;
+
+    this.record({ type: 'elimination', playerId: player.id, reason: eliminationReason });
+
+    const remainingPlayers = this.players.filter(p => !p.isEliminated);
+    if (remainingPlayers.length === 1) {
+      this.record({
+        type: 'finished',
+        winnerId: remainingPlayers[0].id,
+        isDraw: false,
+        winningPattern: null,
+        reason: eliminationReason === 'out_of_time' ? 'timeout' : 'last_player',
+      });
+    }
+  }
+
+  /**
+   * Check if a skip counts against the player under the anti-abuse policy (a player with
+   * no legal move left is not stalling, so those skips never do)
+   */
+  private countsAsStrike(reason: SkipReason): boolean {
+    if (reason === 'no_moves') return false;
+    return reason !== 'disconnection' || this.antiAbuse.countDisconnections;
+  }
+
+  /**
+   * Get why a player was eliminated, if they were
+   */
+  getEliminationReason(playerId: string): EliminationReason | null {
+    const elimination = this.events.find(event => event.type === 'elimination' && event.playerId === playerId);
+    return elimination?.type === 'elimination' ? elimination.reason ?? 'consecutive_skips' : null;
   }
 
   /**
    * Skip current player's turn (timeout or manual skip)
    */
-  skipCurrentPlayer(): void {
-    if (this.status !== 'playing' || !this.currentPlayerId) return;
+  skipCurrentPlayer(reason: SkipReason = 'timeout'): void {
+    if (this.status !== 'playing' || this.pause || !this.currentPlayerId) return;
 
     const currentPlayer = this.getCurrentPlayer();
     if (currentPlayer) {
-      currentPlayer.incrementSkips();
-      
-      // Check for elimination after consecutive skips (N=2 as per RULES.md)
-      if (currentPlayer.skipsInARow >= 2) {
-        currentPlayer.eliminate();
+      this.recordSkip(currentPlayer, reason);
+    }
+
+    if (this.status === 'playing') {
+      this.moveToNextPlayer();
+    }
+  }
+
+  /**
+   * A player leaves the game (RULES.md §8.4): with a single opponent left, the opponent
+   * wins by forfeit; otherwise the player is out and their pieces stay on the board
+   */
+  forfeit(playerId: string): boolean {
+    if (this.status !== 'playing') return false;
+
+    const player = this.players.find(p => p.id === playerId);
+    if (!player || player.isEliminated) return false;
+
+    this.record({ type: 'forfeit', playerId });
+
+    const remainingPlayers = this.players.filter(p => !p.isEliminated);
+    if (remainingPlayers.length === 1) {
+      this.record({
+        type: 'finished',
+        winnerId: remainingPlayers[0].id,
+        isDraw: false,
+        winningPattern: null,
+        reason: 'forfeit',
+      });
+    } else if (this.currentPlayerId === playerId) {
+      this.moveToNextPlayer();
+    }
+
+    return true;
+  }
+
+  /**
+   * Get the placement a takeback would undo: the last one not already taken back
+   */
+  getLastPlacement(): Extract<GameEvent, { type: 'placement' }> | null {
+    let takenBack = 0;
+    for (let i = this.events.length - 1; i >= 0; i--) {
+      const event = this.events[i];
+      if (event.type === 'started') break;
+      if (event.type === 'takeback') {
+        takenBack++;
+      } else if (event.type === 'placement') {
+        if (takenBack === 0) return event;
+        takenBack--;
       }
     }
+    return null;
+  }
 
-    this.moveToNextPlayer();
+  /**
+   * Check if a player may take back their last placement
+   */
+  canTakeBack(playerId: string): boolean {
+    if (this.status !== 'playing') return false;
+
+    const player = this.players.find(p => p.id === playerId);
+    if (!player || player.isEliminated) return false;
+
+    return this.getLastPlacement()?.playerId === playerId;
+  }
+
+  /**
+   * Undo the last placement once the other players agreed: the piece goes back to its
+   * owner's inventory, the cell, time banks and skip counters are restored and it is
+   * their turn again
+   */
+  takeBack(playerId: string): boolean {
+    if (!this.canTakeBack(playerId)) return false;
+
+    const placement = this.getLastPlacement()!;
+
+    // The game as it was before the placement (replace mode may have overwritten the cell)
+    const before = Game.fromEvents(this.events.slice(0, placement.seq), this.ruleSet.config, this.timeControl, this.antiAbuse);
+    this.record({
+      type: 'takeback',
+      playerId,
+      cellIndex: placement.cellIndex,
+      size: placement.size,
+      previousCell: { ...before.board[placement.cellIndex] },
+      clocks: Object.fromEntries(before.clocks),
+      skips: Object.fromEntries(before.players.map(p => [p.id, { inARow: p.skipsInARow, total: p.totalSkips }])),
+    });
+
+    return true;
+  }
+
+  /**
+   * End the game in a draw agreed by all players still in it
+   */
+  agreeDraw(): boolean {
+    if (this.status !== 'playing') return false;
+
+    this.record({ type: 'finished', winnerId: null, isDraw: true, winningPattern: null, reason: 'agreement' });
+    return true;
+  }
+
+  /**
+   * Pause the game: turn clocks stand still and no move can be played until it is resumed
+   */
+  pauseGame(reason: PauseReason, playerId: string): boolean {
+    if (this.status !== 'playing' || this.pause) return false;
+
+    this.record({ type: 'paused', reason, playerId });
+    return true;
+  }
+
+  /**
+   * Resume a paused game, the player to move getting back the time they had left
+   */
+  resumeGame(): boolean {
+    if (this.status !== 'playing' || !this.pause) return false;
+
+    this.record({ type: 'resumed' });
+    return true;
   }
 
   /**
@@ -212,19 +383,56 @@ export class Game {
    * Check if game should end due to insufficient players
    */
   checkGameEnd(): void {
+    if (this.status === 'finished') return;
+
     const activePlayers = this.getActivePlayers();
     
     if (activePlayers.length < 2) {
-      this.status = 'finished';
-      this.finishedAt = Date.now();
-      
       // If exactly one player left, they win
-      if (activePlayers.length === 1) {
-        this.winnerId = activePlayers[0].id;
-      }
+      this.record({
+        type: 'finished',
+        winnerId: activePlayers.length === 1 ? activePlayers[0].id : this.winnerId,
+        isDraw: this.isDraw,
+        winningPattern: this.winningPattern,
+        reason: 'last_player',
+      });
     }
   }
 
+  /**
+   * Log a player's connection change
+   * Seats stay reserved while disconnected (RULES.md §8.4), so turn order is not affected
+   */
+  recordConnection(playerId: string, connected: boolean): void {
+    if (this.status !== 'playing' || !this.players.some(p => p.id === playerId)) return;
+
+    this.record({ type: connected ? 'reconnect' : 'disconnect', playerId });
+  }
+
+  /**
+   * Hand a seat over to a bot, for the rest of the game
+   */
+  replaceWithBot(playerId: string, difficulty: BotDifficulty): boolean {
+    if (this.status !== 'playing' || !this.players.some(p => p.id === playerId)) return false;
+
+    this.record({ type: 'replaced', playerId, difficulty });
+    return true;
+  }
+
+  /**
+   * Get the full event log of the current game
+   */
+  getEvents(): GameEvent[] {
+    return [...this.events];
+  }
+
+  /**
+   * Get the events a client missed, from a sequence number on (reconnection catch-up)
+   */
+  getEventsSince(seq: number): GameEvent[] {
+    return this.events.slice(Math.max(0, seq));
+  }
+
   /**
    * Get game state for serialization
    */
@@ -235,10 +443,18 @@ export class Game {
       currentPlayerId: this.currentPlayerId,
       status: this.status,
       winnerId: this.winnerId,
+      winningPattern: this.winningPattern,
+      endReason: this.endReason,
       isDraw: this.isDraw,
       startedAt: this.startedAt,
       finishedAt: this.finishedAt,
       turnTimeLeft: this.getTurnTimeLeft(),
+      timeControl: this.timeControl,
+      clocks: Object.fromEntries([...this.clocks].map(([playerId, ms]) => [playerId, Math.floor(ms / 1000)])),
+      pause: this.pause ? { reason: this.pause.reason, playerId: this.pause.playerId } : null,
+      antiAbuse: this.antiAbuse,
+      rules: this.ruleSet.config,
+      takebackPlayerId: this.getLastPlacement()?.playerId ?? null,
     };
   }
 
@@ -257,15 +473,33 @@ export class Game {
     this.turnStartTime = Date.now();
   }
 
+  /**
+   * Get the time the current player had when their turn started (ms): the move limit,
+   * or what is left of their bank
+   */
+  getTurnTimeLimitMs(): number {
+    if (this.timeControl.type === 'per_move') {
+      return this.timeControl.moveSeconds * 1000;
+    }
+    return this.currentPlayerId ? this.clocks.get(this.currentPlayerId) ?? 0 : 0;
+  }
+
+  /**
+   * Get remaining time for current turn (in milliseconds)
+   */
+  getTurnTimeLeftMs(): number {
+    if (!this.turnStartTime || this.status !== 'playing') return 0;
+
+    // The clock stopped when the game was paused (or when the turn started, during the pause)
+    const now = this.pause ? Math.max(this.pause.since, this.turnStartTime) : Date.now();
+    return Math.max(0, this.getTurnTimeLimitMs() - (now - this.turnStartTime));
+  }
+
   /**
    * Get remaining time for current turn (in seconds)
    */
   getTurnTimeLeft(): number {
-    if (!this.turnStartTime || this.status !== 'playing') return 0;
-    
-    const elapsed = (Date.now() - this.turnStartTime) / 1000;
-    const remaining = Math.max(0, this.turnTimeLimit - elapsed);
-    return Math.floor(remaining);
+    return Math.floor(this.getTurnTimeLeftMs() / 1000);
   }
 
   /**
@@ -278,22 +512,19 @@ export class Game {
   /**
    * Skip current player's turn (due to timeout or manual skip)
    */
-  skipTurn(): boolean {
-    if (this.status !== 'playing' || !this.currentPlayerId) return false;
+  skipTurn(reason: SkipReason = 'timeout'): boolean {
+    if (this.status !== 'playing' || this.pause || !this.currentPlayerId) return false;
 
     const currentPlayer = this.getCurrentPlayer();
     if (!currentPlayer) return false;
 
-    // Increment skip counter
-    currentPlayer.incrementSkips();
-    
-    // Check for elimination after consecutive skips (N=2 as per RULES.md)
-    if (currentPlayer.skipsInARow >= 2) {
-      currentPlayer.eliminate();
-    }
+    // Increment skip counter, eliminating after consecutive skips
+    this.recordSkip(currentPlayer, reason);
 
     // Move to next player (this will handle starting the timer)
-    this.moveToNextPlayer();
+    if (this.status === 'playing') {
+      this.moveToNextPlayer();
+    }
 
     // Check if game should end
     this.checkGameEnd();
@@ -305,20 +536,157 @@ export class Game {
    * Reset game to initial state
    */
   reset(): void {
-    this.board = createEmptyBoard();
+    this.board = this.ruleSet.createBoard();
     this.currentPlayerId = null;
     this.status = 'waiting';
     this.winnerId = null;
+    this.winningPattern = null;
+    this.endReason = null;
     this.isDraw = false;
     this.startedAt = null;
     this.finishedAt = null;
     this.turnStartTime = null;
+    this.pause = null;
+    this.clocks = new Map();
+    this.events = [];
 
     // Reset all players
     this.players.forEach(player => {
-      player.inventory = { P: 3, M: 3, G: 3 };
+      player.inventory = this.ruleSet.createInventory();
       player.skipsInARow = 0;
+      player.totalSkips = 0;
       player.isEliminated = false;
+      player.hasForfeited = false;
     });
   }
+
+  /**
+   * Give every player their starting bank (bank time controls only)
+   */
+  private createClocks(): Map<string, number> {
+    const { timeControl } = this;
+    if (timeControl.type === 'per_move') return new Map();
+
+    return new Map(this.players.map(p => [p.id, timeControl.bankSeconds * 1000]));
+  }
+
+  /**
+   * Take the time of the turn off a player's bank, adding the increment after a move
+   */
+  private spendTime(player: Player, timestamp: number, moved: boolean): void {
+    const bank = this.clocks.get(player.id);
+    if (bank === undefined || this.currentPlayerId !== player.id || this.turnStartTime === null) return;
+
+    const increment = moved && this.timeControl.type === 'bank_increment' ? this.timeControl.incrementSeconds * 1000 : 0;
+    this.clocks.set(player.id, Math.max(0, bank - (timestamp - this.turnStartTime)) + increment);
+  }
+
+  /**
+   * Append an event to the log and apply it
+   */
+  private record(data: GameEventData): void {
+    const event = { ...data, seq: this.events.length, timestamp: Date.now() } as GameEvent;
+    this.events.push(event);
+    this.applyEvent(event);
+  }
+
+  /**
+   * Apply a logged event to the game state (the only place where play changes state)
+   */
+  private applyEvent(event: GameEvent): void {
+    const player = 'playerId' in event ? this.players.find(p => p.id === event.playerId) : undefined;
+
+    switch (event.type) {
+      case 'started':
+        this.players = event.players.map(seat => new Player({
+          id: seat.id,
+          nickname: seat.nickname,
+          color: seat.color,
+          connected: seat.connected,
+          isHost: seat.isHost,
+          isBot: seat.isBot,
+          botDifficulty: seat.botDifficulty ?? undefined,
+          inventory: this.ruleSet.createInventory(),
+        }));
+        this.board = this.ruleSet.createBoard();
+        this.currentPlayerId = event.firstPlayerId;
+        this.status = 'playing';
+        this.startedAt = event.timestamp;
+        this.winnerId = null;
+        this.winningPattern = null;
+        this.endReason = null;
+        this.isDraw = false;
+        this.finishedAt = null;
+        this.turnStartTime = event.timestamp;
+        this.pause = null;
+        this.clocks = this.createClocks();
+        break;
+      case 'placement':
+        if (!player) return;
+        this.spendTime(player, event.timestamp, true);
+        this.board = this.ruleSet.applyMove(this.board, event.cellIndex, event.size, player.color);
+        player.usePiece(event.size);
+        // Reset skip counter for successful move
+        player.resetSkips();
+        break;
+      case 'takeback':
+        if (!player) return;
+        this.board = [...this.board];
+        this.board[event.cellIndex] = { ...event.previousCell };
+        player.inventory[event.size]++;
+        if (event.clocks) this.clocks = new Map(Object.entries(event.clocks));
+        for (const p of this.players) {
+          const skips = event.skips?.[p.id];
+          if (skips) {
+            p.skipsInARow = skips.inARow;
+            p.totalSkips = skips.total;
+          }
+        }
+        this.currentPlayerId = event.playerId;
+        this.turnStartTime = event.timestamp;
+        break;
+      case 'turn':
+        this.currentPlayerId = event.playerId;
+        this.turnStartTime = event.timestamp;
+        break;
+      case 'skip':
+        if (player) this.spendTime(player, event.timestamp, false);
+        // A timeout empties the bank, whatever the timer's precision
+        if (player && event.reason === 'timeout' && this.clocks.has(player.id)) this.clocks.set(player.id, 0);
+        if (this.countsAsStrike(event.reason)) player?.incrementSkips();
+        break;
+      case 'elimination':
+        player?.eliminate();
+        break;
+      case 'forfeit':
+        player?.forfeit();
+        break;
+      case 'paused':
+        this.pause = { reason: event.reason, playerId: event.playerId, since: event.timestamp };
+        break;
+      case 'resumed':
+        // The time spent paused does not count against the player to move
+        if (this.pause && this.turnStartTime !== null) {
+          this.turnStartTime += event.timestamp - Math.max(this.pause.since, this.turnStartTime);
+        }
+        this.pause = null;
+        break;
+      case 'replaced':
+        player?.replaceByBot(event.difficulty);
+        break;
+      case 'disconnect':
+      case 'reconnect':
+        // Informational only, see recordConnection
+        break;
+      case 'finished':
+        this.status = 'finished';
+        this.winnerId = event.winnerId;
+        this.isDraw = event.isDraw;
+        this.winningPattern = event.winningPattern;
+        this.endReason = event.reason ?? null;
+        this.finishedAt = event.timestamp;
+        this.pause = null;
+        break;
+    }
+  }
 }
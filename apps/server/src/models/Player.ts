@@ -1,5 +1,5 @@
 import { v4 as uuidv4 } from 'uuid';
-import type { Color, Size } from '@mortpion/shared';
+import type { BotDifficulty, Color, Size } from '@mortpion/shared';
 
 export interface PlayerInventory {
   P: number;
@@ -13,6 +13,9 @@ export interface PlayerOptions {
   color: Color;
   connected?: boolean;
   isHost?: boolean;
+  inventory?: PlayerInventory;
+  isBot?: boolean;
+  botDifficulty?: BotDifficulty;
 }
 
 export class Player {
@@ -22,8 +25,12 @@ export class Player {
   public inventory: PlayerInventory;
   public connected: boolean;
   public skipsInARow: number;
+  public totalSkips: number; // Skips counted by the anti-abuse policy over the whole game
   public isEliminated: boolean;
+  public hasForfeited: boolean; // Left the game (RULES.md §8.4)
   public isHost: boolean;
+  public isBot: boolean;
+  public botDifficulty: BotDifficulty | null;
 
   constructor(options: PlayerOptions) {
     if (!options.nickname || options.nickname.trim().length === 0) {
@@ -36,11 +43,15 @@ export class Player {
     this.id = options.id || uuidv4();
     this.nickname = options.nickname.trim();
     this.color = options.color;
-    this.inventory = { P: 3, M: 3, G: 3 }; // Each player starts with 3 pieces of each size
+    this.inventory = options.inventory ? { ...options.inventory } : { P: 3, M: 3, G: 3 }; // 3 pieces of each size unless the rules say otherwise
     this.connected = options.connected ?? true;
     this.skipsInARow = 0;
+    this.totalSkips = 0;
     this.isEliminated = false;
+    this.hasForfeited = false;
     this.isHost = options.isHost ?? false;
+    this.isBot = options.isBot ?? false;
+    this.botDifficulty = this.isBot ? options.botDifficulty ?? 'medium' : null;
   }
 
   /**
@@ -82,10 +93,11 @@ export class Player {
   }
 
   /**
-   * Increment skip counter
+   * Increment skip counters
    */
   incrementSkips(): void {
     this.skipsInARow++;
+    this.totalSkips++;
   }
 
   /**
@@ -95,6 +107,15 @@ export class Player {
     this.isEliminated = true;
   }
 
+  /**
+   * Leave the game: out of the turn order, pieces not yet played are discarded
+   */
+  forfeit(): void {
+    this.isEliminated = true;
+    this.hasForfeited = true;
+    this.inventory = { P: 0, M: 0, G: 0 };
+  }
+
   /**
    * Set connection status
    */
@@ -102,6 +123,17 @@ export class Player {
     this.connected = connected;
   }
 
+  /**
+   * Hand the seat over to a computer opponent (keeps color and inventory)
+   */
+  replaceByBot(difficulty: BotDifficulty): void {
+    this.isBot = true;
+    this.botDifficulty = difficulty;
+    this.connected = true;
+    this.isHost = false;
+    this.resetSkips();
+  }
+
   /**
    * Set host status
    */
@@ -109,6 +141,27 @@ export class Player {
     this.isHost = isHost;
   }
 
+  /**
+   * Rebuild a player from its serialized state
+   */
+  static fromJSON(data: PlayerJSON): Player {
+    const player = new Player({
+      id: data.id,
+      nickname: data.nickname,
+      color: data.color,
+      inventory: data.inventory,
+      connected: data.connected,
+      isHost: data.isHost,
+      isBot: data.isBot,
+      botDifficulty: data.botDifficulty ?? undefined,
+    });
+    player.skipsInARow = data.skipsInARow;
+    player.totalSkips = data.totalSkips ?? 0; // Absent from players stored before anti-abuse policies
+    player.isEliminated = data.isEliminated;
+    player.hasForfeited = data.hasForfeited ?? false; // Absent from players stored before forfeits
+    return player;
+  }
+
   /**
    * Get player state for serialization
    */
@@ -120,8 +173,14 @@ export class Player {
       inventory: { ...this.inventory },
       connected: this.connected,
       skipsInARow: this.skipsInARow,
+      totalSkips: this.totalSkips,
       isEliminated: this.isEliminated,
+      hasForfeited: this.hasForfeited,
       isHost: this.isHost,
+      isBot: this.isBot,
+      botDifficulty: this.botDifficulty,
     };
   }
 }
+
+export type PlayerJSON = ReturnType<Player['toJSON']>;
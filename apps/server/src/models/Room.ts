@@ -1,7 +1,9 @@
 import { v4 as uuidv4 } from 'uuid';
 import { Player } from './Player.js';
+import type { PlayerJSON } from './Player.js';
 import { Game } from './Game.js';
-import type { Color } from '@mortpion/shared';
+import type { AntiAbusePolicy, BotDifficulty, ChatMessage, Color, RuleSetConfig, TimeControl } from '@mortpion/shared';
+import { DEFAULT_ANTI_ABUSE_POLICY, DEFAULT_TIME_CONTROL, getRuleSet } from '@mortpion/shared';
 
 export interface RoomOptions {
   id?: string;
@@ -10,21 +12,36 @@ export interface RoomOptions {
   isPrivate?: boolean;
   code?: string;
   hostId: string;
+  rules?: RuleSetConfig;
+  timeControl?: TimeControl;
+  autoPause?: boolean; // Pause instead of skipping when the player to move disconnects
+  antiAbuse?: AntiAbusePolicy; // When skipped players are eliminated
+  createdAt?: number; // Kept when a room is restored from storage
 }
 
 export type RoomStatus = 'waiting' | 'playing' | 'finished';
 
+// Chat messages kept with the room (older ones are dropped)
+export const CHAT_HISTORY_LIMIT = 100;
+
 export class Room {
   public readonly id: string;
   public readonly name: string;
   public readonly capacity: number;
   public readonly isPrivate: boolean;
   public readonly code?: string;
+  public readonly rules: RuleSetConfig;
+  public readonly timeControl: TimeControl;
+  public readonly autoPause: boolean;
+  public readonly antiAbuse: AntiAbusePolicy;
   public readonly createdAt: number;
   public expiresAt: number;
   public hostId: string;
   public players: Player[];
+  public spectators: Map<string, string>; // socketId -> playerId, watching without a seat
   public game: Game;
+  public chatMessages: ChatMessage[]; // Oldest first
+  public mutedPlayerIds: Set<string>;
   public replayVotes: Map<string, boolean>;
   public replayDeadline: number | null;
   public disconnectionTime: number | null;
@@ -48,11 +65,18 @@ export class Room {
     this.capacity = options.capacity;
     this.isPrivate = options.isPrivate ?? false;
     this.code = options.code;
-    this.createdAt = Date.now();
+    this.rules = getRuleSet(options.rules).config;
+    this.timeControl = options.timeControl ?? DEFAULT_TIME_CONTROL;
+    this.autoPause = options.autoPause ?? false;
+    this.antiAbuse = options.antiAbuse ?? DEFAULT_ANTI_ABUSE_POLICY;
+    this.createdAt = options.createdAt ?? Date.now();
     this.expiresAt = Date.now() + (60 * 60 * 1000); // 1 hour TTL
     this.hostId = options.hostId;
     this.players = [];
-    this.game = new Game();
+    this.spectators = new Map();
+    this.game = new Game(this.rules, this.timeControl, this.antiAbuse);
+    this.chatMessages = [];
+    this.mutedPlayerIds = new Set();
     this.replayVotes = new Map();
     this.replayDeadline = null;
     this.disconnectionTime = null;
@@ -86,6 +110,8 @@ export class Room {
       color: availableColor,
       connected: player.connected,
       isHost: player.id === this.hostId,
+      isBot: player.isBot,
+      botDifficulty: player.botDifficulty ?? undefined,
     });
 
     this.players.push(roomPlayer);
@@ -98,6 +124,121 @@ export class Room {
     return true;
   }
 
+  /**
+   * Fill an empty seat with a computer opponent
+   */
+  addBot(difficulty: BotDifficulty): Player | null {
+    if (this.game.status !== 'waiting' || this.isFull()) {
+      return null;
+    }
+
+    // Number bots after the seats already taken by bots
+    let botNumber = this.players.filter(p => p.isBot).length + 1;
+    while (this.players.some(p => p.nickname === `Bot ${botNumber}`)) {
+      botNumber++;
+    }
+
+    const bot = new Player({
+      id: `bot-${uuidv4()}`,
+      nickname: `Bot ${botNumber}`,
+      color: 'red', // Reassigned by addPlayer
+      isBot: true,
+      botDifficulty: difficulty,
+    });
+
+    return this.addPlayer(bot) ? this.getPlayer(bot.id) : null;
+  }
+
+  /**
+   * Hand a disconnected player's seat over to a computer opponent during a game
+   */
+  replaceWithBot(playerId: string, difficulty: BotDifficulty): boolean {
+    const player = this.getPlayer(playerId);
+    const gamePlayer = this.game.players.find(p => p.id === playerId);
+    if (!player || !gamePlayer || player.connected || player.isBot || this.game.status !== 'playing') {
+      return false;
+    }
+
+    player.replaceByBot(difficulty);
+    this.game.replaceWithBot(playerId, difficulty);
+
+    // A bot cannot host the room
+    if (this.hostId === playerId) {
+      const newHost = this.getHumanPlayers().find(p => p.connected);
+      if (newHost) {
+        this.transferHostTo(newHost.id);
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Let a connection watch the game in progress (spectators never take a seat or vote)
+   */
+  addSpectator(socketId: string, playerId: string): boolean {
+    if (this.getStatus() !== 'playing' || this.getPlayer(playerId)) {
+      return false;
+    }
+
+    this.spectators.set(socketId, playerId);
+    return true;
+  }
+
+  /**
+   * Stop a connection from watching the game
+   */
+  removeSpectator(socketId: string): boolean {
+    return this.spectators.delete(socketId);
+  }
+
+  /**
+   * Count the people watching (a spectator with several tabs counts once)
+   */
+  getSpectatorCount(): number {
+    return new Set(this.spectators.values()).size;
+  }
+
+  /**
+   * Keep a chat message in the room history
+   */
+  addChatMessage(message: ChatMessage): void {
+    this.chatMessages.push(message);
+    if (this.chatMessages.length > CHAT_HISTORY_LIMIT) {
+      this.chatMessages.splice(0, this.chatMessages.length - CHAT_HISTORY_LIMIT);
+    }
+  }
+
+  /**
+   * Silence a seated player in the chat, or give them their voice back (never the host)
+   */
+  setMuted(playerId: string, muted: boolean): boolean {
+    if (!this.getPlayer(playerId) || playerId === this.hostId) {
+      return false;
+    }
+
+    if (muted) {
+      this.mutedPlayerIds.add(playerId);
+    } else {
+      this.mutedPlayerIds.delete(playerId);
+    }
+    return true;
+  }
+
+  /**
+   * Check if a player is muted in the chat (a muted player who became host speaks again)
+   */
+  isMuted(playerId: string): boolean {
+    return this.mutedPlayerIds.has(playerId) && playerId !== this.hostId;
+  }
+
+  /**
+   * Get players that are not computer opponents
+   */
+  getHumanPlayers(): Player[] {
+    return this.players.filter(p => !p.isBot);
+  }
+
   /**
    * Remove a player from the room
    */
@@ -109,6 +250,7 @@ export class Room {
 
     const removedPlayer = this.players[playerIndex];
     this.players.splice(playerIndex, 1);
+    this.mutedPlayerIds.delete(playerId);
 
     // Handle host transfer if needed
     if (removedPlayer.isHost && this.players.length > 0) {
@@ -167,6 +309,13 @@ export class Room {
     this.resetTTL(); // Reset room expiration when game starts
   }
 
+  /**
+   * Check if the host may start the game before the room is full
+   */
+  canStartEarly(): boolean {
+    return this.game.status === 'waiting' && this.players.length >= 2 && !this.isFull();
+  }
+
   /**
    * Get room status based on game status
    */
@@ -223,6 +372,9 @@ export class Room {
   startReplayVoting(): void {
     this.replayVotes.clear();
     this.replayDeadline = Date.now() + (30 * 1000); // 30 seconds
+
+    // Bots always agree to play again
+    this.players.filter(p => p.isBot).forEach(bot => this.replayVotes.set(bot.id, true));
   }
 
   /**
@@ -278,6 +430,34 @@ export class Room {
     this.resetTTL();
   }
 
+  /**
+   * Rebuild a room from its serialized state (the game is replayed from its event log)
+   */
+  static fromJSON(data: RoomJSON, code?: string): Room {
+    const room = new Room({
+      id: data.id,
+      name: data.name,
+      capacity: data.capacity,
+      isPrivate: data.isPrivate,
+      code,
+      hostId: data.hostId,
+      rules: data.rules,
+      timeControl: data.timeControl ?? undefined, // Absent from rooms stored before time controls
+      autoPause: data.autoPause ?? false,
+      antiAbuse: data.antiAbuse ?? undefined, // Absent from rooms stored before anti-abuse policies
+      createdAt: data.createdAt,
+    });
+
+    room.expiresAt = data.expiresAt;
+    room.players = data.players.map((player: PlayerJSON) => Player.fromJSON(player));
+    room.game = Game.fromEvents(data.game.events, data.rules, room.timeControl, room.antiAbuse);
+    room.replayDeadline = data.replayDeadline;
+    room.replayVotes = new Map(Object.entries(data.replayVotes));
+    room.chatMessages = data.chatMessages ?? []; // Absent from rooms stored before the chat
+    room.mutedPlayerIds = new Set(data.mutedPlayerIds ?? []);
+    return room;
+  }
+
   /**
    * Get room state for serialization
    */
@@ -287,15 +467,24 @@ export class Room {
       name: this.name,
       capacity: this.capacity,
       isPrivate: this.isPrivate,
+      rules: this.rules,
+      timeControl: this.timeControl,
+      autoPause: this.autoPause,
+      antiAbuse: this.antiAbuse,
       createdAt: this.createdAt,
       expiresAt: this.expiresAt,
       hostId: this.hostId,
       players: this.players.map(p => p.toJSON()),
-      game: this.game.getGameState(),
+      game: { ...this.game.getGameState(), events: this.game.getEvents() }, // The log rebuilds the game on restore
       status: this.getStatus(),
       isFull: this.isFull(),
+      spectatorCount: this.getSpectatorCount(),
       replayDeadline: this.replayDeadline,
       replayVotes: Object.fromEntries(this.replayVotes),
+      chatMessages: this.chatMessages,
+      mutedPlayerIds: [...this.mutedPlayerIds],
     };
   }
 }
+
+export type RoomJSON = ReturnType<Room['toJSON']>;
@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { Game } from '../Game';
 import { Player } from '../Player';
+import { DEFAULT_ANTI_ABUSE_POLICY, DEFAULT_TIME_CONTROL } from '@mortpion/shared';
 
 describe('Game', () => {
   let game: Game;
@@ -158,12 +159,31 @@ describe('Game', () => {
         currentPlayerId: game.currentPlayerId,
         status: game.status,
         winnerId: game.winnerId,
+        winningPattern: null,
+        endReason: null,
         isDraw: game.isDraw,
         startedAt: game.startedAt,
         finishedAt: game.finishedAt,
+        turnTimeLeft: game.getTurnTimeLeft(),
+        timeControl: DEFAULT_TIME_CONTROL,
+        clocks: {},
+        pause: null,
+        antiAbuse: DEFAULT_ANTI_ABUSE_POLICY,
+        rules: game.ruleSet.config,
+        takebackPlayerId: null,
       });
     });
 
+    it('should name the takeback author without the event log', () => {
+      const playerId = game.currentPlayerId!;
+      game.applyMove(playerId, 0, 'P');
+
+      const gameState = game.getGameState();
+
+      expect(gameState).not.toHaveProperty('events');
+      expect(gameState.takebackPlayerId).toBe(playerId);
+    });
+
     it('should get winner correctly', () => {
       expect(game.getWinner()).toBeNull();
       
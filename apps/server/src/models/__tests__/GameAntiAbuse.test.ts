@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_ANTI_ABUSE_POLICY, getStrikesLeft } from '@mortpion/shared';
+import type { AntiAbusePolicy, SkipReason } from '@mortpion/shared';
+import { Game } from '../Game.js';
+import { Player } from '../Player.js';
+
+describe('Game Anti-Abuse Policy', () => {
+  const startGame = (policy?: Partial<AntiAbusePolicy>, playerCount = 3) => {
+    const game = new Game(undefined, undefined, { ...DEFAULT_ANTI_ABUSE_POLICY, ...policy });
+    const colors = ['red', 'blue', 'green', 'yellow'] as const;
+    game.initialize(Array.from({ length: playerCount }, (_, i) => new Player({ nickname: `Player${i + 1}`, color: colors[i] })));
+    return game;
+  };
+
+  // Skip a given player, whoever was to move
+  const skip = (game: Game, playerId: string, reason: SkipReason = 'timeout') => {
+    game.currentPlayerId = playerId;
+    game.skipTurn(reason);
+  };
+
+  it('should eliminate after N consecutive skips, a move starting the count again', () => {
+    const game = startGame({ maxConsecutiveSkips: 2 });
+    const player = game.players[0];
+
+    skip(game, player.id);
+    game.currentPlayerId = player.id;
+    game.applyMove(player.id, 4, 'G');
+    skip(game, player.id);
+    expect(player.isEliminated).toBe(false);
+
+    skip(game, player.id);
+    expect(player.isEliminated).toBe(true);
+    expect(game.getEliminationReason(player.id)).toBe('consecutive_skips');
+  });
+
+  it('should eliminate once the total skip cap is reached', () => {
+    const game = startGame({ maxConsecutiveSkips: 5, maxTotalSkips: 2 });
+    const player = game.players[0];
+
+    skip(game, player.id);
+    game.currentPlayerId = player.id;
+    game.applyMove(player.id, 4, 'G');
+    skip(game, player.id);
+
+    expect(player).toMatchObject({ skipsInARow: 1, totalSkips: 2, isEliminated: true });
+    expect(game.getEliminationReason(player.id)).toBe('total_skips');
+  });
+
+  it('should leave disconnection skips out when the room says so', () => {
+    const game = startGame({ countDisconnections: false });
+    const player = game.players[0];
+
+    skip(game, player.id, 'disconnection');
+    skip(game, player.id, 'disconnection');
+    skip(game, player.id);
+
+    expect(player).toMatchObject({ skipsInARow: 1, totalSkips: 1, isEliminated: false });
+  });
+
+  it('should never count skips for lack of a legal move', () => {
+    const game = startGame({ maxConsecutiveSkips: 1 });
+    const player = game.players[0];
+
+    skip(game, player.id, 'no_moves');
+    skip(game, player.id, 'no_moves');
+
+    expect(player).toMatchObject({ skipsInARow: 0, totalSkips: 0, isEliminated: false });
+    expect(getStrikesLeft(game.antiAbuse, player)).toBe(1);
+  });
+
+  it('should count skips without eliminating when disabled', () => {
+    const game = startGame({ enabled: false });
+    const player = game.players[0];
+
+    skip(game, player.id);
+    skip(game, player.id);
+    skip(game, player.id);
+
+    expect(player).toMatchObject({ skipsInARow: 3, isEliminated: false });
+    expect(game.getEvents().some(event => event.type === 'elimination')).toBe(false);
+  });
+
+  it('should let the last player in win', () => {
+    const game = startGame({ maxConsecutiveSkips: 1 }, 2);
+    const [skipped, opponent] = game.players;
+
+    skip(game, skipped.id);
+
+    expect(game.status).toBe('finished');
+    expect(game.winnerId).toBe(opponent.id);
+    expect(game.endReason).toBe('last_player');
+  });
+
+  it('should keep the policy of the game when rebuilt from the log', () => {
+    const game = startGame({ maxConsecutiveSkips: 3, maxTotalSkips: 4 });
+    skip(game, game.players[0].id);
+
+    const rebuilt = Game.fromEvents(game.getEvents());
+
+    expect(rebuilt.antiAbuse).toEqual(game.antiAbuse);
+    expect(rebuilt.players[0]).toMatchObject({ skipsInARow: 1, totalSkips: 1 });
+    expect(rebuilt.getGameState().antiAbuse).toEqual({ ...DEFAULT_ANTI_ABUSE_POLICY, maxConsecutiveSkips: 3, maxTotalSkips: 4 });
+  });
+
+  it('should give the strikes a player has left', () => {
+    const policy = { ...DEFAULT_ANTI_ABUSE_POLICY, maxConsecutiveSkips: 3, maxTotalSkips: 4 };
+
+    expect(getStrikesLeft(policy, { skipsInARow: 0, totalSkips: 0 })).toBe(3);
+    expect(getStrikesLeft(policy, { skipsInARow: 1, totalSkips: 3 })).toBe(1);
+    expect(getStrikesLeft({ ...policy, enabled: false }, { skipsInARow: 1, totalSkips: 3 })).toBeNull();
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { Game } from '../Game.js';
+import { Player } from '../Player.js';
+import { Room } from '../Room.js';
+import { RULE_SET_PRESETS, RuleSetConfigSchema, getWinningLines } from '@mortpion/shared';
+import type { RuleSetConfig } from '@mortpion/shared';
+
+describe('Game Board Sizes', () => {
+  const createRules = (boardSize: number, lineLength: number): RuleSetConfig => ({
+    ...RULE_SET_PRESETS['no-replacement'],
+    variant: 'custom',
+    boardSize,
+    lineLength,
+  });
+
+  const createGame = (rules: RuleSetConfig) => {
+    const game = new Game(rules);
+    game.initialize([
+      new Player({ nickname: 'Player1', color: 'red' }),
+      new Player({ nickname: 'Player2', color: 'blue' }),
+    ]);
+    game.currentPlayerId = game.players[0].id;
+    return game;
+  };
+
+  describe('board creation', () => {
+    it('should create a board matching the configured size', () => {
+      expect(createGame(createRules(4, 3)).board).toHaveLength(16);
+      expect(createGame(createRules(5, 4)).board).toHaveLength(25);
+    });
+
+    it('should recreate a board of the same size on reset', () => {
+      const game = createGame(createRules(5, 5));
+
+      game.reset();
+
+      expect(game.board).toHaveLength(25);
+    });
+  });
+
+  describe('move bounds', () => {
+    it('should accept cells beyond 8 on larger boards', () => {
+      const game = createGame(createRules(4, 4));
+
+      expect(game.isValidMove(game.players[0].id, 15, 'P')).toBe(true);
+      expect(game.isValidMove(game.players[0].id, 16, 'P')).toBe(false);
+    });
+  });
+
+  describe('K-in-a-row', () => {
+    it('should win with 3 in a row anywhere on a 4x4 board', () => {
+      const game = createGame(createRules(4, 3));
+      const red = game.players[0];
+      // Second row, columns 1 to 3
+      game.board[5].G = 'red';
+      game.board[6].G = 'red';
+
+      game.applyMove(red.id, 7, 'G');
+
+      expect(game.status).toBe('finished');
+      expect(game.winningPattern).toEqual({ condition: 'visible_line', cells: [5, 6, 7] });
+    });
+
+    it('should require the full line length on a 5x5 board', () => {
+      const game = createGame(createRules(5, 4));
+      const red = game.players[0];
+      // Anti-diagonal from the top-right corner
+      game.board[4].G = 'red';
+      game.board[8].G = 'red';
+
+      game.applyMove(red.id, 12, 'G');
+      expect(game.status).toBe('playing');
+
+      game.currentPlayerId = red.id;
+      game.applyMove(red.id, 16, 'G');
+      expect(game.status).toBe('finished');
+      expect(game.winningPattern?.cells).toEqual([4, 8, 12, 16]);
+    });
+
+    it('should generate every row, column and diagonal of the given length', () => {
+      expect(getWinningLines(3, 3)).toHaveLength(8);
+      expect(getWinningLines(4, 3)).toHaveLength(24);
+      expect(getWinningLines(5, 5)).toHaveLength(12);
+    });
+  });
+
+  describe('configuration', () => {
+    it('should reject a line longer than the board', () => {
+      expect(RuleSetConfigSchema.safeParse(createRules(3, 4)).success).toBe(false);
+      expect(RuleSetConfigSchema.safeParse(createRules(6, 3)).success).toBe(false);
+      expect(RuleSetConfigSchema.safeParse(createRules(4, 4)).success).toBe(true);
+    });
+
+    it('should be carried by the room into its game', () => {
+      const room = new Room({ name: 'Big', capacity: 2, hostId: 'host', rules: createRules(5, 4) });
+
+      expect(room.game.board).toHaveLength(25);
+      expect(room.toJSON().rules.boardSize).toBe(5);
+    });
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Game } from '../Game.js';
+import { Player } from '../Player.js';
+import { GameEventSchema, RULE_SET_PRESETS } from '@mortpion/shared';
+
+describe('Game Event Log', () => {
+  let game: Game;
+  let players: Player[];
+
+  // Current game state, without the parts that depend on the clock
+  const snapshot = (target: Game) => {
+    const { turnTimeLeft, ...state } = target.getGameState();
+    return { ...state, turnStartTime: target.turnStartTime };
+  };
+
+  beforeEach(() => {
+    players = [
+      new Player({ id: 'alice', nickname: 'Alice', color: 'red' }),
+      new Player({ id: 'bob', nickname: 'Bob', color: 'blue' }),
+      new Player({ id: 'carol', nickname: 'Carol', color: 'green' }),
+    ];
+    game = new Game();
+    game.initialize(players);
+  });
+
+  describe('recording', () => {
+    it('should start the log with the seats, first player and rules', () => {
+      const [started] = game.getEvents();
+
+      expect(started).toMatchObject({
+        seq: 0,
+        type: 'started',
+        firstPlayerId: game.currentPlayerId,
+        rules: game.ruleSet.config,
+      });
+      expect(started.type === 'started' && started.players.map(p => p.color)).toEqual(['red', 'blue', 'green']);
+    });
+
+    it('should record placements and turn changes in order', () => {
+      const firstPlayerId = game.currentPlayerId!;
+      game.applyMove(firstPlayerId, 4, 'G');
+
+      const events = game.getEvents();
+      expect(events.map(event => event.type)).toEqual(['started', 'placement', 'turn']);
+      expect(events[1]).toMatchObject({ playerId: firstPlayerId, cellIndex: 4, size: 'G' });
+      expect(events[2]).toMatchObject({ playerId: game.currentPlayerId });
+      expect(events.map(event => event.seq)).toEqual([0, 1, 2]);
+      expect(events.every((event, i) => i === 0 || event.timestamp >= events[i - 1].timestamp)).toBe(true);
+    });
+
+    it('should record skips with their reason, then the elimination', () => {
+      const skippedId = game.currentPlayerId!;
+
+      game.skipTurn('disconnection');
+      game.currentPlayerId = skippedId;
+      game.skipTurn();
+
+      const skips = game.getEvents().filter(event => event.type === 'skip');
+      expect(skips).toMatchObject([
+        { playerId: skippedId, reason: 'disconnection' },
+        { playerId: skippedId, reason: 'timeout' },
+      ]);
+      expect(game.getEvents()).toContainEqual(expect.objectContaining({ type: 'elimination', playerId: skippedId }));
+    });
+
+    it('should record disconnections without changing the turn order', () => {
+      const currentPlayerId = game.currentPlayerId;
+
+      game.recordConnection('bob', false);
+      game.recordConnection('bob', true);
+      game.recordConnection('unknown', false);
+
+      expect(game.getEvents().slice(1).map(event => event.type)).toEqual(['disconnect', 'reconnect']);
+      expect(game.currentPlayerId).toBe(currentPlayerId);
+      expect(game.getActivePlayers()).toHaveLength(3);
+    });
+
+    it('should record the end of the game', () => {
+      game.currentPlayerId = 'alice';
+      game.board[0].G = 'red';
+      game.board[1].G = 'red';
+      game.applyMove('alice', 2, 'G');
+
+      const finished = game.getEvents().at(-1);
+      expect(finished).toMatchObject({
+        type: 'finished',
+        winnerId: 'alice',
+        isDraw: false,
+        winningPattern: { condition: 'visible_line', cells: [0, 1, 2] },
+      });
+      expect(game.finishedAt).toBe(finished?.timestamp);
+    });
+
+    it('should only contain events matching the shared schema', () => {
+      game.applyMove(game.currentPlayerId!, 0, 'P');
+      game.skipTurn();
+      game.recordConnection('carol', false);
+
+      game.getEvents().forEach(event => {
+        expect(GameEventSchema.safeParse(event).success).toBe(true);
+      });
+    });
+
+    it('should start a new log on reset', () => {
+      game.applyMove(game.currentPlayerId!, 0, 'P');
+
+      game.reset();
+      expect(game.getEvents()).toEqual([]);
+
+      game.initialize(players);
+      expect(game.getEvents().map(event => event.type)).toEqual(['started']);
+    });
+  });
+
+  describe('rebuilding', () => {
+    it('should rebuild the exact same game from its log', () => {
+      // Play a whole game, skips included
+      let turns = 0;
+      while (game.status === 'playing' && turns < 100) {
+        const player = game.getCurrentPlayer()!;
+        const size = (['G', 'M', 'P'] as const).find(s => player.hasPiece(s));
+        const cellIndex = game.board.findIndex((_, i) => size && game.isValidMove(player.id, i, size));
+
+        if (turns % 7 === 3 || !size || cellIndex === -1) {
+          game.skipTurn();
+        } else {
+          game.applyMove(player.id, cellIndex, size);
+        }
+        turns++;
+      }
+
+      const rebuilt = Game.fromEvents(game.getEvents());
+
+      expect(game.status).toBe('finished');
+      expect(snapshot(rebuilt)).toEqual(snapshot(game));
+    });
+
+    it('should rebuild any intermediate position from a prefix of the log', () => {
+      game.applyMove(game.currentPlayerId!, 4, 'G');
+      const midGame = snapshot(game);
+      const seq = game.getEvents().length;
+
+      game.applyMove(game.currentPlayerId!, 0, 'M');
+
+      expect(snapshot(Game.fromEvents(game.getEvents().slice(0, seq)))).toEqual(midGame);
+    });
+
+    it('should keep the rule variant of the logged game', () => {
+      const classic = new Game(RULE_SET_PRESETS.classic);
+      classic.initialize(players);
+
+      expect(Game.fromEvents(classic.getEvents()).ruleSet.config).toEqual(RULE_SET_PRESETS.classic);
+    });
+
+    it('should rebuild a waiting game from an empty log', () => {
+      const rebuilt = Game.fromEvents([], RULE_SET_PRESETS['visible-only']);
+
+      expect(rebuilt.status).toBe('waiting');
+      expect(rebuilt.ruleSet.config.variant).toBe('visible-only');
+    });
+  });
+
+  describe('catch-up', () => {
+    it('should return only the events after a sequence number', () => {
+      const known = game.getEvents().length;
+      game.applyMove(game.currentPlayerId!, 4, 'G');
+
+      const missed = game.getEventsSince(known);
+
+      expect(missed.map(event => event.seq)).toEqual([1, 2]);
+      expect(game.getEventsSince(0)).toEqual(game.getEvents());
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Game } from '../Game.js';
+import { Player } from '../Player.js';
+
+describe('Game Forfeit', () => {
+  let game: Game;
+
+  const seat = (nickname: string) => new Player({ nickname, color: 'red' });
+
+  // Seat after the current player, in the order the game was started with
+  const nextSeatId = () => {
+    const index = game.players.findIndex(p => p.id === game.currentPlayerId);
+    return game.players[(index + 1) % game.players.length].id;
+  };
+
+  describe('two players', () => {
+    beforeEach(() => {
+      game = new Game();
+      game.initialize([seat('Player1'), seat('Player2')]);
+    });
+
+    it('should give the win to the opponent by forfeit', () => {
+      const leaver = game.players[0];
+      const opponent = game.players[1];
+
+      expect(game.forfeit(leaver.id)).toBe(true);
+
+      expect(game.status).toBe('finished');
+      expect(game.winnerId).toBe(opponent.id);
+      expect(game.endReason).toBe('forfeit');
+      expect(game.isDraw).toBe(false);
+    });
+
+    it('should mark the leaver as forfeited and discard their pieces', () => {
+      const leaver = game.players[0];
+
+      game.forfeit(leaver.id);
+
+      expect(leaver.hasForfeited).toBe(true);
+      expect(leaver.isEliminated).toBe(true);
+      expect(leaver.getTotalPieces()).toBe(0);
+      expect(game.getGameState().players[0]).toMatchObject({ hasForfeited: true, inventory: { P: 0, M: 0, G: 0 } });
+    });
+
+    it('should reject forfeits outside of a game in progress', () => {
+      const leaver = game.players[0];
+      game.forfeit(leaver.id);
+
+      expect(game.forfeit(game.players[1].id)).toBe(false);
+      expect(new Game().forfeit(leaver.id)).toBe(false);
+      expect(game.forfeit('unknown')).toBe(false);
+    });
+  });
+
+  describe('three players and more', () => {
+    beforeEach(() => {
+      game = new Game();
+      game.initialize([seat('Player1'), seat('Player2'), seat('Player3')]);
+    });
+
+    it('should keep playing without the leaver, their pieces staying on the board', () => {
+      const leaverId = game.currentPlayerId!;
+      game.applyMove(leaverId, 4, 'G');
+      const nextId = game.currentPlayerId!;
+
+      game.forfeit(leaverId);
+
+      expect(game.status).toBe('playing');
+      expect(game.currentPlayerId).toBe(nextId);
+      expect(game.board[4].G).not.toBeNull();
+      expect(game.getActivePlayers().map(p => p.id)).not.toContain(leaverId);
+    });
+
+    it('should pass the turn to the next seat when the current player leaves', () => {
+      const leaverId = game.currentPlayerId!;
+      const expectedNextId = nextSeatId();
+
+      game.forfeit(leaverId);
+
+      expect(game.currentPlayerId).toBe(expectedNextId);
+    });
+
+    it('should end the game once a single player is left', () => {
+      const [first, second, third] = game.players;
+
+      game.forfeit(first.id);
+      game.forfeit(second.id);
+
+      expect(game.status).toBe('finished');
+      expect(game.winnerId).toBe(third.id);
+      expect(game.endReason).toBe('forfeit');
+    });
+  });
+
+  describe('event log', () => {
+    it('should rebuild forfeits from the log', () => {
+      game = new Game();
+      game.initialize([seat('Player1'), seat('Player2'), seat('Player3')]);
+      const leaverId = game.currentPlayerId!;
+      game.forfeit(leaverId);
+
+      const rebuilt = Game.fromEvents(game.getEvents());
+
+      expect(rebuilt.players.find(p => p.id === leaverId)?.hasForfeited).toBe(true);
+      expect(rebuilt.currentPlayerId).toBe(game.currentPlayerId);
+    });
+  });
+
+  describe('end reasons', () => {
+    beforeEach(() => {
+      game = new Game();
+      game.initialize([seat('Player1'), seat('Player2')]);
+    });
+
+    it('should record a win by line', () => {
+      const first = game.currentPlayerId!;
+      const second = game.players.find(p => p.id !== first)!.id;
+
+      game.applyMove(first, 0, 'G');
+      game.applyMove(second, 3, 'G');
+      game.applyMove(first, 1, 'G');
+      game.applyMove(second, 4, 'G');
+      game.applyMove(first, 2, 'G');
+
+      expect(game.status).toBe('finished');
+      expect(game.endReason).toBe('line');
+    });
+
+    it('should be reset by a new game', () => {
+      game.forfeit(game.players[0].id);
+      game.reset();
+
+      expect(game.endReason).toBeNull();
+      expect(game.players.every(p => !p.hasForfeited)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Game } from '../Game.js';
+import { Player } from '../Player.js';
+import { RULE_SET_PRESETS, notationFromEvents, parseNotation, replayNotation, serializeNotation } from '@mortpion/shared';
+import type { NotationGame, RuleSetConfig } from '@mortpion/shared';
+
+describe('Game Notation', () => {
+  let players: Player[];
+
+  // Play a whole game through Game.applyMove, with a few timeouts
+  const playGame = (rules?: RuleSetConfig) => {
+    const game = new Game(rules);
+    game.initialize(players);
+
+    let turns = 0;
+    while (game.status === 'playing' && turns < 100) {
+      const player = game.getCurrentPlayer()!;
+      const size = (['M', 'G', 'P'] as const).find(s => player.hasPiece(s));
+      const cellIndex = game.board.findIndex((_, i) => size && game.isValidMove(player.id, i, size));
+
+      if (turns % 5 === 2 || !size || cellIndex === -1) {
+        game.skipTurn();
+      } else {
+        game.applyMove(player.id, cellIndex, size);
+      }
+      turns++;
+    }
+    return game;
+  };
+
+  beforeEach(() => {
+    players = [
+      new Player({ id: 'alice', nickname: 'Alice', color: 'red' }),
+      new Player({ id: 'bob', nickname: 'Bob "B"', color: 'blue' }),
+    ];
+  });
+
+  describe('serializing', () => {
+    it('should write the header and the moves', () => {
+      const game: NotationGame = {
+        players: [{ color: 'red', name: 'Alice' }, { color: 'blue', name: 'Bob' }],
+        rules: RULE_SET_PRESETS['no-replacement'],
+        result: 'red',
+        moves: [
+          { type: 'placement', color: 'red', size: 'G', cellIndex: 4 },
+          { type: 'placement', color: 'blue', size: 'M', cellIndex: 0 },
+          { type: 'skip', color: 'red' },
+        ],
+      };
+
+      expect(serializeNotation(game)).toBe(
+        '[Variant "no-replacement"]\n[Board "3"]\n[Line "3"]\n[Red "Alice"]\n[Blue "Bob"]\n[Result "red"]\n\nR:G4 B:M0 R:-\n'
+      );
+    });
+
+    it('should only write the rules that differ from the variant preset', () => {
+      const text = serializeNotation({
+        players: [{ color: 'red', name: 'Alice' }, { color: 'blue', name: 'Bob' }],
+        rules: { ...RULE_SET_PRESETS.classic, variant: 'custom', boardSize: 4, inventory: { P: 4, M: 4, G: 4 } },
+        result: null,
+        moves: [],
+      });
+
+      expect(text).toContain('[Placement "nest"]');
+      expect(text).toContain('[Inventory "P4 M4 G4"]');
+      expect(text).toContain('[Result "*"]');
+    });
+  });
+
+  describe('parsing', () => {
+    it('should read the format written by hand', () => {
+      const game = parseNotation(`
+        [Variant "visible-only"]
+        [Blue "Bob"]
+        [Green "Carol"]
+        [Result "draw"]
+
+        B:G4 G:P0
+        B:-
+      `);
+
+      expect(game.players.map(player => player.color)).toEqual(['blue', 'green']);
+      expect(game.rules).toEqual(RULE_SET_PRESETS['visible-only']);
+      expect(game.result).toBe('draw');
+      expect(game.moves).toEqual([
+        { type: 'placement', color: 'blue', size: 'G', cellIndex: 4 },
+        { type: 'placement', color: 'green', size: 'P', cellIndex: 0 },
+        { type: 'skip', color: 'blue' },
+      ]);
+    });
+
+    it('should reject malformed moves', () => {
+      expect(() => parseNotation('[Red "A"]\n[Blue "B"]\n\nR:X4')).toThrow('Invalid move "R:X4"');
+    });
+
+    it('should reject moves of a color nobody plays', () => {
+      expect(() => parseNotation('[Red "A"]\n[Blue "B"]\n\nY:G4')).toThrow('No player plays yellow');
+    });
+
+    it('should reject cells outside the board', () => {
+      expect(() => parseNotation('[Board "3"]\n[Red "A"]\n[Blue "B"]\n\nR:G9')).toThrow('Cell outside the board');
+    });
+
+    it('should reject invalid rules and missing players', () => {
+      expect(() => parseNotation('[Variant "chess"]\n[Red "A"]\n[Blue "B"]')).toThrow('Unknown variant "chess"');
+      expect(() => parseNotation('[Board "3"]\n[Line "4"]\n[Red "A"]\n[Blue "B"]')).toThrow('Line length cannot exceed board size');
+      expect(() => parseNotation('[Red "A"]\n\nR:G4')).toThrow('players');
+    });
+  });
+
+  describe('round trip', () => {
+    it('should rebuild a server game from its notation', () => {
+      const game = playGame();
+
+      const notation = notationFromEvents(game.getEvents())!;
+      const parsed = parseNotation(serializeNotation(notation));
+      const positions = replayNotation(parsed);
+
+      expect(parsed).toEqual(notation);
+      expect(parsed.players).toEqual([{ color: 'red', name: 'Alice' }, { color: 'blue', name: 'Bob "B"' }]);
+      expect(parsed.moves.some(move => move.type === 'skip')).toBe(true);
+      expect(positions).toHaveLength(parsed.moves.length + 1);
+      expect(positions.at(-1)!.board).toEqual(game.board);
+      expect(positions.at(-1)!.inventories.red).toEqual(game.players[0].inventory);
+    });
+
+    it('should keep the result and custom rules of the game', () => {
+      const rules: RuleSetConfig = { ...RULE_SET_PRESETS['visible-only'], variant: 'custom', boardSize: 4, lineLength: 3 };
+      const game = playGame(rules);
+
+      const parsed = parseNotation(serializeNotation(notationFromEvents(game.getEvents())!));
+
+      expect(parsed.rules).toEqual(rules);
+      expect(parsed.result).toBe(game.isDraw ? 'draw' : game.getWinner()?.color ?? null);
+      expect(replayNotation(parsed).at(-1)!.board).toEqual(game.board);
+    });
+
+    it('should drop the skips after a taken back placement', () => {
+      const game = new Game();
+      game.initialize(players);
+      const first = game.getCurrentPlayer()!;
+      game.applyMove(first.id, 0, 'G');
+      game.skipTurn();
+      game.takeBack(first.id);
+      game.applyMove(first.id, 4, 'M');
+
+      const notation = notationFromEvents(game.getEvents())!;
+
+      expect(notation.moves).toEqual([{ type: 'placement', color: first.color, cellIndex: 4, size: 'M' }]);
+      expect(replayNotation(notation).at(-1)!.board).toEqual(game.board);
+    });
+
+    it('should have no notation before the game starts', () => {
+      expect(notationFromEvents(new Game().getEvents())).toBeNull();
+    });
+  });
+
+  describe('replaying', () => {
+    it('should reject an illegal move', () => {
+      const game = parseNotation('[Variant "visible-only"]\n[Red "A"]\n[Blue "B"]\n\nR:G4 B:P4');
+
+      expect(() => replayNotation(game)).toThrow('Illegal move 2: B:P4');
+    });
+
+    it('should reject a piece the player has run out of', () => {
+      const game = parseNotation('[Variant "visible-only"]\n[Inventory "P3 M3 G1"]\n[Red "A"]\n[Blue "B"]\n\nR:G0 B:P4 R:G8');
+
+      expect(() => replayNotation(game)).toThrow('Illegal move 3: R:G8');
+    });
+  });
+});
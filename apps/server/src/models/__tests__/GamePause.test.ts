@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Game } from '../Game.js';
+import { Player } from '../Player.js';
+
+describe('Game Pause', () => {
+  let game: Game;
+  let first: string;
+  let second: string;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T12:00:00Z'));
+
+    game = new Game(undefined, { type: 'bank', bankSeconds: 120 });
+    game.initialize([
+      new Player({ nickname: 'Player1', color: 'red' }),
+      new Player({ nickname: 'Player2', color: 'blue' }),
+    ]);
+    first = game.currentPlayerId!;
+    second = game.players.find(p => p.id !== first)!.id;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should stop the clock of the player to move while paused', () => {
+    vi.advanceTimersByTime(20000);
+    game.pauseGame('request', second);
+
+    vi.advanceTimersByTime(60000);
+    expect(game.getTurnTimeLeft()).toBe(100);
+
+    game.resumeGame();
+    vi.advanceTimersByTime(10000);
+    game.applyMove(first, 4, 'G');
+
+    expect(game.getGameState().clocks[first]).toBe(90);
+  });
+
+  it('should refuse moves and skips while paused', () => {
+    game.pauseGame('disconnection', first);
+
+    expect(game.applyMove(first, 4, 'G')).toBe(false);
+    expect(game.skipTurn('disconnection')).toBe(false);
+    expect(game.currentPlayerId).toBe(first);
+  });
+
+  it('should only pause a game in progress, once', () => {
+    expect(new Game().pauseGame('request', first)).toBe(false);
+    expect(game.resumeGame()).toBe(false);
+
+    expect(game.pauseGame('request', first)).toBe(true);
+    expect(game.pauseGame('request', second)).toBe(false);
+    expect(game.getGameState().pause).toEqual({ reason: 'request', playerId: first });
+  });
+
+  it('should no longer be paused once the game ends', () => {
+    game.pauseGame('request', first);
+
+    game.forfeit(second);
+
+    expect(game.status).toBe('finished');
+    expect(game.pause).toBeNull();
+  });
+
+  it('should be rebuilt from the log', () => {
+    vi.advanceTimersByTime(20000);
+    game.pauseGame('disconnection', first);
+    vi.advanceTimersByTime(60000);
+
+    const paused = Game.fromEvents(game.getEvents());
+    expect(paused.pause).toMatchObject({ reason: 'disconnection', playerId: first });
+    expect(paused.getTurnTimeLeft()).toBe(100);
+
+    game.resumeGame();
+    expect(Game.fromEvents(game.getEvents()).getTurnTimeLeft()).toBe(100);
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { Game } from '../Game.js';
+import { Player } from '../Player.js';
+import { Room } from '../Room.js';
+import { RULE_SET_PRESETS, DEFAULT_RULE_VARIANT } from '@mortpion/shared';
+import type { RuleSetConfig } from '@mortpion/shared';
+
+describe('Game Rule Variants', () => {
+  const createGame = (rules?: RuleSetConfig) => {
+    const game = new Game(rules);
+    game.initialize([
+      new Player({ nickname: 'Player1', color: 'red' }),
+      new Player({ nickname: 'Player2', color: 'blue' }),
+    ]);
+    game.currentPlayerId = game.players[0].id;
+    return game;
+  };
+
+  describe('default rules', () => {
+    it('should use the default variant when none is given', () => {
+      const game = createGame();
+
+      expect(game.ruleSet.config).toEqual(RULE_SET_PRESETS[DEFAULT_RULE_VARIANT]);
+      expect(game.getGameState().rules.variant).toBe(DEFAULT_RULE_VARIANT);
+    });
+  });
+
+  describe('visible-only', () => {
+    it('should replace smaller pieces when a larger one is placed', () => {
+      const game = createGame(RULE_SET_PRESETS['visible-only']);
+      const [red, blue] = game.players;
+
+      game.applyMove(red.id, 0, 'P');
+      game.currentPlayerId = blue.id;
+      game.applyMove(blue.id, 0, 'G');
+
+      expect(game.board[0]).toEqual({ P: null, M: null, G: 'blue' });
+    });
+  });
+
+  describe('no-replacement', () => {
+    it('should keep smaller pieces under a larger one', () => {
+      const game = createGame(RULE_SET_PRESETS['no-replacement']);
+      const [red, blue] = game.players;
+
+      game.applyMove(red.id, 0, 'P');
+      game.currentPlayerId = blue.id;
+      game.applyMove(blue.id, 0, 'G');
+
+      expect(game.board[0]).toEqual({ P: 'red', M: null, G: 'blue' });
+    });
+
+    it('should not allow a smaller piece inside a larger one', () => {
+      const game = createGame(RULE_SET_PRESETS['no-replacement']);
+      game.board[0].G = 'blue';
+
+      expect(game.isValidMove(game.players[0].id, 0, 'P')).toBe(false);
+    });
+  });
+
+  describe('classic', () => {
+    it('should allow a smaller piece inside a larger one', () => {
+      const game = createGame(RULE_SET_PRESETS.classic);
+      game.board[0].G = 'blue';
+
+      expect(game.isValidMove(game.players[0].id, 0, 'P')).toBe(true);
+      expect(game.applyMove(game.players[0].id, 0, 'P')).toBe(true);
+      expect(game.board[0]).toEqual({ P: 'red', M: null, G: 'blue' });
+    });
+
+    it('should not count a visible-only alignment as a win', () => {
+      const game = createGame(RULE_SET_PRESETS.classic);
+      const red = game.players[0];
+      game.board[0].G = 'red';
+      game.board[1].M = 'red';
+
+      game.applyMove(red.id, 2, 'M');
+
+      expect(game.status).toBe('playing');
+    });
+  });
+
+  describe('custom', () => {
+    const customRules: RuleSetConfig = {
+      variant: 'custom',
+      placement: 'nest',
+      winConditions: ['stack_complete'],
+      inventory: { P: 2, M: 1, G: 4 },
+      boardSize: 3,
+      lineLength: 3,
+    };
+
+    it('should give players the custom inventory', () => {
+      const game = createGame(customRules);
+
+      expect(game.players.every(p => p.inventory.P === 2 && p.inventory.M === 1 && p.inventory.G === 4)).toBe(true);
+    });
+
+    it('should restore the custom inventory on reset', () => {
+      const game = createGame(customRules);
+      game.applyMove(game.players[0].id, 0, 'G');
+
+      game.reset();
+
+      expect(game.players[0].inventory).toEqual({ P: 2, M: 1, G: 4 });
+    });
+
+    it('should be carried by the room into its game', () => {
+      const room = new Room({ name: 'Custom', capacity: 2, hostId: 'host', rules: customRules });
+
+      expect(room.rules).toEqual(customRules);
+      expect(room.game.ruleSet.config).toEqual(customRules);
+      expect(room.toJSON().rules).toEqual(customRules);
+    });
+  });
+});
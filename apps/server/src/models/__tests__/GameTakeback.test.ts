@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Game } from '../Game.js';
+import { Player } from '../Player.js';
+import { RULE_SET_PRESETS, notationFromEvents } from '@mortpion/shared';
+
+describe('Game Takeback and Agreed Draw', () => {
+  let game: Game;
+  let first: string;
+  let second: string;
+
+  beforeEach(() => {
+    game = new Game();
+    game.initialize([
+      new Player({ nickname: 'Player1', color: 'red' }),
+      new Player({ nickname: 'Player2', color: 'blue' }),
+    ]);
+    first = game.currentPlayerId!;
+    second = game.players.find(p => p.id !== first)!.id;
+  });
+
+  describe('takeback', () => {
+    it('should revert the board slot, the inventory and the current player', () => {
+      game.applyMove(first, 4, 'G');
+
+      expect(game.takeBack(first)).toBe(true);
+
+      const player = game.players.find(p => p.id === first)!;
+      expect(game.board[4]).toEqual({ P: null, M: null, G: null });
+      expect(player.inventory.G).toBe(3);
+      expect(game.currentPlayerId).toBe(first);
+    });
+
+    it('should restore the pieces a replacing placement removed', () => {
+      game = new Game(RULE_SET_PRESETS['visible-only']);
+      game.initialize([
+        new Player({ nickname: 'Player1', color: 'red' }),
+        new Player({ nickname: 'Player2', color: 'blue' }),
+      ]);
+      const [author, replacer] = [game.getCurrentPlayer()!, game.players.find(p => p.id !== game.currentPlayerId)!];
+      game.applyMove(author.id, 4, 'P');
+      game.applyMove(replacer.id, 4, 'G');
+      expect(game.board[4].P).toBeNull();
+
+      game.takeBack(replacer.id);
+
+      expect(game.board[4]).toEqual({ P: author.color, M: null, G: null });
+      expect(game.currentPlayerId).toBe(replacer.id);
+    });
+
+    it('should only take back the last placement, by the player who made it', () => {
+      game.applyMove(first, 4, 'G');
+
+      expect(game.canTakeBack(second)).toBe(false);
+      expect(game.takeBack(second)).toBe(false);
+      expect(new Game().takeBack(first)).toBe(false);
+    });
+
+    it('should take back earlier placements one at a time', () => {
+      game.applyMove(first, 0, 'G');
+      game.applyMove(second, 1, 'G');
+
+      game.takeBack(second);
+
+      expect(game.getLastPlacement()).toMatchObject({ playerId: first, cellIndex: 0 });
+      expect(game.canTakeBack(first)).toBe(true);
+    });
+
+    it('should give the player back their skip counters', () => {
+      game.skipCurrentPlayer('timeout');
+      game.applyMove(second, 0, 'G');
+      game.applyMove(first, 1, 'G');
+      expect(game.players.find(p => p.id === first)!.skipsInARow).toBe(0);
+
+      game.takeBack(first);
+
+      const player = game.players.find(p => p.id === first)!;
+      expect(player.skipsInARow).toBe(1);
+      expect(player.totalSkips).toBe(1);
+      expect(Game.fromEvents(game.getEvents()).players.find(p => p.id === first)!.skipsInARow).toBe(1);
+    });
+
+    it('should be rebuilt from the log and left out of the notation', () => {
+      game.applyMove(first, 0, 'G');
+      game.applyMove(second, 1, 'G');
+      game.takeBack(second);
+
+      const rebuilt = Game.fromEvents(game.getEvents());
+
+      expect(rebuilt.board).toEqual(game.board);
+      expect(rebuilt.currentPlayerId).toBe(second);
+      expect(notationFromEvents(game.getEvents())?.moves).toHaveLength(1);
+    });
+  });
+
+  describe('takeback with a time bank', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2026-01-01T12:00:00Z'));
+      game = new Game(undefined, { type: 'bank_increment', bankSeconds: 120, incrementSeconds: 5 });
+      game.initialize([
+        new Player({ nickname: 'Player1', color: 'red' }),
+        new Player({ nickname: 'Player2', color: 'blue' }),
+      ]);
+      first = game.currentPlayerId!;
+      second = game.players.find(p => p.id !== first)!.id;
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should give the player back the time spent on the move and its increment', () => {
+      vi.advanceTimersByTime(30000);
+      game.applyMove(first, 4, 'G');
+      expect(game.clocks.get(first)).toBe(95000);
+
+      vi.advanceTimersByTime(10000);
+      game.takeBack(first);
+
+      expect(game.clocks.get(first)).toBe(120000);
+      expect(game.getTurnTimeLeft()).toBe(120);
+      expect(Game.fromEvents(game.getEvents()).clocks.get(first)).toBe(120000);
+    });
+  });
+
+  describe('agreed draw', () => {
+    it('should end the game in a draw by agreement', () => {
+      game.applyMove(first, 0, 'G');
+
+      expect(game.agreeDraw()).toBe(true);
+
+      expect(game.status).toBe('finished');
+      expect(game.isDraw).toBe(true);
+      expect(game.winnerId).toBeNull();
+      expect(game.endReason).toBe('agreement');
+    });
+
+    it('should only be agreed during a game', () => {
+      game.agreeDraw();
+
+      expect(game.agreeDraw()).toBe(false);
+      expect(new Game().agreeDraw()).toBe(false);
+    });
+  });
+});
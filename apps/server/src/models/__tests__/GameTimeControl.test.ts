@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Game } from '../Game.js';
+import { Player } from '../Player.js';
+import type { TimeControl } from '@mortpion/shared';
+
+describe('Game Time Control', () => {
+  let game: Game;
+
+  const start = (timeControl?: TimeControl) => {
+    game = new Game(undefined, timeControl);
+    game.initialize([
+      new Player({ nickname: 'Player1', color: 'red' }),
+      new Player({ nickname: 'Player2', color: 'blue' }),
+    ]);
+    return game.currentPlayerId!;
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T12:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('per move', () => {
+    it('should give every turn the same limit', () => {
+      const first = start({ type: 'per_move', moveSeconds: 20 });
+
+      vi.advanceTimersByTime(15000);
+      expect(game.getTurnTimeLeft()).toBe(5);
+
+      game.applyMove(first, 4, 'G');
+      expect(game.getTurnTimeLeft()).toBe(20);
+      expect(game.getGameState().clocks).toEqual({});
+    });
+
+    it('should default to 60 seconds per move', () => {
+      start();
+
+      expect(game.timeControl).toEqual({ type: 'per_move', moveSeconds: 60 });
+      expect(game.getTurnTimeLeft()).toBe(60);
+    });
+  });
+
+  describe('bank', () => {
+    it('should take the time of each move off the bank', () => {
+      const first = start({ type: 'bank', bankSeconds: 120 });
+
+      vi.advanceTimersByTime(30000);
+      game.applyMove(first, 4, 'G');
+
+      expect(game.getGameState().clocks[first]).toBe(90);
+      expect(game.getTurnTimeLeft()).toBe(120); // The opponent's bank is untouched
+    });
+
+    it('should add the increment after each move', () => {
+      const first = start({ type: 'bank_increment', bankSeconds: 60, incrementSeconds: 5 });
+
+      vi.advanceTimersByTime(10000);
+      game.applyMove(first, 4, 'G');
+
+      expect(game.getGameState().clocks[first]).toBe(55);
+    });
+
+    it('should put a player out of time out of the game', () => {
+      const first = start({ type: 'bank', bankSeconds: 30 });
+      const second = game.players.find(p => p.id !== first)!.id;
+
+      vi.advanceTimersByTime(30000);
+      game.skipCurrentPlayer('timeout');
+
+      expect(game.players.find(p => p.id === first)?.isEliminated).toBe(true);
+      expect(game.status).toBe('finished');
+      expect(game.winnerId).toBe(second);
+      expect(game.endReason).toBe('timeout');
+    });
+
+    it('should rebuild the banks from the log', () => {
+      const first = start({ type: 'bank_increment', bankSeconds: 60, incrementSeconds: 2 });
+      vi.advanceTimersByTime(12000);
+      game.applyMove(first, 4, 'G');
+
+      const rebuilt = Game.fromEvents(game.getEvents());
+
+      expect(rebuilt.timeControl).toEqual(game.timeControl);
+      expect(rebuilt.getGameState().clocks).toEqual(game.getGameState().clocks);
+    });
+  });
+});
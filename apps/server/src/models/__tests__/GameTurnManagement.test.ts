@@ -155,7 +155,7 @@ describe('Game Turn Management', () => {
       
       expect(game.currentPlayerId).toBe(player3.id);
       expect(player1.skipsInARow).toBeGreaterThan(0);
-      expect(player2.skipsInARow).toBeGreaterThan(0);
+      expect(player2.skipsInARow).toBe(0); // Skipped for lack of a legal move, not a strike
     });
   });
 
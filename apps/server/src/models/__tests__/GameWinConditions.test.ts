@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { Game } from '../Game.js';
 import { Player } from '../Player.js';
+import { ALL_WIN_CONDITIONS, RULE_SET_PRESETS } from '@mortpion/shared';
 import type { Color } from '@mortpion/shared';
 
 describe('Game Win Conditions', () => {
@@ -375,31 +376,6 @@ describe('Game Win Conditions', () => {
       expect(game.status).toBe('finished');
       expect(game.winnerId).toBe(player1Id);
     });
-
-    it('should detect win during actual gameplay - trio stacked', () => {
-      const player1Id = game.players[0].id;
-      const player2Id = game.players[1].id;
-      
-      // Simulate a game where player 1 stacks P+M+G in one cell
-      game.currentPlayerId = player1Id;
-      game.applyMove(player1Id, 4, 'P'); // Player 1 places P in center
-      
-      game.currentPlayerId = player2Id;
-      game.applyMove(player2Id, 0, 'P'); // Player 2 places P in corner
-      
-      game.currentPlayerId = player1Id;
-      game.applyMove(player1Id, 4, 'M'); // Player 1 places M in center (nesting)
-      
-      game.currentPlayerId = player2Id;
-      game.applyMove(player2Id, 1, 'P'); // Player 2 places P elsewhere
-      
-      game.currentPlayerId = player1Id;
-      const success = game.applyMove(player1Id, 4, 'G'); // Player 1 completes trio stack
-      
-      expect(success).toBe(true);
-      expect(game.status).toBe('finished');
-      expect(game.winnerId).toBe(player1Id);
-    });
   });
 
   describe('Draw conditions', () => {
@@ -471,4 +447,115 @@ describe('Game Win Conditions', () => {
       expect(game.status).toBe('finished');
     });
   });
+
+  describe('Winning pattern reporting', () => {
+    it('should clear the winning pattern on reset', () => {
+      game.winningPattern = { condition: 'visible_line', cells: [0, 1, 2] };
+      game.reset();
+
+      expect(game.winningPattern).toBeNull();
+    });
+  });
+
+  describe('With every win condition', () => {
+    beforeEach(() => {
+      // Every condition counts, pieces stay stacked
+      game = new Game({ ...RULE_SET_PRESETS['no-replacement'], variant: 'custom', winConditions: [...ALL_WIN_CONDITIONS] });
+      game.initialize([player1, player2, player3]);
+    });
+
+    it('should detect win during actual gameplay - trio stacked', () => {
+      const player1Id = game.players[0].id;
+      const player2Id = game.players[1].id;
+      
+      // Simulate a game where player 1 stacks P+M+G in one cell
+      game.currentPlayerId = player1Id;
+      game.applyMove(player1Id, 4, 'P'); // Player 1 places P in center
+      
+      game.currentPlayerId = player2Id;
+      game.applyMove(player2Id, 0, 'P'); // Player 2 places P in corner
+      
+      game.currentPlayerId = player1Id;
+      game.applyMove(player1Id, 4, 'M'); // Player 1 places M in center (nesting)
+      
+      game.currentPlayerId = player2Id;
+      game.applyMove(player2Id, 1, 'P'); // Player 2 places P elsewhere
+      
+      game.currentPlayerId = player1Id;
+      const success = game.applyMove(player1Id, 4, 'G'); // Player 1 completes trio stack
+      
+      expect(success).toBe(true);
+      expect(game.status).toBe('finished');
+      expect(game.winnerId).toBe(player1Id);
+    });
+
+    it('should report the condition and cells of a same-size alignment', () => {
+      const player1Id = game.players[0].id;
+      const player2Id = game.players[1].id;
+
+      game.currentPlayerId = player1Id;
+      game.applyMove(player1Id, 0, 'M');
+      game.currentPlayerId = player2Id;
+      game.applyMove(player2Id, 0, 'G'); // hides red M in cell 0
+      game.currentPlayerId = player1Id;
+      game.applyMove(player1Id, 3, 'M');
+      game.currentPlayerId = player2Id;
+      game.applyMove(player2Id, 1, 'P');
+      game.currentPlayerId = player1Id;
+      game.applyMove(player1Id, 6, 'M');
+
+      expect(game.status).toBe('finished');
+      expect(game.winnerId).toBe(player1Id);
+      expect(game.winningPattern).toEqual({ condition: 'same_size_line', cells: [0, 3, 6] });
+      expect(game.getGameState().winningPattern).toEqual(game.winningPattern);
+    });
+
+    it('should report a nested trio with its single cell', () => {
+      const player1Id = game.players[0].id;
+      const player2Id = game.players[1].id;
+
+      game.currentPlayerId = player1Id;
+      game.applyMove(player1Id, 4, 'P');
+      game.currentPlayerId = player2Id;
+      game.applyMove(player2Id, 0, 'P');
+      game.currentPlayerId = player1Id;
+      game.applyMove(player1Id, 4, 'M');
+      game.currentPlayerId = player2Id;
+      game.applyMove(player2Id, 1, 'P');
+      game.currentPlayerId = player1Id;
+      game.applyMove(player1Id, 4, 'G');
+
+      expect(game.winningPattern).toEqual({ condition: 'stack_complete', cells: [4] });
+    });
+  });
+
+  describe('Custom rule sets', () => {
+    it('should ignore conditions that are not enabled', () => {
+      const visibleOnlyGame = new Game({
+        variant: 'custom',
+        placement: 'stack',
+        winConditions: ['visible_line'],
+        inventory: { P: 3, M: 3, G: 3 },
+        boardSize: 3,
+        lineLength: 3,
+      });
+      visibleOnlyGame.initialize([player1, player2]);
+      const player1Id = visibleOnlyGame.players[0].id;
+      const player2Id = visibleOnlyGame.players[1].id;
+
+      visibleOnlyGame.currentPlayerId = player1Id;
+      visibleOnlyGame.applyMove(player1Id, 4, 'P');
+      visibleOnlyGame.currentPlayerId = player2Id;
+      visibleOnlyGame.applyMove(player2Id, 0, 'P');
+      visibleOnlyGame.currentPlayerId = player1Id;
+      visibleOnlyGame.applyMove(player1Id, 4, 'M');
+      visibleOnlyGame.currentPlayerId = player2Id;
+      visibleOnlyGame.applyMove(player2Id, 1, 'P');
+      visibleOnlyGame.currentPlayerId = player1Id;
+      visibleOnlyGame.applyMove(player1Id, 4, 'G');
+
+      expect(visibleOnlyGame.status).toBe('playing');
+      expect(visibleOnlyGame.winningPattern).toBeNull();
+    });
+  });
 });
@@ -184,6 +184,14 @@ describe('Player', () => {
       expect(player.isEliminated).toBe(true);
     });
 
+    it('should forfeit, discarding the pieces not yet played', () => {
+      player.forfeit();
+
+      expect(player.hasForfeited).toBe(true);
+      expect(player.isEliminated).toBe(true);
+      expect(player.hasAnyPieces()).toBe(false);
+    });
+
     it('should set connection status', () => {
       expect(player.connected).toBe(true);
       player.setConnected(false);
@@ -218,8 +226,12 @@ describe('Player', () => {
         inventory: { P: 2, M: 3, G: 3 },
         connected: true,
         skipsInARow: 1,
+        totalSkips: 1,
         isEliminated: false,
+        hasForfeited: false,
         isHost: true,
+        isBot: false,
+        botDifficulty: null,
       });
     });
   });
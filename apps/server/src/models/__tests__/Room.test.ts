@@ -1,6 +1,7 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { Room } from '../Room';
 import { Player } from '../Player';
+import { RULE_SET_PRESETS, DEFAULT_RULE_VARIANT, DEFAULT_TIME_CONTROL, DEFAULT_ANTI_ABUSE_POLICY } from '@mortpion/shared';
 
 describe('Room', () => {
   let room: Room;
@@ -160,6 +161,25 @@ describe('Room', () => {
     it('should throw error when starting game with insufficient players', () => {
       expect(() => room.startGame()).toThrow('Cannot start game with less than 2 players');
     });
+
+    it('should only allow an early start with 2 players or more and free seats', () => {
+      room.addPlayer(host);
+      expect(room.canStartEarly()).toBe(false);
+
+      room.addPlayer(new Player({ nickname: 'Player1', color: 'blue' }));
+      expect(room.canStartEarly()).toBe(true);
+
+      room.startGame();
+      expect(room.canStartEarly()).toBe(false);
+    });
+
+    it('should not allow an early start once the room is full', () => {
+      for (let i = 0; i < 4; i++) {
+        room.addPlayer(new Player({ nickname: `Player${i}`, color: 'red' }));
+      }
+
+      expect(room.canStartEarly()).toBe(false);
+    });
   });
 
   describe('room utilities', () => {
@@ -284,7 +304,64 @@ describe('Room', () => {
     });
   });
 
+  describe('spectators', () => {
+    beforeEach(() => {
+      room.addPlayer(host);
+      room.addPlayer(new Player({ nickname: 'Guest', color: 'blue' }));
+    });
+
+    it('should only let spectators watch a game in progress', () => {
+      expect(room.addSpectator('socket-1', 'watcher')).toBe(false);
+
+      room.startGame();
+
+      expect(room.addSpectator('socket-1', 'watcher')).toBe(true);
+      expect(room.getSpectatorCount()).toBe(1);
+    });
+
+    it('should not let a seated player spectate their own room', () => {
+      room.startGame();
+
+      expect(room.addSpectator('socket-1', host.id)).toBe(false);
+    });
+
+    it('should count a spectator with several connections once', () => {
+      room.startGame();
+      room.addSpectator('socket-1', 'watcher');
+      room.addSpectator('socket-2', 'watcher');
+      room.addSpectator('socket-3', 'other');
+
+      expect(room.getSpectatorCount()).toBe(2);
+
+      room.removeSpectator('socket-1');
+      expect(room.getSpectatorCount()).toBe(2);
+      room.removeSpectator('socket-2');
+      expect(room.getSpectatorCount()).toBe(1);
+    });
+
+    it('should never seat spectators or count them for capacity and replay votes', () => {
+      room.startGame();
+      room.addSpectator('socket-1', 'watcher');
+      room.startReplayVoting();
+
+      expect(room.players).toHaveLength(2);
+      expect(room.castReplayVote('watcher', false)).toBe(false);
+
+      room.players.forEach(player => room.castReplayVote(player.id, true));
+      expect(room.checkReplayVotes()).toBe('accepted');
+    });
+  });
+
   describe('serialization', () => {
+    // The turn time left is read from the clock
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
     it('should serialize to JSON correctly', () => {
       const json = room.toJSON();
 
@@ -293,15 +370,22 @@ describe('Room', () => {
         name: 'Test Room',
         capacity: 4,
         isPrivate: false,
+        rules: RULE_SET_PRESETS[DEFAULT_RULE_VARIANT],
+        timeControl: DEFAULT_TIME_CONTROL,
+        autoPause: false,
+        antiAbuse: DEFAULT_ANTI_ABUSE_POLICY,
         createdAt: room.createdAt,
         expiresAt: room.expiresAt,
         hostId: host.id,
         players: [],
-        game: room.game.getGameState(),
+        game: { ...room.game.getGameState(), events: room.game.getEvents() },
         status: 'waiting',
         isFull: false,
+        spectatorCount: 0,
         replayDeadline: null,
         replayVotes: {},
+        chatMessages: [],
+        mutedPlayerIds: [],
       });
     });
 
@@ -313,5 +397,30 @@ describe('Room', () => {
       expect(json.players).toHaveLength(1);
       expect(json.players[0].nickname).toBe('Test');
     });
+
+    it('should rebuild a room with its game in progress', () => {
+      room.addPlayer(host);
+      room.addPlayer(new Player({ nickname: 'Guest', color: 'blue' }));
+      room.startGame();
+      const currentPlayerId = room.game.currentPlayerId!;
+      room.game.applyMove(currentPlayerId, 4, 'G');
+      room.getPlayer(currentPlayerId)!.incrementSkips();
+
+      const restored = Room.fromJSON(JSON.parse(JSON.stringify(room.toJSON())));
+
+      expect(restored.toJSON()).toEqual(room.toJSON());
+      expect(restored.game.board).toEqual(room.game.board);
+      expect(restored.game.currentPlayerId).toBe(room.game.currentPlayerId);
+      expect(restored.getPlayer(currentPlayerId)!.skipsInARow).toBe(1);
+    });
+
+    it('should keep the access code given back on restore', () => {
+      const privateRoom = new Room({ name: 'Private', capacity: 2, isPrivate: true, code: 'AB12', hostId: host.id });
+
+      const restored = Room.fromJSON(privateRoom.toJSON(), privateRoom.code);
+
+      expect(restored.verifyCode('AB12')).toBe(true);
+      expect(restored.createdAt).toBe(privateRoom.createdAt);
+    });
   });
 });
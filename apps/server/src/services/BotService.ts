@@ -0,0 +1,262 @@
+import { Worker } from 'node:worker_threads';
+import { chooseBotMove } from '@mortpion/shared';
+import type { Board, BotDifficulty, BotMove, BotPlayer, RuleSetConfig, Size } from '@mortpion/shared';
+import { Game } from '../models/Game.js';
+import { Room } from '../models/Room.js';
+
+// Position a bot move is searched from (rule sets carry functions, so only their config is sent)
+export interface BotSearchRequest {
+  board: Board;
+  players: BotPlayer[];
+  currentPlayerIndex: number;
+  rules: RuleSetConfig;
+  difficulty: BotDifficulty;
+}
+
+// Finds a bot move away from the event loop: a hard search spends its whole time budget
+export type BotSearch = (request: BotSearchRequest) => Promise<BotMove | null>;
+
+export interface BotServiceOptions {
+  moveDelayMs?: number; // Default 800ms, so humans can follow bot moves
+  replacementDelayMs?: number; // Default 2 minutes (disconnection grace period)
+  replacementDifficulty?: BotDifficulty; // Default 'medium'
+  search?: BotSearch; // Default: a worker thread, see createWorkerSearch
+}
+
+export interface BotEvent {
+  type: 'move' | 'skipped' | 'replaced';
+  roomId: string;
+  playerId: string;
+  cellIndex?: number;
+  size?: Size;
+}
+
+/**
+ * Search bot moves in a worker thread, started on the first search and restarted if it dies
+ */
+export function createWorkerSearch(): BotSearch {
+  let worker: Worker | null = null;
+  let nextRequestId = 0;
+  const pending = new Map<number, { resolve: (move: BotMove | null) => void; reject: (error: Error) => void }>();
+
+  const getWorker = (): Worker => {
+    if (worker) return worker;
+
+    const created = new Worker(new URL('./botWorker.js', import.meta.url));
+    created.unref(); // Never keeps the process alive on its own
+    created.on('message', ({ requestId, move }: { requestId: number; move: BotMove | null }) => {
+      pending.get(requestId)?.resolve(move);
+      pending.delete(requestId);
+    });
+    created.on('error', (error: Error) => {
+      pending.forEach(request => request.reject(error));
+      pending.clear();
+    });
+    created.on('exit', () => {
+      pending.forEach(request => request.reject(new Error('Bot search worker exited')));
+      pending.clear();
+      worker = null;
+    });
+
+    worker = created;
+    return created;
+  };
+
+  return (request) => new Promise((resolve, reject) => {
+    const requestId = nextRequestId++;
+    pending.set(requestId, { resolve, reject });
+    getWorker().postMessage({ requestId, ...request });
+  });
+}
+
+/**
+ * Service to play the turns of computer opponents in game rooms
+ */
+export class BotService {
+  private moveTimers: Map<string, NodeJS.Timeout> = new Map(); // roomId -> pending bot move
+  private searches: Map<string, number> = new Map(); // roomId -> search in progress
+  private replacementTimers: Map<string, NodeJS.Timeout> = new Map(); // playerId -> pending replacement
+  private eventCallbacks: ((event: BotEvent) => void)[] = [];
+  private searchCount = 0;
+  private search: BotSearch;
+
+  private options: Required<Omit<BotServiceOptions, 'search'>> = {
+    moveDelayMs: 800,
+    replacementDelayMs: 2 * 60 * 1000,
+    replacementDifficulty: 'medium'
+  };
+
+  constructor({ search, ...options }: BotServiceOptions = {}) {
+    this.options = { ...this.options, ...options };
+    this.search = search ?? createWorkerSearch();
+  }
+
+  /**
+   * Schedule a move if the current player is a bot (no-op otherwise)
+   */
+  scheduleMove(room: Room): boolean {
+    const currentPlayer = room.game.getCurrentPlayer();
+    if (room.game.status !== 'playing' || room.game.pause || !currentPlayer?.isBot) {
+      return false;
+    }
+
+    this.cancelMove(room.id);
+
+    const timeout = setTimeout(() => {
+      this.moveTimers.delete(room.id);
+      this.searchMove(room, currentPlayer.id);
+    }, this.options.moveDelayMs);
+
+    this.moveTimers.set(room.id, timeout);
+    return true;
+  }
+
+  /**
+   * Cancel the pending bot move of a room (a search in progress is ignored once it returns)
+   */
+  cancelMove(roomId: string): boolean {
+    const timeout = this.moveTimers.get(roomId);
+    const searching = this.searches.delete(roomId);
+    if (!timeout) return searching;
+
+    clearTimeout(timeout);
+    this.moveTimers.delete(roomId);
+    return true;
+  }
+
+  /**
+   * Check if a bot move is pending in a room
+   */
+  hasPendingMove(roomId: string): boolean {
+    return this.moveTimers.has(roomId) || this.searches.has(roomId);
+  }
+
+  /**
+   * Replace a disconnected player with a bot once the grace period is over
+   */
+  scheduleReplacement(room: Room, playerId: string): void {
+    this.cancelReplacement(playerId);
+
+    const timeout = setTimeout(() => {
+      this.replacementTimers.delete(playerId);
+
+      if (!room.replaceWithBot(playerId, this.options.replacementDifficulty)) {
+        return; // Player came back, left, or the game is over
+      }
+
+      this.emitEvent({ type: 'replaced', roomId: room.id, playerId });
+      this.scheduleMove(room);
+    }, this.options.replacementDelayMs);
+
+    this.replacementTimers.set(playerId, timeout);
+  }
+
+  /**
+   * Cancel a pending replacement (e.g. the player reconnected)
+   */
+  cancelReplacement(playerId: string): boolean {
+    const timeout = this.replacementTimers.get(playerId);
+    if (!timeout) return false;
+
+    clearTimeout(timeout);
+    this.replacementTimers.delete(playerId);
+    return true;
+  }
+
+  /**
+   * Search the bot move off the event loop, then play it
+   */
+  private searchMove(room: Room, botId: string): void {
+    const game = room.game;
+    const currentIndex = game.players.findIndex(p => p.id === game.currentPlayerId);
+    const bot = game.players[currentIndex];
+
+    // The turn may have moved on (timeout, skip) while the bot was waiting
+    if (game.status !== 'playing' || !bot || bot.id !== botId) {
+      return;
+    }
+
+    const searchId = ++this.searchCount;
+    this.searches.set(room.id, searchId);
+
+    const state = {
+      board: game.board,
+      players: game.players.map(p => ({ color: p.color, inventory: { ...p.inventory }, isEliminated: p.isEliminated })),
+      currentPlayerIndex: currentIndex
+    };
+    const difficulty = bot.botDifficulty ?? this.options.replacementDifficulty;
+
+    this.search({ ...state, rules: game.ruleSet.config, difficulty })
+      // Without the worker, a quick search on the event loop still lets the bot play
+      .catch(() => chooseBotMove({ ...state, ruleSet: game.ruleSet }, { difficulty: 'easy' }))
+      .then(move => {
+        // Cancelled, or another search started since
+        if (this.searches.get(room.id) !== searchId) return;
+        this.searches.delete(room.id);
+
+        this.playMove(room, game, botId, move);
+      });
+  }
+
+  /**
+   * Apply the bot move through the regular game path
+   */
+  private playMove(room: Room, game: Game, botId: string, move: BotMove | null): void {
+    // The game may have been replaced, paused or moved on during the search
+    if (room.game !== game || game.status !== 'playing' || game.pause || game.currentPlayerId !== botId) {
+      return;
+    }
+
+    if (move && game.applyMove(botId, move.cellIndex, move.size)) {
+      this.emitEvent({ type: 'move', roomId: room.id, playerId: botId, cellIndex: move.cellIndex, size: move.size });
+    } else {
+      // Nothing left to play: not a timeout, so no time or strike is taken from the bot
+      game.skipCurrentPlayer('no_moves');
+      this.emitEvent({ type: 'skipped', roomId: room.id, playerId: botId });
+    }
+
+    // Chain with the next bot, if any
+    this.scheduleMove(room);
+  }
+
+  /**
+   * Subscribe to bot events
+   */
+  onBotEvent(callback: (event: BotEvent) => void): void {
+    this.eventCallbacks.push(callback);
+  }
+
+  /**
+   * Unsubscribe from bot events
+   */
+  offBotEvent(callback: (event: BotEvent) => void): void {
+    const index = this.eventCallbacks.indexOf(callback);
+    if (index > -1) {
+      this.eventCallbacks.splice(index, 1);
+    }
+  }
+
+  /**
+   * Emit a bot event
+   */
+  private emitEvent(event: BotEvent): void {
+    this.eventCallbacks.forEach(callback => {
+      try {
+        callback(event);
+      } catch (error) {
+        console.error('Error in bot event callback:', error);
+      }
+    });
+  }
+
+  /**
+   * Clear all pending moves and replacements
+   */
+  clearAll(): void {
+    this.moveTimers.forEach(timeout => clearTimeout(timeout));
+    this.replacementTimers.forEach(timeout => clearTimeout(timeout));
+    this.moveTimers.clear();
+    this.searches.clear();
+    this.replacementTimers.clear();
+  }
+}
@@ -0,0 +1,127 @@
+import { v4 as uuidv4 } from 'uuid';
+import { CHAT_MAX_LENGTH } from '@mortpion/shared';
+import type { ChatMessage } from '@mortpion/shared';
+import { Room } from '../models/Room.js';
+
+/**
+ * Rewrite the text of a message before it is posted (e.g. mask profanity)
+ */
+export type ChatFilter = (text: string) => string;
+
+export interface ChatServiceOptions {
+  maxLength?: number; // Default CHAT_MAX_LENGTH
+  maxMessages?: number; // Messages a player may post per window, default 5
+  windowMs?: number; // Default 10 seconds
+  filter?: ChatFilter; // Default: text posted as is
+}
+
+export interface PostMessageResult {
+  success: boolean;
+  message?: ChatMessage;
+  error?: string;
+}
+
+/**
+ * Mask whole words of a list, whatever their case (each letter becomes a '*')
+ */
+export function createWordFilter(words: string[]): ChatFilter {
+  const escaped = words
+    .map(word => word.trim())
+    .filter(word => word.length > 0)
+    .map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  if (escaped.length === 0) {
+    return (text) => text;
+  }
+
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(${escaped.join('|')})(?![\\p{L}\\p{N}])`, 'giu');
+  return (text) => text.replace(pattern, (match) => '*'.repeat(match.length));
+}
+
+/**
+ * Service to post chat messages in rooms: only seated players who are not muted,
+ * within a length limit and a rate limit, through the moderation filter
+ */
+export class ChatService {
+  private recentPosts: Map<string, number[]> = new Map(); // playerId -> times of their recent messages
+  private options: Required<ChatServiceOptions>;
+
+  constructor(options: ChatServiceOptions = {}) {
+    this.options = {
+      maxLength: options.maxLength ?? CHAT_MAX_LENGTH,
+      maxMessages: options.maxMessages ?? 5,
+      windowMs: options.windowMs ?? 10 * 1000,
+      filter: options.filter ?? ((text) => text),
+    };
+  }
+
+  /**
+   * Post a message in a room's chat, keeping it in the room history
+   */
+  postMessage(room: Room, playerId: string, text: string): PostMessageResult {
+    const player = room.getPlayer(playerId);
+    if (!player) {
+      return { success: false, error: 'Only players can chat' };
+    }
+
+    if (room.isMuted(playerId)) {
+      return { success: false, error: 'You are muted' };
+    }
+
+    const trimmed = text.trim();
+    if (trimmed.length === 0) {
+      return { success: false, error: 'Message is empty' };
+    }
+    if (trimmed.length > this.options.maxLength) {
+      return { success: false, error: `Message cannot exceed ${this.options.maxLength} characters` };
+    }
+
+    if (this.isRateLimited(playerId)) {
+      return { success: false, error: 'Too many messages, slow down' };
+    }
+
+    const message: ChatMessage = {
+      id: uuidv4(),
+      playerId,
+      nickname: player.nickname,
+      text: this.options.filter(trimmed),
+      sentAt: Date.now(),
+    };
+
+    this.recordPost(playerId);
+    room.addChatMessage(message);
+    return { success: true, message };
+  }
+
+  /**
+   * Check if a player has used up their messages for the current window
+   */
+  isRateLimited(playerId: string): boolean {
+    return this.getRecentPosts(playerId).length >= this.options.maxMessages;
+  }
+
+  /**
+   * Forget the rate limit state (for testing purposes)
+   */
+  clearAll(): void {
+    this.recentPosts.clear();
+  }
+
+  private recordPost(playerId: string): void {
+    this.recentPosts.set(playerId, [...this.getRecentPosts(playerId), Date.now()]);
+  }
+
+  /**
+   * Get the times of a player's messages within the window, pruning older ones
+   */
+  private getRecentPosts(playerId: string): number[] {
+    const since = Date.now() - this.options.windowMs;
+    const posts = (this.recentPosts.get(playerId) ?? []).filter(sentAt => sentAt > since);
+
+    if (posts.length === 0) {
+      this.recentPosts.delete(playerId);
+    } else {
+      this.recentPosts.set(playerId, posts);
+    }
+    return posts;
+  }
+}
@@ -17,6 +17,9 @@ export interface DisconnectionOptions {
   timeoutMs?: number;
 }
 
+// Rooms the connections are tracked against (the lobby, or any room store with the same lookups)
+export type RoomDirectory = Pick<LobbyService, 'getRoom' | 'leaveRoom'>;
+
 export interface ReconnectionResult {
   success: boolean;
   error?: string;
@@ -41,7 +44,7 @@ export class ConnectionManager {
   private reconnectionTimeout = 5 * 60 * 1000; // 5 minutes
   private cleanupInterval: NodeJS.Timeout | null = null;
 
-  constructor(private lobbyService: LobbyService) {
+  constructor(private lobbyService: RoomDirectory) {
     this.startCleanupInterval();
   }
 
@@ -73,6 +76,22 @@ export class ConnectionManager {
     this.disconnectedPlayers.delete(playerId);
   }
 
+  /**
+   * Move a live connection to a new socket of the same player (e.g. another tab)
+   */
+  replaceSocket(playerId: string, socketId: string): boolean {
+    const connection = this.connections.get(playerId);
+    if (!connection) {
+      return false;
+    }
+
+    this.socketToPlayer.delete(connection.socketId);
+    connection.socketId = socketId;
+    connection.lastActivity = Date.now();
+    this.socketToPlayer.set(socketId, playerId);
+    return true;
+  }
+
   /**
    * Disconnect a player
    */
@@ -113,6 +132,7 @@ export class ConnectionManager {
       } else {
         // Network disconnect or timeout - keep seat but mark as disconnected
         player.setConnected(false);
+        room.game.recordConnection(playerId, false);
 
         if (options.canReconnect !== false) {
           // Store disconnected player for potential reconnection
@@ -175,6 +195,11 @@ export class ConnectionManager {
       return { success: false, error: 'Player no longer in room' };
     }
 
+    if (player.isBot) {
+      this.disconnectedPlayers.delete(playerId);
+      return { success: false, error: 'Seat taken over by a bot' };
+    }
+
     // Check if reconnection timeout has expired
     const timeoutMs = this.reconnectionTimeout;
     if (Date.now() - disconnectedInfo.disconnectedAt > timeoutMs) {
@@ -191,6 +216,7 @@ export class ConnectionManager {
 
     // Successful reconnection
     player.setConnected(true);
+    room.game.recordConnection(playerId, true);
     this.connect(playerId, socketId);
 
     // Update connection with room info
@@ -207,6 +233,20 @@ export class ConnectionManager {
     };
   }
 
+  /**
+   * Keep a seat open for a player of a room restored from storage
+   * The server restarted under them, so they rejoin like after a network drop
+   */
+  restoreSeat(player: Player, roomId: string): void {
+    this.disconnectedPlayers.set(player.id, {
+      player,
+      roomId,
+      disconnectedAt: Date.now(),
+      reason: 'network',
+      canReconnect: true
+    });
+  }
+
   /**
    * Handle player joining a room
    */
@@ -1,10 +1,11 @@
 import { Room } from '../models/Room.js';
+import type { RoomStatus } from '../models/Room.js';
 import { Player } from '../models/Player.js';
-import type { Color } from '@mortpion/shared';
+import type { AntiAbusePolicy, Color, RuleSetConfig, TimeControl } from '@mortpion/shared';
 
 export interface RoomFilters {
   isPrivate?: boolean;
-  status?: 'waiting' | 'playing' | 'finished';
+  status?: RoomStatus | RoomStatus[];
   hasSpace?: boolean;
 }
 
@@ -23,6 +24,10 @@ export interface CreateRoomOptions {
   capacity: number;
   isPrivate: boolean;
   code?: string;
+  rules?: RuleSetConfig;
+  timeControl?: TimeControl;
+  autoPause?: boolean;
+  antiAbuse?: AntiAbusePolicy;
 }
 
 export interface RoomListItem {
@@ -31,8 +36,12 @@ export interface RoomListItem {
   status: 'waiting' | 'playing' | 'finished';
   playerCount: number;
   capacity: number;
+  spectatorCount: number;
   isPrivate: boolean;
   hasSpace: boolean;
+  ruleVariant: RuleSetConfig['variant'];
+  boardSize: number;
+  lineLength: number;
   createdAt: number;
   lastActivity: number;
 }
@@ -69,7 +78,7 @@ export class LobbyService {
     }
 
     // Check if host already has a room
-    if (this.roomsByHost.has(options.hostId)) {
+    if (this.getRoomByHost(options.hostId)) {
       throw new Error('Host already has an active room');
     }
 
@@ -85,11 +94,16 @@ export class LobbyService {
 
     // Create room
     const room = new Room({
+      id: this.generateRoomId(),
       name: options.name.trim(),
       hostId: options.hostId,
       capacity: options.capacity,
       isPrivate: options.isPrivate,
-      code: options.code
+      code: options.code,
+      rules: options.rules,
+      timeControl: options.timeControl,
+      autoPause: options.autoPause,
+      antiAbuse: options.antiAbuse
     });
 
     // Store room
@@ -99,6 +113,14 @@ export class LobbyService {
     return room;
   }
 
+  /**
+   * Put back a room loaded from storage (after a restart)
+   */
+  restoreRoom(room: Room): void {
+    this.rooms.set(room.id, room);
+    this.roomsByHost.set(room.hostId, room.id);
+  }
+
   /**
    * Get a room by ID
    */
@@ -111,7 +133,37 @@ export class LobbyService {
    */
   getRoomByHost(hostId: string): Room | null {
     const roomId = this.roomsByHost.get(hostId);
-    return roomId ? this.getRoom(roomId) : null;
+    const room = roomId ? this.getRoom(roomId) : null;
+
+    // The host may have changed in the room itself (e.g. replaced by a bot)
+    return room?.hostId === hostId ? room : null;
+  }
+
+  /**
+   * Get the room a connection is watching as a spectator
+   */
+  getRoomBySpectator(socketId: string): Room | null {
+    for (const room of this.rooms.values()) {
+      if (room.spectators.has(socketId)) {
+        return room;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Hand the host role of a room to another player
+   */
+  transferHost(roomId: string, newHostId: string): boolean {
+    const room = this.getRoom(roomId);
+    if (!room || !room.getPlayer(newHostId)) {
+      return false;
+    }
+
+    this.roomsByHost.delete(room.hostId);
+    room.transferHostTo(newHostId);
+    this.roomsByHost.set(newHostId, roomId);
+    return true;
   }
 
   /**
@@ -136,7 +188,8 @@ export class LobbyService {
       }
 
       if (status) {
-        filteredRooms = filteredRooms.filter(room => room.getStatus() === status);
+        const statuses = Array.isArray(status) ? status : [status];
+        filteredRooms = filteredRooms.filter(room => statuses.includes(room.getStatus()));
       }
 
       if (typeof hasSpace === 'boolean') {
@@ -197,8 +250,12 @@ export class LobbyService {
       status: room.getStatus(),
       playerCount: room.players.length,
       capacity: room.capacity,
+      spectatorCount: room.getSpectatorCount(),
       isPrivate: room.isPrivate,
       hasSpace: !room.isFull(),
+      ruleVariant: room.rules.variant,
+      boardSize: room.rules.boardSize,
+      lineLength: room.rules.lineLength,
       createdAt: room.createdAt,
       lastActivity: room.game.startedAt || room.createdAt
     }));
@@ -319,6 +376,36 @@ export class LobbyService {
     return { success: true, room };
   }
 
+  /**
+   * Remove a player from a room before the game starts (host decision)
+   */
+  kickPlayer(roomId: string, playerId: string): {
+    success: boolean;
+    error?: string;
+    player?: Player;
+  } {
+    const room = this.getRoom(roomId);
+    if (!room) {
+      return { success: false, error: 'Room not found' };
+    }
+
+    const player = room.getPlayer(playerId);
+    if (!player) {
+      return { success: false, error: 'Player not in room' };
+    }
+
+    if (playerId === room.hostId) {
+      return { success: false, error: 'The host cannot be kicked' };
+    }
+
+    if (room.getStatus() !== 'waiting') {
+      return { success: false, error: 'Players can only be kicked before the game starts' };
+    }
+
+    room.removePlayer(playerId);
+    return { success: true, player };
+  }
+
   /**
    * Remove a room
    */
@@ -376,6 +463,17 @@ export class LobbyService {
     return expiredRooms.length;
   }
 
+  /**
+   * Generate a short room id that players can type to join
+   */
+  private generateRoomId(): string {
+    let roomId: string;
+    do {
+      roomId = Math.random().toString(36).substring(2, 8).toUpperCase();
+    } while (roomId.length < 6 || this.rooms.has(roomId));
+    return roomId;
+  }
+
   /**
    * Start automatic cleanup interval
    */
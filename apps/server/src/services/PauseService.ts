@@ -0,0 +1,158 @@
+import type { PauseReason } from '@mortpion/shared';
+import { Room } from '../models/Room.js';
+
+export interface PauseOptions {
+  resumeCountdownMs?: number; // Default 5 seconds
+}
+
+export interface PauseEvent {
+  type: 'paused' | 'resume_scheduled' | 'resumed';
+  roomId: string;
+  reason?: PauseReason; // Set on paused events
+  playerId?: string; // Who asked for the pause or the resume, or who dropped
+  resumeAt?: number; // Set on resume_scheduled events
+}
+
+/**
+ * Pauses of games in progress: the game stands still until a player still in it asks to
+ * resume, then play starts again after a short countdown so nobody is caught off guard.
+ * A pause caused by the player to move dropping only ends when they are back (or a bot
+ * took their seat over).
+ */
+export class PauseService {
+  private resumeTimeouts = new Map<string, NodeJS.Timeout>();
+  private resumeDeadlines = new Map<string, number>(); // roomId -> when play starts again
+  private eventCallbacks: ((event: PauseEvent) => void)[] = [];
+  private options: Required<PauseOptions>;
+
+  constructor(options: PauseOptions = {}) {
+    this.options = {
+      resumeCountdownMs: options.resumeCountdownMs ?? 5000, // 5 seconds
+    };
+  }
+
+  /**
+   * Pause the game of a room
+   */
+  pause(room: Room, reason: PauseReason, playerId: string): { success: boolean; error?: string } {
+    if (!room.game.pauseGame(reason, playerId)) {
+      return { success: false, error: room.game.pause ? 'The game is already paused' : 'No game in progress' };
+    }
+
+    this.emitEvent({ type: 'paused', roomId: room.id, reason, playerId });
+    return { success: true };
+  }
+
+  /**
+   * Ask to resume a paused game, on behalf of a player still in it
+   */
+  requestResume(room: Room, playerId: string): { success: boolean; error?: string } {
+    const pause = room.game.pause;
+    if (room.game.status !== 'playing' || !pause) {
+      return { success: false, error: 'The game is not paused' };
+    }
+
+    const player = room.game.players.find(p => p.id === playerId);
+    if (!player || player.isEliminated) {
+      return { success: false, error: 'Only players still in the game can resume it' };
+    }
+
+    const droppedPlayer = room.getPlayer(pause.playerId);
+    if (pause.reason === 'disconnection' && droppedPlayer && !droppedPlayer.connected && !droppedPlayer.isBot) {
+      return { success: false, error: 'Waiting for the disconnected player to come back' };
+    }
+
+    if (!this.scheduleResume(room, playerId)) {
+      return { success: false, error: 'The game is already resuming' };
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * Start the countdown before a paused game resumes
+   */
+  scheduleResume(room: Room, playerId?: string): boolean {
+    if (!room.game.pause || this.resumeTimeouts.has(room.id)) {
+      return false;
+    }
+
+    const resumeAt = Date.now() + this.options.resumeCountdownMs;
+    const timeout = setTimeout(() => {
+      this.resumeTimeouts.delete(room.id);
+      this.resumeDeadlines.delete(room.id);
+
+      // The game may have ended during the countdown (a player left)
+      if (room.game.resumeGame()) {
+        this.emitEvent({ type: 'resumed', roomId: room.id });
+      }
+    }, this.options.resumeCountdownMs);
+
+    this.resumeTimeouts.set(room.id, timeout);
+    this.resumeDeadlines.set(room.id, resumeAt);
+
+    this.emitEvent({ type: 'resume_scheduled', roomId: room.id, playerId, resumeAt });
+    return true;
+  }
+
+  /**
+   * Stop the resume countdown of a room (the game stays paused)
+   */
+  cancelResume(roomId: string): boolean {
+    const timeout = this.resumeTimeouts.get(roomId);
+    if (!timeout) {
+      return false;
+    }
+
+    clearTimeout(timeout);
+    this.resumeTimeouts.delete(roomId);
+    this.resumeDeadlines.delete(roomId);
+    return true;
+  }
+
+  /**
+   * Get when the game of a room resumes, if the countdown is running
+   */
+  getResumeAt(roomId: string): number | null {
+    return this.resumeDeadlines.get(roomId) ?? null;
+  }
+
+  /**
+   * Subscribe to pause events
+   */
+  onPauseEvent(callback: (event: PauseEvent) => void): void {
+    this.eventCallbacks.push(callback);
+  }
+
+  /**
+   * Unsubscribe from pause events
+   */
+  offPauseEvent(callback: (event: PauseEvent) => void): void {
+    const index = this.eventCallbacks.indexOf(callback);
+    if (index > -1) {
+      this.eventCallbacks.splice(index, 1);
+    }
+  }
+
+  /**
+   * Emit a pause event
+   */
+  private emitEvent(event: PauseEvent): void {
+    this.eventCallbacks.forEach(callback => {
+      try {
+        callback(event);
+      } catch (error) {
+        console.error('Error in pause event callback:', error);
+      }
+    });
+  }
+
+  /**
+   * Clear all resume countdowns (for cleanup)
+   */
+  clearAll(): void {
+    this.resumeTimeouts.forEach(timeout => clearTimeout(timeout));
+    this.resumeTimeouts.clear();
+    this.resumeDeadlines.clear();
+  }
+}
@@ -0,0 +1,234 @@
+import type { ProposalKind, ProposalPayload, ProposalResult } from '@mortpion/shared';
+import { Room } from '../models/Room.js';
+
+export interface ProposalOptions {
+  responseTimeoutMs?: number; // Default 30 seconds
+}
+
+export interface ProposalEvent {
+  type: 'proposal_started' | 'proposal_answered' | 'proposal_resolved';
+  roomId: string;
+  kind: ProposalKind;
+  proposerId: string;
+  playerId?: string; // Player who answered (or declined)
+  accept?: boolean;
+  result?: ProposalResult;
+}
+
+interface ProposalState {
+  roomId: string;
+  kind: ProposalKind;
+  proposerId: string;
+  responderIds: string[]; // Players who must accept
+  responses: Map<string, boolean>; // playerId -> answer (true = accept)
+  deadline: number;
+}
+
+/**
+ * Draw offers, takeback and pause requests during a game: one pending proposal per room,
+ * accepted only when every other player still in the game agrees (every other connected
+ * one for a pause). Computer opponents are not asked, they go along with the humans.
+ */
+export class ProposalService {
+  private proposals = new Map<string, ProposalState>();
+  private proposalTimeouts = new Map<string, NodeJS.Timeout>();
+  private eventCallbacks: ((event: ProposalEvent) => void)[] = [];
+  private options: Required<ProposalOptions>;
+
+  constructor(options: ProposalOptions = {}) {
+    this.options = {
+      responseTimeoutMs: options.responseTimeoutMs ?? 30000, // 30 seconds
+    };
+  }
+
+  /**
+   * Offer a draw or request a takeback of the proposer's last placement
+   */
+  propose(room: Room, kind: ProposalKind, proposerId: string): { success: boolean; error?: string } {
+    if (room.game.status !== 'playing') {
+      return { success: false, error: 'No game in progress' };
+    }
+
+    if (room.game.pause) {
+      return { success: false, error: 'The game is paused' };
+    }
+
+    const proposer = room.game.players.find(p => p.id === proposerId);
+    if (!proposer || proposer.isEliminated) {
+      return { success: false, error: 'Only players still in the game can make proposals' };
+    }
+
+    if (this.proposals.has(room.id)) {
+      return { success: false, error: 'A proposal is already pending' };
+    }
+
+    if (kind === 'takeback' && !room.game.canTakeBack(proposerId)) {
+      return { success: false, error: 'Only your own last placement can be taken back' };
+    }
+
+    const proposal: ProposalState = {
+      roomId: room.id,
+      kind,
+      proposerId,
+      responderIds: room.game.players
+        .filter(p => p.id !== proposerId && !p.isEliminated && !p.isBot)
+        .filter(p => kind !== 'pause' || room.getPlayer(p.id)?.connected === true) // Nobody waits on absent players to pause
+        .map(p => p.id),
+      responses: new Map(),
+      deadline: Date.now() + this.options.responseTimeoutMs,
+    };
+
+    this.proposals.set(room.id, proposal);
+
+    // Nobody to ask: only computer opponents are left
+    if (proposal.responderIds.length === 0) {
+      this.resolve(room.id, 'accepted');
+      return { success: true };
+    }
+
+    const timeout = setTimeout(() => {
+      this.resolve(room.id, 'expired');
+    }, this.options.responseTimeoutMs);
+
+    this.proposalTimeouts.set(room.id, timeout);
+
+    this.emitEvent({
+      type: 'proposal_started',
+      roomId: room.id,
+      kind,
+      proposerId,
+    });
+
+    return { success: true };
+  }
+
+  /**
+   * Answer the pending proposal of a room: a single refusal declines it
+   */
+  respond(roomId: string, kind: ProposalKind, playerId: string, accept: boolean): { success: boolean; error?: string } {
+    const proposal = this.proposals.get(roomId);
+    if (!proposal || proposal.kind !== kind) {
+      return { success: false, error: 'No pending proposal' };
+    }
+
+    if (!proposal.responderIds.includes(playerId)) {
+      return { success: false, error: 'Not asked to answer this proposal' };
+    }
+
+    proposal.responses.set(playerId, accept);
+
+    this.emitEvent({
+      type: 'proposal_answered',
+      roomId,
+      kind,
+      proposerId: proposal.proposerId,
+      playerId,
+      accept,
+    });
+
+    if (!accept) {
+      this.resolve(roomId, 'declined', playerId);
+    } else if (proposal.responderIds.every(id => proposal.responses.get(id) === true)) {
+      this.resolve(roomId, 'accepted');
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * Drop the pending proposal of a room (the position changed, the game ended...)
+   */
+  cancelProposal(roomId: string): boolean {
+    if (!this.proposals.has(roomId)) {
+      return false;
+    }
+
+    this.resolve(roomId, 'cancelled');
+    return true;
+  }
+
+  /**
+   * Get the pending proposal of a room, as sent to clients
+   */
+  getProposal(roomId: string): ProposalPayload | null {
+    const proposal = this.proposals.get(roomId);
+    if (!proposal) {
+      return null;
+    }
+
+    return {
+      roomId,
+      kind: proposal.kind,
+      proposerId: proposal.proposerId,
+      responderIds: [...proposal.responderIds],
+      responses: Object.fromEntries(proposal.responses),
+      deadline: proposal.deadline,
+    };
+  }
+
+  /**
+   * End a proposal and report its result
+   */
+  private resolve(roomId: string, result: ProposalResult, playerId?: string): void {
+    const proposal = this.proposals.get(roomId);
+    if (!proposal) {
+      return;
+    }
+
+    const timeout = this.proposalTimeouts.get(roomId);
+    if (timeout) {
+      clearTimeout(timeout);
+      this.proposalTimeouts.delete(roomId);
+    }
+
+    this.proposals.delete(roomId);
+
+    this.emitEvent({
+      type: 'proposal_resolved',
+      roomId,
+      kind: proposal.kind,
+      proposerId: proposal.proposerId,
+      playerId,
+      result,
+    });
+  }
+
+  /**
+   * Subscribe to proposal events
+   */
+  onProposalEvent(callback: (event: ProposalEvent) => void): void {
+    this.eventCallbacks.push(callback);
+  }
+
+  /**
+   * Unsubscribe from proposal events
+   */
+  offProposalEvent(callback: (event: ProposalEvent) => void): void {
+    const index = this.eventCallbacks.indexOf(callback);
+    if (index > -1) {
+      this.eventCallbacks.splice(index, 1);
+    }
+  }
+
+  /**
+   * Emit a proposal event
+   */
+  private emitEvent(event: ProposalEvent): void {
+    this.eventCallbacks.forEach(callback => {
+      try {
+        callback(event);
+      } catch (error) {
+        console.error('Error in proposal event callback:', error);
+      }
+    });
+  }
+
+  /**
+   * Clear all pending proposals (for cleanup)
+   */
+  clearAll(): void {
+    this.proposalTimeouts.forEach(timeout => clearTimeout(timeout));
+    this.proposalTimeouts.clear();
+    this.proposals.clear();
+  }
+}
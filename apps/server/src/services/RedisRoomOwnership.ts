@@ -0,0 +1,91 @@
+import { createClient } from 'redis';
+import { v4 as uuidv4 } from 'uuid';
+import type { RoomOwnership } from './RoomOwnership.js';
+
+export interface RedisRoomOwnershipOptions {
+  url: string;
+  leaseMs?: number; // Default 30 seconds (renew well within it)
+  keyPrefix?: string; // Default 'mortpion:', like the room storage
+}
+
+// Only touch the lease if this node still holds it
+const RENEW_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('pexpire', KEYS[1], ARGV[2])
+end
+return 0`;
+
+const RELEASE_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('del', KEYS[1])
+end
+return 0`;
+
+/**
+ * Room ownership shared by all nodes through Redis
+ * `room:{id}:owner` holds the owning node id and expires with the lease
+ */
+export class RedisRoomOwnership implements RoomOwnership {
+  readonly nodeId = uuidv4();
+  private client: ReturnType<typeof createClient>;
+  private leaseMs: number;
+  private keyPrefix: string;
+
+  constructor(options: RedisRoomOwnershipOptions) {
+    this.leaseMs = options.leaseMs ?? 30 * 1000;
+    this.keyPrefix = options.keyPrefix ?? 'mortpion:';
+    this.client = createClient({ url: options.url });
+
+    this.client.on('error', (error) => {
+      console.error('Redis room ownership error:', error);
+    });
+  }
+
+  /**
+   * Open the connection to Redis
+   */
+  async connect(): Promise<void> {
+    if (!this.client.isOpen) {
+      await this.client.connect();
+    }
+  }
+
+  async claim(roomId: string): Promise<boolean> {
+    const result = await this.client.set(this.ownerKey(roomId), this.nodeId, { NX: true, PX: this.leaseMs });
+    if (result === 'OK') {
+      return true;
+    }
+    return (await this.getOwner(roomId)) === this.nodeId;
+  }
+
+  async getOwner(roomId: string): Promise<string | null> {
+    return this.client.get(this.ownerKey(roomId));
+  }
+
+  async renew(roomIds: string[]): Promise<string[]> {
+    const results = await Promise.all(roomIds.map(roomId =>
+      this.client.eval(RENEW_SCRIPT, {
+        keys: [this.ownerKey(roomId)],
+        arguments: [this.nodeId, String(this.leaseMs)]
+      })
+    ));
+    return roomIds.filter((_, index) => results[index] !== 1);
+  }
+
+  async release(roomId: string): Promise<void> {
+    await this.client.eval(RELEASE_SCRIPT, {
+      keys: [this.ownerKey(roomId)],
+      arguments: [this.nodeId]
+    });
+  }
+
+  async close(): Promise<void> {
+    if (this.client.isOpen) {
+      await this.client.quit();
+    }
+  }
+
+  private ownerKey(roomId: string): string {
+    return `${this.keyPrefix}room:${roomId}:owner`;
+  }
+}
@@ -0,0 +1,105 @@
+import { createClient } from 'redis';
+import { Room } from '../models/Room.js';
+import type { RoomStorage } from './RoomStorage.js';
+import { deserializeRoom, serializeRoom } from './RoomStorage.js';
+
+export interface RedisRoomStorageOptions {
+  url: string;
+  keyPrefix?: string; // Default 'mortpion:' (lets several environments share a Redis)
+}
+
+/**
+ * Room store backed by Redis (see docs/STACK.md for the key schema)
+ * - `room:{id}` holds the stored room, expiring at the room's expiresAt
+ * - `rooms:index` is the set of stored room ids, pruned as rooms expire
+ */
+export class RedisRoomStorage implements RoomStorage {
+  readonly kind = 'redis' as const;
+  private client: ReturnType<typeof createClient>;
+  private keyPrefix: string;
+
+  constructor(options: RedisRoomStorageOptions) {
+    this.keyPrefix = options.keyPrefix ?? 'mortpion:';
+    this.client = createClient({ url: options.url });
+
+    // Without a listener, a lost connection would crash the process
+    this.client.on('error', (error) => {
+      console.error('Redis room storage error:', error);
+    });
+  }
+
+  /**
+   * Open the connection to Redis
+   */
+  async connect(): Promise<void> {
+    if (!this.client.isOpen) {
+      await this.client.connect();
+    }
+  }
+
+  async saveRoom(room: Room): Promise<void> {
+    // An already expired room is not worth keeping (and PXAT in the past is rejected)
+    if (room.expiresAt <= Date.now()) {
+      await this.deleteRoom(room.id);
+      return;
+    }
+
+    await this.client
+      .multi()
+      .set(this.roomKey(room.id), serializeRoom(room), { PXAT: room.expiresAt })
+      .sAdd(this.indexKey(), room.id)
+      .exec();
+  }
+
+  async loadRoom(roomId: string): Promise<Room | null> {
+    const value = await this.client.get(this.roomKey(roomId));
+    return value ? deserializeRoom(value) : null;
+  }
+
+  async loadAllRooms(): Promise<Room[]> {
+    const roomIds = await this.client.sMembers(this.indexKey());
+    if (roomIds.length === 0) {
+      return [];
+    }
+
+    const values = await this.client.mGet(roomIds.map(roomId => this.roomKey(roomId)));
+    const expiredIds = roomIds.filter((_, index) => !values[index]);
+    if (expiredIds.length > 0) {
+      await this.client.sRem(this.indexKey(), expiredIds);
+    }
+
+    return values
+      .filter((value): value is string => !!value)
+      .map(value => deserializeRoom(value));
+  }
+
+  async listRoomIds(): Promise<string[]> {
+    return this.client.sMembers(this.indexKey());
+  }
+
+  async deleteRoom(roomId: string): Promise<void> {
+    await this.client
+      .multi()
+      .del(this.roomKey(roomId))
+      .sRem(this.indexKey(), roomId)
+      .exec();
+  }
+
+  isReady(): boolean {
+    return this.client.isReady;
+  }
+
+  async close(): Promise<void> {
+    if (this.client.isOpen) {
+      await this.client.quit();
+    }
+  }
+
+  private roomKey(roomId: string): string {
+    return `${this.keyPrefix}room:${roomId}`;
+  }
+
+  private indexKey(): string {
+    return `${this.keyPrefix}rooms:index`;
+  }
+}
@@ -43,6 +43,10 @@ export class ReplayManager {
       return false; // Can only vote after game is finished
     }
 
+    if (room.players.length < 2) {
+      return false; // Everyone else left the room
+    }
+
     // Stop any existing vote
     this.stopReplayVote(room.id);
 
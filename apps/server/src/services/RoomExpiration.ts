@@ -14,6 +14,7 @@ export interface ExpirationEvent {
 
 export class RoomExpiration {
   private rooms = new Map<string, Room>();
+  private frozenTtls = new Map<string, number>(); // roomId -> TTL left when frozen (paused games)
   private cleanupInterval: NodeJS.Timeout | null = null;
   private eventCallbacks: ((event: ExpirationEvent) => void)[] = [];
   private options: Required<RoomExpirationOptions>;
@@ -66,6 +67,7 @@ export class RoomExpiration {
    * Remove a room from monitoring
    */
   removeRoom(roomId: string): boolean {
+    this.frozenTtls.delete(roomId);
     return this.rooms.delete(roomId);
   }
 
@@ -87,14 +89,14 @@ export class RoomExpiration {
    * Get expired rooms
    */
   getExpiredRooms(): Room[] {
-    return this.getAllRooms().filter(room => room.hasExpired());
+    return this.getAllRooms().filter(room => !this.frozenTtls.has(room.id) && room.hasExpired());
   }
 
   /**
    * Get active (non-expired) rooms
    */
   getActiveRooms(): Room[] {
-    return this.getAllRooms().filter(room => !room.hasExpired());
+    return this.getAllRooms().filter(room => this.frozenTtls.has(room.id) || !room.hasExpired());
   }
 
   /**
@@ -150,6 +152,9 @@ export class RoomExpiration {
     }
 
     room.resetTTL();
+    if (this.frozenTtls.has(roomId)) {
+      this.frozenTtls.set(roomId, room.expiresAt - Date.now());
+    }
     return true;
   }
 
@@ -162,10 +167,47 @@ export class RoomExpiration {
       return false;
     }
 
+    // An explicit TTL (e.g. everyone left) wins over a freeze
+    this.frozenTtls.delete(roomId);
     room.expiresAt = Date.now() + ttlMs;
     return true;
   }
 
+  /**
+   * Stop a room's TTL from running out (while its game is paused)
+   */
+  freezeRoomTTL(roomId: string): boolean {
+    const room = this.getRoom(roomId);
+    if (!room || this.frozenTtls.has(roomId)) {
+      return false;
+    }
+
+    this.frozenTtls.set(roomId, Math.max(0, room.expiresAt - Date.now()));
+    return true;
+  }
+
+  /**
+   * Let a frozen TTL run again, from what was left of it
+   */
+  unfreezeRoomTTL(roomId: string): boolean {
+    const room = this.getRoom(roomId);
+    const remainingMs = this.frozenTtls.get(roomId);
+    if (!room || remainingMs === undefined) {
+      return false;
+    }
+
+    this.frozenTtls.delete(roomId);
+    room.expiresAt = Date.now() + remainingMs;
+    return true;
+  }
+
+  /**
+   * Check if a room's TTL is frozen
+   */
+  isRoomTTLFrozen(roomId: string): boolean {
+    return this.frozenTtls.has(roomId);
+  }
+
   /**
    * Get room expiration info
    */
@@ -180,12 +222,13 @@ export class RoomExpiration {
     }
 
     const now = Date.now();
-    const remainingMs = Math.max(0, room.expiresAt - now);
+    const frozenMs = this.frozenTtls.get(roomId);
+    const remainingMs = frozenMs ?? Math.max(0, room.expiresAt - now);
 
     return {
-      expiresAt: room.expiresAt,
+      expiresAt: frozenMs !== undefined ? now + frozenMs : room.expiresAt,
       remainingMs,
-      hasExpired: room.hasExpired(),
+      hasExpired: frozenMs === undefined && room.hasExpired(),
     };
   }
 
@@ -245,6 +288,7 @@ export class RoomExpiration {
    */
   clearAll(): void {
     this.rooms.clear();
+    this.frozenTtls.clear();
   }
 
   /**
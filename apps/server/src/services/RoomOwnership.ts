@@ -0,0 +1,68 @@
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Which server node owns (runs) each room
+ * Only the owner mutates a room's game and runs its timers; other nodes forward to it.
+ * Ownership is a lease: a node that stops renewing it loses its rooms to the others.
+ */
+export interface RoomOwnership {
+  readonly nodeId: string;
+
+  /** Take a room if nobody owns it (true if this node owns it now) */
+  claim(roomId: string): Promise<boolean>;
+
+  /** Get the node owning a room, or null if the room is orphaned */
+  getOwner(roomId: string): Promise<string | null>;
+
+  /** Extend the lease of owned rooms, returning the ones this node lost */
+  renew(roomIds: string[]): Promise<string[]>;
+
+  /** Give a room up */
+  release(roomId: string): Promise<void>;
+
+  /** Release the connections of the service */
+  close(): Promise<void>;
+}
+
+/**
+ * Ownership for a single server node: every room belongs to it
+ */
+export class InMemoryRoomOwnership implements RoomOwnership {
+  readonly nodeId = uuidv4();
+  private rooms: Set<string> = new Set();
+
+  async claim(roomId: string): Promise<boolean> {
+    this.rooms.add(roomId);
+    return true;
+  }
+
+  async getOwner(roomId: string): Promise<string | null> {
+    return this.rooms.has(roomId) ? this.nodeId : null;
+  }
+
+  async renew(roomIds: string[]): Promise<string[]> {
+    return roomIds.filter(roomId => !this.rooms.has(roomId));
+  }
+
+  async release(roomId: string): Promise<void> {
+    this.rooms.delete(roomId);
+  }
+
+  async close(): Promise<void> {
+    this.rooms.clear();
+  }
+}
+
+/**
+ * Create the room ownership: shared through Redis when a URL is configured, local otherwise
+ */
+export async function createRoomOwnership(redisUrl?: string): Promise<RoomOwnership> {
+  if (!redisUrl) {
+    return new InMemoryRoomOwnership();
+  }
+
+  const { RedisRoomOwnership } = await import('./RedisRoomOwnership.js');
+  const ownership = new RedisRoomOwnership({ url: redisUrl });
+  await ownership.connect();
+  return ownership;
+}
@@ -0,0 +1,120 @@
+import { Room } from '../models/Room.js';
+import type { RoomJSON } from '../models/Room.js';
+
+// Stored state of a room: its serialized state plus the private code, which toJSON never exposes
+export interface StoredRoom extends RoomJSON {
+  code?: string;
+}
+
+/**
+ * Persistent store of rooms and their games, so a restart does not lose them
+ * Entries expire on their own at the room's expiresAt
+ */
+export interface RoomStorage {
+  readonly kind: 'memory' | 'redis';
+
+  /** Save (or overwrite) the current state of a room */
+  saveRoom(room: Room): Promise<void>;
+
+  /** Load a room, or null if it is unknown or expired */
+  loadRoom(roomId: string): Promise<Room | null>;
+
+  /** Load every room that has not expired yet */
+  loadAllRooms(): Promise<Room[]>;
+
+  /** List the ids of the stored rooms, without loading them (may include rooms that just expired) */
+  listRoomIds(): Promise<string[]>;
+
+  /** Forget a room */
+  deleteRoom(roomId: string): Promise<void>;
+
+  /** Check if the store can currently be used */
+  isReady(): boolean;
+
+  /** Release the store's connections */
+  close(): Promise<void>;
+}
+
+/**
+ * Serialize a room for storage
+ */
+export function serializeRoom(room: Room): string {
+  const stored: StoredRoom = { ...room.toJSON(), code: room.code };
+  return JSON.stringify(stored);
+}
+
+/**
+ * Rebuild a room from its stored state
+ */
+export function deserializeRoom(value: string): Room {
+  const stored = JSON.parse(value) as StoredRoom;
+  return Room.fromJSON(stored, stored.code);
+}
+
+/**
+ * Room store kept in process memory (default when no Redis is configured, and for tests)
+ */
+export class InMemoryRoomStorage implements RoomStorage {
+  readonly kind = 'memory' as const;
+  private entries: Map<string, { value: string; expiresAt: number }> = new Map();
+
+  async saveRoom(room: Room): Promise<void> {
+    this.entries.set(room.id, { value: serializeRoom(room), expiresAt: room.expiresAt });
+  }
+
+  async loadRoom(roomId: string): Promise<Room | null> {
+    const entry = this.getEntry(roomId);
+    return entry ? deserializeRoom(entry.value) : null;
+  }
+
+  async loadAllRooms(): Promise<Room[]> {
+    return [...this.entries.keys()]
+      .map(roomId => this.getEntry(roomId))
+      .filter((entry): entry is { value: string; expiresAt: number } => !!entry)
+      .map(entry => deserializeRoom(entry.value));
+  }
+
+  async listRoomIds(): Promise<string[]> {
+    return [...this.entries.keys()].filter(roomId => !!this.getEntry(roomId));
+  }
+
+  async deleteRoom(roomId: string): Promise<void> {
+    this.entries.delete(roomId);
+  }
+
+  isReady(): boolean {
+    return true;
+  }
+
+  async close(): Promise<void> {
+    this.entries.clear();
+  }
+
+  /**
+   * Get a stored entry, dropping it once expired (like a Redis TTL)
+   */
+  private getEntry(roomId: string): { value: string; expiresAt: number } | null {
+    const entry = this.entries.get(roomId);
+    if (!entry) return null;
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(roomId);
+      return null;
+    }
+    return entry;
+  }
+}
+
+/**
+ * Create the room store: Redis when a URL is configured, in memory otherwise
+ */
+export async function createRoomStorage(redisUrl?: string): Promise<RoomStorage> {
+  if (!redisUrl) {
+    return new InMemoryRoomStorage();
+  }
+
+  const { RedisRoomStorage } = await import('./RedisRoomStorage.js');
+  const storage = new RedisRoomStorage({ url: redisUrl });
+  await storage.connect();
+  return storage;
+}
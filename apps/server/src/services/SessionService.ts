@@ -0,0 +1,151 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+
+export interface SessionServiceOptions {
+  secret?: string; // Default: random per process (tokens do not survive a restart)
+  tokenTtlMs?: number; // Default 24 hours
+}
+
+export interface SessionPayload {
+  playerId: string;
+  issuedAt: number;
+}
+
+export interface Session {
+  playerId: string;
+  token: string;
+  isNew: boolean; // true when no valid token was presented
+}
+
+/**
+ * Service to give each client a stable player id, carried by a signed session token
+ * so that a reconnecting socket keeps its seat
+ */
+export class SessionService {
+  private playerToSocket: Map<string, string> = new Map(); // playerId -> active socket
+  private socketToPlayer: Map<string, string> = new Map(); // socketId -> playerId
+
+  private options: Required<SessionServiceOptions> = {
+    secret: randomBytes(32).toString('hex'),
+    tokenTtlMs: 24 * 60 * 60 * 1000
+  };
+
+  constructor(options: SessionServiceOptions = {}) {
+    this.options = { ...this.options, ...options };
+  }
+
+  /**
+   * Issue a signed token for a player (new player id if none given)
+   */
+  issueToken(playerId: string = uuidv4()): string {
+    const payload: SessionPayload = { playerId, issuedAt: Date.now() };
+    const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+    return `${encoded}.${this.sign(encoded)}`;
+  }
+
+  /**
+   * Check a token signature and age, returning its payload if valid
+   */
+  verifyToken(token: unknown): SessionPayload | null {
+    if (typeof token !== 'string') return null;
+
+    const [encoded, signature, ...rest] = token.split('.');
+    if (!encoded || !signature || rest.length > 0) return null;
+
+    const expected = Buffer.from(this.sign(encoded));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      return null;
+    }
+
+    try {
+      const payload = JSON.parse(Buffer.from(encoded, 'base64url').toString()) as SessionPayload;
+      if (typeof payload.playerId !== 'string' || typeof payload.issuedAt !== 'number') return null;
+      if (Date.now() - payload.issuedAt > this.options.tokenTtlMs) return null;
+      return payload;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Resume the session of a valid token, or start a new one
+   * The token is always refreshed so active players never expire
+   */
+  resolveSession(token: unknown): Session {
+    const payload = this.verifyToken(token);
+    const playerId = payload?.playerId ?? uuidv4();
+
+    return {
+      playerId,
+      token: this.issueToken(playerId),
+      isNew: !payload
+    };
+  }
+
+  /**
+   * Attach a socket to a player, replacing the previous socket of that player
+   * Returns the replaced socket id, if any
+   */
+  bindSocket(playerId: string, socketId: string): string | null {
+    const previousSocketId = this.playerToSocket.get(playerId) ?? null;
+    if (previousSocketId) {
+      this.socketToPlayer.delete(previousSocketId);
+    }
+
+    this.playerToSocket.set(playerId, socketId);
+    this.socketToPlayer.set(socketId, playerId);
+    return previousSocketId !== socketId ? previousSocketId : null;
+  }
+
+  /**
+   * Detach a closed socket
+   * Returns the player id if this was still the player's active socket
+   */
+  unbindSocket(socketId: string): string | null {
+    const playerId = this.socketToPlayer.get(socketId);
+    if (!playerId) return null;
+
+    this.socketToPlayer.delete(socketId);
+    if (this.playerToSocket.get(playerId) !== socketId) return null;
+
+    this.playerToSocket.delete(playerId);
+    return playerId;
+  }
+
+  /**
+   * Get the player id behind a socket
+   */
+  getPlayerId(socketId: string): string | null {
+    return this.socketToPlayer.get(socketId) ?? null;
+  }
+
+  /**
+   * Get the active socket of a player
+   */
+  getSocketId(playerId: string): string | null {
+    return this.playerToSocket.get(playerId) ?? null;
+  }
+
+  /**
+   * Check if a player currently has an open socket
+   */
+  isOnline(playerId: string): boolean {
+    return this.playerToSocket.has(playerId);
+  }
+
+  /**
+   * Sign a token payload
+   */
+  private sign(encoded: string): string {
+    return createHmac('sha256', this.options.secret).update(encoded).digest('base64url');
+  }
+
+  /**
+   * Forget all socket bindings
+   */
+  clearAll(): void {
+    this.playerToSocket.clear();
+    this.socketToPlayer.clear();
+  }
+}
@@ -1,10 +1,8 @@
+import { LOW_TIME_WARNING_SECONDS } from '@mortpion/shared';
 import { Room } from '../models/Room.js';
-import { Player } from '../models/Player.js';
 
 export interface TurnTimerOptions {
-  timeoutMs?: number; // Default 60 seconds
-  antiAbuseEnabled?: boolean; // Default false
-  maxConsecutiveSkips?: number; // Default 3
+  timeoutMs?: number; // Default: what is left of the turn under the room's time control
 }
 
 export interface TimerState {
@@ -17,7 +15,7 @@ export interface TimerState {
 }
 
 export interface TimerEvent {
-  type: 'timeout' | 'warning' | 'started' | 'stopped';
+  type: 'timeout' | 'warning' | 'started' | 'stopped' | 'absent'; // absent: the turn reached a disconnected player
   roomId: string;
   playerId: string;
   remainingMs?: number;
@@ -28,24 +26,21 @@ export interface TimerEvent {
  */
 export class TurnTimer {
   private timers: Map<string, NodeJS.Timeout> = new Map(); // roomId -> timeout
+  private warningTimers: Map<string, NodeJS.Timeout> = new Map(); // roomId -> low-time warning
   private timerStates: Map<string, TimerState> = new Map(); // roomId -> state
   private eventCallbacks: ((event: TimerEvent) => void)[] = [];
 
-  private defaultOptions: Required<TurnTimerOptions> = {
-    timeoutMs: 60 * 1000, // 60 seconds
-    antiAbuseEnabled: false,
-    maxConsecutiveSkips: 3
-  };
+  private defaultOptions: TurnTimerOptions;
 
-  constructor(private options: TurnTimerOptions = {}) {
-    this.defaultOptions = { ...this.defaultOptions, ...options };
+  constructor(options: TurnTimerOptions = {}) {
+    this.defaultOptions = { ...options };
   }
 
   /**
    * Start a timer for a player's turn
    */
   startTimer(room: Room, playerId: string, options?: TurnTimerOptions): boolean {
-    if (room.getStatus() !== 'playing') {
+    if (room.getStatus() !== 'playing' || room.game.pause) {
       return false;
     }
 
@@ -63,6 +58,7 @@ export class TurnTimer {
     this.stopTimer(room.id);
 
     const timerOptions = { ...this.defaultOptions, ...options };
+    const timeoutMs = timerOptions.timeoutMs ?? room.game.getTurnTimeLeftMs();
     const startTime = Date.now();
 
     // Create timer state
@@ -70,8 +66,8 @@ export class TurnTimer {
       roomId: room.id,
       playerId,
       startTime,
-      timeoutMs: timerOptions.timeoutMs,
-      remainingMs: timerOptions.timeoutMs,
+      timeoutMs,
+      remainingMs: timeoutMs,
       isActive: true
     };
 
@@ -80,7 +76,7 @@ export class TurnTimer {
     // Set up timeout
     const timeout = setTimeout(() => {
       this.handleTimeout(room, playerId, timerOptions);
-    }, timerOptions.timeoutMs);
+    }, timeoutMs);
 
     this.timers.set(room.id, timeout);
 
@@ -89,22 +85,26 @@ export class TurnTimer {
       type: 'started',
       roomId: room.id,
       playerId,
-      remainingMs: timerOptions.timeoutMs
+      remainingMs: timeoutMs
     });
 
-    // Set up warning at 10 seconds remaining
-    if (timerOptions.timeoutMs > 10000) {
-      setTimeout(() => {
+    // Set up warning when time runs low (a turn starting below it is low from the start)
+    const warningMs = LOW_TIME_WARNING_SECONDS * 1000;
+    if (timeoutMs > warningMs) {
+      const warning = setTimeout(() => {
+        this.warningTimers.delete(room.id);
         const state = this.timerStates.get(room.id);
         if (state && state.isActive && state.playerId === playerId) {
           this.emitEvent({
             type: 'warning',
             roomId: room.id,
             playerId,
-            remainingMs: 10000
+            remainingMs: warningMs
           });
         }
-      }, timerOptions.timeoutMs - 10000);
+      }, timeoutMs - warningMs);
+
+      this.warningTimers.set(room.id, warning);
     }
 
     return true;
@@ -115,6 +115,7 @@ export class TurnTimer {
    */
   stopTimer(roomId: string): boolean {
     const timeout = this.timers.get(roomId);
+    const warning = this.warningTimers.get(roomId);
     const state = this.timerStates.get(roomId);
 
     if (timeout) {
@@ -122,6 +123,11 @@ export class TurnTimer {
       this.timers.delete(roomId);
     }
 
+    if (warning) {
+      clearTimeout(warning);
+      this.warningTimers.delete(roomId);
+    }
+
     if (state && state.isActive) {
       state.isActive = false;
       this.emitEvent({
@@ -171,7 +177,7 @@ export class TurnTimer {
   /**
    * Handle timer timeout
    */
-  private handleTimeout(room: Room, playerId: string, options: Required<TurnTimerOptions>): void {
+  private handleTimeout(room: Room, playerId: string, options: TurnTimerOptions): void {
     const state = this.timerStates.get(room.id);
     if (!state || !state.isActive || state.playerId !== playerId) {
       return; // Timer was already stopped or player changed
@@ -183,7 +189,13 @@ export class TurnTimer {
       return;
     }
 
-    // Emit timeout event
+    // Stop the timer
+    this.stopTimer(room.id);
+
+    // Skip the player's turn
+    this.skipPlayerTurn(room);
+
+    // Emit timeout event (listeners see the game after the skip)
     this.emitEvent({
       type: 'timeout',
       roomId: room.id,
@@ -191,39 +203,40 @@ export class TurnTimer {
       remainingMs: 0
     });
 
-    // Stop the timer
-    this.stopTimer(room.id);
-
-    // Skip the player's turn
-    this.skipPlayerTurn(room, player, options);
+    // Start timer for the new current player if game is still playing
+    if (room.getStatus() === 'playing') {
+      this.startCurrentTurn(room, options);
+    }
   }
 
   /**
-   * Skip a player's turn due to timeout
+   * Start the timer of the player to move, or report them absent if they are gone
    */
-  private skipPlayerTurn(room: Room, player: Player, options: Required<TurnTimerOptions>): void {
-    if (room.getStatus() !== 'playing' || !room.game) {
+  private startCurrentTurn(room: Room, options?: TurnTimerOptions): void {
+    const currentPlayer = room.game.getCurrentPlayer();
+    if (!currentPlayer) {
       return;
     }
 
-    // Increment skip counter
-    player.incrementSkips();
-
-    // Check for anti-abuse elimination
-    if (options.antiAbuseEnabled && player.skipsInARow >= options.maxConsecutiveSkips) {
-      player.eliminate();
+    const seat = room.getPlayer(currentPlayer.id);
+    if (seat && !seat.connected && !seat.isBot) {
+      // No clock runs for a player who is gone: the room decides what happens to the turn
+      this.emitEvent({ type: 'absent', roomId: room.id, playerId: currentPlayer.id });
+    } else {
+      this.startTimer(room, currentPlayer.id, options);
     }
+  }
 
-    // Skip current player's turn using game logic
-    room.game.skipCurrentPlayer();
-    
-    // Start timer for the new current player if game is still playing
-    if (room.getStatus() === 'playing') {
-      const newCurrentPlayer = room.game.getCurrentPlayer();
-      if (newCurrentPlayer) {
-        this.startTimer(room, newCurrentPlayer.id, options);
-      }
+  /**
+   * Skip the current player's turn due to timeout (the game counts the skip and applies
+   * the anti-abuse policy of the room)
+   */
+  private skipPlayerTurn(room: Room): void {
+    if (room.getStatus() !== 'playing' || !room.game) {
+      return;
     }
+
+    room.game.skipCurrentPlayer('timeout');
   }
 
   /**
@@ -243,14 +256,13 @@ export class TurnTimer {
    * Handle game state changes
    */
   onGameStateChange(room: Room): void {
-    if (room.getStatus() !== 'playing') {
-      // Game ended, stop any active timers
+    if (room.getStatus() !== 'playing' || room.game.pause) {
+      // Game ended or paused, stop any active timers
       this.stopTimer(room.id);
     } else if (room.game) {
       // Game is active, ensure timer is running for current player
-      const currentPlayer = room.game.getCurrentPlayer();
-      if (currentPlayer && !this.hasActiveTimer(room.id)) {
-        this.startTimer(room, currentPlayer.id);
+      if (!this.hasActiveTimer(room.id)) {
+        this.startCurrentTurn(room);
       }
     }
   }
@@ -349,8 +361,12 @@ export class TurnTimer {
     for (const timeout of this.timers.values()) {
       clearTimeout(timeout);
     }
+    for (const warning of this.warningTimers.values()) {
+      clearTimeout(warning);
+    }
     
     this.timers.clear();
+    this.warningTimers.clear();
     this.timerStates.clear();
   }
 
@@ -364,7 +380,7 @@ export class TurnTimer {
   /**
    * Get current options
    */
-  getOptions(): Required<TurnTimerOptions> {
+  getOptions(): TurnTimerOptions {
     return { ...this.defaultOptions };
   }
 }
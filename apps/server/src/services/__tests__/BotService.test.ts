@@ -0,0 +1,233 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { chooseBotMove, getRuleSet } from '@mortpion/shared';
+import { BotService, BotEvent, createWorkerSearch } from '../BotService.js';
+import type { BotSearchRequest } from '../BotService.js';
+import { Game } from '../../models/Game.js';
+import { Room } from '../../models/Room.js';
+import { Player } from '../../models/Player.js';
+
+describe('BotService', () => {
+  // Same search as the worker, run in the test
+  const searchInProcess = async ({ rules, difficulty, ...state }: BotSearchRequest) =>
+    chooseBotMove({ ...state, ruleSet: getRuleSet(rules) }, { difficulty });
+
+  let botService: BotService;
+  let room: Room;
+  let botEvents: BotEvent[];
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    botService = new BotService({ moveDelayMs: 100, replacementDelayMs: 1000, replacementDifficulty: 'easy', search: searchInProcess });
+
+    room = new Room({
+      name: 'Bot Room',
+      hostId: 'host',
+      capacity: 3,
+      isPrivate: false
+    });
+    room.addPlayer(new Player({ id: 'host', nickname: 'Alice', color: 'red' }));
+
+    botEvents = [];
+    botService.onBotEvent((event) => {
+      botEvents.push(event);
+    });
+  });
+
+  afterEach(() => {
+    botService.clearAll();
+    vi.useRealTimers();
+  });
+
+  describe('Adding bots', () => {
+    it('should fill empty seats and start the game when the room is full', () => {
+      const bot1 = room.addBot('easy');
+      expect(room.getStatus()).toBe('waiting');
+
+      const bot2 = room.addBot('hard');
+
+      expect(bot1?.isBot).toBe(true);
+      expect(bot1?.nickname).toBe('Bot 1');
+      expect(bot2?.botDifficulty).toBe('hard');
+      expect(room.getStatus()).toBe('playing');
+      expect(room.game.players.filter(p => p.isBot)).toHaveLength(2);
+    });
+
+    it('should not add a bot to a full or started room', () => {
+      room.addBot('easy');
+      room.addBot('easy');
+
+      expect(room.addBot('easy')).toBeNull();
+    });
+
+    it('should let bots vote for a replay automatically', () => {
+      room.addBot('easy');
+      room.addBot('easy');
+
+      room.startReplayVoting();
+
+      expect(room.replayVotes.size).toBe(2);
+      expect(room.checkReplayVotes()).toBe('pending');
+      room.castReplayVote('host', true);
+      expect(room.checkReplayVotes()).toBe('accepted');
+    });
+  });
+
+  describe('Bot moves', () => {
+    beforeEach(() => {
+      room.addBot('easy');
+      room.addBot('easy');
+    });
+
+    it('should not schedule a move on a human turn', () => {
+      room.game.currentPlayerId = 'host';
+
+      expect(botService.scheduleMove(room)).toBe(false);
+      expect(botService.hasPendingMove(room.id)).toBe(false);
+    });
+
+    it('should play after the delay through the game path', async () => {
+      const bot = room.game.players.find(p => p.isBot)!;
+      room.game.currentPlayerId = bot.id;
+
+      expect(botService.scheduleMove(room)).toBe(true);
+      await vi.advanceTimersByTimeAsync(100);
+
+      expect(botEvents[0]).toMatchObject({ type: 'move', roomId: room.id, playerId: bot.id });
+      expect(room.game.board[botEvents[0].cellIndex!][botEvents[0].size!]).toBe(bot.color);
+      expect(bot.getTotalPieces()).toBe(8);
+    });
+
+    it('should chain moves until a human has to play', async () => {
+      const [, bot1, bot2] = room.game.players;
+      room.game.currentPlayerId = bot1.id;
+
+      botService.scheduleMove(room);
+      await vi.advanceTimersByTimeAsync(200);
+
+      expect(botEvents.map(event => event.playerId)).toEqual([bot1.id, bot2.id]);
+      expect(room.game.currentPlayerId).toBe('host');
+      expect(botService.hasPendingMove(room.id)).toBe(false);
+    });
+
+    it('should skip a bot with no legal move without eliminating it', async () => {
+      const bot = room.game.players.find(p => p.isBot)!;
+      bot.inventory = { P: 0, M: 0, G: 0 };
+      room.game.currentPlayerId = bot.id;
+
+      botService.scheduleMove(room);
+      await vi.advanceTimersByTimeAsync(100);
+
+      expect(botEvents[0]).toMatchObject({ type: 'skipped', playerId: bot.id });
+      expect(room.game.getEvents().find(event => event.type === 'skip')).toMatchObject({ type: 'skip', playerId: bot.id, reason: 'no_moves' });
+      expect(bot.isEliminated).toBe(false);
+    });
+
+    it('should drop a move cancelled during its search', async () => {
+      const bot = room.game.players.find(p => p.isBot)!;
+      room.game.currentPlayerId = bot.id;
+
+      botService.scheduleMove(room);
+      vi.advanceTimersByTime(100);
+      expect(botService.hasPendingMove(room.id)).toBe(true);
+      botService.cancelMove(room.id);
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(botEvents).toHaveLength(0);
+      expect(botService.hasPendingMove(room.id)).toBe(false);
+    });
+
+    it('should drop a move once the turn has moved on', async () => {
+      const bot = room.game.players.find(p => p.isBot)!;
+      room.game.currentPlayerId = bot.id;
+
+      botService.scheduleMove(room);
+      room.game.currentPlayerId = 'host';
+      await vi.advanceTimersByTimeAsync(100);
+
+      expect(botEvents).toHaveLength(0);
+    });
+  });
+
+  describe('Searching in a worker thread', () => {
+    it('should find a legal move off the event loop', async () => {
+      vi.useRealTimers();
+      const rules = room.game.ruleSet.config;
+      const board = getRuleSet(rules).createBoard();
+      const players = [
+        { color: 'red' as const, inventory: { P: 3, M: 3, G: 3 } },
+        { color: 'blue' as const, inventory: { P: 3, M: 3, G: 3 } }
+      ];
+
+      const move = await createWorkerSearch()({ board, players, currentPlayerIndex: 0, rules, difficulty: 'easy' });
+
+      expect(move).not.toBeNull();
+      expect(getRuleSet(rules).isLegalMove(board, move!.cellIndex, move!.size)).toBe(true);
+    });
+  });
+
+  describe('Replacing disconnected players', () => {
+    beforeEach(() => {
+      room.addPlayer(new Player({ id: 'player2', nickname: 'Bob', color: 'blue' }));
+      room.addBot('easy');
+    });
+
+    it('should hand the seat to a bot after the grace period', () => {
+      room.getPlayer('player2')!.setConnected(false);
+
+      botService.scheduleReplacement(room, 'player2');
+      vi.advanceTimersByTime(1000);
+
+      const gamePlayer = room.game.players.find(p => p.id === 'player2')!;
+      expect(botEvents[0]).toEqual({ type: 'replaced', roomId: room.id, playerId: 'player2' });
+      expect(room.getPlayer('player2')!.isBot).toBe(true);
+      expect(gamePlayer.isBot).toBe(true);
+      expect(gamePlayer.color).toBe('blue');
+    });
+
+    it('should keep the bot in the seat once the game is rebuilt', () => {
+      room.getPlayer('player2')!.setConnected(false);
+
+      botService.scheduleReplacement(room, 'player2');
+      vi.advanceTimersByTime(1000);
+
+      const rebuilt = Game.fromEvents(room.game.getEvents());
+      expect(rebuilt.players.find(p => p.id === 'player2')).toMatchObject({ isBot: true, botDifficulty: 'easy' });
+
+      const restored = Room.fromJSON(JSON.parse(JSON.stringify(room.toJSON())));
+      restored.game.currentPlayerId = 'player2';
+      expect(botService.scheduleMove(restored)).toBe(true);
+    });
+
+    it('should not replace a player who came back', () => {
+      const player = room.getPlayer('player2')!;
+      player.setConnected(false);
+
+      botService.scheduleReplacement(room, 'player2');
+      player.setConnected(true);
+      vi.advanceTimersByTime(1000);
+
+      expect(botEvents).toHaveLength(0);
+      expect(player.isBot).toBe(false);
+    });
+
+    it('should cancel a pending replacement', () => {
+      room.getPlayer('player2')!.setConnected(false);
+
+      botService.scheduleReplacement(room, 'player2');
+      expect(botService.cancelReplacement('player2')).toBe(true);
+      vi.advanceTimersByTime(1000);
+
+      expect(botEvents).toHaveLength(0);
+    });
+
+    it('should transfer the host role away from a replaced host', () => {
+      room.getPlayer('host')!.setConnected(false);
+
+      botService.scheduleReplacement(room, 'host');
+      vi.advanceTimersByTime(1000);
+
+      expect(room.hostId).toBe('player2');
+      expect(room.getPlayer('host')!.isHost).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ChatService, createWordFilter } from '../ChatService.js';
+import { Room, CHAT_HISTORY_LIMIT } from '../../models/Room.js';
+import { Player } from '../../models/Player.js';
+
+describe('ChatService', () => {
+  let chatService: ChatService;
+  let room: Room;
+  let host: Player;
+  let guest: Player;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    chatService = new ChatService({ maxMessages: 3, windowMs: 10000 });
+    host = new Player({ nickname: 'Host', color: 'red' });
+    guest = new Player({ nickname: 'Guest', color: 'blue' });
+    room = new Room({ name: 'Chat Room', capacity: 3, hostId: host.id });
+    room.addPlayer(host);
+    room.addPlayer(guest);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('posting', () => {
+    it('should keep posted messages in the room history', () => {
+      const result = chatService.postMessage(room, guest.id, '  Bonne chance !  ');
+
+      expect(result.success).toBe(true);
+      expect(result.message).toMatchObject({ playerId: guest.id, nickname: 'Guest', text: 'Bonne chance !' });
+      expect(room.chatMessages).toEqual([result.message]);
+    });
+
+    it('should only let seated players post', () => {
+      const result = chatService.postMessage(room, 'spectator', 'Hello');
+
+      expect(result).toEqual({ success: false, error: 'Only players can chat' });
+      expect(room.chatMessages).toHaveLength(0);
+    });
+
+    it('should reject empty and overlong messages', () => {
+      const longService = new ChatService({ maxLength: 10 });
+
+      expect(chatService.postMessage(room, guest.id, '   ').success).toBe(false);
+      expect(longService.postMessage(room, guest.id, 'x'.repeat(11)).success).toBe(false);
+      expect(longService.postMessage(room, guest.id, 'x'.repeat(10)).success).toBe(true);
+    });
+
+    it('should run messages through the filter', () => {
+      const filtered = new ChatService({ filter: (text) => text.toUpperCase() });
+
+      expect(filtered.postMessage(room, guest.id, 'gg').message?.text).toBe('GG');
+    });
+  });
+
+  describe('rate limiting', () => {
+    it('should reject messages past the limit until the window passes', () => {
+      for (let i = 0; i < 3; i++) {
+        expect(chatService.postMessage(room, guest.id, `Message ${i}`).success).toBe(true);
+      }
+
+      expect(chatService.postMessage(room, guest.id, 'One more')).toEqual({
+        success: false,
+        error: 'Too many messages, slow down'
+      });
+      expect(chatService.postMessage(room, host.id, 'Host can still talk').success).toBe(true);
+
+      vi.advanceTimersByTime(10001);
+      expect(chatService.postMessage(room, guest.id, 'Back again').success).toBe(true);
+    });
+  });
+
+  describe('muting', () => {
+    it('should reject messages from muted players', () => {
+      room.setMuted(guest.id, true);
+
+      expect(chatService.postMessage(room, guest.id, 'Hello')).toEqual({ success: false, error: 'You are muted' });
+
+      room.setMuted(guest.id, false);
+      expect(chatService.postMessage(room, guest.id, 'Hello').success).toBe(true);
+    });
+
+    it('should never mute the host', () => {
+      expect(room.setMuted(host.id, true)).toBe(false);
+      expect(room.setMuted('stranger', true)).toBe(false);
+    });
+  });
+
+  describe('history', () => {
+    it('should only keep the latest messages', () => {
+      const service = new ChatService({ maxMessages: CHAT_HISTORY_LIMIT + 5 });
+      for (let i = 0; i < CHAT_HISTORY_LIMIT + 5; i++) {
+        service.postMessage(room, guest.id, `Message ${i}`);
+      }
+
+      expect(room.chatMessages).toHaveLength(CHAT_HISTORY_LIMIT);
+      expect(room.chatMessages[0].text).toBe('Message 5');
+    });
+
+    it('should survive a room restore', () => {
+      chatService.postMessage(room, guest.id, 'Hello');
+      room.setMuted(guest.id, true);
+
+      const restored = Room.fromJSON(JSON.parse(JSON.stringify(room.toJSON())));
+
+      expect(restored.chatMessages).toEqual(room.chatMessages);
+      expect(restored.isMuted(guest.id)).toBe(true);
+    });
+  });
+});
+
+describe('createWordFilter', () => {
+  const filter = createWordFilter(['zut', ' flûte ', '']);
+
+  it('should mask listed words whatever their case', () => {
+    expect(filter('Zut alors, FLÛTE !')).toBe('*** alors, ***** !');
+  });
+
+  it('should leave words that only contain a listed word', () => {
+    expect(filter('zutique')).toBe('zutique');
+  });
+
+  it('should pass text through without words', () => {
+    expect(createWordFilter([])('Zut')).toBe('Zut');
+  });
+});
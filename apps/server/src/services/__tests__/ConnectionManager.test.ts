@@ -74,6 +74,18 @@ describe('ConnectionManager', () => {
       expect(connectionManager.getPlayerBySocket('socket1')).toBe('player2');
     });
 
+    it('should move a live connection to a new socket', () => {
+      connectionManager.connect('player1', 'socket1');
+      connectionManager.joinRoom('player1', room.id);
+
+      expect(connectionManager.replaceSocket('player1', 'socket2')).toBe(true);
+
+      expect(connectionManager.getPlayerBySocket('socket1')).toBeNull();
+      expect(connectionManager.getPlayerBySocket('socket2')).toBe('player1');
+      expect(connectionManager.getConnection('player1')!.roomId).toBe(room.id);
+      expect(connectionManager.replaceSocket('player2', 'socket3')).toBe(false);
+    });
+
     it('should update player activity', async () => {
       connectionManager.connect('player1', 'socket1');
       const initialConnection = connectionManager.getConnection('player1')!;
@@ -321,6 +333,23 @@ describe('ConnectionManager', () => {
       expect(result.error).toBe('Player no longer in room');
     });
 
+    it('should reject reconnection when a bot took the seat over', () => {
+      room.addPlayer(players[1]);
+      room.startGame();
+
+      connectionManager.disconnect('player1', { 
+        reason: 'network', 
+        canReconnect: true 
+      });
+      room.replaceWithBot('player1', 'easy');
+
+      const result = connectionManager.reconnect('player1', 'socket2');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Seat taken over by a bot');
+      expect(connectionManager.getDisconnectedPlayers()).toHaveLength(0);
+    });
+
     it('should reject reconnection after timeout', async () => {
       // Disconnect
       connectionManager.disconnect('player1', { 
@@ -180,6 +180,55 @@ describe('LobbyService', () => {
       const retrieved = lobbyService.getRoomByHost('non-existent-host');
       expect(retrieved).toBeNull();
     });
+
+    it('should give rooms short ids that players can type', () => {
+      const room = lobbyService.createRoom({
+        name: 'Typed Room',
+        hostId: players[0].id,
+        capacity: 2,
+        isPrivate: false
+      });
+
+      expect(room.id).toMatch(/^[0-9A-Z]{6}$/);
+    });
+
+    it('should transfer the host of a room', () => {
+      const room = lobbyService.createRoom({
+        name: 'Host Room',
+        hostId: players[0].id,
+        capacity: 3,
+        isPrivate: false
+      });
+      room.addPlayer(players[0]);
+      room.addPlayer(players[1]);
+
+      expect(lobbyService.transferHost(room.id, players[1].id)).toBe(true);
+
+      expect(room.hostId).toBe(players[1].id);
+      expect(lobbyService.getRoomByHost(players[1].id)).toBe(room);
+      expect(lobbyService.getRoomByHost(players[0].id)).toBeNull();
+      expect(lobbyService.transferHost(room.id, 'not-in-room')).toBe(false);
+    });
+
+    it('should let a former host create a room after the host changed in the room', () => {
+      const room = lobbyService.createRoom({
+        name: 'Host Room',
+        hostId: players[0].id,
+        capacity: 3,
+        isPrivate: false
+      });
+      room.addPlayer(players[0]);
+      room.addPlayer(players[1]);
+      room.transferHostTo(players[1].id);
+
+      expect(lobbyService.getRoomByHost(players[0].id)).toBeNull();
+      expect(() => lobbyService.createRoom({
+        name: 'Second Room',
+        hostId: players[0].id,
+        capacity: 2,
+        isPrivate: false
+      })).not.toThrow();
+    });
   });
 
   describe('Room Listing and Search', () => {
@@ -241,6 +290,35 @@ describe('LobbyService', () => {
       expect(waitingRooms.rooms.every(room => room.status === 'waiting')).toBe(true);
     });
 
+    it('should filter rooms by several statuses', () => {
+      const room = lobbyService.getRoomByHost(players[2].id)!;
+      room.addPlayer(players[2]);
+      room.addPlayer(players[3]);
+
+      const result = lobbyService.listRooms({
+        filters: { status: ['waiting', 'playing'] }
+      });
+      const playingRooms = lobbyService.listRooms({
+        filters: { status: ['playing'] }
+      });
+
+      expect(result.rooms).toHaveLength(3);
+      expect(playingRooms.rooms.map(r => r.id)).toEqual([room.id]);
+    });
+
+    it('should list the spectators of each room', () => {
+      const room = lobbyService.getRoomByHost(players[2].id)!;
+      room.addPlayer(players[2]);
+      room.addPlayer(players[3]);
+      room.addSpectator('socket-1', 'watcher');
+
+      const listed = lobbyService.listRooms().rooms.find(r => r.id === room.id);
+
+      expect(listed?.spectatorCount).toBe(1);
+      expect(lobbyService.getRoomBySpectator('socket-1')).toBe(room);
+      expect(lobbyService.getRoomBySpectator('socket-2')).toBeNull();
+    });
+
     it('should filter rooms by available space', () => {
       const roomsWithSpace = lobbyService.listRooms({
         filters: { hasSpace: true }
@@ -470,6 +548,65 @@ describe('LobbyService', () => {
     });
   });
 
+  describe('Kicking Players', () => {
+    let room: any;
+
+    beforeEach(() => {
+      room = lobbyService.createRoom({
+        name: 'Test Room',
+        hostId: players[0].id,
+        capacity: 4,
+        isPrivate: false
+      });
+
+      room.addPlayer(players[0]);
+      lobbyService.joinRoom(room.id, players[1]);
+      lobbyService.joinRoom(room.id, players[2]);
+    });
+
+    it('should remove the player and free their seat', () => {
+      room.setMuted(players[1].id, true);
+
+      const result = lobbyService.kickPlayer(room.id, players[1].id);
+
+      expect(result.success).toBe(true);
+      expect(result.player?.nickname).toBe('Player2');
+      expect(room.players).toHaveLength(2);
+      expect(room.mutedPlayerIds.has(players[1].id)).toBe(false);
+      expect(lobbyService.joinRoom(room.id, players[3]).success).toBe(true);
+    });
+
+    it('should remove bots', () => {
+      lobbyService.kickPlayer(room.id, players[2].id);
+      const bot = room.addBot('easy');
+
+      expect(lobbyService.kickPlayer(room.id, bot.id).success).toBe(true);
+      expect(room.getPlayer(bot.id)).toBeNull();
+    });
+
+    it('should never kick the host', () => {
+      const result = lobbyService.kickPlayer(room.id, players[0].id);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('The host cannot be kicked');
+      expect(lobbyService.getRoomByHost(players[0].id)).toBe(room);
+    });
+
+    it('should reject kicking once the game has started', () => {
+      room.startGame();
+
+      const result = lobbyService.kickPlayer(room.id, players[1].id);
+
+      expect(result.success).toBe(false);
+      expect(room.players).toHaveLength(3);
+    });
+
+    it('should reject unknown rooms and players', () => {
+      expect(lobbyService.kickPlayer('non-existent', players[1].id).error).toBe('Room not found');
+      expect(lobbyService.kickPlayer(room.id, players[3].id).error).toBe('Player not in room');
+    });
+  });
+
   describe('Statistics and Management', () => {
     beforeEach(() => {
       // Create various rooms for testing stats
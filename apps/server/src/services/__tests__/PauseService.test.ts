@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { PauseService, PauseEvent } from '../PauseService.js';
+import { Room } from '../../models/Room.js';
+import { Player } from '../../models/Player.js';
+
+describe('PauseService', () => {
+  let pauseService: PauseService;
+  let room: Room;
+  let events: PauseEvent[];
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    pauseService = new PauseService({ resumeCountdownMs: 1000 });
+    events = [];
+    pauseService.onPauseEvent((event) => events.push(event));
+
+    room = new Room({ name: 'Test Room', capacity: 2, isPrivate: false, hostId: 'player1' });
+    room.addPlayer(new Player({ id: 'player1', nickname: 'Player 1', color: 'red', isHost: true }));
+    room.addPlayer(new Player({ id: 'player2', nickname: 'Player 2', color: 'blue' }));
+    room.startGame();
+  });
+
+  afterEach(() => {
+    pauseService.clearAll();
+    vi.useRealTimers();
+  });
+
+  it('should pause the game', () => {
+    expect(pauseService.pause(room, 'request', 'player1')).toEqual({ success: true });
+
+    expect(room.game.pause).toMatchObject({ reason: 'request', playerId: 'player1' });
+    expect(events[0]).toEqual({ type: 'paused', roomId: room.id, reason: 'request', playerId: 'player1' });
+    expect(pauseService.pause(room, 'request', 'player2').error).toBe('The game is already paused');
+  });
+
+  it('should resume after the countdown', () => {
+    pauseService.pause(room, 'request', 'player1');
+
+    expect(pauseService.requestResume(room, 'player2').success).toBe(true);
+    expect(pauseService.getResumeAt(room.id)).toBe(Date.now() + 1000);
+    expect(room.game.pause).not.toBeNull();
+
+    vi.advanceTimersByTime(1000);
+
+    expect(room.game.pause).toBeNull();
+    expect(events.map(e => e.type)).toEqual(['paused', 'resume_scheduled', 'resumed']);
+    expect(pauseService.getResumeAt(room.id)).toBeNull();
+  });
+
+  it('should run a single countdown at a time', () => {
+    pauseService.pause(room, 'request', 'player1');
+    pauseService.requestResume(room, 'player1');
+
+    expect(pauseService.requestResume(room, 'player2').error).toBe('The game is already resuming');
+  });
+
+  it('should wait for the disconnected player before resuming', () => {
+    room.getPlayer('player1')!.setConnected(false);
+    pauseService.pause(room, 'disconnection', 'player1');
+
+    expect(pauseService.requestResume(room, 'player2').error)
+      .toBe('Waiting for the disconnected player to come back');
+
+    room.getPlayer('player1')!.setConnected(true);
+    expect(pauseService.scheduleResume(room, 'player1')).toBe(true);
+  });
+
+  it('should reject resuming a game that is not paused', () => {
+    expect(pauseService.requestResume(room, 'player1').error).toBe('The game is not paused');
+    expect(pauseService.scheduleResume(room)).toBe(false);
+  });
+
+  it('should keep the game paused when the countdown is cancelled', () => {
+    pauseService.pause(room, 'request', 'player1');
+    pauseService.requestResume(room, 'player2');
+
+    expect(pauseService.cancelResume(room.id)).toBe(true);
+    vi.advanceTimersByTime(1000);
+
+    expect(room.game.pause).not.toBeNull();
+    expect(events.filter(e => e.type === 'resumed')).toHaveLength(0);
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ProposalService, ProposalEvent } from '../ProposalService.js';
+import { Room } from '../../models/Room.js';
+import { Player } from '../../models/Player.js';
+
+describe('ProposalService', () => {
+  let proposalService: ProposalService;
+  let room: Room;
+  let events: ProposalEvent[];
+
+  const resolved = () => events.filter(e => e.type === 'proposal_resolved');
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    proposalService = new ProposalService({ responseTimeoutMs: 1000 });
+    events = [];
+    proposalService.onProposalEvent((event) => events.push(event));
+
+    room = new Room({ name: 'Test Room', capacity: 3, isPrivate: false, hostId: 'player1' });
+    room.addPlayer(new Player({ id: 'player1', nickname: 'Player 1', color: 'red', isHost: true }));
+    room.addPlayer(new Player({ id: 'player2', nickname: 'Player 2', color: 'blue' }));
+    room.addPlayer(new Player({ id: 'player3', nickname: 'Player 3', color: 'green' }));
+    room.startGame();
+  });
+
+  afterEach(() => {
+    proposalService.clearAll();
+    vi.useRealTimers();
+  });
+
+  describe('Draw Offers', () => {
+    it('should ask every other player still in the game', () => {
+      const result = proposalService.propose(room, 'draw', 'player1');
+
+      expect(result.success).toBe(true);
+      expect(events[0]).toMatchObject({ type: 'proposal_started', kind: 'draw', proposerId: 'player1' });
+      expect(proposalService.getProposal(room.id)).toMatchObject({
+        kind: 'draw',
+        responderIds: ['player2', 'player3'],
+        responses: {},
+      });
+    });
+
+    it('should be accepted once everyone accepted', () => {
+      proposalService.propose(room, 'draw', 'player1');
+
+      proposalService.respond(room.id, 'draw', 'player2', true);
+      expect(resolved()).toHaveLength(0);
+
+      proposalService.respond(room.id, 'draw', 'player3', true);
+      expect(resolved()[0]).toMatchObject({ kind: 'draw', result: 'accepted' });
+      expect(proposalService.getProposal(room.id)).toBeNull();
+    });
+
+    it('should be declined by a single refusal', () => {
+      proposalService.propose(room, 'draw', 'player1');
+
+      proposalService.respond(room.id, 'draw', 'player3', false);
+
+      expect(resolved()[0]).toMatchObject({ result: 'declined', playerId: 'player3' });
+    });
+
+    it('should expire without an answer', () => {
+      proposalService.propose(room, 'draw', 'player1');
+
+      vi.advanceTimersByTime(1000);
+
+      expect(resolved()[0]).toMatchObject({ result: 'expired' });
+    });
+
+    it('should leave eliminated players and bots out', () => {
+      room.game.forfeit('player3');
+      room.game.players.find(p => p.id === 'player2')!.replaceByBot('easy');
+
+      proposalService.propose(room, 'draw', 'player1');
+
+      expect(resolved()[0]).toMatchObject({ result: 'accepted' });
+    });
+
+    it('should allow a single pending proposal per room', () => {
+      proposalService.propose(room, 'draw', 'player1');
+
+      expect(proposalService.propose(room, 'draw', 'player2')).toEqual({
+        success: false,
+        error: 'A proposal is already pending',
+      });
+    });
+
+    it('should reject answers from players who were not asked', () => {
+      proposalService.propose(room, 'draw', 'player1');
+
+      expect(proposalService.respond(room.id, 'draw', 'player1', true).success).toBe(false);
+      expect(proposalService.respond(room.id, 'takeback', 'player2', true).success).toBe(false);
+    });
+
+    it('should reject proposals outside of a game in progress', () => {
+      room.game.agreeDraw();
+
+      expect(proposalService.propose(room, 'draw', 'player1').error).toBe('No game in progress');
+    });
+  });
+
+  describe('Takeback Requests', () => {
+    it('should only let the author of the last placement ask', () => {
+      const author = room.game.currentPlayerId!;
+      room.game.applyMove(author, 4, 'G');
+      const other = room.game.players.find(p => p.id !== author)!.id;
+
+      expect(proposalService.propose(room, 'takeback', other).success).toBe(false);
+      expect(proposalService.propose(room, 'takeback', author).success).toBe(true);
+    });
+
+    it('should reject a takeback before any placement', () => {
+      expect(proposalService.propose(room, 'takeback', 'player1').error)
+        .toBe('Only your own last placement can be taken back');
+    });
+  });
+
+  describe('Pause Requests', () => {
+    it('should only ask the connected players', () => {
+      room.getPlayer('player3')!.setConnected(false);
+
+      proposalService.propose(room, 'pause', 'player1');
+
+      expect(proposalService.getProposal(room.id)?.responderIds).toEqual(['player2']);
+    });
+
+    it('should reject proposals while the game is paused', () => {
+      room.game.pauseGame('request', 'player1');
+
+      expect(proposalService.propose(room, 'draw', 'player2').error).toBe('The game is paused');
+    });
+  });
+
+  describe('Cancellation', () => {
+    it('should cancel the pending proposal', () => {
+      proposalService.propose(room, 'draw', 'player1');
+
+      expect(proposalService.cancelProposal(room.id)).toBe(true);
+      expect(resolved()[0]).toMatchObject({ result: 'cancelled' });
+
+      vi.advanceTimersByTime(1000);
+      expect(resolved()).toHaveLength(1);
+    });
+
+    it('should do nothing without a pending proposal', () => {
+      expect(proposalService.cancelProposal(room.id)).toBe(false);
+      expect(events).toHaveLength(0);
+    });
+  });
+});
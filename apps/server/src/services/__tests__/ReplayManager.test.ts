@@ -64,6 +64,13 @@ describe('ReplayManager', () => {
   });
 
   describe('Vote Management', () => {
+    it('should not start a vote once everyone else left the room', () => {
+      room.removePlayer(player2.id);
+      room.removePlayer(player3.id);
+
+      expect(replayManager.startReplayVote(room)).toBe(false);
+    });
+
     it('should start replay vote for finished game', () => {
       const success = replayManager.startReplayVote(room);
       expect(success).toBe(true);
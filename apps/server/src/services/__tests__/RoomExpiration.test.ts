@@ -206,6 +206,28 @@ describe('RoomExpiration', () => {
       expect(info!.remainingMs).toBe(0);
       expect(info!.hasExpired).toBe(true);
     });
+
+    it('should not expire a room while its TTL is frozen', () => {
+      roomExpiration.setRoomTTL(room1.id, 5000);
+      expect(roomExpiration.freezeRoomTTL(room1.id)).toBe(true);
+
+      room1.expiresAt = Date.now() - 1000;
+      expect(roomExpiration.getExpiredRooms()).toHaveLength(0);
+      expect(roomExpiration.getRoomExpirationInfo(room1.id)!.hasExpired).toBe(false);
+
+      expect(roomExpiration.unfreezeRoomTTL(room1.id)).toBe(true);
+      expect(room1.expiresAt).toBeGreaterThan(Date.now() + 4000);
+      expect(roomExpiration.isRoomTTLFrozen(room1.id)).toBe(false);
+    });
+
+    it('should let an explicit TTL override a freeze', () => {
+      roomExpiration.freezeRoomTTL(room1.id);
+
+      roomExpiration.setRoomTTL(room1.id, -1000);
+
+      expect(roomExpiration.isRoomTTLFrozen(room1.id)).toBe(false);
+      expect(roomExpiration.getExpiredRooms()).toEqual([room1]);
+    });
   });
 
   describe('Manual Cleanup', () => {
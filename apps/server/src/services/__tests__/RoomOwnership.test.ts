@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { InMemoryRoomOwnership, createRoomOwnership } from '../RoomOwnership.js';
+import type { RoomOwnership } from '../RoomOwnership.js';
+
+describe('InMemoryRoomOwnership', () => {
+  let ownership: RoomOwnership;
+
+  beforeEach(() => {
+    ownership = new InMemoryRoomOwnership();
+  });
+
+  it('should own every room it claims', async () => {
+    expect(await ownership.claim('ROOM01')).toBe(true);
+    expect(await ownership.getOwner('ROOM01')).toBe(ownership.nodeId);
+  });
+
+  it('should report unclaimed rooms as orphaned', async () => {
+    expect(await ownership.getOwner('ROOM01')).toBeNull();
+  });
+
+  it('should keep claimed rooms on renewal', async () => {
+    await ownership.claim('ROOM01');
+
+    expect(await ownership.renew(['ROOM01', 'ROOM02'])).toEqual(['ROOM02']);
+  });
+
+  it('should give released rooms up', async () => {
+    await ownership.claim('ROOM01');
+    await ownership.release('ROOM01');
+
+    expect(await ownership.getOwner('ROOM01')).toBeNull();
+  });
+});
+
+// Two nodes sharing one Redis (e.g. a local redis-server), only run when REDIS_URL is set
+describe.skipIf(!process.env.REDIS_URL)('RedisRoomOwnership', () => {
+  let nodeA: RoomOwnership;
+  let nodeB: RoomOwnership;
+  const roomId = `TEST-${Date.now()}`;
+
+  beforeEach(async () => {
+    nodeA = await createRoomOwnership(process.env.REDIS_URL);
+    nodeB = await createRoomOwnership(process.env.REDIS_URL);
+  });
+
+  afterEach(async () => {
+    await nodeA.release(roomId);
+    await nodeB.release(roomId);
+    await Promise.all([nodeA.close(), nodeB.close()]);
+  });
+
+  it('should let a single node own a room', async () => {
+    expect(await nodeA.claim(roomId)).toBe(true);
+    expect(await nodeB.claim(roomId)).toBe(false);
+    expect(await nodeB.getOwner(roomId)).toBe(nodeA.nodeId);
+  });
+
+  it('should only renew the leases a node holds', async () => {
+    await nodeA.claim(roomId);
+
+    expect(await nodeA.renew([roomId])).toEqual([]);
+    expect(await nodeB.renew([roomId])).toEqual([roomId]);
+  });
+
+  it('should hand a released room to the next claimer', async () => {
+    await nodeA.claim(roomId);
+    await nodeB.release(roomId); // Not the owner: no effect
+    expect(await nodeB.claim(roomId)).toBe(false);
+
+    await nodeA.release(roomId);
+    expect(await nodeB.claim(roomId)).toBe(true);
+  });
+});
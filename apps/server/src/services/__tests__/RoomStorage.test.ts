@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { InMemoryRoomStorage, createRoomStorage } from '../RoomStorage.js';
+import type { RoomStorage } from '../RoomStorage.js';
+import { Room } from '../../models/Room.js';
+import { Player } from '../../models/Player.js';
+
+// Same behaviour expected from every store; the Redis one needs REDIS_URL (e.g. a local redis-server)
+const stores: [string, () => Promise<RoomStorage>][] = [
+  ['InMemoryRoomStorage', async () => new InMemoryRoomStorage()],
+  ...(process.env.REDIS_URL
+    ? [['RedisRoomStorage', () => createRoomStorage(process.env.REDIS_URL)] as [string, () => Promise<RoomStorage>]]
+    : []),
+];
+
+describe.each(stores)('%s', (_name, createStorage) => {
+  let storage: RoomStorage;
+  let room: Room;
+
+  const createRoom = (options: { isPrivate?: boolean } = {}) => {
+    const host = new Player({ nickname: 'Alice', color: 'red', isHost: true });
+    const created = new Room({
+      name: 'Persisted Room',
+      capacity: 2,
+      isPrivate: options.isPrivate ?? false,
+      code: options.isPrivate ? 'AB12' : undefined,
+      hostId: host.id,
+    });
+    created.addPlayer(host);
+    return created;
+  };
+
+  beforeEach(async () => {
+    storage = await createStorage();
+    room = createRoom();
+  });
+
+  afterEach(async () => {
+    for (const stored of await storage.loadAllRooms()) {
+      await storage.deleteRoom(stored.id);
+    }
+    await storage.close();
+  });
+
+  it('should be ready once created', () => {
+    expect(storage.isReady()).toBe(true);
+  });
+
+  it('should save and load a waiting room', async () => {
+    await storage.saveRoom(room);
+
+    const loaded = await storage.loadRoom(room.id);
+
+    expect(loaded).not.toBeNull();
+    expect(loaded!.toJSON()).toEqual(room.toJSON());
+  });
+
+  it('should keep a game in progress', async () => {
+    room.addPlayer(new Player({ nickname: 'Bob', color: 'blue' }));
+    const currentPlayerId = room.game.currentPlayerId!;
+    room.game.applyMove(currentPlayerId, 4, 'G');
+
+    await storage.saveRoom(room);
+    const loaded = (await storage.loadRoom(room.id))!;
+
+    expect(loaded.getStatus()).toBe('playing');
+    expect(loaded.game.board).toEqual(room.game.board);
+    expect(loaded.game.currentPlayerId).toBe(room.game.currentPlayerId);
+    expect(loaded.game.getEvents()).toEqual(room.game.getEvents());
+    expect(loaded.game.players.map(p => p.inventory)).toEqual(room.game.players.map(p => p.inventory));
+  });
+
+  it('should keep the access code of a private room', async () => {
+    const privateRoom = createRoom({ isPrivate: true });
+
+    await storage.saveRoom(privateRoom);
+    const loaded = (await storage.loadRoom(privateRoom.id))!;
+
+    expect(loaded.verifyCode('AB12')).toBe(true);
+    expect(loaded.verifyCode('ZZZZ')).toBe(false);
+  });
+
+  it('should overwrite a room on each save', async () => {
+    await storage.saveRoom(room);
+    room.addPlayer(new Player({ nickname: 'Bob', color: 'blue' }));
+    await storage.saveRoom(room);
+
+    const loaded = (await storage.loadRoom(room.id))!;
+    expect(loaded.players).toHaveLength(2);
+    expect(await storage.loadAllRooms()).toHaveLength(1);
+  });
+
+  it('should load every stored room', async () => {
+    const otherRoom = createRoom();
+
+    await storage.saveRoom(room);
+    await storage.saveRoom(otherRoom);
+
+    const ids = (await storage.loadAllRooms()).map(r => r.id).sort();
+    expect(ids).toEqual([room.id, otherRoom.id].sort());
+    expect((await storage.listRoomIds()).sort()).toEqual([room.id, otherRoom.id].sort());
+  });
+
+  it('should forget deleted rooms', async () => {
+    await storage.saveRoom(room);
+    await storage.deleteRoom(room.id);
+
+    expect(await storage.loadRoom(room.id)).toBeNull();
+    expect(await storage.loadAllRooms()).toEqual([]);
+  });
+
+  it('should return null for unknown rooms', async () => {
+    expect(await storage.loadRoom('UNKNOWN')).toBeNull();
+  });
+
+  it('should drop rooms once they expire', async () => {
+    room.expiresAt = Date.now() + 50;
+    await storage.saveRoom(room);
+
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    expect(await storage.loadRoom(room.id)).toBeNull();
+    expect(await storage.loadAllRooms()).toEqual([]);
+  });
+
+  it('should not store a room that has already expired', async () => {
+    room.expiresAt = Date.now() - 1000;
+    await storage.saveRoom(room);
+
+    expect(await storage.loadRoom(room.id)).toBeNull();
+  });
+});
+
+describe('createRoomStorage', () => {
+  it('should keep rooms in memory when no Redis URL is configured', async () => {
+    const storage = await createRoomStorage(undefined);
+
+    expect(storage.kind).toBe('memory');
+    await storage.close();
+  });
+});
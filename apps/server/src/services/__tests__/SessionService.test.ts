@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { SessionService } from '../SessionService.js';
+
+describe('SessionService', () => {
+  let sessionService: SessionService;
+
+  beforeEach(() => {
+    sessionService = new SessionService({ secret: 'test-secret', tokenTtlMs: 60 * 1000 });
+  });
+
+  afterEach(() => {
+    sessionService.clearAll();
+    vi.useRealTimers();
+  });
+
+  describe('Tokens', () => {
+    it('should start a new session without a token', () => {
+      const session = sessionService.resolveSession(undefined);
+
+      expect(session.isNew).toBe(true);
+      expect(session.playerId).toMatch(/^[0-9a-f-]{36}$/);
+      expect(sessionService.verifyToken(session.token)?.playerId).toBe(session.playerId);
+    });
+
+    it('should resume the same player id from a valid token', () => {
+      const first = sessionService.resolveSession(undefined);
+      const second = sessionService.resolveSession(first.token);
+
+      expect(second.isNew).toBe(false);
+      expect(second.playerId).toBe(first.playerId);
+    });
+
+    it('should reject a tampered token', () => {
+      const { token } = sessionService.resolveSession(undefined);
+      const [, signature] = token.split('.');
+      const forged = Buffer.from(JSON.stringify({ playerId: 'someone-else', issuedAt: Date.now() })).toString('base64url');
+
+      expect(sessionService.verifyToken(`${forged}.${signature}`)).toBeNull();
+      expect(sessionService.resolveSession(`${forged}.${signature}`).playerId).not.toBe('someone-else');
+    });
+
+    it('should reject a token signed with another secret', () => {
+      const other = new SessionService({ secret: 'other-secret' });
+
+      expect(sessionService.verifyToken(other.issueToken('player1'))).toBeNull();
+    });
+
+    it('should reject malformed tokens', () => {
+      expect(sessionService.verifyToken('not-a-token')).toBeNull();
+      expect(sessionService.verifyToken('a.b.c')).toBeNull();
+      expect(sessionService.verifyToken(42)).toBeNull();
+    });
+
+    it('should reject an expired token', () => {
+      vi.useFakeTimers();
+      const token = sessionService.issueToken('player1');
+
+      vi.advanceTimersByTime(61 * 1000);
+
+      expect(sessionService.verifyToken(token)).toBeNull();
+    });
+
+    it('should refresh the token on every resume', () => {
+      vi.useFakeTimers();
+      const first = sessionService.resolveSession(undefined);
+
+      vi.advanceTimersByTime(45 * 1000);
+      const second = sessionService.resolveSession(first.token);
+      vi.advanceTimersByTime(45 * 1000);
+
+      expect(sessionService.verifyToken(first.token)).toBeNull();
+      expect(sessionService.verifyToken(second.token)?.playerId).toBe(first.playerId);
+    });
+  });
+
+  describe('Socket bindings', () => {
+    it('should map sockets to players both ways', () => {
+      sessionService.bindSocket('player1', 'socket1');
+
+      expect(sessionService.getPlayerId('socket1')).toBe('player1');
+      expect(sessionService.getSocketId('player1')).toBe('socket1');
+      expect(sessionService.isOnline('player1')).toBe(true);
+    });
+
+    it('should replace the previous socket of a player', () => {
+      sessionService.bindSocket('player1', 'socket1');
+
+      expect(sessionService.bindSocket('player1', 'socket2')).toBe('socket1');
+      expect(sessionService.getPlayerId('socket1')).toBeNull();
+      expect(sessionService.getSocketId('player1')).toBe('socket2');
+    });
+
+    it('should ignore the close of a replaced socket', () => {
+      sessionService.bindSocket('player1', 'socket1');
+      sessionService.bindSocket('player1', 'socket2');
+
+      expect(sessionService.unbindSocket('socket1')).toBeNull();
+      expect(sessionService.isOnline('player1')).toBe(true);
+
+      expect(sessionService.unbindSocket('socket2')).toBe('player1');
+      expect(sessionService.isOnline('player1')).toBe(false);
+    });
+  });
+});
@@ -3,6 +3,8 @@ import { TurnTimer, TurnTimerOptions, TimerEvent } from '../TurnTimer.js';
 import { Room } from '../../models/Room.js';
 import { Player } from '../../models/Player.js';
 import { Game } from '../../models/Game.js';
+import { DEFAULT_ANTI_ABUSE_POLICY } from '@mortpion/shared';
+import type { AntiAbusePolicy } from '@mortpion/shared';
 
 describe('TurnTimer', () => {
   let turnTimer: TurnTimer;
@@ -167,6 +169,22 @@ describe('TurnTimer', () => {
       expect(currentPlayer.skipsInARow).toBe(initialSkips + 1);
     });
 
+    it('should emit timeout event once the turn has been skipped', async () => {
+      const currentPlayer = room.game!.getCurrentPlayer()!;
+      let currentPlayerAtTimeout: string | null = null;
+      turnTimer.onTimerEvent((event) => {
+        if (event.type === 'timeout') {
+          currentPlayerAtTimeout = room.game!.currentPlayerId;
+        }
+      });
+
+      turnTimer.startTimer(room, currentPlayer.id);
+      await new Promise(resolve => setTimeout(resolve, 1100));
+
+      expect(currentPlayerAtTimeout).not.toBeNull();
+      expect(currentPlayerAtTimeout).not.toBe(currentPlayer.id);
+    });
+
     it('should emit warning event before timeout', async () => {
       // Use longer timeout to test warning
       const longTimer = new TurnTimer({ timeoutMs: 15000 }); // 15 seconds
@@ -185,6 +203,47 @@ describe('TurnTimer', () => {
 
       longTimer.clearAll();
     }, 10000); // Increase test timeout to 10 seconds
+
+    it('should cancel the warning of a restarted timer', () => {
+      vi.useFakeTimers();
+      const longTimer = new TurnTimer({ timeoutMs: 15000 });
+      const events: TimerEvent[] = [];
+      longTimer.onTimerEvent((event) => events.push(event));
+
+      const currentPlayer = room.game!.getCurrentPlayer()!;
+      longTimer.startTimer(room, currentPlayer.id);
+      vi.advanceTimersByTime(3000);
+      longTimer.startTimer(room, currentPlayer.id);
+
+      // The first timer's warning would have fired 5 seconds in
+      vi.advanceTimersByTime(2500);
+      expect(events.filter(e => e.type === 'warning')).toHaveLength(0);
+
+      vi.advanceTimersByTime(2500);
+      expect(events.filter(e => e.type === 'warning')).toHaveLength(1);
+
+      longTimer.clearAll();
+      vi.useRealTimers();
+    });
+
+    it("should time the turn with the room's time control by default", () => {
+      const bankRoom = new Room({
+        name: 'Bank Room',
+        hostId: players[0].id,
+        capacity: 2,
+        isPrivate: false,
+        timeControl: { type: 'bank', bankSeconds: 90 }
+      });
+      players.slice(0, 2).forEach(player => bankRoom.addPlayer(player));
+
+      const roomTimer = new TurnTimer();
+      roomTimer.startTimer(bankRoom, bankRoom.game.currentPlayerId!);
+
+      expect(roomTimer.getTimerState(bankRoom.id)?.timeoutMs).toBeGreaterThan(89000);
+      expect(roomTimer.getTimerState(bankRoom.id)?.timeoutMs).toBeLessThanOrEqual(90000);
+
+      roomTimer.clearAll();
+    });
   });
 
   describe('Game Integration', () => {
@@ -218,6 +277,17 @@ describe('TurnTimer', () => {
       expect(turnTimer.hasActiveTimer(room.id)).toBe(false);
     });
 
+    it('should not run while the game is paused', () => {
+      const currentPlayer = room.game!.getCurrentPlayer()!;
+      turnTimer.startTimer(room, currentPlayer.id);
+
+      room.game!.pauseGame('request', currentPlayer.id);
+      turnTimer.onGameStateChange(room);
+
+      expect(turnTimer.hasActiveTimer(room.id)).toBe(false);
+      expect(turnTimer.startTimer(room, currentPlayer.id)).toBe(false);
+    });
+
     it('should move to next player after timeout', async () => {
       const currentPlayer = room.game!.getCurrentPlayer()!;
       const initialCurrentPlayerId = currentPlayer.id;
@@ -239,40 +309,42 @@ describe('TurnTimer', () => {
   });
 
   describe('Anti-Abuse System', () => {
+    // Timeouts are skips like any other: the game applies the policy of the room
+    const startPolicyRoom = (antiAbuse: AntiAbusePolicy) => {
+      const policyRoom = new Room({ name: 'Policy Room', hostId: 'host', capacity: 2, isPrivate: false, antiAbuse });
+      policyRoom.addPlayer(new Player({ id: 'host', nickname: 'Host', color: 'red' }));
+      policyRoom.addPlayer(new Player({ id: 'guest', nickname: 'Guest', color: 'blue' }));
+      policyRoom.startGame();
+      return policyRoom;
+    };
+
     it('should eliminate player after max consecutive skips', async () => {
-      const antiAbuseTimer = new TurnTimer({ 
-        timeoutMs: 500, 
-        antiAbuseEnabled: true, 
-        maxConsecutiveSkips: 2 
-      });
+      const policyRoom = startPolicyRoom({ ...DEFAULT_ANTI_ABUSE_POLICY, maxConsecutiveSkips: 2 });
+      const antiAbuseTimer = new TurnTimer({ timeoutMs: 500 });
 
-      const currentPlayer = room.game!.getCurrentPlayer()!;
-      // Get the actual player instance stored in the room
-      const roomPlayer = room.getPlayer(currentPlayer.id)!;
+      const currentPlayer = policyRoom.game.getCurrentPlayer()!;
       
       // Give player one skip already
-      roomPlayer.incrementSkips();
-      expect(roomPlayer.skipsInARow).toBe(1);
-      expect(roomPlayer.isEliminated).toBe(false);
+      currentPlayer.incrementSkips();
+      expect(currentPlayer.skipsInARow).toBe(1);
+      expect(currentPlayer.isEliminated).toBe(false);
 
-      // Start timer and let it timeout twice
-      antiAbuseTimer.startTimer(room, currentPlayer.id);
+      antiAbuseTimer.startTimer(policyRoom, currentPlayer.id);
       await new Promise(resolve => setTimeout(resolve, 600));
 
       // Player should be eliminated after second timeout
-      expect(roomPlayer.skipsInARow).toBe(2);
-      expect(roomPlayer.isEliminated).toBe(true);
+      expect(currentPlayer.skipsInARow).toBe(2);
+      expect(currentPlayer.isEliminated).toBe(true);
+      expect(policyRoom.game.getEliminationReason(currentPlayer.id)).toBe('consecutive_skips');
 
       antiAbuseTimer.clearAll();
     });
 
     it('should not eliminate player when anti-abuse is disabled', async () => {
-      const normalTimer = new TurnTimer({ 
-        timeoutMs: 500, 
-        antiAbuseEnabled: false 
-      });
+      const policyRoom = startPolicyRoom({ ...DEFAULT_ANTI_ABUSE_POLICY, enabled: false });
+      const normalTimer = new TurnTimer({ timeoutMs: 500 });
 
-      const currentPlayer = room.game!.getCurrentPlayer()!;
+      const currentPlayer = policyRoom.game.getCurrentPlayer()!;
       
       // Give player many skips
       for (let i = 0; i < 5; i++) {
@@ -280,7 +352,7 @@ describe('TurnTimer', () => {
       }
       expect(currentPlayer.skipsInARow).toBe(5);
 
-      normalTimer.startTimer(room, currentPlayer.id);
+      normalTimer.startTimer(policyRoom, currentPlayer.id);
       await new Promise(resolve => setTimeout(resolve, 600));
 
       // Player should not be eliminated
@@ -322,6 +394,33 @@ describe('TurnTimer', () => {
       const state = turnTimer.getTimerState(room.id);
       expect(state?.playerId).toBe(currentPlayer.id);
     });
+
+    it('should report a turn passing to an already-disconnected player', () => {
+      const currentPlayer = room.game.getCurrentPlayer()!;
+      const seats = room.game.players;
+      const nextPlayer = seats[(seats.indexOf(currentPlayer) + 1) % seats.length];
+      room.getPlayer(nextPlayer.id)!.setConnected(false);
+
+      room.game.applyMove(currentPlayer.id, 4, 'G');
+      turnTimer.onGameStateChange(room);
+
+      expect(room.game.currentPlayerId).toBe(nextPlayer.id);
+      expect(timerEvents).toContainEqual({ type: 'absent', roomId: room.id, playerId: nextPlayer.id });
+      expect(turnTimer.hasActiveTimer(room.id)).toBe(false);
+    });
+
+    it('should report an already-disconnected player whose turn comes after a timeout', async () => {
+      const currentPlayer = room.game.getCurrentPlayer()!;
+      const seats = room.game.players;
+      const nextPlayer = seats[(seats.indexOf(currentPlayer) + 1) % seats.length];
+      room.getPlayer(nextPlayer.id)!.setConnected(false);
+
+      turnTimer.startTimer(room, currentPlayer.id);
+      await new Promise(resolve => setTimeout(resolve, 1100));
+
+      expect(timerEvents.map(event => event.type)).toEqual(['started', 'stopped', 'timeout', 'absent']);
+      expect(timerEvents[3].playerId).toBe(nextPlayer.id);
+    });
   });
 
   describe('Statistics and Management', () => {
@@ -346,17 +445,13 @@ describe('TurnTimer', () => {
 
     it('should update and get options', () => {
       const newOptions: TurnTimerOptions = {
-        timeoutMs: 30000,
-        antiAbuseEnabled: true,
-        maxConsecutiveSkips: 5
+        timeoutMs: 30000
       };
 
       turnTimer.updateOptions(newOptions);
       const currentOptions = turnTimer.getOptions();
 
       expect(currentOptions.timeoutMs).toBe(30000);
-      expect(currentOptions.antiAbuseEnabled).toBe(true);
-      expect(currentOptions.maxConsecutiveSkips).toBe(5);
     });
 
     it('should clear all timers', () => {
@@ -0,0 +1,10 @@
+// Bot move search in a worker thread, so a long search never blocks the server event loop
+// (see createWorkerSearch in BotService.ts). Plain JavaScript: worker threads load it as is,
+// under tsx in development as well as from dist.
+import { parentPort } from 'node:worker_threads';
+import { chooseBotMove, getRuleSet } from '@mortpion/shared';
+
+parentPort.on('message', ({ requestId, board, players, currentPlayerIndex, rules, difficulty }) => {
+  const move = chooseBotMove({ board, players, currentPlayerIndex, ruleSet: getRuleSet(rules) }, { difficulty });
+  parentPort.postMessage({ requestId, move });
+});
@@ -0,0 +1,258 @@
+import type { Board, BotDifficulty, Color, PlayerInventory, Size } from './types.js';
+import { getBoardSize, getVisiblePiece, getWinningLines } from './game-logic.js';
+import type { RuleSet } from './rule-sets.js';
+
+// Minimal player shape the bot needs (works with shared, server and local players)
+export interface BotPlayer {
+  color: Color;
+  inventory: PlayerInventory;
+  isEliminated?: boolean;
+}
+
+// Position the bot is asked to play from
+export interface BotGameState {
+  board: Board;
+  players: BotPlayer[];
+  currentPlayerIndex: number;
+  ruleSet: RuleSet;
+}
+
+export interface BotMove {
+  cellIndex: number;
+  size: Size;
+}
+
+// Search settings behind a difficulty level
+export interface BotSettings {
+  depth: number; // maximum search depth, in moves
+  randomness: number; // probability (0..1) of playing a random legal move instead of the best one
+  timeBudgetMs: number; // iterative deepening stops deeper searches once spent
+}
+
+export const BOT_DIFFICULTIES: Record<BotDifficulty, BotSettings> = {
+  easy: { depth: 1, randomness: 0.35, timeBudgetMs: 200 },
+  medium: { depth: 2, randomness: 0.1, timeBudgetMs: 600 },
+  hard: { depth: 4, randomness: 0, timeBudgetMs: 1500 },
+};
+
+export interface BotOptions {
+  difficulty?: BotDifficulty | BotSettings;
+  // Defaults to Math.random; pass createSeededRandom(seed) for reproducible games
+  random?: () => number;
+}
+
+const WIN_SCORE = 1_000_000;
+
+// Large pieces first: they cannot be covered, so they usually make the best moves
+const SEARCH_SIZES: readonly Size[] = ['G', 'M', 'P'];
+
+// Thrown to abandon a search once the time budget is spent
+const SEARCH_TIMEOUT = Symbol('search-timeout');
+
+interface SearchContext {
+  ruleSet: RuleSet;
+  rootIndex: number;
+  lines: readonly (readonly number[])[];
+  cellOrder: number[];
+  deadline: number;
+}
+
+// Deterministic pseudo-random generator (mulberry32)
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Cells sorted from the center outwards, so central moves are searched first
+function getCellOrder(size: number): number[] {
+  const center = (size - 1) / 2;
+  const distance = (cellIndex: number) =>
+    Math.abs(Math.floor(cellIndex / size) - center) + Math.abs((cellIndex % size) - center);
+
+  return Array.from({ length: size * size }, (_, cellIndex) => cellIndex)
+    .sort((a, b) => distance(a) - distance(b) || a - b);
+}
+
+function listMoves(board: Board, player: BotPlayer, ctx: SearchContext): BotMove[] {
+  const moves: BotMove[] = [];
+  for (const size of SEARCH_SIZES) {
+    if (player.inventory[size] <= 0) continue;
+    for (const cellIndex of ctx.cellOrder) {
+      if (ctx.ruleSet.isLegalMove(board, cellIndex, size)) {
+        moves.push({ cellIndex, size });
+      }
+    }
+  }
+  return moves;
+}
+
+function playMove(board: Board, players: BotPlayer[], index: number, move: BotMove, ruleSet: RuleSet) {
+  const player = players[index];
+  return {
+    board: ruleSet.applyMove(board, move.cellIndex, move.size, player.color),
+    players: players.map((p, i) =>
+      i === index ? { ...p, inventory: { ...p.inventory, [move.size]: p.inventory[move.size] - 1 } } : p
+    ),
+  };
+}
+
+// Next player able to move, or null when nobody can (draw)
+function findNextPlayer(board: Board, players: BotPlayer[], index: number, ruleSet: RuleSet): number | null {
+  for (let step = 1; step <= players.length; step++) {
+    const nextIndex = (index + step) % players.length;
+    const player = players[nextIndex];
+    if (!player.isEliminated && ruleSet.hasLegalMoves(board, player)) {
+      return nextIndex;
+    }
+  }
+  return null;
+}
+
+// Heuristic: open lines (visible pieces of a single color) weigh exponentially with their length
+function evaluate(board: Board, players: BotPlayer[], ctx: SearchContext): number {
+  const scores = players.map(() => 0);
+  const colorIndex = new Map(players.map((player, i) => [player.color, i]));
+
+  for (const line of ctx.lines) {
+    let owner: number | undefined;
+    let count = 0;
+    let blocked = false;
+
+    for (const cellIndex of line) {
+      const color = getVisiblePiece(board[cellIndex]);
+      if (color === null) continue;
+      const index = colorIndex.get(color);
+      if (owner !== undefined && owner !== index) {
+        blocked = true;
+        break;
+      }
+      owner = index;
+      count++;
+    }
+
+    if (!blocked && owner !== undefined) {
+      scores[owner] += 10 ** count;
+    }
+  }
+
+  const opponents = scores.filter((_, i) => i !== ctx.rootIndex);
+  return scores[ctx.rootIndex] - Math.max(0, ...opponents);
+}
+
+// Score of a move from the root player's point of view
+function scoreMove(
+  board: Board,
+  players: BotPlayer[],
+  index: number,
+  move: BotMove,
+  depth: number,
+  alpha: number,
+  beta: number,
+  ctx: SearchContext,
+  ply: number
+): number {
+  const next = playMove(board, players, index, move, ctx.ruleSet);
+
+  if (ctx.ruleSet.findWinningPattern(next.board, players[index].color)) {
+    // Prefer quick wins and slow losses
+    return index === ctx.rootIndex ? WIN_SCORE - ply : ply - WIN_SCORE;
+  }
+
+  const nextIndex = findNextPlayer(next.board, next.players, index, ctx.ruleSet);
+  if (nextIndex === null) return 0;
+  if (depth <= 1) return evaluate(next.board, next.players, ctx);
+
+  return search(next.board, next.players, nextIndex, depth - 1, alpha, beta, ctx, ply + 1);
+}
+
+// Paranoid search: the root player maximizes, every opponent minimizes, with alpha-beta pruning
+function search(
+  board: Board,
+  players: BotPlayer[],
+  index: number,
+  depth: number,
+  alpha: number,
+  beta: number,
+  ctx: SearchContext,
+  ply: number
+): number {
+  if (Date.now() > ctx.deadline) throw SEARCH_TIMEOUT;
+
+  const maximizing = index === ctx.rootIndex;
+  let best = maximizing ? -Infinity : Infinity;
+
+  for (const move of listMoves(board, players[index], ctx)) {
+    const score = scoreMove(board, players, index, move, depth, alpha, beta, ctx, ply);
+    if (maximizing) {
+      best = Math.max(best, score);
+      alpha = Math.max(alpha, best);
+    } else {
+      best = Math.min(best, score);
+      beta = Math.min(beta, best);
+    }
+    if (alpha >= beta) break;
+  }
+  return best;
+}
+
+// Pick a move for the current player, or null when it has no legal move
+export function chooseBotMove(state: BotGameState, options: BotOptions = {}): BotMove | null {
+  const { board, players, currentPlayerIndex, ruleSet } = state;
+  const settings = typeof options.difficulty === 'string'
+    ? BOT_DIFFICULTIES[options.difficulty]
+    : options.difficulty ?? BOT_DIFFICULTIES.medium;
+  const random = options.random ?? Math.random;
+  const size = getBoardSize(board);
+
+  const ctx: SearchContext = {
+    ruleSet,
+    rootIndex: currentPlayerIndex,
+    lines: getWinningLines(size, ruleSet.config.lineLength),
+    cellOrder: getCellOrder(size),
+    deadline: Infinity,
+  };
+
+  let moves = listMoves(board, players[currentPlayerIndex], ctx);
+  if (moves.length === 0) return null;
+
+  if (random() < settings.randomness) {
+    return moves[Math.floor(random() * moves.length)];
+  }
+
+  // Iterative deepening: keep the best move of the deepest search finished in time
+  const deadline = Date.now() + settings.timeBudgetMs;
+  let bestMove = moves[0];
+
+  for (let depth = 1; depth <= settings.depth; depth++) {
+    // The shallowest search always completes so the bot never plays blind
+    ctx.deadline = depth === 1 ? Infinity : deadline;
+
+    try {
+      let alpha = -Infinity;
+      let depthBest = moves[0];
+      for (const move of moves) {
+        const score = scoreMove(board, players, currentPlayerIndex, move, depth, alpha, Infinity, ctx, 0);
+        if (score > alpha) {
+          alpha = score;
+          depthBest = move;
+        }
+      }
+      bestMove = depthBest;
+      if (alpha >= WIN_SCORE - depth) break;
+    } catch (error) {
+      if (error !== SEARCH_TIMEOUT) throw error;
+      break;
+    }
+
+    // Search the current best move first at the next depth
+    moves = [bestMove, ...moves.filter(move => move !== bestMove)];
+  }
+
+  return bestMove;
+}
@@ -1,4 +1,5 @@
-import type { Board, Cell, Color, Size, GameStatus, GameResult, Position, PlayerInventory } from './types.js';
+import type { AntiAbusePolicy, Board, Cell, Color, Size, GameStatus, GameResult, Position, PlayerInventory, WinCondition, WinningPattern } from './types.js';
+import type { RuleSet } from './rule-sets.js';
 
 // Define PlayerType interface locally since we removed it from types.ts to avoid conflicts
 interface PlayerType {
@@ -15,14 +16,19 @@ interface PlayerType {
 // Export Player type for external use
 export type PlayerInstance = Player;
 
-// Initialize empty board
-export function createEmptyBoard(): Board {
-  return Array.from({ length: 9 }, () => ({ P: null, M: null, G: null }));
+// Initialize empty board (size x size cells)
+export function createEmptyBoard(size: number = 3): Board {
+  return Array.from({ length: size * size }, () => ({ P: null, M: null, G: null }));
+}
+
+// Get the side length of a square board
+export function getBoardSize(board: Board): number {
+  return Math.round(Math.sqrt(board.length));
 }
 
 // Check if a move is legal (replacement rules: larger pieces replace smaller ones)
 export function isLegalMove(board: Board, cellIndex: number, size: Size, color?: Color): boolean {
-  if (cellIndex < 0 || cellIndex > 8) return false;
+  if (cellIndex < 0 || cellIndex >= board.length) return false;
   const cell = board[cellIndex];
   
   // A piece can only be placed if there's no piece of the same size or larger
@@ -68,7 +74,7 @@ export function applyMove(board: Board, cellIndex: number, size: Size, color: Co
 
 // Check if player has any legal moves
 export function hasLegalMoves(board: Board, player: PlayerType): boolean {
-  for (let cellIndex = 0; cellIndex < 9; cellIndex++) {
+  for (let cellIndex = 0; cellIndex < board.length; cellIndex++) {
     for (const size of ['P', 'M', 'G'] as const) {
       if (player.inventory[size] > 0 && isLegalMove(board, cellIndex, size, player.color)) {
         return true;
@@ -79,36 +85,135 @@ export function hasLegalMoves(board: Board, player: PlayerType): boolean {
 }
 
 // Get the visible piece in a cell (largest piece = G > M > P)
-function getVisiblePiece(cell: Cell): Color | null {
+export function getVisiblePiece(cell: Cell): Color | null {
   if (cell.G !== null) return cell.G;
   if (cell.M !== null) return cell.M;
   if (cell.P !== null) return cell.P;
   return null;
 }
 
-// Win condition: 3 pieces of same color aligned (based on visible pieces only)
-function checkSameColorAlignment(board: Board, color: Color): boolean {
-  const lines = [
-    [0, 1, 2], [3, 4, 5], [6, 7, 8], // rows
-    [0, 3, 6], [1, 4, 7], [2, 5, 8], // columns
-    [0, 4, 8], [2, 4, 6] // diagonals
+// Generate every line of lineLength cells (rows, columns, both diagonals) on a size x size board
+export function generateWinningLines(size: number, lineLength: number): number[][] {
+  const lines: number[][] = [];
+  const directions = [
+    [0, 1], // rows
+    [1, 0], // columns
+    [1, 1], // diagonals
+    [1, -1] // anti-diagonals
   ];
 
+  for (let row = 0; row < size; row++) {
+    for (let col = 0; col < size; col++) {
+      for (const [dRow, dCol] of directions) {
+        const endRow = row + dRow * (lineLength - 1);
+        const endCol = col + dCol * (lineLength - 1);
+        if (endRow < 0 || endRow >= size || endCol < 0 || endCol >= size) continue;
+
+        lines.push(Array.from({ length: lineLength }, (_, i) => (row + dRow * i) * size + col + dCol * i));
+      }
+    }
+  }
+  return lines;
+}
+
+const winningLinesCache = new Map<string, number[][]>();
+
+// Winning lines for a board, cached per size and line length
+export function getWinningLines(size: number, lineLength: number = 3): readonly (readonly number[])[] {
+  const key = `${size}:${lineLength}`;
+  let lines = winningLinesCache.get(key);
+  if (!lines) {
+    lines = generateWinningLines(size, lineLength);
+    winningLinesCache.set(key, lines);
+  }
+  return lines;
+}
+
+// Winning lines on the 3x3 board
+export const WINNING_LINES: readonly (readonly number[])[] = getWinningLines(3, 3);
+
+// Win condition presets
+export const VISIBLE_WIN_CONDITIONS: readonly WinCondition[] = ['visible_line'];
+export const CLASSIC_WIN_CONDITIONS: readonly WinCondition[] = ['same_size_line', 'ordered_size_line', 'stack_complete'];
+export const ALL_WIN_CONDITIONS: readonly WinCondition[] = [...VISIBLE_WIN_CONDITIONS, ...CLASSIC_WIN_CONDITIONS];
+
+// Win condition: 3 pieces of same color aligned (based on visible pieces only)
+function findVisibleLine(board: Board, color: Color, lines: readonly (readonly number[])[]): number[] | null {
   for (const line of lines) {
-    if (line.every(cellIndex => {
-      const cell = board[cellIndex];
-      const visiblePiece = getVisiblePiece(cell);
-      return visiblePiece === color;
-    })) {
-      return true;
+    if (line.every(cellIndex => getVisiblePiece(board[cellIndex]) === color)) {
+      return [...line];
     }
   }
-  return false;
+  return null;
+}
+
+// Win condition: 3 pieces of same size and same color aligned
+function findSameSizeLine(board: Board, color: Color, lines: readonly (readonly number[])[]): number[] | null {
+  for (const line of lines) {
+    for (const size of ['P', 'M', 'G'] as const) {
+      if (line.every(cellIndex => board[cellIndex][size] === color)) {
+        return [...line];
+      }
+    }
+  }
+  return null;
+}
+
+// Win condition: 3 pieces of same color aligned in size order (P-M-G or G-M-P)
+// Only lines of exactly 3 cells can hold the three sizes in order
+function findOrderedSizeLine(board: Board, color: Color, lines: readonly (readonly number[])[]): number[] | null {
+  const orders: Size[][] = [['P', 'M', 'G'], ['G', 'M', 'P']];
+
+  for (const line of lines) {
+    if (line.length !== 3) continue;
+    for (const order of orders) {
+      if (line.every((cellIndex, i) => board[cellIndex][order[i]] === color)) {
+        return [...line];
+      }
+    }
+  }
+  return null;
+}
+
+// Win condition: P+M+G of same color nested in one cell
+function findCompleteStack(board: Board, color: Color): number[] | null {
+  const cellIndex = board.findIndex(cell => cell.P === color && cell.M === color && cell.G === color);
+  return cellIndex === -1 ? null : [cellIndex];
+}
+
+const winConditionFinders: Record<WinCondition, (board: Board, color: Color, lines: readonly (readonly number[])[]) => number[] | null> = {
+  visible_line: findVisibleLine,
+  same_size_line: findSameSizeLine,
+  ordered_size_line: findOrderedSizeLine,
+  stack_complete: findCompleteStack,
+};
+
+// Find the first enabled win condition met by a color, with the cells that formed it
+export function findWinningPattern(
+  board: Board,
+  color: Color,
+  conditions: readonly WinCondition[] = VISIBLE_WIN_CONDITIONS,
+  lineLength: number = 3
+): WinningPattern | null {
+  const lines = getWinningLines(getBoardSize(board), lineLength);
+
+  for (const condition of conditions) {
+    const cells = winConditionFinders[condition](board, color, lines);
+    if (cells) {
+      return { condition, cells };
+    }
+  }
+  return null;
 }
 
 // Check all win conditions for a color
-export function checkWinConditions(board: Board, color: Color): boolean {
-  return checkSameColorAlignment(board, color);
+export function checkWinConditions(
+  board: Board,
+  color: Color,
+  conditions: readonly WinCondition[] = VISIBLE_WIN_CONDITIONS,
+  lineLength: number = 3
+): boolean {
+  return findWinningPattern(board, color, conditions, lineLength) !== null;
 }
 
 // Check if game is draw (no legal moves for any player)
@@ -122,11 +227,28 @@ export function getNextPlayer(players: PlayerType[], currentPlayerId: string): P
   if (activePlayers.length === 0) return null;
   
   const currentIndex = activePlayers.findIndex(p => p.id === currentPlayerId);
-  if (currentIndex === -1) return activePlayers[0];
+  if (currentIndex === -1) {
+    // The current player just left the game: next active seat after theirs
+    const seat = players.findIndex(p => p.id === currentPlayerId);
+    const order = [...players.slice(seat + 1), ...players.slice(0, seat + 1)];
+    return order.find(p => activePlayers.includes(p)) ?? activePlayers[0];
+  }
   
   return activePlayers[(currentIndex + 1) % activePlayers.length];
 }
 
+// Skips a player can still afford before the anti-abuse policy eliminates them (null when it is off)
+export function getStrikesLeft(
+  policy: AntiAbusePolicy,
+  player: { skipsInARow: number; totalSkips: number }
+): number | null {
+  if (!policy.enabled) return null;
+
+  const inARow = policy.maxConsecutiveSkips - player.skipsInARow;
+  const overall = policy.maxTotalSkips === null ? inARow : policy.maxTotalSkips - player.totalSkips;
+  return Math.max(0, Math.min(inARow, overall));
+}
+
 // Player class for creating player instances
 export class Player implements PlayerType {
   public id: string;
@@ -138,11 +260,11 @@ export class Player implements PlayerType {
   public isEliminated: boolean;
   public isHost: boolean;
 
-  constructor(nickname: string, color: Color) {
+  constructor(nickname: string, color: Color, inventory: PlayerInventory = { P: 3, M: 3, G: 3 }) {
     this.id = crypto.randomUUID();
     this.nickname = nickname;
     this.color = color;
-    this.inventory = { P: 3, M: 3, G: 3 }; // Each player starts with 3 pieces of each size
+    this.inventory = { ...inventory }; // Each player starts with 3 pieces of each size by default
     this.connected = true;
     this.skipsInARow = 0;
     this.isEliminated = false;
@@ -158,18 +280,20 @@ export class Game {
   private status: GameStatus;
   private winnerId: string | null;
   private isDraw: boolean;
+  private ruleSet: RuleSet | null;
 
-  constructor(players: PlayerType[]) {
+  constructor(players: PlayerType[], ruleSet: RuleSet | null = null) {
     if (players.length < 2 || players.length > 4) {
       throw new Error('Game requires 2-4 players');
     }
 
-    this.board = createEmptyBoard();
+    this.board = ruleSet ? ruleSet.createBoard() : createEmptyBoard();
     this.players = [...players];
     this.currentPlayerId = players[0].id;
     this.status = 'playing';
     this.winnerId = null;
     this.isDraw = false;
+    this.ruleSet = ruleSet;
   }
 
   getCurrentPlayer(): PlayerType | null {
@@ -215,12 +339,17 @@ export class Game {
       throw new Error(`No ${move.piece.size} pieces available`);
     }
 
-    // Validate and apply the move
-    if (!isLegalMove(this.board, move.position, move.piece.size, move.piece.color)) {
+    // Validate and apply the move (rule set when provided, replacement rules otherwise)
+    const legal = this.ruleSet
+      ? this.ruleSet.isLegalMove(this.board, move.position, move.piece.size)
+      : isLegalMove(this.board, move.position, move.piece.size, move.piece.color);
+    if (!legal) {
       throw new Error('Illegal move');
     }
 
-    this.board = applyMove(this.board, move.position, move.piece.size, move.piece.color);
+    this.board = this.ruleSet
+      ? this.ruleSet.applyMove(this.board, move.position, move.piece.size, move.piece.color)
+      : applyMove(this.board, move.position, move.piece.size, move.piece.color);
     
     // Update player inventory
     const playerIndex = this.players.findIndex(p => p.id === currentPlayer.id);
@@ -235,14 +364,18 @@ export class Game {
     }
 
     // Check for win conditions
-    if (checkWinConditions(this.board, move.piece.color)) {
+    const hasWon = this.ruleSet
+      ? this.ruleSet.findWinningPattern(this.board, move.piece.color) !== null
+      : checkWinConditions(this.board, move.piece.color);
+    if (hasWon) {
       this.status = 'finished';
       this.winnerId = currentPlayer.id;
       return;
     }
 
     // Check for draw
-    if (isDraw(this.board, this.players)) {
+    const drawn = this.ruleSet ? this.ruleSet.isDraw(this.board, this.players) : isDraw(this.board, this.players);
+    if (drawn) {
       this.status = 'finished';
       this.isDraw = true;
       return;
@@ -2,6 +2,7 @@
 export type {
   Size,
   Color,
+  BoardSize,
   Cell,
   Board,
   PlayerInventory,
@@ -12,13 +13,44 @@ export type {
   BoardState,
   Room,
   Move,
+  TimeControl,
+  AntiAbusePolicy,
   CreateRoomPayload,
   JoinRoomPayload,
-  ReplayVotePayload
+  SpectateRoomPayload,
+  RoomRequestPayload,
+  AddBotPayload,
+  PlayerTargetPayload,
+  MakeMovePayload,
+  GameEventsRequestPayload,
+  ReplayVotePayload,
+  ProposalKind,
+  ProposalResponsePayload,
+  ChatMessage,
+  SendChatMessagePayload,
+  MutePlayerPayload,
+  WinCondition,
+  WinningPattern,
+  PlacementMode,
+  RuleVariant,
+  RuleSetConfig,
+  BotDifficulty,
+  SkipReason,
+  PauseReason,
+  EliminationReason,
+  GameEndReason,
+  GameEventPlayer,
+  GameEvent,
+  GameEventType,
+  NotationPlayer,
+  NotationMove,
+  NotationResult,
+  NotationGame
 } from './types.js';
 
 // Export schemas
 export {
+  BOARD_SIZES,
   SizeSchema,
   ColorSchema,
   CellSchema,
@@ -29,20 +61,118 @@ export {
   GameResultSchema,
   RoomSchema,
   MoveSchema,
+  RoomIdSchema,
+  PlayerNameSchema,
+  TimeControlSchema,
+  DEFAULT_TIME_CONTROL,
+  LOW_TIME_WARNING_SECONDS,
+  AntiAbusePolicySchema,
+  DEFAULT_ANTI_ABUSE_POLICY,
   CreateRoomPayloadSchema,
   JoinRoomPayloadSchema,
-  ReplayVotePayloadSchema
+  SpectateRoomPayloadSchema,
+  RoomRequestPayloadSchema,
+  AddBotPayloadSchema,
+  PlayerTargetPayloadSchema,
+  MakeMovePayloadSchema,
+  GameEventsRequestPayloadSchema,
+  ReplayVotePayloadSchema,
+  ProposalKindSchema,
+  ProposalResponsePayloadSchema,
+  CHAT_MAX_LENGTH,
+  ChatMessageSchema,
+  SendChatMessagePayloadSchema,
+  MutePlayerPayloadSchema,
+  WinConditionSchema,
+  WinningPatternSchema,
+  PlacementModeSchema,
+  RuleVariantSchema,
+  RuleSetConfigSchema,
+  BotDifficultySchema,
+  SkipReasonSchema,
+  PauseReasonSchema,
+  EliminationReasonSchema,
+  GameEndReasonSchema,
+  GameEventPlayerSchema,
+  GameEventSchema,
+  NotationPlayerSchema,
+  NotationMoveSchema,
+  NotationResultSchema,
+  NotationGameSchema
 } from './types.js';
 
 // Export game logic functions and classes
 export {
   createEmptyBoard,
+  getBoardSize,
+  generateWinningLines,
+  getWinningLines,
   isLegalMove,
   applyMove,
   hasLegalMoves,
   checkWinConditions,
+  findWinningPattern,
+  getVisiblePiece,
+  WINNING_LINES,
+  VISIBLE_WIN_CONDITIONS,
+  CLASSIC_WIN_CONDITIONS,
+  ALL_WIN_CONDITIONS,
   isDraw,
   getNextPlayer,
+  getStrikesLeft,
   Player as PlayerClass,
   Game
 } from './game-logic.js';
+
+// Export rule variants
+export type { RuleSet } from './rule-sets.js';
+export {
+  RULE_SET_PRESETS,
+  DEFAULT_RULE_VARIANT,
+  createRuleSet,
+  getRuleSet
+} from './rule-sets.js';
+
+// Export computer opponent
+export type { BotPlayer, BotGameState, BotMove, BotSettings, BotOptions } from './bot.js';
+export {
+  BOT_DIFFICULTIES,
+  chooseBotMove,
+  createSeededRandom
+} from './bot.js';
+
+// Export game notation
+export type { NotationPosition } from './notation.js';
+export {
+  serializeNotation,
+  parseNotation,
+  notationFromEvents,
+  replayNotation
+} from './notation.js';
+
+// Export socket event contract
+export type {
+  HandshakeAuth,
+  HandshakeStatus,
+  HandshakePayload,
+  PlayerSnapshot,
+  GameStateSnapshot,
+  RoomSeats,
+  ErrorPayload,
+  ReplayVotingPayload,
+  ProposalPayload,
+  ProposalResult,
+  ClientEventWithPayload,
+  ClientEventPayload,
+  ClientToServerEvents,
+  ServerToClientEvents,
+  ServerEventPayload
+} from './socket-events.js';
+export {
+  PROTOCOL_VERSION,
+  MIN_PROTOCOL_VERSION,
+  checkProtocolVersion,
+  CLIENT_EVENT_SCHEMAS,
+  CLIENT_EVENT_ERRORS,
+  parseClientPayload
+} from './socket-events.js';
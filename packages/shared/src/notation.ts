@@ -0,0 +1,207 @@
+import type { Board, Color, GameEvent, NotationGame, NotationMove, NotationResult, PlayerInventory, RuleSetConfig, Size, WinCondition } from './types.js';
+import { NotationGameSchema, RuleVariantSchema } from './types.js';
+import { RULE_SET_PRESETS, DEFAULT_RULE_VARIANT, createRuleSet } from './rule-sets.js';
+
+// Notation format:
+//
+//   [Variant "no-replacement"]
+//   [Board "3"]
+//   [Line "3"]
+//   [Red "Alice"]
+//   [Blue "Bob"]
+//   [Result "red"]
+//
+//   R:G4 B:M0 R:- B:P8
+//
+// Player headers are listed in seat order. A move is a color letter, then the size
+// and cell index of the piece, or "-" for a skipped turn. The result is the winner
+// color, "draw", or "*" while the game is unfinished. Placement, WinConditions and
+// Inventory headers are only written when they differ from the variant preset.
+
+const COLOR_LETTERS: Record<Color, string> = { red: 'R', blue: 'B', green: 'G', yellow: 'Y' };
+const COLOR_HEADERS: Record<Color, string> = { red: 'Red', blue: 'Blue', green: 'Green', yellow: 'Yellow' };
+const COLORS = Object.keys(COLOR_LETTERS) as Color[];
+
+const HEADER_PATTERN = /^\[(\w+)\s+"((?:[^"\\]|\\.)*)"\]$/;
+const MOVE_PATTERN = /^([RBGY]):(?:([PMG])(\d{1,2})|-)$/;
+const INVENTORY_PATTERN = /^P(\d) M(\d) G(\d)$/;
+
+// Position reached after a move of a notation game
+export interface NotationPosition {
+  move: NotationMove | null; // null for the starting position
+  board: Board;
+  inventories: Partial<Record<Color, PlayerInventory>>;
+}
+
+const escapeValue = (value: string) => value.replace(/[\\"]/g, match => `\\${match}`);
+const unescapeValue = (value: string) => value.replace(/\\(.)/g, '$1');
+
+function formatMove(move: NotationMove): string {
+  const letter = COLOR_LETTERS[move.color];
+  return move.type === 'skip' ? `${letter}:-` : `${letter}:${move.size}${move.cellIndex}`;
+}
+
+function formatInventory(inventory: PlayerInventory): string {
+  return `P${inventory.P} M${inventory.M} G${inventory.G}`;
+}
+
+// Write a game as notation text
+export function serializeNotation(game: NotationGame): string {
+  const { rules } = game;
+  const preset = rules.variant === 'custom' ? null : RULE_SET_PRESETS[rules.variant];
+  const headers: [string, string][] = [
+    ['Variant', rules.variant],
+    ['Board', String(rules.boardSize)],
+    ['Line', String(rules.lineLength)],
+  ];
+
+  if (rules.placement !== preset?.placement) {
+    headers.push(['Placement', rules.placement]);
+  }
+  if (rules.winConditions.join(',') !== preset?.winConditions.join(',')) {
+    headers.push(['WinConditions', rules.winConditions.join(',')]);
+  }
+  if (formatInventory(rules.inventory) !== (preset && formatInventory(preset.inventory))) {
+    headers.push(['Inventory', formatInventory(rules.inventory)]);
+  }
+
+  game.players.forEach(player => headers.push([COLOR_HEADERS[player.color], player.name]));
+  headers.push(['Result', game.result ?? '*']);
+
+  const headerText = headers.map(([key, value]) => `[${key} "${escapeValue(value)}"]`).join('\n');
+  return `${headerText}\n\n${game.moves.map(formatMove).join(' ')}`.trimEnd() + '\n';
+}
+
+// Read notation text, throwing an Error that describes the first problem found
+export function parseNotation(text: string): NotationGame {
+  const headers = new Map<string, string>();
+  const players: { color: Color; name: string }[] = [];
+  const tokens: string[] = [];
+
+  text.split(/\r?\n/).forEach(rawLine => {
+    const line = rawLine.trim();
+    if (!line) return;
+
+    const header = HEADER_PATTERN.exec(line);
+    if (header) {
+      const [, key, value] = header;
+      const color = COLORS.find(c => COLOR_HEADERS[c] === key);
+      if (color) {
+        players.push({ color, name: unescapeValue(value) });
+      } else {
+        headers.set(key, unescapeValue(value));
+      }
+      return;
+    }
+
+    tokens.push(...line.split(/\s+/));
+  });
+
+  const moves = tokens.map((token): NotationMove => {
+    const match = MOVE_PATTERN.exec(token);
+    if (!match) {
+      throw new Error(`Invalid move "${token}"`);
+    }
+
+    const color = COLORS.find(c => COLOR_LETTERS[c] === match[1])!;
+    return match[2]
+      ? { type: 'placement', color, size: match[2] as Size, cellIndex: Number(match[3]) }
+      : { type: 'skip', color };
+  });
+
+  const result = headers.get('Result') ?? '*';
+  const parsed = NotationGameSchema.safeParse({
+    players,
+    rules: parseRules(headers),
+    result: result === '*' ? null : result,
+    moves,
+  });
+
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(`Invalid notation (${issue.path.join('.') || 'game'}): ${issue.message}`);
+  }
+  return parsed.data;
+}
+
+// Rules from the headers, starting from the variant preset
+function parseRules(headers: Map<string, string>): unknown {
+  const variant = RuleVariantSchema.safeParse(headers.get('Variant') ?? DEFAULT_RULE_VARIANT);
+  if (!variant.success) {
+    throw new Error(`Unknown variant "${headers.get('Variant')}"`);
+  }
+
+  const preset = variant.data === 'custom' ? undefined : RULE_SET_PRESETS[variant.data];
+  const inventory = headers.has('Inventory') ? INVENTORY_PATTERN.exec(headers.get('Inventory')!) : null;
+  if (headers.has('Inventory') && !inventory) {
+    throw new Error(`Invalid inventory "${headers.get('Inventory')}"`);
+  }
+
+  return {
+    ...preset,
+    variant: variant.data,
+    ...(headers.has('Board') && { boardSize: Number(headers.get('Board')) }),
+    ...(headers.has('Line') && { lineLength: Number(headers.get('Line')) }),
+    ...(headers.has('Placement') && { placement: headers.get('Placement') }),
+    ...(headers.has('WinConditions') && { winConditions: headers.get('WinConditions')!.split(',') as WinCondition[] }),
+    ...(inventory && { inventory: { P: Number(inventory[1]), M: Number(inventory[2]), G: Number(inventory[3]) } }),
+  } satisfies Partial<Record<keyof RuleSetConfig, unknown>>;
+}
+
+// Notation of a server game, from its event log (null before the game started)
+export function notationFromEvents(events: GameEvent[]): NotationGame | null {
+  const started = events.find(event => event.type === 'started');
+  if (started?.type !== 'started') return null;
+
+  const colors = new Map(started.players.map(player => [player.id, player.color]));
+  const moves: NotationMove[] = [];
+  let result: NotationResult = null;
+
+  for (const event of events) {
+    const color = 'playerId' in event ? colors.get(event.playerId) : undefined;
+
+    if (event.type === 'placement' && color) {
+      moves.push({ type: 'placement', color, cellIndex: event.cellIndex, size: event.size });
+    } else if (event.type === 'skip' && color) {
+      moves.push({ type: 'skip', color });
+    } else if (event.type === 'takeback') {
+      // The taken back placement never happened, nor the skips after it: its author plays again
+      const index = moves.map(move => move.type).lastIndexOf('placement');
+      if (index !== -1) moves.splice(index);
+    } else if (event.type === 'finished') {
+      result = event.isDraw ? 'draw' : (event.winnerId && colors.get(event.winnerId)) || null;
+    }
+  }
+
+  return {
+    players: started.players.map(player => ({ color: player.color, name: player.nickname })),
+    rules: started.rules,
+    result,
+    moves,
+  };
+}
+
+// Replay the moves of a game, throwing on the first illegal one
+export function replayNotation(game: NotationGame): NotationPosition[] {
+  const ruleSet = createRuleSet(game.rules);
+  let board = ruleSet.createBoard();
+  let inventories: Partial<Record<Color, PlayerInventory>> = Object.fromEntries(
+    game.players.map(player => [player.color, ruleSet.createInventory()])
+  );
+  const positions: NotationPosition[] = [{ move: null, board, inventories }];
+
+  game.moves.forEach((move, index) => {
+    if (move.type === 'placement') {
+      const inventory = inventories[move.color];
+      if (!inventory || inventory[move.size] <= 0 || !ruleSet.isLegalMove(board, move.cellIndex, move.size)) {
+        throw new Error(`Illegal move ${index + 1}: ${formatMove(move)}`);
+      }
+
+      board = ruleSet.applyMove(board, move.cellIndex, move.size, move.color);
+      inventories = { ...inventories, [move.color]: { ...inventory, [move.size]: inventory[move.size] - 1 } };
+    }
+    positions.push({ move, board, inventories });
+  });
+
+  return positions;
+}
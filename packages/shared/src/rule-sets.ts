@@ -0,0 +1,112 @@
+import type { Board, Color, Size, PlayerInventory, RuleSetConfig, RuleVariant, WinningPattern } from './types.js';
+import { createEmptyBoard, isLegalMove, applyMove, findWinningPattern, VISIBLE_WIN_CONDITIONS, CLASSIC_WIN_CONDITIONS } from './game-logic.js';
+
+// Minimal player shape needed by the rules (works with shared and server players)
+interface RulePlayer {
+  color: Color;
+  inventory: PlayerInventory;
+}
+
+// A rule set bundles legality, placement, win/draw detection and starting inventory
+export interface RuleSet {
+  readonly config: RuleSetConfig;
+  createBoard(): Board;
+  isLegalMove(board: Board, cellIndex: number, size: Size): boolean;
+  applyMove(board: Board, cellIndex: number, size: Size, color: Color): Board;
+  findWinningPattern(board: Board, color: Color): WinningPattern | null;
+  hasLegalMoves(board: Board, player: RulePlayer): boolean;
+  isDraw(board: Board, players: RulePlayer[]): boolean;
+  createInventory(): PlayerInventory;
+}
+
+// Preset variants selectable for a room or a local game
+export const RULE_SET_PRESETS: Record<Exclude<RuleVariant, 'custom'>, RuleSetConfig> = {
+  // Larger pieces replace smaller ones; only visible pieces count
+  'visible-only': {
+    variant: 'visible-only',
+    placement: 'replace',
+    winConditions: [...VISIBLE_WIN_CONDITIONS],
+    inventory: { P: 3, M: 3, G: 3 },
+    boardSize: 3,
+    lineLength: 3,
+  },
+  // Pieces nest in any order; Otrio win conditions (RULES.md §10)
+  'classic': {
+    variant: 'classic',
+    placement: 'nest',
+    winConditions: [...CLASSIC_WIN_CONDITIONS],
+    inventory: { P: 3, M: 3, G: 3 },
+    boardSize: 3,
+    lineLength: 3,
+  },
+  // Larger pieces cover smaller ones without removing them (RULES.md §3); only visible pieces count
+  'no-replacement': {
+    variant: 'no-replacement',
+    placement: 'stack',
+    winConditions: [...VISIBLE_WIN_CONDITIONS],
+    inventory: { P: 3, M: 3, G: 3 },
+    boardSize: 3,
+    lineLength: 3,
+  },
+};
+
+export const DEFAULT_RULE_VARIANT: Exclude<RuleVariant, 'custom'> = 'no-replacement'; // The original rules (RULES.md)
+
+// Check a placement against the given mode
+function isLegalPlacement(board: Board, cellIndex: number, size: Size, config: RuleSetConfig): boolean {
+  if (cellIndex < 0 || cellIndex >= board.length) return false;
+
+  if (config.placement === 'nest') {
+    // Any free slot, whatever the other sizes in the cell
+    return board[cellIndex][size] === null;
+  }
+
+  // replace and stack share the same legality: no piece of the same size or larger
+  return isLegalMove(board, cellIndex, size);
+}
+
+// Apply a placement according to the given mode
+function applyPlacement(board: Board, cellIndex: number, size: Size, color: Color, config: RuleSetConfig): Board {
+  if (!isLegalPlacement(board, cellIndex, size, config)) {
+    throw new Error('Illegal move');
+  }
+
+  if (config.placement === 'replace') {
+    return applyMove(board, cellIndex, size, color);
+  }
+
+  // stack and nest keep the pieces already in the cell
+  const newBoard = [...board];
+  newBoard[cellIndex] = { ...newBoard[cellIndex], [size]: color };
+  return newBoard;
+}
+
+// Build a rule set from a serializable configuration
+export function createRuleSet(config: RuleSetConfig): RuleSet {
+  const hasLegalMoves = (board: Board, player: RulePlayer): boolean => {
+    for (let cellIndex = 0; cellIndex < board.length; cellIndex++) {
+      for (const size of ['P', 'M', 'G'] as const) {
+        if (player.inventory[size] > 0 && isLegalPlacement(board, cellIndex, size, config)) {
+          return true;
+        }
+      }
+    }
+    return false;
+  };
+
+  return {
+    config,
+    createBoard: () => createEmptyBoard(config.boardSize),
+    isLegalMove: (board, cellIndex, size) => isLegalPlacement(board, cellIndex, size, config),
+    applyMove: (board, cellIndex, size, color) => applyPlacement(board, cellIndex, size, color, config),
+    findWinningPattern: (board, color) => findWinningPattern(board, color, config.winConditions, config.lineLength),
+    hasLegalMoves,
+    isDraw: (board, players) => players.every(player => !hasLegalMoves(board, player)),
+    createInventory: () => ({ ...config.inventory }),
+  };
+}
+
+// Get a rule set from a preset variant or a custom configuration
+export function getRuleSet(rules: Exclude<RuleVariant, 'custom'> | RuleSetConfig = DEFAULT_RULE_VARIANT): RuleSet {
+  return createRuleSet(typeof rules === 'string' ? RULE_SET_PRESETS[rules] : rules);
+}
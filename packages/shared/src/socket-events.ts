@@ -0,0 +1,333 @@
+import type { z } from 'zod';
+import type {
+  AntiAbusePolicy,
+  Board,
+  BotDifficulty,
+  ChatMessage,
+  Color,
+  EliminationReason,
+  GameEndReason,
+  GameEvent,
+  GameStatus,
+  PauseReason,
+  PlayerInventory,
+  ProposalKind,
+  RoomStatus,
+  RuleSetConfig,
+  Size,
+  SkipReason,
+  TimeControl,
+  WinningPattern,
+} from './types.js';
+import {
+  AddBotPayloadSchema,
+  CreateRoomPayloadSchema,
+  GameEventsRequestPayloadSchema,
+  JoinRoomPayloadSchema,
+  MakeMovePayloadSchema,
+  MutePlayerPayloadSchema,
+  PlayerTargetPayloadSchema,
+  ProposalResponsePayloadSchema,
+  ReplayVotePayloadSchema,
+  RoomRequestPayloadSchema,
+  SendChatMessagePayloadSchema,
+  SpectateRoomPayloadSchema,
+} from './types.js';
+
+// Socket.IO contract between the client and the server.
+// Every client payload is validated against its schema on the server; a payload that
+// does not match is answered with the event's error event, in the ErrorPayload shape.
+
+// Version of this contract: bump it with any change an already loaded client cannot handle
+export const PROTOCOL_VERSION = 1;
+
+// Oldest client version the server still talks to (raise it to turn older clients away)
+export const MIN_PROTOCOL_VERSION = 1;
+
+// Sent by the client in the Socket.IO handshake auth
+export interface HandshakeAuth {
+  sessionToken?: string | null;
+  protocolVersion: number;
+  buildHash?: string; // Client build, for diagnostics only
+}
+
+export type HandshakeStatus = 'accepted' | 'upgrade-required';
+
+// Server reply to the handshake, sent first on every connection
+export interface HandshakePayload {
+  status: HandshakeStatus;
+  protocolVersion: number; // Server version
+  minProtocolVersion: number;
+}
+
+// Player as sent in game states and room seats
+export interface PlayerSnapshot {
+  id: string;
+  nickname: string;
+  color: Color;
+  inventory: PlayerInventory;
+  connected: boolean;
+  skipsInARow: number;
+  totalSkips: number; // Skips counted by the anti-abuse policy over the whole game
+  isEliminated: boolean;
+  hasForfeited: boolean;
+  isHost: boolean;
+  isBot: boolean;
+  botDifficulty: BotDifficulty | null;
+}
+
+// Game state as sent to clients
+export interface GameStateSnapshot {
+  board: Board;
+  players: PlayerSnapshot[];
+  currentPlayerId: string | null;
+  status: GameStatus;
+  winnerId: string | null;
+  winningPattern: WinningPattern | null;
+  endReason: GameEndReason | null;
+  isDraw: boolean;
+  startedAt: number | null;
+  finishedAt: number | null;
+  turnTimeLeft: number;
+  timeControl: TimeControl;
+  clocks: Record<string, number>; // Time bank left per player, in seconds (bank time controls only)
+  pause: { reason: PauseReason; playerId: string } | null; // Set while the game is paused
+  antiAbuse: AntiAbusePolicy;
+  rules: RuleSetConfig;
+  takebackPlayerId: string | null; // Author of the placement a takeback would undo
+}
+
+// Seats of a room, also known before the game starts
+export interface RoomSeats {
+  hostId: string;
+  capacity: number;
+  players: PlayerSnapshot[];
+  spectatorCount: number;
+}
+
+// Shape of every *-error event
+export interface ErrorPayload {
+  message: string;
+  issues?: string[]; // Details of an invalid payload
+}
+
+export interface ReplayVotingPayload {
+  replayDeadline: number | null;
+  replayVotes: Record<string, boolean>;
+}
+
+// Pending draw offer, takeback or pause request, and the answers received so far
+export interface ProposalPayload {
+  roomId: string;
+  kind: ProposalKind;
+  proposerId: string;
+  responderIds: string[]; // Players who must accept
+  responses: Record<string, boolean>;
+  deadline: number;
+}
+
+export type ProposalResult = 'accepted' | 'declined' | 'expired' | 'cancelled';
+
+// Schemas of the client events that carry a payload
+export const CLIENT_EVENT_SCHEMAS = {
+  'create-room': CreateRoomPayloadSchema,
+  'join-room': JoinRoomPayloadSchema,
+  'add-bot': AddBotPayloadSchema,
+  'kick-player': PlayerTargetPayloadSchema,
+  'transfer-host': PlayerTargetPayloadSchema,
+  'start-game': RoomRequestPayloadSchema,
+  'leave-room': RoomRequestPayloadSchema,
+  'make-move': MakeMovePayloadSchema,
+  'rejoin-room': RoomRequestPayloadSchema,
+  'spectate-room': SpectateRoomPayloadSchema,
+  'stop-spectating': RoomRequestPayloadSchema,
+  'get-game-state': RoomRequestPayloadSchema,
+  'get-game-events': GameEventsRequestPayloadSchema,
+  'cast-replay-vote': ReplayVotePayloadSchema,
+  'offer-draw': RoomRequestPayloadSchema,
+  'respond-draw': ProposalResponsePayloadSchema,
+  'request-takeback': RoomRequestPayloadSchema,
+  'respond-takeback': ProposalResponsePayloadSchema,
+  'request-pause': RoomRequestPayloadSchema,
+  'respond-pause': ProposalResponsePayloadSchema,
+  'resume-game': RoomRequestPayloadSchema,
+  'send-chat-message': SendChatMessagePayloadSchema,
+  'get-chat-history': RoomRequestPayloadSchema,
+  'mute-player': MutePlayerPayloadSchema,
+} as const;
+
+export type ClientEventWithPayload = keyof typeof CLIENT_EVENT_SCHEMAS;
+
+// Payload of a client event once validated (defaults applied)
+export type ClientEventPayload<E extends ClientEventWithPayload> = z.infer<typeof CLIENT_EVENT_SCHEMAS[E]>;
+
+// Error event answering each client event
+export const CLIENT_EVENT_ERRORS = {
+  'create-room': 'room-error',
+  'join-room': 'join-error',
+  'add-bot': 'room-error',
+  'kick-player': 'room-error',
+  'transfer-host': 'room-error',
+  'start-game': 'room-error',
+  'leave-room': 'room-error',
+  'make-move': 'move-error',
+  'rejoin-room': 'rejoin-error',
+  'spectate-room': 'spectate-error',
+  'stop-spectating': 'spectate-error',
+  'get-game-state': 'game-state-error',
+  'get-game-events': 'game-events-error',
+  'cast-replay-vote': 'replay-vote-error',
+  'offer-draw': 'proposal-error',
+  'respond-draw': 'proposal-error',
+  'request-takeback': 'proposal-error',
+  'respond-takeback': 'proposal-error',
+  'request-pause': 'proposal-error',
+  'respond-pause': 'proposal-error',
+  'resume-game': 'pause-error',
+  'send-chat-message': 'chat-error',
+  'get-chat-history': 'chat-error',
+  'mute-player': 'chat-error',
+} as const satisfies Record<ClientEventWithPayload, keyof ServerToClientEvents>;
+
+export interface ClientToServerEvents {
+  'ping': () => void;
+  'create-room': (payload: z.input<typeof CreateRoomPayloadSchema>) => void;
+  'join-room': (payload: z.input<typeof JoinRoomPayloadSchema>) => void;
+  'add-bot': (payload: z.input<typeof AddBotPayloadSchema>) => void;
+  'kick-player': (payload: z.input<typeof PlayerTargetPayloadSchema>) => void;
+  'transfer-host': (payload: z.input<typeof PlayerTargetPayloadSchema>) => void;
+  'start-game': (payload: z.input<typeof RoomRequestPayloadSchema>) => void;
+  'leave-room': (payload: z.input<typeof RoomRequestPayloadSchema>) => void;
+  'make-move': (payload: z.input<typeof MakeMovePayloadSchema>) => void;
+  'rejoin-room': (payload: z.input<typeof RoomRequestPayloadSchema>) => void;
+  'spectate-room': (payload: z.input<typeof SpectateRoomPayloadSchema>) => void;
+  'stop-spectating': (payload: z.input<typeof RoomRequestPayloadSchema>) => void;
+  'get-game-state': (payload: z.input<typeof RoomRequestPayloadSchema>) => void;
+  'get-game-events': (payload: z.input<typeof GameEventsRequestPayloadSchema>) => void;
+  'cast-replay-vote': (payload: z.input<typeof ReplayVotePayloadSchema>) => void;
+  'offer-draw': (payload: z.input<typeof RoomRequestPayloadSchema>) => void;
+  'respond-draw': (payload: z.input<typeof ProposalResponsePayloadSchema>) => void;
+  'request-takeback': (payload: z.input<typeof RoomRequestPayloadSchema>) => void;
+  'respond-takeback': (payload: z.input<typeof ProposalResponsePayloadSchema>) => void;
+  'request-pause': (payload: z.input<typeof RoomRequestPayloadSchema>) => void;
+  'respond-pause': (payload: z.input<typeof ProposalResponsePayloadSchema>) => void;
+  'resume-game': (payload: z.input<typeof RoomRequestPayloadSchema>) => void;
+  'send-chat-message': (payload: z.input<typeof SendChatMessagePayloadSchema>) => void;
+  'get-chat-history': (payload: z.input<typeof RoomRequestPayloadSchema>) => void;
+  'mute-player': (payload: z.input<typeof MutePlayerPayloadSchema>) => void;
+}
+
+export interface ServerToClientEvents {
+  'handshake': (payload: HandshakePayload) => void;
+  'session': (payload: { playerId: string; sessionToken: string }) => void;
+  'pong': (payload: { message: string; timestamp: number }) => void;
+
+  // Rooms
+  'room-created': (payload: {
+    roomId: string;
+    roomName: string;
+    playerName: string;
+    capacity: number;
+    isPrivate: boolean;
+    accessCode?: string;
+    rules: RuleSetConfig;
+    timeControl: TimeControl;
+    antiAbuse: AntiAbusePolicy;
+    message: string;
+    roomState: RoomStatus;
+  }) => void;
+  'room-joined': (payload: { roomId: string; roomName: string; playerName: string; message: string; roomState: RoomStatus }) => void;
+  'room-rejoined': (payload: { roomId: string; roomName: string; gameState: GameStateSnapshot; room: RoomSeats }) => void;
+  'room-expired': (payload: { roomId: string }) => void;
+  'room-error': (payload: ErrorPayload) => void;
+  'join-error': (payload: ErrorPayload) => void;
+  'rejoin-error': (payload: ErrorPayload) => void;
+
+  // Spectators (game state and broadcasts only, never a seat or a vote)
+  'spectating': (payload: { roomId: string; roomName: string; gameState: GameStateSnapshot; room: RoomSeats }) => void;
+  'spectators-updated': (payload: { roomId: string; spectatorCount: number }) => void;
+  'spectate-error': (payload: ErrorPayload) => void;
+
+  // Players
+  'player-joined': (payload: { playerId: string; playerName: string; isBot?: boolean; roomState: RoomStatus }) => void;
+  'player-disconnected': (payload: { playerId: string; playerName: string; gameState: GameStateSnapshot }) => void;
+  'player-reconnected': (payload: { playerId: string; playerName: string; gameState: GameStateSnapshot }) => void;
+  'player-replaced-by-bot': (payload: { playerId: string; gameState: GameStateSnapshot }) => void;
+  'player-eliminated': (payload: { playerId: string; playerName: string; reason: EliminationReason; gameState: GameStateSnapshot }) => void;
+  'player-left': (payload: { roomId: string; playerId: string; playerName: string; room: RoomSeats }) => void;
+  'player-forfeited': (payload: { playerId: string; playerName: string; gameState: GameStateSnapshot }) => void;
+  'player-kicked': (payload: { roomId: string; playerId: string; playerName: string; room: RoomSeats }) => void;
+  'host-transferred': (payload: { newHostId: string; newHostName: string }) => void;
+
+  // Game
+  'game-started': (payload: { message: string; gameState: GameStateSnapshot }) => void;
+  'game-updated': (payload: { gameState: GameStateSnapshot; lastMove: { playerId: string; cellIndex: number; size: Size } }) => void;
+  // The whole event log comes with the end of the game only (replay and notation), see get-game-events
+  'game-ended': (payload: { winnerId: string | null; isDraw: boolean; gameState: GameStateSnapshot; events: GameEvent[] }) => void;
+  'game-restarted': (payload: { gameState: GameStateSnapshot }) => void;
+  'game-state': (payload: { gameState: GameStateSnapshot; room: RoomSeats }) => void;
+  'game-events': (payload: { roomId: string; events: GameEvent[]; status: GameStatus }) => void;
+  'turn-skipped': (payload: { skippedPlayerId: string; reason: SkipReason | 'bot'; gameState: GameStateSnapshot }) => void;
+  'timer-update': (payload: { turnTimeLeft: number; currentPlayerId: string; lowTime: boolean }) => void;
+  'move-error': (payload: ErrorPayload) => void;
+  'game-state-error': (payload: ErrorPayload) => void;
+  'game-events-error': (payload: ErrorPayload) => void;
+
+  // Draw offers and takeback requests
+  'proposal-updated': (payload: ProposalPayload) => void;
+  'proposal-resolved': (payload: { roomId: string; kind: ProposalKind; result: ProposalResult; playerId?: string }) => void;
+  'move-taken-back': (payload: { playerId: string; cellIndex: number; size: Size; gameState: GameStateSnapshot }) => void;
+  'proposal-error': (payload: ErrorPayload) => void;
+
+  // Pause (requested by a player, or the player to move dropped) and resume after a countdown
+  'game-paused': (payload: { roomId: string; reason: PauseReason; playerId: string; gameState: GameStateSnapshot }) => void;
+  'game-resuming': (payload: { roomId: string; resumeAt: number }) => void;
+  'game-resumed': (payload: { roomId: string; gameState: GameStateSnapshot }) => void;
+  'pause-error': (payload: ErrorPayload) => void;
+
+  // Replay vote
+  'replay-voting-started': (payload: ReplayVotingPayload) => void;
+  'replay-vote-updated': (payload: ReplayVotingPayload) => void;
+  'replay-rejected': () => void;
+  'replay-timeout': (payload: { message: string }) => void;
+  'replay-vote-error': (payload: ErrorPayload) => void;
+
+  // Room chat (players post, spectators read)
+  'chat-message': (payload: { roomId: string; message: ChatMessage }) => void;
+  'chat-history': (payload: { roomId: string; messages: ChatMessage[]; mutedPlayerIds: string[] }) => void;
+  'player-muted': (payload: { roomId: string; playerId: string; muted: boolean }) => void;
+  'chat-error': (payload: ErrorPayload) => void;
+}
+
+// Check whether the server can talk to a client of the given protocol version
+// (a client without a version predates the handshake). A client newer than the server is
+// let in: during a rolling deploy it may reach a node that is not updated yet, and a reload
+// would not help it.
+export function checkProtocolVersion(clientVersion: unknown): HandshakeStatus {
+  const supported = typeof clientVersion === 'number'
+    && Number.isInteger(clientVersion)
+    && clientVersion >= MIN_PROTOCOL_VERSION;
+  return supported ? 'accepted' : 'upgrade-required';
+}
+
+// Payload of a server event
+export type ServerEventPayload<E extends keyof ServerToClientEvents> = Parameters<ServerToClientEvents[E]>[0];
+
+// Validate the payload of a client event, or describe why it is invalid
+export function parseClientPayload<E extends ClientEventWithPayload>(
+  event: E,
+  payload: unknown
+): { success: true; data: ClientEventPayload<E> } | { success: false; error: ErrorPayload } {
+  const parsed = CLIENT_EVENT_SCHEMAS[event].safeParse(payload);
+  if (parsed.success) {
+    return { success: true, data: parsed.data as ClientEventPayload<E> };
+  }
+
+  return {
+    success: false,
+    error: {
+      message: 'Invalid payload',
+      issues: parsed.error.issues.map(issue => `${issue.path.join('.') || event}: ${issue.message}`),
+    },
+  };
+}
@@ -16,19 +16,73 @@ export const CellSchema = z.object({
 
 export type Cell = z.infer<typeof CellSchema>;
 
-// Board is 3x3 = 9 cells
-export const BoardSchema = z.array(CellSchema).length(9);
+// Board is N x N cells (3x3 by default, up to 5x5), stored row by row
+export const BOARD_SIZES = [3, 4, 5] as const;
+export type BoardSize = typeof BOARD_SIZES[number];
+
+export const BoardSchema = z.array(CellSchema).refine(
+  board => BOARD_SIZES.some(size => board.length === size * size),
+  { message: 'Board must be 3x3, 4x4 or 5x5' }
+);
 export type Board = z.infer<typeof BoardSchema>;
 
+// Win conditions (RULES.md §5 and §10)
+// - visible_line: 3 visible pieces (largest in each cell) of the same color aligned
+// - same_size_line: 3 pieces of the same size and color aligned
+// - ordered_size_line: P-M-G or G-M-P of the same color aligned
+// - stack_complete: P+M+G of the same color nested in one cell
+export const WinConditionSchema = z.enum(['visible_line', 'same_size_line', 'ordered_size_line', 'stack_complete']);
+export type WinCondition = z.infer<typeof WinConditionSchema>;
+
+// Condition that ended the game and the cells that formed it
+export const WinningPatternSchema = z.object({
+  condition: WinConditionSchema,
+  cells: z.array(z.number().int().min(0)),
+});
+
+export type WinningPattern = z.infer<typeof WinningPatternSchema>;
+
+// Rule variants
+// - replace: a larger piece replaces the smaller ones in the cell
+// - stack: a larger piece covers the smaller ones, which stay underneath
+// - nest: any free size slot can be filled, in any order (classic Otrio)
+export const PlacementModeSchema = z.enum(['replace', 'stack', 'nest']);
+export type PlacementMode = z.infer<typeof PlacementModeSchema>;
+
+export const RuleVariantSchema = z.enum(['visible-only', 'classic', 'no-replacement', 'custom']);
+export type RuleVariant = z.infer<typeof RuleVariantSchema>;
+
+export const RuleSetConfigSchema = z.object({
+  variant: RuleVariantSchema,
+  placement: PlacementModeSchema,
+  winConditions: z.array(WinConditionSchema).min(1),
+  inventory: z.object({
+    P: z.number().int().min(0).max(9),
+    M: z.number().int().min(0).max(9),
+    G: z.number().int().min(0).max(9),
+  }),
+  boardSize: z.number().int().min(3).max(5),
+  lineLength: z.number().int().min(3).max(5), // "K in a row"
+}).refine(config => config.lineLength <= config.boardSize, {
+  message: 'Line length cannot exceed board size',
+  path: ['lineLength'],
+});
+
+export type RuleSetConfig = z.infer<typeof RuleSetConfigSchema>;
+
+// Computer opponent difficulty levels
+export const BotDifficultySchema = z.enum(['easy', 'medium', 'hard']);
+export type BotDifficulty = z.infer<typeof BotDifficultySchema>;
+
 // Player
 export const PlayerSchema = z.object({
   id: z.string().uuid(),
   nickname: z.string().min(1).max(20),
   color: ColorSchema,
   inventory: z.object({
-    P: z.number().int().min(0).max(3),
-    M: z.number().int().min(0).max(3),
-    G: z.number().int().min(0).max(3),
+    P: z.number().int().min(0),
+    M: z.number().int().min(0),
+    G: z.number().int().min(0),
   }),
   connected: z.boolean(),
   skipsInARow: z.number().int().min(0),
@@ -59,6 +113,7 @@ export const RoomSchema = z.object({
   expiresAt: z.number(),
   winnerId: z.string().uuid().nullable(),
   isDraw: z.boolean(),
+  rules: RuleSetConfigSchema,
 });
 
 export type Room = z.infer<typeof RoomSchema>;
@@ -67,40 +122,178 @@ export type Room = z.infer<typeof RoomSchema>;
 export const MoveSchema = z.object({
   roomId: z.string().uuid(),
   playerId: z.string().uuid(),
-  cellIndex: z.number().int().min(0).max(8),
+  cellIndex: z.number().int().min(0).max(24),
   size: SizeSchema,
 });
 
 export type Move = z.infer<typeof MoveSchema>;
 
-// Socket events payloads
+// Socket events payloads (client -> server, see socket-events.ts)
+// Room id: the 6-character code the lobby gives a room (e.g. "K3F9QZ"), up to 36 characters
+// so the UUID a room falls back to when created without one is accepted too
+export const RoomIdSchema = z.string().trim().min(1).max(36);
+
+export const PlayerNameSchema = z.string().trim().min(1).max(20);
+
+// Time controls: a limit per move, a chess-clock bank for the whole game, or a bank
+// topped up after each move (Fischer increment)
+export const TimeControlSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('per_move'),
+    moveSeconds: z.number().int().min(5).max(600),
+  }),
+  z.object({
+    type: z.literal('bank'),
+    bankSeconds: z.number().int().min(30).max(3600),
+  }),
+  z.object({
+    type: z.literal('bank_increment'),
+    bankSeconds: z.number().int().min(30).max(3600),
+    incrementSeconds: z.number().int().min(1).max(60),
+  }),
+]);
+
+export type TimeControl = z.infer<typeof TimeControlSchema>;
+
+export const DEFAULT_TIME_CONTROL: TimeControl = { type: 'per_move', moveSeconds: 60 };
+
+// Time left on a turn below which the player is warned
+export const LOW_TIME_WARNING_SECONDS = 10;
+
+// Anti-abuse policy: a player skipped too often is eliminated (skips while disconnected
+// only count if the room says so)
+export const AntiAbusePolicySchema = z.object({
+  enabled: z.boolean(),
+  maxConsecutiveSkips: z.number().int().min(1).max(10), // N skips in a row
+  countDisconnections: z.boolean(),
+  maxTotalSkips: z.number().int().min(1).max(50).nullable(), // Skips over the whole game, null for no cap
+});
+
+export type AntiAbusePolicy = z.infer<typeof AntiAbusePolicySchema>;
+
+export const DEFAULT_ANTI_ABUSE_POLICY: AntiAbusePolicy = {
+  enabled: true,
+  maxConsecutiveSkips: 2,
+  countDisconnections: true,
+  maxTotalSkips: null,
+};
+
 export const CreateRoomPayloadSchema = z.object({
-  name: z.string().min(1).max(50),
-  capacity: z.number().int().min(2).max(4),
-  isPrivate: z.boolean(),
-  code: z.string().optional(),
-  playerNickname: z.string().min(1).max(20),
+  playerName: PlayerNameSchema,
+  roomName: z.string().trim().min(1).max(50).optional(),
+  isPrivate: z.boolean().default(false),
+  capacity: z.number().int().min(2).max(4).default(2),
+  rules: RuleSetConfigSchema.optional(),
+  timeControl: TimeControlSchema.optional(),
+  autoPause: z.boolean().default(false), // Pause instead of skipping when the player to move disconnects
+  antiAbuse: AntiAbusePolicySchema.optional(),
 });
 
 export type CreateRoomPayload = z.infer<typeof CreateRoomPayloadSchema>;
 
 export const JoinRoomPayloadSchema = z.object({
-  roomId: z.string().uuid(),
-  playerNickname: z.string().min(1).max(20),
-  code: z.string().optional(),
+  roomId: RoomIdSchema,
+  playerName: PlayerNameSchema,
+  accessCode: z.string().max(20).optional(),
 });
 
 export type JoinRoomPayload = z.infer<typeof JoinRoomPayloadSchema>;
 
+// Watch a game in progress without a seat
+export const SpectateRoomPayloadSchema = z.object({
+  roomId: RoomIdSchema,
+  accessCode: z.string().max(20).optional(),
+});
+
+export type SpectateRoomPayload = z.infer<typeof SpectateRoomPayloadSchema>;
+
+// Events that only name a room (rejoin-room, get-game-state, stop-spectating)
+export const RoomRequestPayloadSchema = z.object({
+  roomId: RoomIdSchema,
+});
+
+export type RoomRequestPayload = z.infer<typeof RoomRequestPayloadSchema>;
+
+export const AddBotPayloadSchema = z.object({
+  roomId: RoomIdSchema,
+  difficulty: BotDifficultySchema.default('medium'),
+});
+
+export type AddBotPayload = z.infer<typeof AddBotPayloadSchema>;
+
+// Host only: act on another seat of the room (kick, hand over the host role)
+export const PlayerTargetPayloadSchema = z.object({
+  roomId: RoomIdSchema,
+  playerId: z.string().min(1).max(64),
+});
+
+export type PlayerTargetPayload = z.infer<typeof PlayerTargetPayloadSchema>;
+
+export const MakeMovePayloadSchema = z.object({
+  roomId: RoomIdSchema,
+  cellIndex: z.number().int().min(0).max(24),
+  size: SizeSchema,
+});
+
+export type MakeMovePayload = z.infer<typeof MakeMovePayloadSchema>;
+
+// Whole event log, or only the events after a sequence number
+export const GameEventsRequestPayloadSchema = z.object({
+  roomId: RoomIdSchema,
+  since: z.number().int().min(0).optional(),
+});
+
+export type GameEventsRequestPayload = z.infer<typeof GameEventsRequestPayloadSchema>;
+
 export const ReplayVotePayloadSchema = z.object({
-  roomId: z.string().uuid(),
-  playerId: z.string().uuid(),
+  roomId: RoomIdSchema,
   vote: z.boolean(),
 });
 
 export type ReplayVotePayload = z.infer<typeof ReplayVotePayloadSchema>;
 
-// Position type for board positions (0-8 for 3x3 grid)
+// Proposals during a game: a draw offer, a takeback request or a pause request, which
+// every other player still in the game must accept (only the connected ones for a pause)
+export const ProposalKindSchema = z.enum(['draw', 'takeback', 'pause']);
+export type ProposalKind = z.infer<typeof ProposalKindSchema>;
+
+export const ProposalResponsePayloadSchema = z.object({
+  roomId: RoomIdSchema,
+  accept: z.boolean(),
+});
+
+export type ProposalResponsePayload = z.infer<typeof ProposalResponsePayloadSchema>;
+
+// Room chat
+export const CHAT_MAX_LENGTH = 200;
+
+export const ChatMessageSchema = z.object({
+  id: z.string(),
+  playerId: z.string(),
+  nickname: z.string(),
+  text: z.string().max(CHAT_MAX_LENGTH),
+  sentAt: z.number(),
+});
+
+export type ChatMessage = z.infer<typeof ChatMessageSchema>;
+
+export const SendChatMessagePayloadSchema = z.object({
+  roomId: RoomIdSchema,
+  text: z.string().trim().min(1).max(CHAT_MAX_LENGTH),
+});
+
+export type SendChatMessagePayload = z.infer<typeof SendChatMessagePayloadSchema>;
+
+// Host only: silence a player in the room chat (or give them their voice back)
+export const MutePlayerPayloadSchema = z.object({
+  roomId: RoomIdSchema,
+  playerId: z.string().min(1).max(64),
+  muted: z.boolean(),
+});
+
+export type MutePlayerPayload = z.infer<typeof MutePlayerPayloadSchema>;
+
+// Position type for board positions (0-8 for 3x3 grid, up to 0-24 for 5x5)
 export type Position = number;
 
 // Board state type
@@ -119,3 +312,172 @@ export const GameResultSchema = z.object({
 });
 
 export type GameResult = z.infer<typeof GameResultSchema>;
+
+// Game event log
+// Server games are event-sourced: every state change is appended to an ordered,
+// timestamped log, and replaying the log rebuilds the exact same game
+export const SkipReasonSchema = z.enum(['timeout', 'disconnection', 'no_moves']);
+export type SkipReason = z.infer<typeof SkipReasonSchema>;
+
+// Why a game was paused: asked by a player and accepted by the others, or the player to move dropped
+export const PauseReasonSchema = z.enum(['request', 'disconnection']);
+export type PauseReason = z.infer<typeof PauseReasonSchema>;
+
+// Why a player was eliminated: too many skips in a row or over the game, or an empty time bank
+export const EliminationReasonSchema = z.enum(['consecutive_skips', 'total_skips', 'out_of_time']);
+export type EliminationReason = z.infer<typeof EliminationReasonSchema>;
+
+// Why a game ended: a winning line, no move left for anyone, a player leaving (RULES.md §8.4),
+// the last player still in the game, a draw agreed by all players or the others out of time
+export const GameEndReasonSchema = z.enum(['line', 'draw', 'forfeit', 'last_player', 'agreement', 'timeout']);
+export type GameEndReason = z.infer<typeof GameEndReasonSchema>;
+
+// Seat as it was when the game started
+export const GameEventPlayerSchema = z.object({
+  id: z.string(),
+  nickname: z.string().min(1).max(20),
+  color: ColorSchema,
+  connected: z.boolean(),
+  isHost: z.boolean(),
+  isBot: z.boolean(),
+  botDifficulty: BotDifficultySchema.nullable(),
+});
+
+export type GameEventPlayer = z.infer<typeof GameEventPlayerSchema>;
+
+const GameEventBaseSchema = z.object({
+  seq: z.number().int().min(0), // position in the log, starting at 0
+  timestamp: z.number(),
+});
+
+export const GameEventSchema = z.discriminatedUnion('type', [
+  GameEventBaseSchema.extend({
+    type: z.literal('started'),
+    players: z.array(GameEventPlayerSchema).min(2).max(4),
+    firstPlayerId: z.string(),
+    rules: RuleSetConfigSchema,
+    timeControl: TimeControlSchema.optional(), // absent from games logged before time controls
+    antiAbuse: AntiAbusePolicySchema.optional(), // absent from games logged before anti-abuse policies
+  }),
+  GameEventBaseSchema.extend({
+    type: z.literal('placement'),
+    playerId: z.string(),
+    cellIndex: z.number().int().min(0).max(24),
+    size: SizeSchema,
+  }),
+  GameEventBaseSchema.extend({
+    type: z.literal('takeback'), // Undoes the last placement, accepted by the other players
+    playerId: z.string(),
+    cellIndex: z.number().int().min(0).max(24),
+    size: SizeSchema,
+    previousCell: CellSchema, // Cell before the placement (replace mode may have removed pieces)
+    // Time banks and anti-abuse skip counters before the placement (absent from games logged before them)
+    clocks: z.record(z.string(), z.number().min(0)).optional(),
+    skips: z.record(z.string(), z.object({ inARow: z.number().int().min(0), total: z.number().int().min(0) })).optional(),
+  }),
+  GameEventBaseSchema.extend({
+    type: z.literal('turn'),
+    playerId: z.string(),
+  }),
+  GameEventBaseSchema.extend({
+    type: z.literal('skip'),
+    playerId: z.string(),
+    reason: SkipReasonSchema,
+  }),
+  GameEventBaseSchema.extend({
+    type: z.literal('paused'), // Turn clocks stand still until the game is resumed
+    reason: PauseReasonSchema,
+    playerId: z.string(), // Who asked for the pause, or who dropped
+  }),
+  GameEventBaseSchema.extend({
+    type: z.literal('resumed'),
+  }),
+  GameEventBaseSchema.extend({
+    type: z.literal('elimination'),
+    playerId: z.string(),
+    reason: EliminationReasonSchema.optional(), // absent from games logged before anti-abuse policies
+  }),
+  GameEventBaseSchema.extend({
+    type: z.literal('forfeit'),
+    playerId: z.string(),
+  }),
+  GameEventBaseSchema.extend({
+    type: z.literal('disconnect'),
+    playerId: z.string(),
+  }),
+  GameEventBaseSchema.extend({
+    type: z.literal('replaced'), // A bot took the seat of a player gone for good
+    playerId: z.string(),
+    difficulty: BotDifficultySchema,
+  }),
+  GameEventBaseSchema.extend({
+    type: z.literal('reconnect'),
+    playerId: z.string(),
+  }),
+  GameEventBaseSchema.extend({
+    type: z.literal('finished'),
+    winnerId: z.string().nullable(),
+    isDraw: z.boolean(),
+    winningPattern: WinningPatternSchema.nullable(),
+    reason: GameEndReasonSchema.optional(), // absent from games logged before end reasons
+  }),
+]);
+
+export type GameEvent = z.infer<typeof GameEventSchema>;
+export type GameEventType = GameEvent['type'];
+
+// Game notation
+// Text record of a game, e.g. `R:G4 B:M0 R:-` after a header of players, rules and result
+export const NotationPlayerSchema = z.object({
+  color: ColorSchema,
+  name: z.string().min(1).max(20),
+});
+
+export type NotationPlayer = z.infer<typeof NotationPlayerSchema>;
+
+export const NotationMoveSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('placement'),
+    color: ColorSchema,
+    cellIndex: z.number().int().min(0).max(24),
+    size: SizeSchema,
+  }),
+  z.object({
+    type: z.literal('skip'),
+    color: ColorSchema,
+  }),
+]);
+
+export type NotationMove = z.infer<typeof NotationMoveSchema>;
+
+// Winner color, 'draw', or null while the game is unfinished
+export const NotationResultSchema = z.union([ColorSchema, z.literal('draw')]).nullable();
+export type NotationResult = z.infer<typeof NotationResultSchema>;
+
+export const NotationGameSchema = z.object({
+  players: z.array(NotationPlayerSchema).min(2).max(4),
+  rules: RuleSetConfigSchema,
+  result: NotationResultSchema,
+  moves: z.array(NotationMoveSchema),
+}).superRefine((game, ctx) => {
+  const colors = game.players.map(player => player.color);
+  if (new Set(colors).size !== colors.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Each player needs a different color', path: ['players'] });
+  }
+
+  const cellCount = game.rules.boardSize * game.rules.boardSize;
+  game.moves.forEach((move, index) => {
+    if (!colors.includes(move.color)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `No player plays ${move.color}`, path: ['moves', index] });
+    }
+    if (move.type === 'placement' && move.cellIndex >= cellCount) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Cell outside the board', path: ['moves', index] });
+    }
+  });
+
+  if (game.result && game.result !== 'draw' && !colors.includes(game.result)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `No player plays ${game.result}`, path: ['result'] });
+  }
+});
+
+export type NotationGame = z.infer<typeof NotationGameSchema>;